@@ -0,0 +1,301 @@
+/**
+ * Antichess (losing chess) rules
+ * Captures are compulsory: when a capture is available the side to move must pick one of them.
+ * The king has no royal status, so there is no check and no castling, and it can be taken like
+ * any other piece. A player wins by losing all their pieces or by having no move on their turn.
+ *
+ * Board moves come from `LightRules` without its king safety rules. Promotion to a king, which
+ * some servers allow, is not offered since board moves promote to queen, rook, bishop or knight.
+ */
+
+import { findBoardMove, formatBoardSan, isCaptureMove } from './BoardNotation';
+import { LightRules } from './LightRules';
+import { PgnNotation } from './PgnNotation';
+import type {
+  Color,
+  Move,
+  RulesAdapter,
+  RulesMoveDetail,
+  RulesMoveResponse,
+  Square,
+} from './types';
+import { parseFEN, type ParsedFENState } from './utils';
+import type { VariantOutcome } from './VariantRules';
+import {
+  canRedo,
+  canUndo,
+  createHistoryStore,
+  getCurrentFen,
+  getHistory,
+  getLastMoveState,
+  getVerboseHistory,
+  makeMove,
+  redo as redoHistory,
+  reset as resetHistory,
+  undo as undoHistory,
+} from './state/historyStore';
+
+export const ANTICHESS_START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1';
+
+const FIFTY_MOVE_HALFMOVES = 100;
+
+/**
+ * The castling field of a FEN cleared, since kings do not castle in Antichess
+ */
+function withoutCastling(fen: string): string {
+  const parts = fen.trim().split(/\s+/);
+  if (parts.length > 2) parts[2] = '-';
+  return parts.join(' ');
+}
+
+/**
+ * Rules adapter for Antichess. Moves are given as `{ from, to, promotion }`, SAN or UCI.
+ */
+export class AntichessRules implements RulesAdapter {
+  public readonly supportsSanMoves = true;
+  /** Board of the current position, for pseudo-legal move generation */
+  private readonly board = new LightRules({ pseudoLegal: true });
+  private state: ParsedFENState = parseFEN(ANTICHESS_START_FEN);
+  private historyStore = createHistoryStore(ANTICHESS_START_FEN);
+  private readonly pgnNotation = new PgnNotation();
+
+  constructor(fen: string = ANTICHESS_START_FEN) {
+    this.pgnNotation.setMetadata({ Variant: 'Antichess' });
+    this.setFEN(fen);
+  }
+
+  reset(): void {
+    this.setFEN(ANTICHESS_START_FEN);
+  }
+
+  /**
+   * Load a position; its castling rights are dropped
+   */
+  setFEN(fen: string): void {
+    this.load(withoutCastling(fen));
+    this.historyStore = resetHistory(this.historyStore, this.board.getFEN());
+  }
+
+  getFEN(): string {
+    return getCurrentFen(this.historyStore);
+  }
+
+  turn(): Color {
+    return this.state.turn;
+  }
+
+  pieceAt(square: Square): string | null {
+    return this.board.pieceAt(square);
+  }
+
+  movesFrom(square: Square): Move[] {
+    return this.getAllMoves().filter((move) => move.from === square);
+  }
+
+  /**
+   * Get every legal move in the current position: the captures when there are any
+   */
+  getAllMoves(): Move[] {
+    const moves = this.board.getAllMoves().map((move) => this.withCapture(move));
+    const captures = moves.filter((move) => move.captured);
+    return captures.length > 0 ? captures : moves;
+  }
+
+  /**
+   * Check whether the side to move has a capture, and so must capture
+   */
+  mustCapture(): boolean {
+    return this.board
+      .getAllMoves()
+      .some((move) => isCaptureMove(move, (square) => this.pieceAt(square)));
+  }
+
+  move(move: string): RulesMoveResponse;
+  move(move: { from: Square; to: Square; promotion?: Move['promotion'] }): RulesMoveResponse;
+  move(
+    moveData: string | { from: Square; to: Square; promotion?: Move['promotion'] },
+  ): RulesMoveResponse {
+    if (typeof moveData === 'string') {
+      return this.moveFromNotation(moveData);
+    }
+
+    const { from, to, promotion } = moveData;
+    const moves = this.getAllMoves();
+    const legal = moves
+      .filter((move) => move.from === from && move.to === to)
+      .find((move) => (move.promotion ?? 'q') === (promotion ?? 'q'));
+    if (!legal) {
+      return { ok: false, reason: this.mustCapture() ? 'capture required' : 'illegal' };
+    }
+
+    const san = formatBoardSan(legal, (square) => this.pieceAt(square), moves);
+    const response = this.board.move({ from, to, promotion: legal.promotion });
+    if (!response.ok) return response;
+
+    const fen = this.board.getFEN();
+    this.state = parseFEN(fen);
+    const detail: RulesMoveDetail = {
+      from,
+      to,
+      san,
+      ...(legal.promotion ? { promotion: legal.promotion } : {}),
+      ...(legal.captured ? { captured: legal.captured } : {}),
+    };
+    this.historyStore = makeMove(this.historyStore, { fen, move: detail });
+    return { ok: true, fen, move: detail };
+  }
+
+  undo(): boolean {
+    const { state, previous } = undoHistory(this.historyStore);
+    if (!previous) return false;
+    this.historyStore = state;
+    this.load(previous.fen);
+    return true;
+  }
+
+  redo(): boolean {
+    const { state, next } = redoHistory(this.historyStore);
+    if (!next) return false;
+    this.historyStore = state;
+    this.load(next.fen);
+    return true;
+  }
+
+  canUndo(): boolean {
+    return canUndo(this.historyStore);
+  }
+
+  canRedo(): boolean {
+    return canRedo(this.historyStore);
+  }
+
+  getLastMove(): RulesMoveDetail | null {
+    const move = getLastMoveState(this.historyStore)?.move;
+    return move ? { ...move } : null;
+  }
+
+  history(): string[] {
+    return getHistory(this.historyStore);
+  }
+
+  getHistory(): RulesMoveDetail[] {
+    return getVerboseHistory(this.historyStore);
+  }
+
+  /**
+   * The side to move wins when it has no move left, having lost all its pieces or being blocked
+   */
+  getVariantOutcome(): VariantOutcome | null {
+    if (this.board.getAllMoves().length > 0) return null;
+    return { result: this.turn() === 'w' ? '1-0' : '0-1', reason: 'noMovesLeft' };
+  }
+
+  /**
+   * Kings are never in check in Antichess
+   */
+  inCheck(): boolean {
+    return false;
+  }
+
+  isCheckmate(): boolean {
+    return false;
+  }
+
+  /**
+   * A blocked side wins instead of drawing, see `getVariantOutcome`
+   */
+  isStalemate(): boolean {
+    return false;
+  }
+
+  /**
+   * Check whether the game is drawn: fifty-move rule, insufficient material or threefold
+   * repetition
+   */
+  isDraw(): boolean {
+    if (this.getVariantOutcome()) return false;
+    return (
+      this.state.halfmove >= FIFTY_MOVE_HALFMOVES ||
+      this.isInsufficientMaterial() ||
+      this.isThreefoldRepetition()
+    );
+  }
+
+  /**
+   * Check whether no piece can ever be taken: each side has only bishops, all on squares of one
+   * colour, and the two sides' bishops on different colours
+   */
+  isInsufficientMaterial(): boolean {
+    const squareColors: Record<Color, Set<number>> = { w: new Set(), b: new Set() };
+    for (const [rank, row] of this.state.board.entries()) {
+      for (const [file, piece] of row.entries()) {
+        if (!piece) continue;
+        if (piece.toLowerCase() !== 'b') return false;
+        squareColors[piece === 'B' ? 'w' : 'b'].add((file + rank) % 2);
+      }
+    }
+    const [white] = squareColors.w;
+    const [black] = squareColors.b;
+    return squareColors.w.size === 1 && squareColors.b.size === 1 && white !== black;
+  }
+
+  /**
+   * Check whether the current position has occurred three times
+   */
+  isThreefoldRepetition(): boolean {
+    const key = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+    const { past, present } = this.historyStore;
+    const current = key(present.fen);
+    return past.filter((entry) => key(entry.fen) === current).length >= 2;
+  }
+
+  isGameOver(): boolean {
+    return this.getVariantOutcome() !== null || this.isDraw();
+  }
+
+  getGameResult(): '1-0' | '0-1' | '1/2-1/2' | '*' {
+    const outcome = this.getVariantOutcome();
+    if (outcome) return outcome.result;
+    return this.isDraw() ? '1/2-1/2' : '*';
+  }
+
+  /**
+   * Headers read by `PgnNotation`: the start position when the game did not begin from the
+   * initial one
+   */
+  getHeaders(): Record<string, string> {
+    const initial = this.historyStore.past[0]?.fen ?? this.getFEN();
+    return initial === ANTICHESS_START_FEN ? {} : { FEN: initial };
+  }
+
+  /**
+   * Export the game as PGN with the `Variant "Antichess"` tag
+   */
+  toPgn(includeHeaders: boolean = true): string {
+    this.pgnNotation.importFromChessJs(this);
+    this.pgnNotation.setResult(this.getGameResult());
+    return this.pgnNotation.toPgn(includeHeaders);
+  }
+
+  getPgnNotation(): PgnNotation {
+    return this.pgnNotation;
+  }
+
+  private load(fen: string): void {
+    this.board.setFEN(fen);
+    this.state = parseFEN(this.board.getFEN());
+  }
+
+  private withCapture(move: Move): Move {
+    const target = this.pieceAt(move.to);
+    return target && !move.ep && isCaptureMove(move, (square) => this.pieceAt(square))
+      ? { ...move, captured: target.toLowerCase() }
+      : move;
+  }
+
+  private moveFromNotation(notation: string): RulesMoveResponse {
+    const match = findBoardMove(notation, (square) => this.pieceAt(square), this.getAllMoves());
+    if (!match) return { ok: false, reason: `Invalid move: ${notation}` };
+    return this.move(match);
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * Atomic rules
+ * A capture sets off an explosion on the capture square: the capturing piece, the captured piece
+ * and every piece but pawns on the eight surrounding squares leave the board. Blowing up the
+ * enemy king wins. Kings may not capture, no move may blow up the own king, and kings standing
+ * next to each other cannot be checked since neither may be taken without the other.
+ *
+ * Board moves come from `LightRules` without its king safety rules; this adapter decides which
+ * of them are legal and plays the explosions.
+ */
+
+import { findBoardMove, formatBoardSan, formatFen, isCaptureMove } from './BoardNotation';
+import { LightRules } from './LightRules';
+import { PgnNotation } from './PgnNotation';
+import type {
+  Color,
+  Move,
+  RulesAdapter,
+  RulesMoveDetail,
+  RulesMoveResponse,
+  Square,
+} from './types';
+import { FILES, RANKS, START_FEN, isWhitePiece, parseFEN, type ParsedFENState } from './utils';
+import type { VariantOutcome } from './VariantRules';
+import {
+  canRedo,
+  canUndo,
+  createHistoryStore,
+  getCurrentFen,
+  getHistory,
+  getLastMoveState,
+  getVerboseHistory,
+  makeMove,
+  redo as redoHistory,
+  reset as resetHistory,
+  undo as undoHistory,
+} from './state/historyStore';
+
+type Board = ParsedFENState['board'];
+
+const FIFTY_MOVE_HALFMOVES = 100;
+
+const squareAt = (file: number, rank: number) => `${FILES[file]}${RANKS[rank]}` as Square;
+const fileOf = (square: Square) => FILES.indexOf(square[0] as (typeof FILES)[number]);
+const rankOf = (square: Square) => Number(square.slice(1)) - 1;
+const colorOf = (piece: string): Color => (isWhitePiece(piece) ? 'w' : 'b');
+const opponent = (color: Color): Color => (color === 'w' ? 'b' : 'w');
+const areAdjacent = (a: Square, b: Square) =>
+  Math.abs(fileOf(a) - fileOf(b)) <= 1 && Math.abs(rankOf(a) - rankOf(b)) <= 1;
+
+function findKing(board: Board, color: Color): Square | null {
+  const king = color === 'w' ? 'K' : 'k';
+  for (let rank = 0; rank < 8; rank++) {
+    const file = board[rank].indexOf(king);
+    if (file !== -1) return squareAt(file, rank);
+  }
+  return null;
+}
+
+/**
+ * Whether a piece of `by` other than its king, which never captures, can take on a square
+ */
+function isAttackedByPieces(fen: string, square: Square, by: Color): boolean {
+  const [placement] = fen.split(' ');
+  const probe = new LightRules({ pseudoLegal: true });
+  probe.setFEN(`${placement} ${by} - - 0 1`);
+  return probe
+    .getAllMoves()
+    .some((move) => move.to === square && probe.pieceAt(move.from)?.toLowerCase() !== 'k');
+}
+
+/**
+ * Castling rights whose king and rook survived an explosion
+ */
+function keptCastling(board: Board, castling: string): string {
+  const kept = [...castling].filter((right) => {
+    if (right === '-') return false;
+    const white = isWhitePiece(right);
+    const row = board[white ? 0 : 7];
+    const king = row.indexOf(white ? 'K' : 'k');
+    const rook = white ? 'R' : 'r';
+    if (king === -1) return false;
+    const side = right.toLowerCase();
+    if (side === 'k') return row.slice(king + 1).includes(rook);
+    if (side === 'q') return row.slice(0, king).includes(rook);
+    return row[FILES.indexOf(side as (typeof FILES)[number])] === rook;
+  });
+  return kept.join('') || '-';
+}
+
+/**
+ * Rules adapter for Atomic chess. Moves are given as `{ from, to, promotion }`, SAN or UCI. The
+ * detail of a capture lists the squares its explosion emptied in `exploded`.
+ */
+export class AtomicRules implements RulesAdapter {
+  public readonly supportsSanMoves = true;
+  /** Board of the current position, for pseudo-legal move generation */
+  private readonly board = new LightRules({ pseudoLegal: true });
+  private state: ParsedFENState = parseFEN(START_FEN);
+  private historyStore = createHistoryStore(START_FEN);
+  private readonly pgnNotation = new PgnNotation();
+
+  constructor(fen: string = START_FEN) {
+    this.pgnNotation.setMetadata({ Variant: 'Atomic' });
+    this.setFEN(fen);
+  }
+
+  reset(): void {
+    this.setFEN(START_FEN);
+  }
+
+  setFEN(fen: string): void {
+    this.load(fen);
+    this.historyStore = resetHistory(this.historyStore, this.board.getFEN());
+  }
+
+  getFEN(): string {
+    return getCurrentFen(this.historyStore);
+  }
+
+  turn(): Color {
+    return this.state.turn;
+  }
+
+  pieceAt(square: Square): string | null {
+    return this.board.pieceAt(square);
+  }
+
+  movesFrom(square: Square): Move[] {
+    return this.legalMoves(this.board.movesFrom(square));
+  }
+
+  /**
+   * Get every legal move in the current position
+   */
+  getAllMoves(): Move[] {
+    return this.legalMoves(this.board.getAllMoves());
+  }
+
+  move(move: string): RulesMoveResponse;
+  move(move: { from: Square; to: Square; promotion?: Move['promotion'] }): RulesMoveResponse;
+  move(
+    moveData: string | { from: Square; to: Square; promotion?: Move['promotion'] },
+  ): RulesMoveResponse {
+    if (typeof moveData === 'string') {
+      return this.moveFromNotation(moveData);
+    }
+
+    const { from, to, promotion } = moveData;
+    const legal = this.movesFrom(from)
+      .filter((move) => move.to === to)
+      .find((move) => (move.promotion ?? 'q') === (promotion ?? 'q'));
+    if (!legal) return { ok: false, reason: 'illegal' };
+
+    const san = formatBoardSan(legal, (square) => this.pieceAt(square), this.getAllMoves());
+    const { fen, exploded } = this.play(legal);
+    this.load(fen);
+
+    let suffix = '';
+    if (this.getVariantOutcome()) {
+      suffix = '#';
+    } else if (this.inCheck()) {
+      suffix = this.hasLegalMove() ? '+' : '#';
+    }
+    const detail: RulesMoveDetail = {
+      from,
+      to,
+      san: `${san}${suffix}`,
+      ...(legal.promotion ? { promotion: legal.promotion } : {}),
+      ...(legal.captured ? { captured: legal.captured, exploded } : {}),
+    };
+    this.historyStore = makeMove(this.historyStore, { fen, move: detail });
+    return { ok: true, fen, move: detail };
+  }
+
+  undo(): boolean {
+    const { state, previous } = undoHistory(this.historyStore);
+    if (!previous) return false;
+    this.historyStore = state;
+    this.load(previous.fen);
+    return true;
+  }
+
+  redo(): boolean {
+    const { state, next } = redoHistory(this.historyStore);
+    if (!next) return false;
+    this.historyStore = state;
+    this.load(next.fen);
+    return true;
+  }
+
+  canUndo(): boolean {
+    return canUndo(this.historyStore);
+  }
+
+  canRedo(): boolean {
+    return canRedo(this.historyStore);
+  }
+
+  getLastMove(): RulesMoveDetail | null {
+    const move = getLastMoveState(this.historyStore)?.move;
+    return move ? { ...move } : null;
+  }
+
+  history(): string[] {
+    return getHistory(this.historyStore);
+  }
+
+  getHistory(): RulesMoveDetail[] {
+    return getVerboseHistory(this.historyStore);
+  }
+
+  /**
+   * The game ends as soon as a king is blown up
+   */
+  getVariantOutcome(): VariantOutcome | null {
+    if (!findKing(this.state.board, 'w')) return { result: '0-1', reason: 'kingExploded' };
+    if (!findKing(this.state.board, 'b')) return { result: '1-0', reason: 'kingExploded' };
+    return null;
+  }
+
+  /**
+   * Check whether the side to move is in check: its king can be taken and does not stand next
+   * to the enemy king
+   */
+  inCheck(): boolean {
+    const color = this.turn();
+    const king = findKing(this.state.board, color);
+    const enemyKing = findKing(this.state.board, opponent(color));
+    if (!king || !enemyKing || areAdjacent(king, enemyKing)) return false;
+    return isAttackedByPieces(this.getFEN(), king, opponent(color));
+  }
+
+  isCheckmate(): boolean {
+    return !this.getVariantOutcome() && this.inCheck() && !this.hasLegalMove();
+  }
+
+  isStalemate(): boolean {
+    return !this.getVariantOutcome() && !this.inCheck() && !this.hasLegalMove();
+  }
+
+  /**
+   * Check whether the game is drawn: stalemate, fifty-move rule, insufficient material or
+   * threefold repetition
+   */
+  isDraw(): boolean {
+    if (this.getVariantOutcome()) return false;
+    return (
+      this.isStalemate() ||
+      this.state.halfmove >= FIFTY_MOVE_HALFMOVES ||
+      this.isInsufficientMaterial() ||
+      this.isThreefoldRepetition()
+    );
+  }
+
+  /**
+   * Check whether no king can be blown up any more: bare kings, or a single minor piece left
+   */
+  isInsufficientMaterial(): boolean {
+    const pieces = this.state.board.flat().filter((piece) => piece && piece.toLowerCase() !== 'k');
+    return pieces.length === 0 || (pieces.length === 1 && /^[bn]$/i.test(pieces[0] ?? ''));
+  }
+
+  /**
+   * Check whether the current position has occurred three times
+   */
+  isThreefoldRepetition(): boolean {
+    const key = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+    const { past, present } = this.historyStore;
+    const current = key(present.fen);
+    return past.filter((entry) => key(entry.fen) === current).length >= 2;
+  }
+
+  isGameOver(): boolean {
+    return this.getVariantOutcome() !== null || this.isCheckmate() || this.isDraw();
+  }
+
+  getGameResult(): '1-0' | '0-1' | '1/2-1/2' | '*' {
+    const outcome = this.getVariantOutcome();
+    if (outcome) return outcome.result;
+    if (this.isCheckmate()) {
+      return this.turn() === 'w' ? '0-1' : '1-0';
+    }
+    return this.isDraw() ? '1/2-1/2' : '*';
+  }
+
+  /**
+   * Headers read by `PgnNotation`: the start position when the game did not begin from the
+   * initial one
+   */
+  getHeaders(): Record<string, string> {
+    const initial = this.historyStore.past[0]?.fen ?? this.getFEN();
+    return initial === START_FEN ? {} : { FEN: initial };
+  }
+
+  /**
+   * Export the game as PGN with the `Variant "Atomic"` tag
+   */
+  toPgn(includeHeaders: boolean = true): string {
+    this.pgnNotation.importFromChessJs(this);
+    this.pgnNotation.setResult(this.getGameResult());
+    return this.pgnNotation.toPgn(includeHeaders);
+  }
+
+  getPgnNotation(): PgnNotation {
+    return this.pgnNotation;
+  }
+
+  private load(fen: string): void {
+    this.board.setFEN(fen);
+    this.state = parseFEN(this.board.getFEN());
+  }
+
+  private legalMoves(moves: Move[]): Move[] {
+    if (this.getVariantOutcome()) return [];
+    return moves.filter((move) => this.isLegal(move)).map((move) => this.withCapture(move));
+  }
+
+  private hasLegalMove(): boolean {
+    return this.board.getAllMoves().some((move) => this.isLegal(move));
+  }
+
+  /**
+   * Kings may not capture, and a move must leave the own king on the board and out of check
+   * unless it blows up the enemy king
+   */
+  private isLegal(move: Move): boolean {
+    const mover = this.pieceAt(move.from);
+    if (!mover) return false;
+    if (mover.toLowerCase() === 'k' && isCaptureMove(move, (square) => this.pieceAt(square))) {
+      return false;
+    }
+
+    const color = colorOf(mover);
+    const { fen } = this.play(move);
+    const { board } = parseFEN(fen);
+    const king = findKing(board, color);
+    const enemyKing = findKing(board, opponent(color));
+    if (!king) return false;
+    if (!enemyKing || areAdjacent(king, enemyKing)) return true;
+    return !isAttackedByPieces(fen, king, opponent(color));
+  }
+
+  /**
+   * Position after a move, with the squares its explosion emptied
+   */
+  private play(move: Move): { fen: string; exploded: Square[] } {
+    const capture = isCaptureMove(move, (square) => this.pieceAt(square));
+    const probe = new LightRules({ pseudoLegal: true });
+    probe.setFEN(this.board.getFEN());
+    probe.move({ from: move.from, to: move.to, promotion: move.promotion });
+    if (!capture) return { fen: probe.getFEN(), exploded: [] };
+
+    const state = parseFEN(probe.getFEN());
+    const file = fileOf(move.to);
+    const rank = rankOf(move.to);
+    const exploded: Square[] = [move.to];
+    if (move.ep) exploded.push(squareAt(file, rankOf(move.from)));
+    state.board[rank][file] = null;
+    for (let df = -1; df <= 1; df++) {
+      for (let dr = -1; dr <= 1; dr++) {
+        const piece = state.board[rank + dr]?.[file + df];
+        if (!piece || piece.toLowerCase() === 'p' || (!df && !dr)) continue;
+        state.board[rank + dr][file + df] = null;
+        exploded.push(squareAt(file + df, rank + dr));
+      }
+    }
+    state.castling = keptCastling(state.board, state.castling);
+    return { fen: formatFen(state), exploded };
+  }
+
+  private withCapture(move: Move): Move {
+    const target = this.pieceAt(move.to);
+    return target && !move.ep && isCaptureMove(move, (square) => this.pieceAt(square))
+      ? { ...move, captured: target.toLowerCase() }
+      : move;
+  }
+
+  private moveFromNotation(notation: string): RulesMoveResponse {
+    const match = findBoardMove(notation, (square) => this.pieceAt(square), this.getAllMoves());
+    if (!match) return { ok: false, reason: `Invalid move: ${notation}` };
+    return this.move(match);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Notation helpers for the rules adapters built on `LightRules` (Crazyhouse, Atomic,
+ * Antichess), which write SAN themselves since `LightRules` does not
+ */
+
+import type { Color, Move, Square } from './types';
+import { FILES, isWhitePiece, type ParsedFENState } from './utils';
+
+export type PieceLookup = (square: Square) => string | null;
+
+const UCI_NOTATION_REGEX = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/;
+const SAN_SUFFIX_REGEX = /[+#!?]+$/;
+const CASTLING_ZEROES_REGEX = /^0-0(?:-0)?$/;
+/** Piece, origin file and rank, target and promotion of a SAN move, read leniently */
+const SAN_PARTS_REGEX = /^([KQRBN])?([a-h])?([1-8])?x?([a-h][1-8])(?:=?([QRBNqrbn]))?$/;
+
+const fileOf = (square: Square) => FILES.indexOf(square[0] as (typeof FILES)[number]);
+const colorOf = (piece: string): Color => (isWhitePiece(piece) ? 'w' : 'b');
+
+/**
+ * Placement field of a FEN for a board indexed rank 1 first
+ */
+export function formatPlacement(board: ParsedFENState['board']): string {
+  const rows: string[] = [];
+  for (let rank = 7; rank >= 0; rank--) {
+    rows.push(
+      board[rank]
+        .map((piece) => piece ?? '1')
+        .join('')
+        .replaceAll(/1+/g, (run) => String(run.length)),
+    );
+  }
+  return rows.join('/');
+}
+
+/**
+ * FEN of a parsed position
+ */
+export function formatFen(state: ParsedFENState): string {
+  const { board, turn, castling, ep, halfmove, fullmove } = state;
+  return `${formatPlacement(board)} ${turn} ${castling || '-'} ${ep ?? '-'} ${halfmove} ${fullmove}`;
+}
+
+/**
+ * Whether a move takes an enemy piece. Chess960 castling is given as the king taking its own
+ * rook and is not a capture.
+ */
+export function isCaptureMove(move: Move, pieceAt: PieceLookup): boolean {
+  if (move.ep) return true;
+  const mover = pieceAt(move.from);
+  const target = pieceAt(move.to);
+  return !!mover && !!target && colorOf(target) !== colorOf(mover);
+}
+
+/**
+ * SAN of a move without its check or mate suffix. `legalMoves` are the moves of the position,
+ * used to disambiguate pieces of the same kind reaching the same square.
+ */
+export function formatBoardSan(
+  move: Move,
+  pieceAt: PieceLookup,
+  legalMoves: readonly Move[],
+): string {
+  const mover = pieceAt(move.from) ?? '';
+  const type = mover.toLowerCase();
+  const target = pieceAt(move.to);
+
+  if (type === 'k' && target && colorOf(target) === colorOf(mover)) {
+    return fileOf(move.to) > fileOf(move.from) ? 'O-O' : 'O-O-O';
+  }
+  if (type === 'k' && Math.abs(fileOf(move.to) - fileOf(move.from)) === 2) {
+    return fileOf(move.to) > fileOf(move.from) ? 'O-O' : 'O-O-O';
+  }
+
+  const capture = isCaptureMove(move, pieceAt) ? 'x' : '';
+  const promotion = move.promotion ? `=${move.promotion.toUpperCase()}` : '';
+  if (type === 'p') {
+    return `${capture ? move.from[0] : ''}${capture}${move.to}${promotion}`;
+  }
+
+  const rivals = legalMoves.filter(
+    (other) => other.to === move.to && other.from !== move.from && pieceAt(other.from) === mover,
+  );
+  let disambiguation = '';
+  if (rivals.length > 0) {
+    if (rivals.every((other) => other.from[0] !== move.from[0])) {
+      disambiguation = move.from[0];
+    } else if (rivals.every((other) => other.from[1] !== move.from[1])) {
+      disambiguation = move.from.slice(1);
+    } else {
+      disambiguation = move.from;
+    }
+  }
+  return `${type.toUpperCase()}${disambiguation}${capture}${move.to}`;
+}
+
+/**
+ * Strip the check, mate and annotation marks of a move and write castling with letters
+ */
+export function cleanMoveNotation(notation: string): string {
+  const trimmed = notation.trim().replace(SAN_SUFFIX_REGEX, '');
+  return CASTLING_ZEROES_REGEX.test(trimmed) ? trimmed.replaceAll('0', 'O') : trimmed;
+}
+
+/**
+ * Resolve a move written in SAN or UCI against the moves of the position. UCI moves are returned
+ * as written, to be checked by the adapter. SAN is also read the way engines and other GUIs
+ * write it, with more disambiguation than needed (`Ngf3`) or promotions without `=` (`e8Q`).
+ */
+export function findBoardMove(
+  notation: string,
+  pieceAt: PieceLookup,
+  legalMoves: readonly Move[],
+): Move | null {
+  const cleaned = cleanMoveNotation(notation);
+  const uci = UCI_NOTATION_REGEX.exec(cleaned);
+  if (uci) {
+    return {
+      from: uci[1] as Square,
+      to: uci[2] as Square,
+      ...(uci[3] ? { promotion: uci[3] as Move['promotion'] } : {}),
+    };
+  }
+  const exact = legalMoves.find((move) => formatBoardSan(move, pieceAt, legalMoves) === cleaned);
+  return exact ?? findLenientSanMove(cleaned, pieceAt, legalMoves);
+}
+
+/**
+ * The only move matching the piece, target, promotion and the origin file or rank given
+ */
+function findLenientSanMove(
+  san: string,
+  pieceAt: PieceLookup,
+  legalMoves: readonly Move[],
+): Move | null {
+  const parts = SAN_PARTS_REGEX.exec(san);
+  if (!parts) return null;
+  const [, piece = 'P', file, rank, target, promotion = ''] = parts;
+
+  const matches = legalMoves.filter(
+    (move) =>
+      move.to === target &&
+      pieceAt(move.from)?.toUpperCase() === piece &&
+      (!file || move.from[0] === file) &&
+      (!rank || move.from[1] === rank) &&
+      (move.promotion ?? '') === promotion.toLowerCase() &&
+      // A king move onto a castling square is written `O-O` or `O-O-O`
+      !formatBoardSan(move, pieceAt, legalMoves).startsWith('O-O'),
+  );
+  return matches.length === 1 ? matches[0] : null;
+}
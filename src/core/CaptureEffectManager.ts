@@ -21,8 +21,11 @@ interface CaptureEffectManagerOptions {
 
 interface ResolvedCaptureEffectOptions {
   enabled: boolean;
+  /** Atomic explosions, shown unless capture effects are explicitly disabled */
+  explosions: boolean;
   durationMs: number;
   palette: string[];
+  explosionPalette: string[];
   effect: CaptureEffectType;
   renderer?: CaptureEffectOptions['renderer'];
 }
@@ -30,8 +33,20 @@ interface ResolvedCaptureEffectOptions {
 type AnimationFrameCallback = (timestamp: number) => void;
 
 const DEFAULT_PALETTE = ['#fbbf24', '#fb923c', '#f472b6', '#c084fc', '#e0f2fe'];
+const EXPLOSION_PALETTE = ['#fef08a', '#fbbf24', '#f97316', '#dc2626', '#57534e'];
 const DEFAULT_DURATION_MS = 700;
 const DEFAULT_EFFECT: CaptureEffectType = 'sparkles';
+const PARTICLE_COUNTS: Record<CaptureEffectType, number> = {
+  sparkles: 16,
+  ripple: 6,
+  explosion: 28,
+};
+/** Distance particles travel, relative to the size of the effect's container */
+const PARTICLE_SPREAD: Record<CaptureEffectType, number> = {
+  sparkles: 0.55,
+  ripple: 0.35,
+  explosion: 0.5,
+};
 
 export class CaptureEffectManager {
   private overlayRoot: HTMLElement | null;
@@ -62,12 +77,39 @@ export class CaptureEffectManager {
       return;
     }
 
+    this.spawn(from, to, this.getSquareBounds(to), this.options.effect);
+  }
+
+  /**
+   * Blast of an Atomic capture, covering the capture square and the squares around it
+   */
+  public explode(from: Square, to: Square, exploded: Square[]): void {
+    if (!this.options.explosions) {
+      return;
+    }
+
+    const { left, top, size } = this.getSquareBounds(to);
+    this.spawn(
+      from,
+      to,
+      { left: left - size, top: top - size, size: size * 3 },
+      'explosion',
+      exploded,
+    );
+  }
+
+  private spawn(
+    from: Square,
+    to: Square,
+    bounds: CaptureEffectBounds,
+    effect: CaptureEffectType,
+    exploded?: Square[],
+  ): void {
     const overlay = this.overlayRoot;
     if (!overlay) {
       return;
     }
 
-    const bounds = this.getSquareBounds(to);
     const container = this.createContainer(bounds);
     overlay.append(container);
     this.activeContainers.add(container);
@@ -78,9 +120,10 @@ export class CaptureEffectManager {
       to,
       overlay,
       container,
-      palette: this.options.palette,
+      palette: effect === 'explosion' ? this.options.explosionPalette : this.options.palette,
       durationMs: this.options.durationMs,
-      effect: this.options.effect,
+      effect,
+      ...(exploded ? { exploded } : {}),
       board: this.board,
     });
 
@@ -104,16 +147,19 @@ export class CaptureEffectManager {
   }
 
   private resolveOptions(options?: CaptureEffectOptions): ResolvedCaptureEffectOptions {
+    const palette =
+      Array.isArray(options?.palette) && options.palette.length > 0
+        ? options.palette.slice(0, 12)
+        : null;
     return {
       enabled: options?.enabled === true,
+      explosions: options?.enabled !== false,
       durationMs:
         typeof options?.durationMs === 'number' && options.durationMs > 0
           ? Math.floor(options.durationMs)
           : DEFAULT_DURATION_MS,
-      palette:
-        Array.isArray(options?.palette) && options.palette.length > 0
-          ? options.palette.slice(0, 12)
-          : DEFAULT_PALETTE,
+      palette: palette ?? DEFAULT_PALETTE,
+      explosionPalette: palette ?? EXPLOSION_PALETTE,
       effect: options?.effect ?? DEFAULT_EFFECT,
       renderer: options?.renderer,
     };
@@ -158,8 +204,8 @@ export class CaptureEffectManager {
     const { container, palette, durationMs, effect } = params;
     const doc = container.ownerDocument ?? document;
     const baseSize = Math.max(container.clientWidth, container.clientHeight, 1);
-    const particleCount = effect === 'ripple' ? 6 : 16;
-    const radius = effect === 'ripple' ? baseSize * 0.35 : baseSize * 0.55;
+    const particleCount = PARTICLE_COUNTS[effect];
+    const radius = baseSize * PARTICLE_SPREAD[effect];
     const fadeDuration = Math.max(200, Math.min(durationMs, durationMs * 0.5));
     const schedule: (callback: AnimationFrameCallback) => number =
       typeof requestAnimationFrame === 'function'
@@ -219,10 +265,45 @@ export class CaptureEffectManager {
       particles.push(particle);
     }
 
+    if (effect === 'explosion') {
+      particles.push(this.createFlash(container, palette, durationMs));
+    }
+
     setTimeout(() => {
       for (const particle of particles) {
         particle.remove();
       }
     }, durationMs + 60);
   }
+
+  /**
+   * Disc flaring out from the centre of an explosion
+   */
+  private createFlash(
+    container: HTMLElement,
+    palette: string[],
+    durationMs: number,
+  ): HTMLSpanElement {
+    const doc = container.ownerDocument ?? document;
+    const flash = doc.createElement('span');
+    Object.assign(flash.style, {
+      position: 'absolute',
+      inset: '0',
+      borderRadius: '50%',
+      background: `radial-gradient(circle, ${palette[0]} 0%, ${palette[Math.min(2, palette.length - 1)]} 45%, transparent 70%)`,
+      opacity: '0',
+      pointerEvents: 'none',
+    });
+    container.prepend(flash);
+    if (typeof flash.animate === 'function') {
+      flash.animate(
+        [
+          { transform: 'scale(0.2)', opacity: 0.9 },
+          { transform: 'scale(1)', opacity: 0 },
+        ],
+        { duration: Math.max(200, durationMs * 0.6), easing: 'ease-out', fill: 'forwards' },
+      );
+    }
+    return flash;
+  }
 }
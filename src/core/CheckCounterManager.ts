@@ -0,0 +1,87 @@
+import type { BoardOrientation, Color, RemainingChecks } from './types';
+
+interface CheckCounterManagerOptions {
+  root: HTMLElement;
+  getRemainingChecks: () => RemainingChecks | null;
+  getOrientation: () => BoardOrientation;
+}
+
+/**
+ * Checks each side still has to give in a three-check game, shown beside the board next to the
+ * side they belong to
+ */
+export class CheckCounterManager {
+  private readonly options: CheckCounterManagerOptions;
+  private readonly counters = new Map<Color, HTMLDivElement>();
+  private renderedKey: string | null = null;
+
+  constructor(options: CheckCounterManagerOptions) {
+    this.options = options;
+  }
+
+  public update(): void {
+    const remainingChecks = this.options.getRemainingChecks();
+    if (!remainingChecks) {
+      this.removeCounters();
+      return;
+    }
+
+    const orientation = this.options.getOrientation();
+    const key = JSON.stringify([remainingChecks, orientation]);
+    if (key === this.renderedKey) return;
+    this.renderedKey = key;
+
+    const bottom: Color = orientation === 'white' ? 'w' : 'b';
+    for (const color of ['w', 'b'] as const) {
+      const counter = this.ensureCounter(color);
+      const position = color === bottom ? 'bottom' : 'top';
+      const remaining = remainingChecks[color];
+      counter.dataset.position = position;
+      counter.dataset.remaining = String(remaining);
+      counter.textContent = `+${remaining}`;
+      counter.title = `${color === 'w' ? 'White' : 'Black'}: ${remaining} check${remaining === 1 ? '' : 's'} to give`;
+      Object.assign(counter.style, {
+        top: position === 'top' ? '0' : '',
+        bottom: position === 'bottom' ? '0' : '',
+        background: remaining === 1 ? 'rgba(220, 38, 38, 0.9)' : 'rgba(15, 23, 42, 0.85)',
+      });
+    }
+  }
+
+  public destroy(): void {
+    this.removeCounters();
+  }
+
+  private ensureCounter(color: Color): HTMLDivElement {
+    const existing = this.counters.get(color);
+    if (existing?.isConnected) return existing;
+
+    const doc = this.options.root.ownerDocument ?? document;
+    const counter = doc.createElement('div');
+    counter.className = 'ncb-check-counter';
+    counter.dataset.color = color;
+    Object.assign(counter.style, {
+      position: 'absolute',
+      right: '100%',
+      marginRight: '6px',
+      minWidth: '32px',
+      padding: '4px 6px',
+      borderRadius: '6px',
+      color: '#f8fafc',
+      font: '600 16px/1.2 sans-serif',
+      textAlign: 'center',
+      zIndex: '30',
+    });
+    this.options.root.append(counter);
+    this.counters.set(color, counter);
+    return counter;
+  }
+
+  private removeCounters(): void {
+    for (const counter of this.counters.values()) {
+      counter.remove();
+    }
+    this.counters.clear();
+    this.renderedKey = null;
+  }
+}
@@ -1,5 +1,12 @@
 import { Chess, SQUARES, type Color, type Move as ChessMove } from 'chess.js';
-import type { RulesAdapter, Move, RulesMoveResponse, RulesMoveDetail, Variant } from './types';
+import type {
+  RulesAdapter,
+  Move,
+  RemainingChecks,
+  RulesMoveResponse,
+  RulesMoveDetail,
+  Variant,
+} from './types';
 import { PgnNotation } from './PgnNotation';
 import type { PgnMetadata } from './PgnNotation';
 import { sanitizePgnString } from './PgnSanitizer';
@@ -18,6 +25,13 @@ import {
   undo as undoHistory,
   type HistoryStoreState,
 } from './state/historyStore';
+import {
+  VARIANT_RULES,
+  formatThreeCheckFen,
+  parseThreeCheckFen,
+  type VariantOutcome,
+  type VariantRuleSet,
+} from './VariantRules';
 
 type ChessSquare = (typeof SQUARES)[number];
 
@@ -27,13 +41,15 @@ export interface ChessJsRulesOptions {
 }
 
 /**
- * Rules adapter built on chess.js to provide full move validation
+ * Rules adapter built on chess.js to provide full move validation. Three-check, King of the Hill
+ * and Racing Kings add their win conditions and move restrictions through `VARIANT_RULES`.
  */
 export class ChessJsRules implements RulesAdapter {
   private chess: Chess;
   private pgnNotation: PgnNotation;
   public readonly supportsSanMoves = true;
   private readonly variant: Variant;
+  private readonly variantRules?: VariantRuleSet;
   private historyStore: HistoryStoreState;
 
   private normalizePromotion(symbol: ChessMove['promotion']): Move['promotion'] {
@@ -94,7 +110,8 @@ export class ChessJsRules implements RulesAdapter {
 
     const initialFen = this.chess.fen();
     const replay = this.createChessInstance(initialFen);
-    let nextStore = createHistoryStore(initialFen);
+    let remainingChecks = this.readVariantFen(initialFen).remainingChecks;
+    let nextStore = createHistoryStore(this.writeVariantFen(initialFen, remainingChecks));
 
     for (let index = undoneMoves.length - 1; index >= 0; index -= 1) {
       const move = undoneMoves[index];
@@ -106,8 +123,9 @@ export class ChessJsRules implements RulesAdapter {
           to: applied.to,
           san: applied.san,
         } as RulesMoveDetail;
+        remainingChecks = this.countCheck(remainingChecks, replay, applied.color);
         nextStore = makeMove(nextStore, {
-          fen: replay.fen(),
+          fen: this.writeVariantFen(replay.fen(), remainingChecks),
           san: applied.san,
           move: moveDetail,
         });
@@ -134,26 +152,78 @@ export class ChessJsRules implements RulesAdapter {
     }
 
     this.variant = variant;
+    this.variantRules = VARIANT_RULES[variant];
+    const initialFen = fen ?? this.variantRules?.startFen;
 
     // chess.js supports Chess960 by loading a Chess960 FEN
     // The engine automatically detects Chess960 from the FEN structure
-    this.chess = this.createChessInstance(fen);
+    this.chess = this.createChessInstance(initialFen);
 
-    this.historyStore = createHistoryStore(this.chess.fen());
+    const { remainingChecks } = this.readVariantFen(initialFen ?? this.chess.fen());
+    this.historyStore = createHistoryStore(this.writeVariantFen(this.chess.fen(), remainingChecks));
 
     this.pgnNotation = new PgnNotation();
+    if (this.variantRules) {
+      this.pgnNotation.setMetadata({ Variant: this.variantRules.pgnName });
+    }
   }
 
   private createChessInstance(fen?: string): Chess {
+    const chessFen = fen === undefined ? undefined : this.readVariantFen(fen).fen;
     if (this.variant === 'chess960') {
       const chess = new Chess();
-      if (fen) {
-        chess.load(fen);
+      if (chessFen) {
+        chess.load(chessFen);
       }
       return chess;
     }
 
-    return new Chess(fen);
+    return new Chess(chessFen);
+  }
+
+  /**
+   * Split a FEN of the variant into the chess.js FEN and the checks left to give, if the
+   * variant counts them
+   */
+  private readVariantFen(fen: string): { fen: string; remainingChecks?: RemainingChecks } {
+    const checksToWin = this.variantRules?.checksToWin;
+    return checksToWin ? parseThreeCheckFen(fen, checksToWin) : { fen };
+  }
+
+  private writeVariantFen(fen: string, remainingChecks?: RemainingChecks): string {
+    return remainingChecks ? formatThreeCheckFen(fen, remainingChecks) : fen;
+  }
+
+  /**
+   * Count the check `mover` just gave, if any
+   */
+  private countCheck(
+    remainingChecks: RemainingChecks | undefined,
+    after: Chess,
+    mover: Color,
+  ): RemainingChecks | undefined {
+    if (!remainingChecks || !after.inCheck()) {
+      return remainingChecks;
+    }
+    return { ...remainingChecks, [mover]: Math.max(0, remainingChecks[mover] - 1) };
+  }
+
+  /**
+   * Moves chess.js generates that the variant also allows
+   */
+  private legalMoves(options: { square?: ChessSquare } = {}): ChessMove[] {
+    const moves = this.chess.moves({ ...options, verbose: true }) as ChessMove[];
+    const allowsMove = this.variantRules?.allowsMove;
+    if (!allowsMove) {
+      return moves;
+    }
+
+    return moves.filter((move) => {
+      this.chess.move({ from: move.from, to: move.to, promotion: move.promotion });
+      const allowed = allowsMove(this.chess);
+      this.chess.undo();
+      return allowed;
+    });
   }
 
   /**
@@ -174,11 +244,15 @@ export class ChessJsRules implements RulesAdapter {
    * Set a position from a FEN string
    */
   setFEN(fen: string): void {
-    const normalizedFen = this.normalizeFenInput(fen);
+    const { fen: boardFen, remainingChecks } = this.readVariantFen(fen);
+    const normalizedFen = this.normalizeFenInput(boardFen);
     try {
       this.chess = this.createChessInstance();
       this.chess.load(normalizedFen);
-      this.historyStore = resetHistory(this.historyStore, this.chess.fen());
+      this.historyStore = resetHistory(
+        this.historyStore,
+        this.writeVariantFen(this.chess.fen(), remainingChecks),
+      );
     } catch (error) {
       console.error('Invalid FEN:', normalizedFen, error);
       throw new Error(`Invalid FEN: ${normalizedFen}`);
@@ -205,7 +279,12 @@ export class ChessJsRules implements RulesAdapter {
   move(moveData: string): RulesMoveResponse;
   move(moveData: { from: string; to: string; promotion?: string }): RulesMoveResponse;
   move(moveData: string | { from: string; to: string; promotion?: string }): RulesMoveResponse {
+    if (this.getVariantOutcome()) {
+      return { ok: false, reason: 'Game over' };
+    }
+
     try {
+      const remainingChecks = this.readVariantFen(this.getFEN()).remainingChecks;
       const chessMove =
         typeof moveData === 'string'
           ? this.chess.move(moveData)
@@ -215,6 +294,11 @@ export class ChessJsRules implements RulesAdapter {
               promotion: moveData.promotion as 'q' | 'r' | 'b' | 'n' | undefined,
             });
 
+      if (chessMove && this.variantRules?.allowsMove?.(this.chess) === false) {
+        this.chess.undo();
+        return { ok: false, reason: `Move not allowed in ${this.variantRules.pgnName}` };
+      }
+
       if (chessMove) {
         const moveDetail = {
           ...chessMove,
@@ -223,7 +307,10 @@ export class ChessJsRules implements RulesAdapter {
           san: chessMove.san,
         } as RulesMoveDetail;
         this.historyStore = makeMove(this.historyStore, {
-          fen: this.chess.fen(),
+          fen: this.writeVariantFen(
+            this.chess.fen(),
+            this.countCheck(remainingChecks, this.chess, chessMove.color),
+          ),
           san: chessMove.san,
           move: moveDetail,
         });
@@ -257,10 +344,10 @@ export class ChessJsRules implements RulesAdapter {
    * Get every legal move from a square
    */
   movesFrom(square: string): Move[] {
-    const moves = this.chess.moves({
-      square: square as ChessSquare,
-      verbose: true,
-    }) as ChessMove[];
+    if (this.getVariantOutcome()) {
+      return [];
+    }
+    const moves = this.legalMoves({ square: square as ChessSquare });
     return moves.map((move) => ({
       from: move.from,
       to: move.to,
@@ -275,7 +362,10 @@ export class ChessJsRules implements RulesAdapter {
    * Get every legal move in the current position
    */
   getAllMoves(): Move[] {
-    const moves = this.chess.moves({ verbose: true }) as ChessMove[];
+    if (this.getVariantOutcome()) {
+      return [];
+    }
+    const moves = this.legalMoves();
     return moves.map((move) => ({
       from: move.from,
       to: move.to,
@@ -292,13 +382,13 @@ export class ChessJsRules implements RulesAdapter {
   isLegalMove(from: string, to: string, promotion?: string): boolean {
     try {
       // Create a copy to test the move without altering the actual game state
-      const testChess = new Chess(getCurrentFen(this.historyStore));
+      const testChess = this.createChessInstance(getCurrentFen(this.historyStore));
       const move = testChess.move({
         from,
         to,
         promotion: promotion as 'q' | 'r' | 'b' | 'n' | undefined,
       }) as ChessMove | null;
-      return move !== null;
+      return move !== null && this.variantRules?.allowsMove?.(testChess) !== false;
     } catch {
       return false;
     }
@@ -322,44 +412,98 @@ export class ChessJsRules implements RulesAdapter {
    * Check whether the position is stalemate
    */
   isStalemate(): boolean {
-    return this.chess.isStalemate();
+    if (!this.variantRules?.allowsMove) {
+      return this.chess.isStalemate();
+    }
+    return !this.chess.inCheck() && !this.getVariantOutcome() && this.legalMoves().length === 0;
   }
 
   /**
    * Check whether the game is drawn
    */
   isDraw(): boolean {
-    return this.chess.isDraw();
+    if (!this.variantRules) {
+      return this.chess.isDraw();
+    }
+
+    const outcome = this.getVariantOutcome();
+    if (outcome) {
+      return outcome.result === '1/2-1/2';
+    }
+    return (
+      this.isStalemate() ||
+      this.isInsufficientMaterial() ||
+      this.isThreefoldRepetition() ||
+      this.chess.isDrawByFiftyMoves()
+    );
   }
 
   /**
    * Check whether the game is drawn by insufficient material
    */
   isInsufficientMaterial(): boolean {
-    return this.chess.isInsufficientMaterial();
+    const variantRule = this.variantRules?.isInsufficientMaterial;
+    return variantRule ? variantRule(this.chess) : this.chess.isInsufficientMaterial();
   }
 
   /**
-   * Check whether the current position has occurred three times
+   * Check whether the current position has occurred three times. In three-check the checks
+   * left to give are part of the position.
    */
   isThreefoldRepetition(): boolean {
-    return this.chess.isThreefoldRepetition();
+    if (!this.variantRules?.checksToWin) {
+      return this.chess.isThreefoldRepetition();
+    }
+
+    const positionKey = (fen: string) => fen.split(' ').slice(0, 5).join(' ');
+    const current = positionKey(this.getFEN());
+    const positions = [...this.historyStore.past, this.historyStore.present];
+    return positions.filter((entry) => positionKey(entry.fen) === current).length >= 3;
   }
 
   /**
    * Determine whether the game has ended
    */
   isGameOver(): boolean {
-    return this.chess.isGameOver();
+    if (!this.variantRules) {
+      return this.chess.isGameOver();
+    }
+    return this.getVariantOutcome() !== null || this.chess.isCheckmate() || this.isDraw();
+  }
+
+  /**
+   * End of the game by the win conditions of the variant (three checks given, a king on the
+   * hill, a king across the finish line), `null` in standard chess and while it goes on
+   */
+  getVariantOutcome(): VariantOutcome | null {
+    if (!this.variantRules) {
+      return null;
+    }
+    return this.variantRules.getOutcome({
+      chess: this.chess,
+      remainingChecks: this.getRemainingChecks(),
+      legalMoves: () => this.legalMoves(),
+    });
+  }
+
+  /**
+   * Checks each side still has to give, in variants won by checks
+   */
+  getRemainingChecks(): RemainingChecks | null {
+    return this.readVariantFen(this.getFEN()).remainingChecks ?? null;
   }
 
   /**
    * Get the result of the game
    */
   getGameResult(): '1-0' | '0-1' | '1/2-1/2' | '*' {
+    const outcome = this.getVariantOutcome();
+    if (outcome) {
+      return outcome.result;
+    }
     if (this.chess.isCheckmate()) {
       return this.chess.turn() === 'w' ? '0-1' : '1-0';
-    } else if (this.chess.isStalemate() || this.chess.isDraw()) {
+    } else if (this.isDraw()) {
       return '1/2-1/2';
     }
     return '*';
@@ -535,7 +679,7 @@ export class ChessJsRules implements RulesAdapter {
    * Get the halfmove clock since the last capture or pawn move
    */
   halfMoves(): number {
-    const fenParts = this.getFenParts(getCurrentFen(this.historyStore));
+    const fenParts = this.getFenParts(this.chess.fen());
     const halfMoveField = fenParts[4] ?? '0';
     const halfMoveCount = Number.parseInt(halfMoveField, 10);
 
@@ -605,7 +749,7 @@ export class ChessJsRules implements RulesAdapter {
    * Export the current game as PGN
    */
   toPgn(includeHeaders: boolean = true): string {
-    this.pgnNotation.importFromChessJs(this.chess);
+    this.importGameIntoPgn();
     return this.pgnNotation.toPgn(includeHeaders);
   }
 
@@ -613,10 +757,26 @@ export class ChessJsRules implements RulesAdapter {
    * Download the current game as a PGN file (browser only)
    */
   downloadPgn(filename?: string): void {
-    this.pgnNotation.importFromChessJs(this.chess);
+    this.importGameIntoPgn();
     this.pgnNotation.downloadPgn(filename);
   }
 
+  /**
+   * Copy the chess.js game into the PGN notation. chess.js only knows how standard games end,
+   * and its `FEN` tag lacks the check counter of three-check.
+   */
+  private importGameIntoPgn(): void {
+    this.pgnNotation.importFromChessJs(this.chess);
+    if (!this.variantRules) {
+      return;
+    }
+
+    this.pgnNotation.setResult(this.getGameResult());
+    if (this.pgnNotation.getMetadata().FEN) {
+      this.pgnNotation.setMetadata({ FEN: this.getInitialFen() });
+    }
+  }
+
   /**
    * Get the PgnNotation instance for advanced manipulation
    */
@@ -636,10 +796,15 @@ export class ChessJsRules implements RulesAdapter {
         return false;
       }
 
+      // Parse the raw text first so variations survive; chess.js only sees the mainline
       try {
-        this.pgnNotation.loadPgnWithAnnotations(sanitized);
+        this.pgnNotation.loadPgnWithAnnotations(pgn);
       } catch {
-        return false;
+        try {
+          this.pgnNotation.loadPgnWithAnnotations(sanitized);
+        } catch {
+          return false;
+        }
       }
 
       this.pgnNotation.importFromChessJs(this.chess);
@@ -0,0 +1,455 @@
+/**
+ * Crazyhouse rules
+ * Captured pieces change sides and go to the capturer's pocket; on their turn players may drop a
+ * piece from the pocket on any empty square instead of moving. Board moves are generated by
+ * `LightRules`; this adapter tracks the pockets and the promoted pieces, which go back to a
+ * pocket as pawns when captured.
+ *
+ * Positions use the Crazyhouse FEN: the pocket follows the placement in brackets (white's pieces
+ * uppercase) and promoted pieces carry a tilde, e.g.
+ * `r1bqkbnr/pppp1ppp/2n5/8/8/5N2/PPPP1PPP/RNBQKB1R[Pp] w KQkq - 0 4`.
+ */
+
+import {
+  cleanMoveNotation,
+  findBoardMove,
+  formatBoardSan,
+  formatPlacement,
+  isCaptureMove,
+} from './BoardNotation';
+import { LightRules } from './LightRules';
+import { PgnNotation } from './PgnNotation';
+import type {
+  Color,
+  Move,
+  Pocket,
+  PocketPiece,
+  Pockets,
+  RulesAdapter,
+  RulesMoveDetail,
+  RulesMoveResponse,
+  Square,
+} from './types';
+import { FILES, RANKS, isWhitePiece, parseFEN } from './utils';
+import {
+  canRedo,
+  canUndo,
+  createHistoryStore,
+  getCurrentFen,
+  getHistory,
+  getLastMoveState,
+  getVerboseHistory,
+  makeMove,
+  redo as redoHistory,
+  reset as resetHistory,
+  undo as undoHistory,
+} from './state/historyStore';
+
+export const CRAZYHOUSE_START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR[] w KQkq - 0 1';
+
+/** Pocket pieces in the order they are listed in a FEN and shown in the pockets */
+export const POCKET_PIECES: readonly PocketPiece[] = ['q', 'r', 'b', 'n', 'p'];
+
+/** Position of a Crazyhouse FEN split into its parts */
+export interface CrazyhousePosition {
+  /** Standard FEN of the board, without pocket or promotion marks */
+  fen: string;
+  pockets: Pockets;
+  /** Squares holding a promoted piece */
+  promoted: Square[];
+}
+
+const DROP_NOTATION_REGEX = /^([PNBRQ]?)@([a-h][1-8])$/i;
+
+const emptyPocket = (): Pocket => ({ p: 0, n: 0, b: 0, r: 0, q: 0 });
+const squareAt = (file: number, rank: number) => `${FILES[file]}${RANKS[rank]}` as Square;
+const fileOf = (square: Square) => FILES.indexOf(square[0] as (typeof FILES)[number]);
+const rankOf = (square: Square) => Number(square.slice(1)) - 1;
+const colorOf = (piece: string): Color => (isWhitePiece(piece) ? 'w' : 'b');
+
+function clonePockets(pockets: Pockets): Pockets {
+  return { w: { ...pockets.w }, b: { ...pockets.b } };
+}
+
+/**
+ * Split a Crazyhouse FEN into the board, the pockets and the promoted squares. A FEN without
+ * a pocket is read as a game with empty pockets.
+ */
+export function parseCrazyhouseFen(fen: string): CrazyhousePosition {
+  const { board, turn, castling, ep, halfmove, fullmove, pocket = '' } = parseFEN(fen);
+  const pockets: Pockets = { w: emptyPocket(), b: emptyPocket() };
+  for (const piece of pocket) {
+    pockets[colorOf(piece)][piece.toLowerCase() as PocketPiece]++;
+  }
+
+  const promoted: Square[] = [];
+  const rows = fen.trim().split(/\s+/)[0].replace(/\[.*$/, '').split('/');
+  for (const [index, row] of rows.entries()) {
+    let file = 0;
+    for (const char of row) {
+      if (char === '~') {
+        promoted.push(squareAt(file - 1, 7 - index));
+      } else {
+        file += /\d/.test(char) ? Number(char) : 1;
+      }
+    }
+  }
+
+  return {
+    fen: `${formatPlacement(board)} ${turn} ${castling || '-'} ${ep ?? '-'} ${halfmove} ${fullmove}`,
+    pockets,
+    promoted,
+  };
+}
+
+/**
+ * Write a Crazyhouse FEN from a standard FEN, the pockets and the promoted squares
+ */
+export function formatCrazyhouseFen(position: CrazyhousePosition): string {
+  const [placement, ...fields] = position.fen.split(' ');
+  const promoted = new Set(position.promoted);
+  const rows = placement.split('/').map((row, index) => {
+    let file = 0;
+    let text = '';
+    for (const char of row) {
+      if (/\d/.test(char)) {
+        file += Number(char);
+        text += char;
+        continue;
+      }
+      text += promoted.has(squareAt(file, 7 - index)) ? `${char}~` : char;
+      file++;
+    }
+    return text;
+  });
+  const pocket = (['w', 'b'] as const)
+    .map((color) =>
+      POCKET_PIECES.map((piece) => {
+        const letter = color === 'w' ? piece.toUpperCase() : piece;
+        return letter.repeat(position.pockets[color][piece]);
+      }).join(''),
+    )
+    .join('');
+  return [`${rows.join('/')}[${pocket}]`, ...fields].join(' ');
+}
+
+/**
+ * Rules adapter for Crazyhouse. Moves are given as `{ from, to, promotion }`, SAN or UCI; drops
+ * through `drop()` or as `N@f3` (`P@e4` or `@e4` for pawns).
+ */
+export class CrazyhouseRules implements RulesAdapter {
+  public readonly supportsSanMoves = true;
+  /** Board of the current position, for move generation */
+  private readonly board = new LightRules();
+  private position: CrazyhousePosition = parseCrazyhouseFen(CRAZYHOUSE_START_FEN);
+  private historyStore = createHistoryStore(CRAZYHOUSE_START_FEN);
+  private readonly pgnNotation = new PgnNotation();
+
+  constructor(fen: string = CRAZYHOUSE_START_FEN) {
+    this.pgnNotation.setMetadata({ Variant: 'Crazyhouse' });
+    this.setFEN(fen);
+  }
+
+  reset(): void {
+    this.setFEN(CRAZYHOUSE_START_FEN);
+  }
+
+  setFEN(fen: string): void {
+    this.load(parseCrazyhouseFen(fen));
+    this.historyStore = resetHistory(this.historyStore, formatCrazyhouseFen(this.position));
+  }
+
+  getFEN(): string {
+    return getCurrentFen(this.historyStore);
+  }
+
+  turn(): Color {
+    return this.board.turn();
+  }
+
+  pieceAt(square: Square): string | null {
+    return this.board.pieceAt(square);
+  }
+
+  getPockets(): Pockets {
+    return clonePockets(this.position.pockets);
+  }
+
+  movesFrom(square: Square): Move[] {
+    return this.board.movesFrom(square).map((move) => this.withCapture(move));
+  }
+
+  /**
+   * Get every legal board move in the current position; drops are listed by `getAllDrops`
+   */
+  getAllMoves(): Move[] {
+    return this.board.getAllMoves().map((move) => this.withCapture(move));
+  }
+
+  /**
+   * Squares a piece from the pocket of the side to move can be dropped on: empty squares, not
+   * the first or last rank for pawns, and only squares that block a check when in check
+   */
+  dropSquares(piece: PocketPiece): Square[] {
+    const color = this.turn();
+    if (this.position.pockets[color][piece] <= 0) return [];
+
+    const inCheck = this.board.inCheck();
+    const squares: Square[] = [];
+    for (let rank = 0; rank < 8; rank++) {
+      if (piece === 'p' && (rank === 0 || rank === 7)) continue;
+      for (let file = 0; file < 8; file++) {
+        const square = squareAt(file, rank);
+        if (this.board.pieceAt(square)) continue;
+        if (inCheck && this.leavesKingInCheck(piece, square)) continue;
+        squares.push(square);
+      }
+    }
+    return squares;
+  }
+
+  /**
+   * Get every legal drop in the current position
+   */
+  getAllDrops(): Array<{ piece: PocketPiece; to: Square }> {
+    return POCKET_PIECES.flatMap((piece) => this.dropSquares(piece).map((to) => ({ piece, to })));
+  }
+
+  move(move: string): RulesMoveResponse;
+  move(move: { from: Square; to: Square; promotion?: Move['promotion'] }): RulesMoveResponse;
+  move(
+    moveData: string | { from: Square; to: Square; promotion?: Move['promotion'] },
+  ): RulesMoveResponse {
+    if (typeof moveData === 'string') {
+      return this.moveFromNotation(moveData);
+    }
+
+    const { from, to, promotion } = moveData;
+    const legal = this.board
+      .movesFrom(from)
+      .filter((move) => move.to === to)
+      .find((move) => (move.promotion ?? 'q') === (promotion ?? 'q'));
+    if (!legal) return { ok: false, reason: 'illegal' };
+
+    const san = this.sanWithoutSuffix(legal);
+    const capture = this.captureSquare(legal);
+    const target = capture ? this.board.pieceAt(capture) : null;
+    const pockets = clonePockets(this.position.pockets);
+    const promoted = new Set(this.position.promoted);
+
+    if (capture && target) {
+      const piece = promoted.has(capture) ? 'p' : (target.toLowerCase() as PocketPiece);
+      pockets[this.turn()][piece]++;
+      promoted.delete(capture);
+    }
+    if (promoted.delete(from) || legal.promotion) promoted.add(to);
+
+    const response = this.board.move({ from, to, promotion: legal.promotion });
+    if (!response.ok) return response;
+    return this.commit(
+      { fen: this.board.getFEN(), pockets, promoted: [...promoted] },
+      {
+        from,
+        to,
+        san,
+        ...(legal.promotion ? { promotion: legal.promotion } : {}),
+        ...(target ? { captured: target.toLowerCase() } : {}),
+      },
+    );
+  }
+
+  /**
+   * Drop a piece from the pocket of the side to move
+   */
+  drop(piece: PocketPiece, to: Square): RulesMoveResponse {
+    const color = this.turn();
+    if (this.position.pockets[color][piece] <= 0) return { ok: false, reason: 'empty pocket' };
+    if (!this.dropSquares(piece).includes(to)) return { ok: false, reason: 'illegal' };
+
+    const pockets = clonePockets(this.position.pockets);
+    pockets[color][piece]--;
+    return this.commit(
+      { fen: this.fenAfterDrop(piece, to), pockets, promoted: this.position.promoted },
+      { from: to, to, san: `${piece.toUpperCase()}@${to}`, drop: piece },
+    );
+  }
+
+  undo(): boolean {
+    const { state, previous } = undoHistory(this.historyStore);
+    if (!previous) return false;
+    this.historyStore = state;
+    this.load(parseCrazyhouseFen(previous.fen));
+    return true;
+  }
+
+  redo(): boolean {
+    const { state, next } = redoHistory(this.historyStore);
+    if (!next) return false;
+    this.historyStore = state;
+    this.load(parseCrazyhouseFen(next.fen));
+    return true;
+  }
+
+  canUndo(): boolean {
+    return canUndo(this.historyStore);
+  }
+
+  canRedo(): boolean {
+    return canRedo(this.historyStore);
+  }
+
+  getLastMove(): RulesMoveDetail | null {
+    const move = getLastMoveState(this.historyStore)?.move;
+    return move ? { ...move } : null;
+  }
+
+  history(): string[] {
+    return getHistory(this.historyStore);
+  }
+
+  getHistory(): RulesMoveDetail[] {
+    return getVerboseHistory(this.historyStore);
+  }
+
+  /**
+   * Check whether the side to move is in check
+   */
+  inCheck(): boolean {
+    return this.board.inCheck();
+  }
+
+  /**
+   * Check whether the side to move is mated: in check with no move and no drop that helps
+   */
+  isCheckmate(): boolean {
+    return this.inCheck() && !this.hasLegalMove();
+  }
+
+  isStalemate(): boolean {
+    return !this.inCheck() && !this.hasLegalMove();
+  }
+
+  /**
+   * Check whether the game is drawn: stalemate or threefold repetition. Material never runs
+   * out since captured pieces come back.
+   */
+  isDraw(): boolean {
+    return this.isStalemate() || this.isThreefoldRepetition();
+  }
+
+  isInsufficientMaterial(): boolean {
+    return false;
+  }
+
+  /**
+   * Check whether the current position, pockets included, has occurred three times
+   */
+  isThreefoldRepetition(): boolean {
+    const key = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+    const { past, present } = this.historyStore;
+    const current = key(present.fen);
+    return past.filter((entry) => key(entry.fen) === current).length >= 2;
+  }
+
+  isGameOver(): boolean {
+    return this.isCheckmate() || this.isDraw();
+  }
+
+  getGameResult(): '1-0' | '0-1' | '1/2-1/2' | '*' {
+    if (this.isCheckmate()) {
+      return this.turn() === 'w' ? '0-1' : '1-0';
+    }
+    return this.isDraw() ? '1/2-1/2' : '*';
+  }
+
+  /**
+   * Headers read by `PgnNotation`: the start position when the game did not begin from the
+   * initial one
+   */
+  getHeaders(): Record<string, string> {
+    const initial = this.historyStore.past[0]?.fen ?? this.getFEN();
+    return initial === CRAZYHOUSE_START_FEN ? {} : { FEN: initial };
+  }
+
+  /**
+   * Export the game as PGN with the `Variant "Crazyhouse"` tag
+   */
+  toPgn(includeHeaders: boolean = true): string {
+    this.pgnNotation.importFromChessJs(this);
+    return this.pgnNotation.toPgn(includeHeaders);
+  }
+
+  getPgnNotation(): PgnNotation {
+    return this.pgnNotation;
+  }
+
+  private load(position: CrazyhousePosition): void {
+    this.board.setFEN(position.fen);
+    this.position = position;
+  }
+
+  private commit(position: CrazyhousePosition, move: RulesMoveDetail): RulesMoveResponse {
+    this.load(position);
+    let suffix = '';
+    if (this.inCheck()) suffix = this.hasLegalMove() ? '+' : '#';
+    const detail = { ...move, san: `${move.san ?? ''}${suffix}` };
+    const fen = formatCrazyhouseFen(position);
+    this.historyStore = makeMove(this.historyStore, { fen, move: detail });
+    return { ok: true, fen, move: detail };
+  }
+
+  private hasLegalMove(): boolean {
+    return (
+      this.board.getAllMoves().length > 0 ||
+      POCKET_PIECES.some((piece) => this.dropSquares(piece).length > 0)
+    );
+  }
+
+  /**
+   * Square of the piece a move captures: the destination, or the pawn passed by en passant
+   */
+  private captureSquare(move: Move): Square | null {
+    if (move.ep) return squareAt(fileOf(move.to), rankOf(move.from));
+    return isCaptureMove(move, (square) => this.board.pieceAt(square)) ? move.to : null;
+  }
+
+  private withCapture(move: Move): Move {
+    const capture = this.captureSquare(move);
+    const target = capture ? this.board.pieceAt(capture) : null;
+    return target && !move.ep ? { ...move, captured: target.toLowerCase() } : move;
+  }
+
+  private fenAfterDrop(piece: PocketPiece, to: Square): string {
+    const { board, turn, castling, halfmove, fullmove } = parseFEN(this.board.getFEN());
+    board[rankOf(to)][fileOf(to)] = turn === 'w' ? piece.toUpperCase() : piece;
+    const next = turn === 'w' ? 'b' : 'w';
+    const moveNumber = turn === 'b' ? fullmove + 1 : fullmove;
+    return `${formatPlacement(board)} ${next} ${castling || '-'} - ${halfmove + 1} ${moveNumber}`;
+  }
+
+  private leavesKingInCheck(piece: PocketPiece, to: Square): boolean {
+    const [placement] = this.fenAfterDrop(piece, to).split(' ');
+    const probe = new LightRules();
+    probe.setFEN(`${placement} ${this.turn()} - - 0 1`);
+    return probe.inCheck();
+  }
+
+  private sanWithoutSuffix(move: Move): string {
+    return formatBoardSan(move, (square) => this.board.pieceAt(square), this.board.getAllMoves());
+  }
+
+  private moveFromNotation(notation: string): RulesMoveResponse {
+    const drop = DROP_NOTATION_REGEX.exec(cleanMoveNotation(notation));
+    if (drop) {
+      return this.drop((drop[1] || 'p').toLowerCase() as PocketPiece, drop[2] as Square);
+    }
+
+    const match = findBoardMove(
+      notation,
+      (square) => this.board.pieceAt(square),
+      this.board.getAllMoves(),
+    );
+    if (!match) return { ok: false, reason: `Invalid move: ${notation}` };
+    return this.move(match);
+  }
+}
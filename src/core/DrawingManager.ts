@@ -23,6 +23,7 @@ import {
   getRelativeCoords,
   type RelativeCoord,
 } from './utils';
+import { getNagSymbol } from './PgnNags';
 
 type ModifierKey = 'shiftKey' | 'ctrlKey' | 'altKey';
 type ModifierState = Partial<Record<ModifierKey, boolean>>;
@@ -113,6 +114,21 @@ const SPECIAL_HIGHLIGHT_OPACITY: Record<string, number> = {
 
 const DEFAULT_CIRCLE_COLOR = 'rgba(255, 255, 0, 0.5)';
 
+const NAG_BADGE_COLORS: Record<number, string> = {
+  1: '#22ac38',
+  2: '#e69f00',
+  3: '#168226',
+  4: '#df5353',
+  5: '#ea45d8',
+  6: '#56b4e9',
+};
+const DEFAULT_NAG_BADGE_COLOR = '#6b7280';
+
+interface AnnotationBadge {
+  square: Square;
+  nag: number;
+}
+
 export class DrawingManager {
   private state: DrawingStateInternal = {
     arrows: [],
@@ -124,6 +140,8 @@ export class DrawingManager {
     statusHighlight: null,
   };
 
+  private annotationBadge: AnnotationBadge | null = null;
+
   private readonly canvas: HTMLCanvasElement;
   private squareSize = 60;
   private orientation: 'white' | 'black' = 'white';
@@ -343,6 +361,7 @@ export class DrawingManager {
       width,
       opacity,
       knightMove,
+      ...(arrow.label ? { label: arrow.label } : {}),
     };
   }
 
@@ -738,6 +757,34 @@ export class DrawingManager {
     } else {
       this.drawStraightArrow(ctx, arrow);
     }
+    if (arrow.label) {
+      this.drawArrowLabel(ctx, arrow, arrow.label);
+    }
+  }
+
+  /**
+   * Draw the label in a disc of the arrow's colour at the centre of the destination square
+   */
+  private drawArrowLabel(
+    ctx: CanvasRenderingContext2D,
+    arrow: NormalizedArrow,
+    label: string,
+  ): void {
+    const [toX, toY] = this.squareToCoords(arrow.to);
+    const centerX = toX + this.squareSize / 2;
+    const centerY = toY + this.squareSize / 2;
+    const radius = this.squareSize * 0.16;
+
+    ctx.fillStyle = arrow.color;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold ${Math.round(radius * 1.2)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, centerX, centerY);
   }
 
   private applyArrowStyle(ctx: CanvasRenderingContext2D, arrow: NormalizedArrow): number {
@@ -1162,6 +1209,48 @@ export class DrawingManager {
     ctx.restore();
   }
 
+  /**
+   * Show a move-quality glyph (`!`, `??`, `+=`...) in the corner of the square a move landed on.
+   * NAGs without a display symbol are ignored.
+   */
+  public setAnnotationBadge(square: Square, nag: number): void {
+    this.annotationBadge = getNagSymbol(nag) ? { square, nag } : null;
+  }
+
+  public clearAnnotationBadge(): void {
+    this.annotationBadge = null;
+  }
+
+  public getAnnotationBadge(): AnnotationBadge | null {
+    return this.annotationBadge ? { ...this.annotationBadge } : null;
+  }
+
+  private drawAnnotationBadge(ctx: CanvasRenderingContext2D): void {
+    const badge = this.annotationBadge;
+    const symbol = badge ? getNagSymbol(badge.nag) : undefined;
+    if (!badge || !symbol) {
+      return;
+    }
+
+    const [x, y] = this.squareToCoords(badge.square);
+    const radius = this.squareSize * 0.17;
+    const centerX = x + this.squareSize - radius;
+    const centerY = y + radius;
+
+    ctx.save();
+    ctx.fillStyle = NAG_BADGE_COLORS[badge.nag] ?? DEFAULT_NAG_BADGE_COLOR;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
+    ctx.fill();
+
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold ${Math.round(radius * (symbol.length > 1 ? 1.05 : 1.4))}px ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(symbol, centerX, centerY);
+    ctx.restore();
+  }
+
   // Methods to get the complete state
   public getDrawingState(): DrawingState {
     return {
@@ -1515,9 +1604,14 @@ export class DrawingManager {
     this.withContext((ctx) => this.drawPromotionPreview(ctx));
   }
 
+  public renderAnnotationBadge(): void {
+    this.withContext((ctx) => this.drawAnnotationBadge(ctx));
+  }
+
   // Methods with signatures adapted for NeoChessBoard
   public addArrowFromObject(arrow: Arrow): void {
-    this.addArrow(arrow.from, arrow.to, arrow.color, arrow.width, arrow.opacity);
+    const { from, to, color, width, opacity, label } = arrow;
+    this.addArrow({ from, to, color, width, opacity, label });
   }
 
   public addHighlightFromObject(highlight: SquareHighlight): void {
@@ -1622,6 +1716,7 @@ export class DrawingManager {
     this.state.activePremoveColor = undefined;
     this.state.promotionPreview = undefined;
     this.state.statusHighlight = null;
+    this.annotationBadge = null;
     if (hadArrows) {
       this.notifyArrowsChange();
     }
@@ -0,0 +1,279 @@
+/**
+ * Extended Position Description (EPD)
+ * One position per line: the first four FEN fields followed by `opcode operand ...;` operations.
+ * Test suites (WAC, STS, Bratko-Kopec) and opening books are distributed in this format.
+ */
+
+import { Chess } from 'chess.js';
+import { EpdParseError, type EpdParseErrorCode, type EpdParseErrorDetails } from './errors';
+import type { PromotionPiece, Square } from './types';
+import { parseFEN } from './utils';
+
+export interface EpdOperation {
+  opcode: string;
+  operands: string[];
+}
+
+export interface EpdRecord {
+  /** The four EPD position fields: placement, side to move, castling and en passant */
+  position: string;
+  /** Complete FEN, with the move counters taken from `hmvc`/`fmvn` when present */
+  fen: string;
+  /** Operations in file order */
+  operations: EpdOperation[];
+}
+
+export interface EpdSuite {
+  records: EpdRecord[];
+  /** One entry per line that could not be parsed; the line is skipped */
+  issues: EpdParseError[];
+}
+
+export type EpdOperandInput = string | number;
+
+export interface EpdMove {
+  from: Square;
+  to: Square;
+  promotion?: PromotionPiece;
+  san: string;
+}
+
+/** Opcodes whose operands are always written as quoted strings */
+const STRING_OPCODE_REGEX = /^(?:id|[cv]\d)$/;
+const OPCODE_REGEX = /^[A-Za-z]\w{0,14}$/;
+const BARE_OPERAND_REGEX = /[^\s;"]+/y;
+const SIDE_TO_MOVE_REGEX = /^[wb]$/;
+const CASTLING_REGEX = /^(?:-|[KQA-Hkqa-h]{1,4})$/;
+const EN_PASSANT_REGEX = /^(?:-|[a-h][36])$/;
+const MOVE_SUFFIX_REGEX = /[!?]+$/;
+
+function fail(message: string, code: EpdParseErrorCode, details: EpdParseErrorDetails): never {
+  throw new EpdParseError(message, code, { details });
+}
+
+class EpdLineParser {
+  private index = 0;
+  private readonly operations: EpdOperation[] = [];
+  private current: EpdOperation | null = null;
+
+  constructor(
+    private readonly text: string,
+    private readonly details: EpdParseErrorDetails,
+  ) {}
+
+  parse(): EpdOperation[] {
+    while (this.index < this.text.length) {
+      const char = this.text.charAt(this.index);
+      if (/\s/.test(char)) {
+        this.index++;
+      } else if (char === ';') {
+        this.closeOperation();
+      } else if (char === '"') {
+        this.readString();
+      } else {
+        this.readBareToken();
+      }
+    }
+
+    if (this.current) {
+      fail(
+        `Operation "${this.current.opcode}" is not terminated by ";".`,
+        'EPD_MISSING_SEMICOLON',
+        {
+          ...this.details,
+          opcode: this.current.opcode,
+        },
+      );
+    }
+
+    return this.operations;
+  }
+
+  private closeOperation(): void {
+    if (this.current) {
+      this.operations.push(this.current);
+      this.current = null;
+    }
+    this.index++;
+  }
+
+  private readString(): void {
+    const end = this.text.indexOf('"', this.index + 1);
+    if (end === -1) {
+      fail('Unterminated string operand.', 'EPD_UNTERMINATED_STRING', {
+        ...this.details,
+        index: this.index,
+      });
+    }
+    if (!this.current) {
+      fail('Expected an opcode before a string operand.', 'EPD_INVALID_OPCODE', {
+        ...this.details,
+        index: this.index,
+      });
+    }
+
+    this.current.operands.push(this.text.slice(this.index + 1, end));
+    this.index = end + 1;
+  }
+
+  private readBareToken(): void {
+    BARE_OPERAND_REGEX.lastIndex = this.index;
+    const token = BARE_OPERAND_REGEX.exec(this.text)?.[0] ?? this.text.charAt(this.index);
+    this.index += token.length;
+
+    if (this.current) {
+      this.current.operands.push(token);
+      return;
+    }
+
+    if (!OPCODE_REGEX.test(token)) {
+      fail(`"${token}" is not a valid opcode.`, 'EPD_INVALID_OPCODE', {
+        ...this.details,
+        opcode: token,
+      });
+    }
+    this.current = { opcode: token, operands: [] };
+  }
+}
+
+function parseEpdLine(epd: string, details: EpdParseErrorDetails): EpdRecord {
+  const trimmed = epd.trim();
+  if (!trimmed) {
+    fail('EPD string cannot be empty.', 'EPD_EMPTY', details);
+  }
+
+  const fieldsMatch = /^(\S+)\s+(\S+)\s+(\S+)\s+(\S+)/.exec(trimmed);
+  const [, placement = '', side = '', castling = '', enPassant = ''] = fieldsMatch ?? [];
+  if (
+    !fieldsMatch ||
+    placement.split('/').length !== 8 ||
+    !SIDE_TO_MOVE_REGEX.test(side) ||
+    !CASTLING_REGEX.test(castling) ||
+    !EN_PASSANT_REGEX.test(enPassant)
+  ) {
+    fail('EPD must start with four valid FEN fields.', 'EPD_INVALID_POSITION', details);
+  }
+
+  const position = `${placement} ${side} ${castling} ${enPassant}`;
+  try {
+    parseFEN(`${position} 0 1`);
+  } catch (error) {
+    throw new EpdParseError('EPD position is not a valid FEN placement.', 'EPD_INVALID_POSITION', {
+      cause: error,
+      details,
+    });
+  }
+
+  const operations = new EpdLineParser(trimmed.slice(fieldsMatch[0].length), details).parse();
+  const counter = (opcode: string, fallback: number) => {
+    const value = Number.parseInt(
+      operations.find((operation) => operation.opcode === opcode)?.operands[0] ?? '',
+      10,
+    );
+    return Number.isNaN(value) ? fallback : value;
+  };
+
+  return {
+    position,
+    fen: `${position} ${counter('hmvc', 0)} ${counter('fmvn', 1)}`,
+    operations,
+  };
+}
+
+/**
+ * Parse a single EPD line. Throws `EpdParseError` when the line is malformed.
+ */
+export function parseEpd(epd: string): EpdRecord {
+  return parseEpdLine(epd, { epd });
+}
+
+/**
+ * Parse an EPD file. Blank lines and lines starting with `#` are ignored; malformed lines are
+ * reported in `issues` with their line number and skipped.
+ */
+export function parseEpdSuite(text: string): EpdSuite {
+  const records: EpdRecord[] = [];
+  const issues: EpdParseError[] = [];
+
+  for (const [index, line] of text.split(/\r?\n/).entries()) {
+    if (!line.trim() || line.trimStart().startsWith('#')) {
+      continue;
+    }
+
+    try {
+      records.push(parseEpdLine(line, { epd: line, line: index + 1 }));
+    } catch (error) {
+      if (!(error instanceof EpdParseError)) {
+        throw error;
+      }
+      issues.push(error);
+    }
+  }
+
+  return { records, issues };
+}
+
+/**
+ * Operands of the first operation with the given opcode, or `undefined` when it is absent
+ */
+export function getEpdOperands(record: EpdRecord, opcode: string): string[] | undefined {
+  return record.operations.find((operation) => operation.opcode === opcode)?.operands;
+}
+
+function formatOperand(opcode: string, operand: string): string {
+  return STRING_OPCODE_REGEX.test(opcode) || operand === '' || /[\s;]/.test(operand)
+    ? `"${operand.replaceAll('"', "'")}"`
+    : operand;
+}
+
+/**
+ * Write an EPD line. Operations are emitted in order; `id`, `c0`–`c9`, `v0`–`v9` and operands
+ * containing spaces are quoted.
+ */
+export function formatEpd(record: Pick<EpdRecord, 'position' | 'operations'>): string {
+  const operations = record.operations.map(({ opcode, operands }) =>
+    [opcode, ...operands.map((operand) => formatOperand(opcode, operand))].join(' '),
+  );
+  return [record.position, ...operations.map((operation) => `${operation};`)].join(' ');
+}
+
+/**
+ * Build an EPD line from a FEN and a map of operations (`{ bm: ['Qxf7+'], id: 'WAC.001' }`).
+ * The FEN move counters are dropped unless written as `hmvc`/`fmvn` operations.
+ */
+export function fenToEpd(
+  fen: string,
+  operations: Record<string, EpdOperandInput | readonly EpdOperandInput[]> = {},
+): string {
+  return formatEpd({
+    position: fen.trim().split(/\s+/).slice(0, 4).join(' '),
+    operations: Object.entries(operations).map(([opcode, value]) => ({
+      opcode,
+      operands: (Array.isArray(value) ? value : [value]).map(String),
+    })),
+  });
+}
+
+/**
+ * Resolve the SAN operands of a move opcode (`bm`, `am`, `pm`, `sm`) against the record's
+ * position. Operands that are not legal moves are skipped.
+ */
+export function resolveEpdMoves(record: EpdRecord, opcode = 'bm'): EpdMove[] {
+  const moves: EpdMove[] = [];
+
+  for (const operand of getEpdOperands(record, opcode) ?? []) {
+    try {
+      const move = new Chess(record.fen).move(operand.replace(MOVE_SUFFIX_REGEX, ''));
+      moves.push({
+        from: move.from as Square,
+        to: move.to as Square,
+        promotion: move.promotion as PromotionPiece | undefined,
+        san: move.san,
+      });
+    } catch {
+      // Not a legal move in this position
+    }
+  }
+
+  return moves;
+}
@@ -5,6 +5,7 @@ import type {
   Color,
   RulesMoveResponse,
   RulesMoveDetail,
+  PromotionPiece,
 } from './types';
 import { FILES, RANKS, START_FEN, isWhitePiece, parseFEN, type ParsedFENState } from './utils';
 import {
@@ -43,9 +44,18 @@ function boardToFEN(state: ParsedFENState) {
   }`;
 }
 
-type MoveAccumulator = Array<{ f: number; r: number; ep?: boolean }>;
+export interface LightRulesOptions {
+  /**
+   * Generate and play moves that leave the own king attacked, for variants that decide king
+   * safety themselves (Atomic, Antichess). Castling still may not cross attacked squares.
+   */
+  pseudoLegal?: boolean;
+}
+
+type MoveAccumulator = Array<{ f: number; r: number; ep?: boolean; castleRook?: number }>;
 type OccupancyLookup = (file: number, rank: number) => string | null;
 type EnemyDetector = (piece: string | null) => boolean;
+type Board = ParsedFENState['board'];
 
 interface MoveContext {
   f0: number;
@@ -56,27 +66,238 @@ interface MoveContext {
   pushes: MoveAccumulator;
 }
 
+/** Pseudo-legal move on board coordinates */
+interface BoardMove {
+  f0: number;
+  r0: number;
+  f1: number;
+  r1: number;
+  promotion?: PromotionPiece;
+  ep?: boolean;
+  /** File of the castling rook */
+  castleRook?: number;
+}
+
+const KNIGHT_STEPS = [
+  [1, 2],
+  [2, 1],
+  [-1, 2],
+  [-2, 1],
+  [1, -2],
+  [2, -1],
+  [-1, -2],
+  [-2, -1],
+] as const;
+const ROOK_DIRECTIONS = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+] as const;
+const BISHOP_DIRECTIONS = [
+  [1, 1],
+  [-1, 1],
+  [1, -1],
+  [-1, -1],
+] as const;
+const PROMOTION_PIECES: readonly PromotionPiece[] = ['q', 'r', 'b', 'n'];
+const FIFTY_MOVE_HALFMOVES = 100;
+
+const onBoard = (file: number, rank: number) => file >= 0 && file < 8 && rank >= 0 && rank < 8;
+const squareName = (file: number, rank: number) => (FILES[file] + RANKS[rank]) as Square;
+
+function squareCoords(square: string): [number, number] {
+  return [
+    FILES.indexOf(square[0] as (typeof FILES)[number]),
+    RANKS.indexOf(square[1] as (typeof RANKS)[number]),
+  ];
+}
+
+/**
+ * Whether a piece of `byWhite`'s side attacks a square
+ */
+function isSquareAttacked(board: Board, file: number, rank: number, byWhite: boolean): boolean {
+  const own = (piece: string) => (byWhite ? piece.toUpperCase() : piece.toLowerCase());
+  const at = (f: number, r: number) => (onBoard(f, r) ? board[r][f] : null);
+
+  const pawnRank = rank - (byWhite ? 1 : -1);
+  if (at(file - 1, pawnRank) === own('p') || at(file + 1, pawnRank) === own('p')) return true;
+  for (const [df, dr] of KNIGHT_STEPS) {
+    if (at(file + df, rank + dr) === own('n')) return true;
+  }
+  for (let df = -1; df <= 1; df++) {
+    for (let dr = -1; dr <= 1; dr++) {
+      if ((df || dr) && at(file + df, rank + dr) === own('k')) return true;
+    }
+  }
+
+  const rays = [
+    [ROOK_DIRECTIONS, own('r')],
+    [BISHOP_DIRECTIONS, own('b')],
+  ] as const;
+  for (const [directions, slider] of rays) {
+    for (const [df, dr] of directions) {
+      let f = file + df;
+      let r = rank + dr;
+      while (onBoard(f, r)) {
+        const piece = board[r][f];
+        if (piece) {
+          if (piece === slider || piece === own('q')) return true;
+          break;
+        }
+        f += df;
+        r += dr;
+      }
+    }
+  }
+  return false;
+}
+
+function findKing(board: Board, white: boolean): [number, number] | null {
+  const king = white ? 'K' : 'k';
+  for (let r = 0; r < 8; r++) {
+    const f = board[r].indexOf(king);
+    if (f !== -1) return [f, r];
+  }
+  return null;
+}
+
+/**
+ * Positions without a king (composed studies, piece drills) are never in check
+ */
+function isKingAttacked(board: Board, white: boolean): boolean {
+  const king = findKing(board, white);
+  return king ? isSquareAttacked(board, king[0], king[1], !white) : false;
+}
+
+/**
+ * Castling rights of a side as rook files. `K`/`Q` stand for the outermost rook on each side of
+ * the king, Shredder-FEN letters (`HAha`) for the rook's file, which covers Chess960 positions.
+ */
+function castlingRooks(state: ParsedFENState, white: boolean): Map<string, number> {
+  const rooks = new Map<string, number>();
+  const rank = white ? 0 : 7;
+  const row = state.board[rank];
+  const king = row.indexOf(white ? 'K' : 'k');
+  const rook = white ? 'R' : 'r';
+  if (king === -1) return rooks;
+
+  for (const right of state.castling) {
+    if (right === '-' || isWhitePiece(right) !== white) continue;
+    let file = -1;
+    // `K` and `Q` name the outermost rook on their side of the king, file letters any rook
+    let sideOk = false;
+    switch (right.toLowerCase()) {
+      case 'k': {
+        file = row.lastIndexOf(rook);
+        sideOk = file > king;
+        break;
+      }
+      case 'q': {
+        file = row.indexOf(rook);
+        sideOk = file < king;
+        break;
+      }
+      default: {
+        file = FILES.indexOf(right.toLowerCase() as (typeof FILES)[number]);
+        sideOk = file !== king;
+      }
+    }
+    if (file !== -1 && sideOk && row[file] === rook) rooks.set(right, file);
+  }
+  return rooks;
+}
+
+/**
+ * Castling rights left once the pieces on the given squares have moved or been captured
+ */
+function updateCastling(state: ParsedFENState, touched: ReadonlyArray<[number, number]>): string {
+  if (state.castling === '-') return state.castling;
+  // Rights pointing at no rook are dropped along the way
+  const kept: string[] = [];
+  for (const white of [true, false]) {
+    const rank = white ? 0 : 7;
+    const king = white ? 'K' : 'k';
+    if (touched.some(([f, r]) => r === rank && state.board[r][f] === king)) continue;
+    for (const [right, file] of castlingRooks(state, white)) {
+      if (!touched.some(([f, r]) => r === rank && f === file)) kept.push(right);
+    }
+  }
+  return kept.join('') || '-';
+}
+
+function cloneState(state: ParsedFENState): ParsedFENState {
+  return {
+    board: state.board.map((row) => [...row]),
+    turn: state.turn,
+    castling: state.castling,
+    ep: state.ep,
+    halfmove: state.halfmove,
+    fullmove: state.fullmove,
+  };
+}
+
+/**
+ * Play a pseudo-legal move on a copy of the state, clocks and rights included
+ */
+function applyMove(state: ParsedFENState, move: BoardMove): ParsedFENState {
+  const next = cloneState(state);
+  const { f0, r0, f1, r1 } = move;
+  const piece = state.board[r0][f0];
+  if (!piece) return next;
+  const isWhite = isWhitePiece(piece);
+  const isPawn = piece.toLowerCase() === 'p';
+  const captured = move.castleRook === undefined ? state.board[r1][f1] : null;
+
+  next.castling = updateCastling(state, [
+    [f0, r0],
+    [f1, r1],
+  ]);
+  if (move.castleRook === undefined) {
+    if (move.ep) next.board[r0][f1] = null;
+    let placed = piece;
+    if (isPawn && move.promotion) {
+      placed = isWhite ? move.promotion.toUpperCase() : move.promotion;
+    }
+    next.board[r0][f0] = null;
+    next.board[r1][f1] = placed;
+  } else {
+    const rook = next.board[r0][move.castleRook];
+    const kingside = move.castleRook > f0;
+    next.board[r0][f0] = null;
+    next.board[r0][move.castleRook] = null;
+    next.board[r0][kingside ? 6 : 2] = piece;
+    next.board[r0][kingside ? 5 : 3] = rook;
+  }
+
+  next.ep = isPawn && Math.abs(r1 - r0) === 2 ? squareName(f0, (r0 + r1) / 2) : null;
+  next.halfmove = isPawn || captured || move.ep ? 0 : state.halfmove + 1;
+  if (!isWhite) next.fullmove = state.fullmove + 1;
+  next.turn = isWhite ? 'b' : 'w';
+  return next;
+}
+
 export class LightRules implements RulesAdapter {
   private state = parseFEN(START_FEN);
   private historyStore = createHistoryStore(START_FEN);
+  private readonly pseudoLegal: boolean;
+  /** Moves of the current position, generated once per position */
+  private legalMoves: BoardMove[] | null = null;
+  /** Repetition key of each position of the game by FEN, taken when the position is reached */
+  private readonly repetitionKeys = new Map<string, string>();
   public readonly supportsSanMoves = false;
-  private cloneState(state: ParsedFENState): ParsedFENState {
-    return {
-      board: state.board.map((row) => [...row]),
-      turn: state.turn,
-      castling: state.castling,
-      ep: state.ep,
-      halfmove: state.halfmove,
-      fullmove: state.fullmove,
-    };
+  constructor(options: LightRulesOptions = {}) {
+    this.pseudoLegal = options.pseudoLegal === true;
+    this.reset();
   }
   reset() {
-    this.state = parseFEN(START_FEN);
-    this.historyStore = resetHistory(this.historyStore, boardToFEN(this.state));
+    this.setFEN(START_FEN);
   }
   setFEN(f: string) {
-    this.state = parseFEN(f);
+    this.load(parseFEN(f));
     this.historyStore = resetHistory(this.historyStore, boardToFEN(this.state));
+    this.repetitionKeys.clear();
+    this.recordPosition();
   }
   getFEN() {
     return getCurrentFen(this.historyStore);
@@ -85,8 +306,7 @@ export class LightRules implements RulesAdapter {
     return this.state.turn;
   }
   pieceAt(square: Square) {
-    const f = FILES.indexOf(square[0] as (typeof FILES)[number]);
-    const r = RANKS.indexOf(square[1] as (typeof RANKS)[number]);
+    const [f, r] = squareCoords(square);
     return this.state.board[r][f];
   }
   private collectRayMoves(context: MoveContext, df: number, dr: number): void {
@@ -116,16 +336,7 @@ export class LightRules implements RulesAdapter {
   }
   private collectKnightMoves(context: MoveContext): void {
     const { f0, r0, occ, enemy, pushes } = context;
-    for (const [df, dr] of [
-      [1, 2],
-      [2, 1],
-      [-1, 2],
-      [-2, 1],
-      [1, -2],
-      [2, -1],
-      [-1, -2],
-      [-2, -1],
-    ] as const) {
+    for (const [df, dr] of KNIGHT_STEPS) {
       const file = f0 + df;
       const rank = r0 + dr;
       if (file < 0 || file > 7 || rank < 0 || rank > 7) continue;
@@ -145,11 +356,39 @@ export class LightRules implements RulesAdapter {
         if (!target || enemy(target)) pushes.push({ f: file, r: rank });
       }
     }
+    this.collectCastlingMoves(context);
+  }
+  /**
+   * King and rook end on g/f or c/d whatever their start files; every square they cross must be
+   * empty and the king may not castle out of, through or into check
+   */
+  private collectCastlingMoves(context: MoveContext): void {
+    const { f0, r0, isWhite, pushes } = context;
+    const board = this.state.board;
+    if (r0 !== (isWhite ? 0 : 7) || isSquareAttacked(board, f0, r0, !isWhite)) return;
+
+    for (const rookFile of castlingRooks(this.state, isWhite).values()) {
+      const kingside = rookFile > f0;
+      const kingTo = kingside ? 6 : 2;
+      const rookTo = kingside ? 5 : 3;
+      const low = Math.min(f0, rookFile, kingTo, rookTo);
+      const high = Math.max(f0, rookFile, kingTo, rookTo);
+      let clear = true;
+      for (let file = low; file <= high && clear; file++) {
+        clear = file === f0 || file === rookFile || !board[r0][file];
+      }
+      const step = Math.sign(kingTo - f0);
+      for (let file = f0 + step; clear && step !== 0 && file !== kingTo; file += step) {
+        clear = !isSquareAttacked(board, file, r0, !isWhite);
+      }
+      if (clear) pushes.push({ f: kingTo, r: r0, castleRook: rookFile });
+    }
   }
   private collectPawnMoves(context: MoveContext): void {
     const { f0, r0, isWhite, occ, enemy, pushes } = context;
     const dir = isWhite ? 1 : -1;
     const start = isWhite ? 1 : 6;
+    if (!onBoard(f0, r0 + dir)) return;
     if (!occ(f0, r0 + dir)) pushes.push({ f: f0, r: r0 + dir });
     if (r0 === start && !occ(f0, r0 + dir) && !occ(f0, r0 + 2 * dir)) {
       pushes.push({ f: f0, r: r0 + 2 * dir });
@@ -163,19 +402,20 @@ export class LightRules implements RulesAdapter {
       }
     }
     if (this.state.ep && this.state.ep !== '-') {
-      const ef = FILES.indexOf(this.state.ep[0] as (typeof FILES)[number]);
-      const er = RANKS.indexOf(this.state.ep[1] as (typeof RANKS)[number]);
+      const [ef, er] = squareCoords(this.state.ep);
       if (er === r0 + dir && Math.abs(ef - f0) === 1) pushes.push({ f: ef, r: er, ep: true });
     }
   }
-  movesFrom(square: Square): Move[] {
-    const piece = this.pieceAt(square);
+  /**
+   * Legal moves of the piece on a square as board coordinates; pseudo-legal ones when the
+   * `pseudoLegal` option is set
+   */
+  private generateMoves(f0: number, r0: number): BoardMove[] {
+    const piece = this.state.board[r0][f0];
     if (!piece) return [];
     const isWhite = isWhitePiece(piece);
     const me: Color = isWhite ? 'w' : 'b';
     if (me !== this.state.turn) return [];
-    const f0 = FILES.indexOf(square[0] as (typeof FILES)[number]);
-    const r0 = RANKS.indexOf(square[1] as (typeof RANKS)[number]);
     const occ: OccupancyLookup = (file: number, rank: number) => this.state.board[rank][file];
     const enemy: EnemyDetector = (pp: string | null) => !!pp && isWhitePiece(pp) !== isWhite;
     const pushes: MoveAccumulator = [];
@@ -197,34 +437,15 @@ export class LightRules implements RulesAdapter {
         break;
       }
       case 'b': {
-        this.collectSlidingMoves(context, [
-          [1, 1],
-          [-1, 1],
-          [1, -1],
-          [-1, -1],
-        ]);
+        this.collectSlidingMoves(context, BISHOP_DIRECTIONS);
         break;
       }
       case 'r': {
-        this.collectSlidingMoves(context, [
-          [1, 0],
-          [-1, 0],
-          [0, 1],
-          [0, -1],
-        ]);
+        this.collectSlidingMoves(context, ROOK_DIRECTIONS);
         break;
       }
       case 'q': {
-        this.collectSlidingMoves(context, [
-          [1, 0],
-          [-1, 0],
-          [0, 1],
-          [0, -1],
-          [1, 1],
-          [-1, 1],
-          [1, -1],
-          [-1, -1],
-        ]);
+        this.collectSlidingMoves(context, [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS]);
         break;
       }
       default: {
@@ -232,12 +453,72 @@ export class LightRules implements RulesAdapter {
       }
     }
 
-    const sq = (f: number, r: number) => (FILES[f] + RANKS[r]) as Square;
-    return pushes.map(({ f, r, ep }) => ({
-      from: (FILES[f0] + RANKS[r0]) as Square,
-      to: sq(f, r),
+    const moves: BoardMove[] = [];
+    for (const { f, r, ep, castleRook } of pushes) {
+      const move: BoardMove = { f0, r0, f1: f, r1: r, ep, castleRook };
+      if (!this.pseudoLegal && isKingAttacked(applyMove(this.state, move).board, isWhite)) {
+        continue;
+      }
+      if (pieceCode === 'p' && (r === 7 || r === 0)) {
+        moves.push(...PROMOTION_PIECES.map((promotion) => ({ ...move, promotion })));
+      } else {
+        moves.push(move);
+      }
+    }
+    return moves;
+  }
+  /**
+   * Castling is encoded as the king's two-square move in standard positions and as the king
+   * taking its own rook otherwise (Chess960), where the king may only move one square or none
+   */
+  private toMove(move: BoardMove): Move {
+    const { f0, r0, f1, r1, promotion, ep, castleRook } = move;
+    const standardCastling = f0 === 4 && (castleRook === 0 || castleRook === 7);
+    const to =
+      castleRook === undefined || standardCastling
+        ? squareName(f1, r1)
+        : squareName(castleRook, r0);
+    return {
+      from: squareName(f0, r0),
+      to,
+      ...(promotion ? { promotion } : {}),
       ...(ep ? { captured: 'p', ep: true } : {}),
-    }));
+    };
+  }
+  movesFrom(square: Square): Move[] {
+    const [f0, r0] = squareCoords(square);
+    return this.generateMoves(f0, r0).map((move) => this.toMove(move));
+  }
+  /**
+   * Get every legal move in the current position
+   */
+  getAllMoves(): Move[] {
+    return this.generateAllMoves().map((move) => this.toMove(move));
+  }
+  private generateAllMoves(): BoardMove[] {
+    if (this.legalMoves) return this.legalMoves;
+    const moves: BoardMove[] = [];
+    for (let r = 0; r < 8; r++) {
+      for (let f = 0; f < 8; f++) {
+        moves.push(...this.generateMoves(f, r));
+      }
+    }
+    this.legalMoves = moves;
+    return moves;
+  }
+  private load(state: ParsedFENState): void {
+    this.state = state;
+    this.legalMoves = null;
+  }
+  /**
+   * Store the repetition key of the current position: its FEN without the move counters, the
+   * en passant square only counting when a capture on it is legal
+   */
+  private recordPosition(): void {
+    const fen = boardToFEN(this.state);
+    const [placement, turn, castling, ep] = fen.split(' ');
+    const capturable = ep !== '-' && this.generateAllMoves().some((move) => move.ep);
+    this.repetitionKeys.set(fen, `${placement} ${turn} ${castling} ${capturable ? ep : '-'}`);
   }
   move(move: string): RulesMoveResponse;
   move({
@@ -263,41 +544,39 @@ export class LightRules implements RulesAdapter {
     }
 
     const { from, to, promotion } = moveData;
-    const s = this.cloneState(this.state);
-    const f0 = FILES.indexOf(from[0] as (typeof FILES)[number]);
-    const r0 = RANKS.indexOf(from[1] as (typeof RANKS)[number]);
-    const f1 = FILES.indexOf(to[0] as (typeof FILES)[number]);
-    const r1 = RANKS.indexOf(to[1] as (typeof RANKS)[number]);
-    const p = s.board[r0][f0];
+    const [f0, r0] = squareCoords(from);
+    const [f1, r1] = squareCoords(to);
+    const p = this.state.board[r0][f0];
     if (!p) return { ok: false, reason: 'empty' };
     const isW = isWhitePiece(p);
-    if ((isW && s.turn !== 'w') || (!isW && s.turn !== 'b')) return { ok: false, reason: 'turn' };
-    const legal = this.movesFrom(from).find((m) => m.to === to);
+    if ((isW && this.state.turn !== 'w') || (!isW && this.state.turn !== 'b'))
+      return { ok: false, reason: 'turn' };
+    const candidates = this.generateMoves(f0, r0).filter(
+      (m) =>
+        (m.f1 === f1 && m.r1 === r1) ||
+        // Castling may also be given as the king taking its own rook
+        (m.castleRook === f1 && m.r1 === r1),
+    );
+    const legal =
+      candidates.find((m) => m.castleRook !== undefined) ??
+      candidates.find((m) => (m.promotion ?? 'q') === (promotion ?? 'q'));
     if (!legal) return { ok: false, reason: 'illegal' };
-    if (legal.ep) {
-      const dir = isW ? 1 : -1;
-      s.board[r1 - dir][f1] = null;
-    }
-    s.board[r1][f1] = p;
-    s.board[r0][f0] = null;
-    if (p.toLowerCase() === 'p' && (r1 === 7 || r1 === 0)) {
-      const promo = promotion || 'q';
-      s.board[r1][f1] = isW ? promo.toUpperCase() : promo;
-    }
-    s.turn = s.turn === 'w' ? 'b' : 'w';
+
+    const s = applyMove(this.state, legal);
     const fen = boardToFEN(s);
     this.historyStore = makeMove(this.historyStore, {
       fen,
-      move: { from, to },
+      move: { ...this.toMove(legal), from },
     });
-    this.state = s; // Update internal state
+    this.load(s);
+    this.recordPosition();
     return { ok: true, fen, state: s };
   }
   undo(): boolean {
     const { state, previous } = undoHistory(this.historyStore);
     if (!previous) return false;
     this.historyStore = state;
-    this.state = parseFEN(getCurrentFen(this.historyStore));
+    this.load(parseFEN(getCurrentFen(this.historyStore)));
     return true;
   }
 
@@ -305,7 +584,7 @@ export class LightRules implements RulesAdapter {
     const { state, next } = redoHistory(this.historyStore);
     if (!next) return false;
     this.historyStore = state;
-    this.state = parseFEN(getCurrentFen(this.historyStore));
+    this.load(parseFEN(getCurrentFen(this.historyStore)));
     return true;
   }
 
@@ -330,15 +609,95 @@ export class LightRules implements RulesAdapter {
     } satisfies RulesMoveDetail;
   }
 
+  /**
+   * Check whether the side to move is in check
+   */
+  inCheck(): boolean {
+    return isKingAttacked(this.state.board, this.state.turn === 'w');
+  }
+
+  /**
+   * Check whether the position is checkmate
+   */
+  isCheckmate(): boolean {
+    return this.inCheck() && this.generateAllMoves().length === 0;
+  }
+
+  /**
+   * Check whether the position is stalemate
+   */
+  isStalemate(): boolean {
+    return !this.inCheck() && this.generateAllMoves().length === 0;
+  }
+
+  /**
+   * Check whether fifty moves went by without a capture or pawn move
+   */
+  isDrawByFiftyMoves(): boolean {
+    return this.state.halfmove >= FIFTY_MOVE_HALFMOVES && !this.isCheckmate();
+  }
+
+  /**
+   * Check whether the game is drawn: stalemate, fifty-move rule, insufficient material or
+   * threefold repetition
+   */
   isDraw(): boolean {
-    return false;
+    return (
+      this.isStalemate() ||
+      this.isDrawByFiftyMoves() ||
+      this.isInsufficientMaterial() ||
+      this.isThreefoldRepetition()
+    );
   }
 
+  /**
+   * Check whether neither side can mate: bare kings, a single minor piece, or bishops all on
+   * squares of one colour
+   */
   isInsufficientMaterial(): boolean {
-    return false;
+    const minors: Array<{ piece: string; squareColor: number }> = [];
+    for (let r = 0; r < 8; r++) {
+      for (let f = 0; f < 8; f++) {
+        const piece = this.state.board[r][f]?.toLowerCase();
+        if (!piece || piece === 'k') continue;
+        if (piece !== 'b' && piece !== 'n') return false;
+        minors.push({ piece, squareColor: (f + r) % 2 });
+      }
+    }
+    if (minors.length <= 1) return true;
+    return (
+      minors.every((minor) => minor.piece === 'b') &&
+      minors.every((minor) => minor.squareColor === minors[0].squareColor)
+    );
   }
 
+  /**
+   * Check whether the current position has occurred three times
+   */
   isThreefoldRepetition(): boolean {
-    return false;
+    const { past, present } = this.historyStore;
+    const key = this.repetitionKeys.get(present.fen);
+    let occurrences = 1;
+    for (const entry of past) {
+      if (this.repetitionKeys.get(entry.fen) === key) occurrences++;
+    }
+    return occurrences >= 3;
+  }
+
+  /**
+   * Determine whether the game has ended
+   */
+  isGameOver(): boolean {
+    return this.isCheckmate() || this.isDraw();
+  }
+
+  /**
+   * Get the result of the game
+   */
+  getGameResult(): '1-0' | '0-1' | '1/2-1/2' | '*' {
+    if (this.isCheckmate()) {
+      return this.state.turn === 'w' ? '0-1' : '1-0';
+    }
+    return this.isDraw() ? '1/2-1/2' : '*';
   }
 }
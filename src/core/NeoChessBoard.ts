@@ -30,10 +30,16 @@ import { BoardEventManager, type BoardPointerEventPoint } from './BoardEventMana
 import { CanvasRenderer } from '../rendering/CanvasRenderer';
 import type { PgnNotation } from './PgnNotation';
 import { ChessGame } from './logic/ChessGame';
-import { PgnParseError } from './errors';
+import { PgnParseError, PositionValidationError } from './errors';
 import { CaptureEffectManager } from './CaptureEffectManager';
+import { PocketManager } from './PocketManager';
+import { CheckCounterManager } from './CheckCounterManager';
 import { LegalMovesWorkerManager } from './LegalMovesWorkerManager';
 import { PgnParserWorkerManager } from './PgnParserWorkerManager';
+import { recoverPgn, type PgnLoadOptions, type PgnRecoveryResult } from './PgnRecovery';
+import { localizeMoveText, localizeSan, type NotationLocale } from './NotationLocale';
+import { parseEpd, resolveEpdMoves, type EpdRecord } from './Epd';
+import { validatePosition } from './PositionValidation';
 import { InteractionStateManager } from './state/InteractionStateManager';
 import { RuleEngine } from './RuleEngine';
 import type {
@@ -69,6 +75,7 @@ import type {
   RulesMoveDetail,
   RulesMoveResponse,
   PgnMoveAnnotations,
+  PgnVariationPath,
   ArrowStyleOptions,
   InlineStyle,
   SquareStyleOptions,
@@ -90,6 +97,9 @@ import type {
   PremoveColorListInput,
   Variant,
   PuzzleModeConfig,
+  PocketPiece,
+  Pockets,
+  RemainingChecks,
 } from './types';
 import { PremoveManager } from './premove/PremoveManager';
 import { PuzzleSessionManager } from '../extensions/puzzle-mode/PuzzleSessionManager';
@@ -121,6 +131,18 @@ const MIN_ARROW_THICKNESS = 6;
 const ARROW_OPACITY = 0.95;
 const PREMOVE_EXECUTION_DELAY = 150;
 const POST_MOVE_PREMOVE_DELAY = 50;
+const PGN_COMMENT_SEGMENT_REGEX = /(\{[^}]*\}|;[^\n]*)/;
+const PGN_MOVETEXT_TOKEN_REGEX = /[()]|[^\s()]+/g;
+const PGN_SAN_TOKEN_REGEX = /^(?:O-O(?:-O)?|[KQRBN]?[a-h1-8x]*[a-h][1-8](?:=[QRBN])?)[+#]?$/;
+const SUPPORTED_VARIANTS: ReadonlySet<Variant> = new Set<Variant>([
+  'chess960',
+  'crazyhouse',
+  'threecheck',
+  'kingofthehill',
+  'racingkings',
+  'atomic',
+  'antichess',
+]);
 
 type AnimationEasingId = AnimationEasingName | 'custom';
 
@@ -256,6 +278,9 @@ export class NeoChessBoard {
   private squareElements = new Map<Square, HTMLDivElement>();
   private pieceElements = new Map<Square, HTMLDivElement>();
   private captureEffectManager?: CaptureEffectManager;
+  private pocketManager?: PocketManager;
+  private showPockets = true;
+  private checkCounterManager?: CheckCounterManager;
   private boardId?: string;
   public cameraEffects: CameraEffects | null = null;
   private cameraEffectsOptions: BoardCameraEffectsOptions = {};
@@ -277,6 +302,9 @@ export class NeoChessBoard {
     this.game.state = next;
   }
   private lastPgnLoadIssues: PgnParseError[] = [];
+  private variationPath: PgnVariationPath = [];
+  /** Clock times recorded while playing, keyed by the number of moves in the history. */
+  private moveClockRecords = new Map<number, { clock: number; elapsed: number }>();
 
   // ---- Visual Configuration ----
   private theme: Theme = resolveTheme('classic');
@@ -304,6 +332,7 @@ export class NeoChessBoard {
   }
   private showArrows: boolean;
   private showHighlights: boolean;
+  private showAnnotationBadges: boolean;
   private rightClickHighlights: boolean;
   private allowDrawingArrows: boolean;
   private clearArrowsOnClick: boolean;
@@ -384,6 +413,7 @@ export class NeoChessBoard {
   private static workerSupportWarned = false;
   private _useWorkerForLegalMoves: boolean;
   private _useWorkerForPgnParsing: boolean;
+  private _strictPositionValidation: boolean;
   private _pgnWorkerThreshold: number;
   private _arrows: Array<{ from: Square; to: Square; color?: string }> = [];
   private _customHighlights: { squares: Square[] } | null = null;
@@ -427,6 +457,7 @@ export class NeoChessBoard {
   // ---- Extensions ----
   private extensionStates: ExtensionState[] = [];
   private readonly initialOptions: BoardOptions;
+  private readonly variant: Variant;
 
   // ============================================================================
   // Constructor
@@ -440,6 +471,10 @@ export class NeoChessBoard {
 
     this._configureVisualOptions(options);
     const { premoveSettings, allowPremoves, variant, initialFen } = this._resolveGameSetup(options);
+    this.variant = variant;
+    if (options.strictPositionValidation === true && initialFen) {
+      this._assertLegalPosition(initialFen);
+    }
     this.premoveManager = new PremoveManager(
       premoveSettings,
       allowPremoves,
@@ -478,6 +513,7 @@ export class NeoChessBoard {
     this.allowPremoves = allowPremoves;
     this.showArrows = options.showArrows !== false;
     this.showHighlights = options.showHighlights !== false;
+    this.showAnnotationBadges = options.showAnnotationBadges !== false;
     this.rightClickHighlights = options.rightClickHighlights !== false;
     this.allowDrawingArrows = options.allowDrawingArrows !== false;
     this.clearArrowsOnClick = options.clearArrowsOnClick === true;
@@ -532,6 +568,7 @@ export class NeoChessBoard {
     this.onArrowsChange = options.onArrowsChange;
     this.controlledArrows = options.arrows;
     this.premove = this._createPremoveController();
+    this._strictPositionValidation = options.strictPositionValidation === true;
 
     // Initialize Web Workers for performance (skip when not supported, e.g. Node/JSDOM)
     const workersSupported = typeof Worker !== 'undefined';
@@ -627,6 +664,24 @@ export class NeoChessBoard {
       options: options.captureEffect,
       board: this,
     });
+    this.showPockets = options.showPockets !== false;
+    this.pocketManager = new PocketManager({
+      root: this.root,
+      getPockets: () => (this.showPockets ? this.getPockets() : null),
+      getOrientation: () => this.orientation,
+      getTurn: () => this.state.turn,
+      isInteractive: () => this.interactive,
+      squareAtClientPoint: (clientX, clientY) => this._clientPointToSquare(clientX, clientY),
+      onDrop: (piece, to) => {
+        this.dropPiece(piece, to);
+      },
+    });
+    const showCheckCounter = options.showCheckCounter !== false;
+    this.checkCounterManager = new CheckCounterManager({
+      root: this.root,
+      getRemainingChecks: () => (showCheckCounter ? this.getRemainingChecks() : null),
+      getOrientation: () => this.orientation,
+    });
     this.squareElements.clear();
     this.pieceElements.clear();
     this._applyNotationStyles();
@@ -783,11 +838,23 @@ export class NeoChessBoard {
     const premoveSettings: BoardPremoveSettings = options.premove ?? {};
     const allowPremovesDefault = options.allowPremoves !== false;
     const allowPremoves = premoveSettings.enabled !== false && allowPremovesDefault;
-    const variant: Variant = options.variant === 'chess960' ? 'chess960' : 'standard';
+    const variant: Variant =
+      options.variant && SUPPORTED_VARIANTS.has(options.variant) ? options.variant : 'standard';
     const initialFen = this._resolveInitialFen(options, variant);
     return { premoveSettings, allowPremoves, variant, initialFen };
   }
 
+  /**
+   * Throw a `PositionValidationError` listing every problem `validatePosition` finds with the
+   * FEN under the rules of the board's variant
+   */
+  private _assertLegalPosition(fen: string): void {
+    const issues = validatePosition(fen, { variant: this.variant });
+    if (issues.length > 0) {
+      throw new PositionValidationError(fen, issues);
+    }
+  }
+
   private _resolveInitialFen(options: BoardOptions, variant: Variant): string | undefined {
     const provided = options.fen ?? options.position;
     if (variant === 'chess960' && !provided) {
@@ -872,11 +939,49 @@ export class NeoChessBoard {
     return squares;
   }
 
-  public getMoveHistory(): string[] {
-    if (typeof this.rules.history === 'function') {
-      return this.rules.history();
-    }
-    return [];
+  /**
+   * Moves played so far, in SAN unless another `notation` is requested (this needs an adapter
+   * with a detailed `getHistory()`). With `notationLocale`, piece letters are localized for
+   * display (e.g. `Cf3` in French, `♘f3` with `'figurine'`).
+   */
+  public getMoveHistory(
+    options: { notation?: MoveNotation; notationLocale?: NotationLocale } = {},
+  ): string[] {
+    const { notation = 'san', notationLocale } = options;
+    const history =
+      notation === 'san' ? this._getSanHistory() : this._getFormattedHistory(notation);
+    return notationLocale ? history.map((move) => localizeSan(move, notationLocale)) : history;
+  }
+
+  /**
+   * FEN before each move played, followed by the current FEN. Needs an adapter whose
+   * `getHistory()` records the `before` position (as `ChessJsRules` does); otherwise only the
+   * current FEN is returned.
+   */
+  public getPositionHistory(): string[] {
+    const before = (this.rules.getHistory?.() ?? []).map((move) => move.before);
+    const positions = before.every((fen): fen is string => typeof fen === 'string') ? before : [];
+    return [...positions, this.rules.getFEN()];
+  }
+
+  private _getSanHistory(): string[] {
+    return typeof this.rules.history === 'function' ? this.rules.history() : [];
+  }
+
+  private _getFormattedHistory(notation: MoveNotation): string[] {
+    const history = this.rules.getHistory?.() ?? [];
+    return history.map(
+      (move) =>
+        this.ruleEngine.formatMove(
+          {
+            from: move.from,
+            to: move.to,
+            promotion: move.promotion as PromotionPiece | undefined,
+            san: move.san,
+          },
+          notation,
+        ) ?? '',
+    );
   }
 
   public isDraw(): boolean {
@@ -908,13 +1013,44 @@ export class NeoChessBoard {
     this.loadPosition(fen, immediate);
   }
 
+  /**
+   * Load the position of an EPD line. Its best moves (`bm`) are drawn as arrows unless
+   * `showBestMoves` is false. Throws `EpdParseError` when the line is malformed.
+   */
+  public loadEpd(
+    epd: string | EpdRecord,
+    options: { immediate?: boolean; showBestMoves?: boolean; arrowColor?: string } = {},
+  ): EpdRecord {
+    const { immediate = true, showBestMoves = true, arrowColor } = options;
+    const record = typeof epd === 'string' ? parseEpd(epd) : epd;
+
+    this.loadPosition(record.fen, immediate);
+    this._clearAllDrawings();
+    if (showBestMoves) {
+      for (const move of resolveEpdMoves(record, 'bm')) {
+        this.addArrow({ from: move.from, to: move.to, color: arrowColor });
+      }
+    }
+    return record;
+  }
+
   public reset(immediate = true): void {
+    this.variationPath = [];
+    this.moveClockRecords.clear();
     this._resetRulesAdapter();
     this.loadPosition(this.rules.getFEN(), immediate);
     this._clearAllDrawings();
   }
 
-  public setFEN(fen: string, immediate = false): void {
+  /**
+   * Set the position. In strict mode (the `strict` option, or `strictPositionValidation` on the
+   * board) an illegal position throws a `PositionValidationError` and the board is left unchanged.
+   */
+  public setFEN(fen: string, immediate = false, options: { strict?: boolean } = {}): void {
+    if (options.strict ?? this._strictPositionValidation) {
+      this._assertLegalPosition(fen);
+    }
+
     this._cancelPendingPromotion();
 
     const oldState = this.state;
@@ -984,7 +1120,12 @@ export class NeoChessBoard {
       }
     }
 
-    const parsed = this.ruleEngine.parseCoordinateNotation(sanitizedNotation);
+    const drop = this.ruleEngine.parseDropNotation(sanitizedNotation);
+    if (drop) {
+      return this.dropPiece(drop.piece, drop.to);
+    }
+
+    const parsed = this.ruleEngine.parseMoveNotation(sanitizedNotation);
     if (!parsed) {
       return false;
     }
@@ -1020,6 +1161,47 @@ export class NeoChessBoard {
     return outcome.success !== false;
   }
 
+  /**
+   * Drop a piece from the pocket of the side to move (Crazyhouse). Returns `false` when the
+   * rules adapter has no pockets or the drop is illegal, which emits `illegal`.
+   */
+  public dropPiece(piece: PocketPiece, to: Square): boolean {
+    if (typeof this.rules.drop !== 'function') {
+      return false;
+    }
+
+    this._cancelPendingPromotion();
+    const legal = this.rules.drop(piece, to);
+    if (!legal?.ok) {
+      this._processMoveFailure(to, to, legal);
+      return false;
+    }
+
+    this._processMoveSuccess(to, to, legal);
+    return true;
+  }
+
+  /**
+   * Variant the board was created for, `standard` when none or an unsupported one was given
+   */
+  public getVariant(): Variant {
+    return this.variant;
+  }
+
+  /**
+   * Pieces in hand of each side, `null` when the rules adapter has no pockets
+   */
+  public getPockets(): Pockets | null {
+    return this.rules.getPockets?.() ?? null;
+  }
+
+  /**
+   * Checks each side still has to give in a three-check game, from the counter of the FEN
+   */
+  public getRemainingChecks(): RemainingChecks | null {
+    return this.state.remainingChecks ?? null;
+  }
+
   public undoMove(immediate = false): boolean {
     const previousState = this.state;
     const undone = this.rules.undo();
@@ -1028,6 +1210,7 @@ export class NeoChessBoard {
       return false;
     }
 
+    this._syncVariationPath();
     this._cancelPendingPromotion();
     this._pendingPromotion = null;
     this.drawingManager?.clearPromotionPreview();
@@ -1107,13 +1290,67 @@ export class NeoChessBoard {
   // Public API - PGN Management
   // ============================================================================
 
-  public exportPGN(options: { includeHeaders?: boolean; includeComments?: boolean } = {}): string {
-    const { includeHeaders = true, includeComments = true } = options;
+  /**
+   * Export the game as PGN. With `exportFormat`, the text follows the PGN export format
+   * (see `PgnNotation#toExportFormatPgn`) and `includeHeaders` is ignored. `notationLocale`
+   * localizes the piece letters of the movetext; the result is for display only, since PGN
+   * readers expect English SAN. `notation` likewise rewrites the mainline moves in another
+   * notation (long algebraic, ICCF numeric...) for display, while the board is on the mainline.
+   * Inside a variation the game recorded in the variation tree is exported, not the moves on the
+   * board.
+   */
+  public exportPGN(
+    options: {
+      includeHeaders?: boolean;
+      includeComments?: boolean;
+      exportFormat?: boolean;
+      notation?: MoveNotation;
+      notationLocale?: NotationLocale;
+    } = {},
+  ): string {
+    const {
+      includeHeaders = true,
+      includeComments = true,
+      exportFormat = false,
+      notation = 'san',
+      notationLocale,
+    } = options;
+
+    const inVariation = this.variationPath.length > 0;
+    let pgn = this._writePgn(includeHeaders, exportFormat);
 
+    if (!includeComments && pgn) {
+      pgn = this._stripPgnComments(pgn);
+    }
+
+    if (notation !== 'san' && pgn && !inVariation) {
+      pgn = this._replacePgnMainlineMoves(pgn, this.getMoveHistory({ notation, notationLocale }));
+    } else if (notationLocale && pgn) {
+      pgn = this._localizePgnMoveText(pgn, notationLocale);
+    }
+
+    return pgn.trim();
+  }
+
+  /**
+   * PGN of the game from the rules adapter, or from the variation tree inside a variation
+   */
+  private _writePgn(includeHeaders: boolean, exportFormat: boolean): string {
+    const pgnNotation = this._getPgnNotation();
     let pgn = '';
 
-    if (typeof this.rules.toPgn === 'function') {
+    if (this.variationPath.length > 0 && pgnNotation) {
+      // Importing the moves played would replace the mainline with the variation
+      pgn = exportFormat ? pgnNotation.toExportFormatPgn() : pgnNotation.toPgn(includeHeaders);
+    } else if (typeof this.rules.toPgn === 'function') {
       pgn = this.rules.toPgn(includeHeaders);
+      const wroteClocks =
+        !!this.clockManager && !!pgnNotation && this._writeRecordedClocksToPgn(pgnNotation);
+      if (pgnNotation && exportFormat) {
+        pgn = pgnNotation.toExportFormatPgn();
+      } else if (pgnNotation && wroteClocks) {
+        pgn = pgnNotation.toPgn(includeHeaders);
+      }
     } else if (this.rules.getPGN) {
       pgn = this.rules.getPGN();
 
@@ -1127,11 +1364,49 @@ export class NeoChessBoard {
       console.warn('[NeoChessBoard] The current rules adapter does not support PGN export.');
     }
 
-    if (!includeComments && pgn) {
-      pgn = this._stripPgnComments(pgn);
-    }
+    return pgn;
+  }
 
-    return pgn.trim();
+  private _localizePgnMoveText(pgn: string, locale: NotationLocale): string {
+    return this._mapPgnMoveText(pgn, (moveText) => localizeMoveText(moveText, locale));
+  }
+
+  /**
+   * Replace the SAN moves of the mainline, in order, leaving comments and variations untouched
+   */
+  private _replacePgnMainlineMoves(pgn: string, moves: string[]): string {
+    return this._mapPgnMoveText(pgn, (moveText) => {
+      let depth = 0;
+      let index = 0;
+      return moveText
+        .split(PGN_COMMENT_SEGMENT_REGEX)
+        .map((segment, segmentIndex) =>
+          segmentIndex % 2 === 1
+            ? segment
+            : segment.replaceAll(PGN_MOVETEXT_TOKEN_REGEX, (token) => {
+                if (token === '(' || token === ')') {
+                  depth += token === '(' ? 1 : -1;
+                  return token;
+                }
+                const replacement =
+                  depth === 0 && PGN_SAN_TOKEN_REGEX.test(token) ? moves[index] : undefined;
+                if (replacement === undefined) {
+                  return token;
+                }
+                index++;
+                return replacement;
+              }),
+        )
+        .join('');
+    });
+  }
+
+  private _mapPgnMoveText(pgn: string, mapMoveText: (moveText: string) => string): string {
+    const headerEnd = pgn.trimStart().startsWith('[') ? pgn.indexOf('\n\n') : 0;
+    if (headerEnd === -1) {
+      return pgn;
+    }
+    return pgn.slice(0, headerEnd) + mapMoveText(pgn.slice(headerEnd));
   }
 
   private _shouldUsePgnWorker(pgnString: string): boolean {
@@ -1186,7 +1461,25 @@ export class NeoChessBoard {
     return notation ? notation.getParseIssues() : [];
   }
 
-  public loadPgnWithAnnotations(pgnString: string): boolean {
+  /**
+   * Load PGN with annotations. With `lenient`, common mistakes (figurines, localized piece
+   * letters, `0-0`, en-dash results, smart quotes, missing move numbers) are repaired first and
+   * the game is cut at its first illegal move; each repair is reported by getLastPgnLoadIssues().
+   */
+  public loadPgnWithAnnotations(pgnString: string, options: PgnLoadOptions = {}): boolean {
+    const recovery = this._recoverPgnIfLenient(pgnString, options);
+    const success = this._loadPgnWithAnnotationsSync(recovery.pgn);
+    this.lastPgnLoadIssues = [...recovery.issues, ...this.lastPgnLoadIssues];
+    return success;
+  }
+
+  private _recoverPgnIfLenient(pgnString: string, options: PgnLoadOptions): PgnRecoveryResult {
+    return options.lenient
+      ? recoverPgn(pgnString, { locale: options.locale })
+      : { pgn: pgnString, issues: [] };
+  }
+
+  private _loadPgnWithAnnotationsSync(pgnString: string): boolean {
     // Synchronous version - always uses main thread
     // For Worker-based parsing, use loadPgnWithAnnotationsAsync()
     this.lastPgnLoadIssues = [];
@@ -1224,19 +1517,23 @@ export class NeoChessBoard {
    * Load PGN with annotations asynchronously using Web Worker
    * This method is non-blocking and should be used for large files
    */
-  public async loadPgnWithAnnotationsAsync(pgnString: string): Promise<boolean> {
+  public async loadPgnWithAnnotationsAsync(
+    pgnString: string,
+    options: PgnLoadOptions = {},
+  ): Promise<boolean> {
     this.lastPgnLoadIssues = [];
     try {
-      const parsedResult = this._shouldUsePgnWorker(pgnString)
-        ? await this._parsePgnWithWorker(pgnString)
+      const recovery = this._recoverPgnIfLenient(pgnString, options);
+      const parsedResult = this._shouldUsePgnWorker(recovery.pgn)
+        ? await this._parsePgnWithWorker(recovery.pgn)
         : null;
 
-      if (parsedResult) {
-        return this._loadParsedPgnResult(pgnString, parsedResult.parseIssues);
-      }
-
       // Fallback to synchronous parsing
-      return this.loadPgnWithAnnotations(pgnString);
+      const success = parsedResult
+        ? this._loadParsedPgnResult(recovery.pgn, parsedResult.parseIssues)
+        : this._loadPgnWithAnnotationsSync(recovery.pgn);
+      this.lastPgnLoadIssues = [...recovery.issues, ...this.lastPgnLoadIssues];
+      return success;
     } catch (error) {
       const normalizedError =
         error instanceof PgnParseError
@@ -1259,6 +1556,20 @@ export class NeoChessBoard {
     return [...this.lastPgnLoadIssues];
   }
 
+  /**
+   * The game's `PgnNotation`, with the moves played on the board imported, so annotations can be
+   * attached to them. `null` when the rules adapter keeps no PGN notation.
+   */
+  public getPgnNotation(): PgnNotation | null {
+    const pgnNotation = this._getPgnNotation();
+    // toPgn imports the moves played so far as the mainline; existing annotations are kept.
+    // Inside a variation the tree already holds them
+    if (this.variationPath.length === 0) {
+      this.rules.toPgn?.(false);
+    }
+    return pgnNotation;
+  }
+
   public showPgnAnnotationsForPly(ply: number): boolean {
     if (!this.drawingManager) {
       return false;
@@ -1266,6 +1577,7 @@ export class NeoChessBoard {
 
     this.drawingManager.clearArrows();
     this.drawingManager.clearHighlights();
+    this.drawingManager.clearAnnotationBadge();
 
     if (ply <= 0) {
       return true;
@@ -1278,16 +1590,59 @@ export class NeoChessBoard {
 
     const moveNumber = Math.ceil(ply / 2);
     const isWhiteMove = ply % 2 === 1;
-    const annotations = pgnNotation.getMoveAnnotations(moveNumber, isWhiteMove);
+    const annotations = pgnNotation.getMoveAnnotations(moveNumber, isWhiteMove, this.variationPath);
 
     if (!annotations) {
       return true;
     }
 
     this._applyAnnotations(annotations);
+    this._applyAnnotationBadge(pgnNotation, moveNumber, isWhiteMove, annotations.nags);
     return true;
   }
 
+  /**
+   * Navigate into the side line `index` that branches at `ply` of the current line
+   * (the next move by default). The board is positioned on the variation's first move
+   * and undo/redo then follow the variation.
+   */
+  public enterVariation(index: number, ply?: number, immediate = true): boolean {
+    const pgnNotation = this._getPgnNotation();
+    if (!pgnNotation || !this._adapterSupportsSanMoves()) {
+      return false;
+    }
+
+    const branchPly = ply ?? pgnNotation.getInitialPly() + this.getMoveHistory().length + 1;
+    if (!pgnNotation.getVariations(branchPly, this.variationPath)[index]) {
+      return false;
+    }
+
+    const path = [...this.variationPath, { ply: branchPly, index }];
+    return this._navigateToVariationPly(pgnNotation, path, branchPly, immediate);
+  }
+
+  /**
+   * Leave the current variation and return to the parent line, just before the branch point.
+   */
+  public exitVariation(immediate = true): boolean {
+    const pgnNotation = this._getPgnNotation();
+    const branch = this.variationPath.at(-1);
+    if (!pgnNotation || !branch || !this._adapterSupportsSanMoves()) {
+      return false;
+    }
+
+    return this._navigateToVariationPly(
+      pgnNotation,
+      this.variationPath.slice(0, -1),
+      branch.ply - 1,
+      immediate,
+    );
+  }
+
+  public getVariationPath(): PgnVariationPath {
+    return [...this.variationPath];
+  }
+
   public exportPgnWithAnnotations(): string {
     const pgnNotation = this._getPgnNotation();
     if (pgnNotation && typeof pgnNotation.toPgnWithAnnotations === 'function') {
@@ -1743,6 +2098,11 @@ export class NeoChessBoard {
     this.renderAll();
   }
 
+  public setShowAnnotationBadges(show: boolean): void {
+    this.showAnnotationBadges = show;
+    this.renderAll();
+  }
+
   public setAllowPremoves(allow: boolean): void {
     this.allowPremoves = allow;
     this.premoveManager.setEnabled(allow);
@@ -1942,6 +2302,35 @@ export class NeoChessBoard {
     return this.clockManager?.getState() ?? null;
   }
 
+  /**
+   * Remaining times recorded in the PGN (`[%clk]`) for each side at `ply`
+   * (the current position by default), following the active variation.
+   */
+  public getRecordedClockTimes(ply?: number): Partial<Record<Color, number>> | null {
+    const pgnNotation = this._getPgnNotation();
+    if (!pgnNotation) {
+      return null;
+    }
+
+    const initialPly = pgnNotation.getInitialPly();
+    const targetPly = ply ?? initialPly + this.getMoveHistory().length;
+    const times: Partial<Record<Color, number>> = {};
+
+    for (let current = targetPly; current > initialPly && current >= targetPly - 1; current--) {
+      const isWhiteMove = current % 2 === 1;
+      const clock = pgnNotation.getMoveAnnotations(
+        Math.ceil(current / 2),
+        isWhiteMove,
+        this.variationPath,
+      )?.clock;
+      if (clock !== undefined) {
+        times[isWhiteMove ? 'w' : 'b'] = clock;
+      }
+    }
+
+    return times.w === undefined && times.b === undefined ? null : times;
+  }
+
   public startClock(): void {
     this.clockManager?.start();
   }
@@ -2059,6 +2448,8 @@ export class NeoChessBoard {
     this._flushRenderCaptureFrame();
     this._invokeExtensionHook('onAfterRender');
     this._updateInlinePromotionPosition();
+    this.pocketManager?.update();
+    this.checkCounterManager?.update();
   }
 
   public destroy(): void {
@@ -2072,6 +2463,10 @@ export class NeoChessBoard {
     this.domManager.disconnect();
     this.captureEffectManager?.destroy();
     this.captureEffectManager = undefined;
+    this.pocketManager?.destroy();
+    this.pocketManager = undefined;
+    this.checkCounterManager?.destroy();
+    this.checkCounterManager = undefined;
     this._disposeExtensions();
     this._hideInlinePromotion();
     this.root.innerHTML = '';
@@ -2138,6 +2533,44 @@ export class NeoChessBoard {
     return this.state.turn;
   }
 
+  private _recordMoveClock(movingColor: Color, before: ClockState | null): void {
+    const manager = this.clockManager;
+    if (!manager || before?.active !== movingColor) {
+      return;
+    }
+
+    const sideKey = movingColor === 'w' ? 'white' : 'black';
+    const side = manager.getState()[sideKey];
+    const moveIndex = this.getMoveHistory().length;
+    const turnStart = this.moveClockRecords.get(moveIndex - 2)?.clock ?? side.initial;
+    const increment = before.isRunning && !side.isFlagged ? side.increment : 0;
+
+    this.moveClockRecords.set(moveIndex, {
+      clock: side.remaining,
+      elapsed: Math.max(0, turnStart - (side.remaining - increment)),
+    });
+  }
+
+  /**
+   * Copy the clock times recorded during play onto the PGN mainline.
+   * Returns true when at least one move was updated.
+   */
+  private _writeRecordedClocksToPgn(pgnNotation: PgnNotation): boolean {
+    const initialPly = pgnNotation.getInitialPly();
+    const historyLength = this.getMoveHistory().length;
+    let written = false;
+
+    for (const [moveIndex, times] of this.moveClockRecords) {
+      if (moveIndex > historyLength) {
+        continue;
+      }
+      const ply = initialPly + moveIndex;
+      written = pgnNotation.setMoveClock(Math.ceil(ply / 2), ply % 2 === 1, times) || written;
+    }
+
+    return written;
+  }
+
   private _syncClockFromTurn(previousTurn: Color): void {
     const manager = this.clockManager;
     if (!manager) {
@@ -2982,6 +3415,9 @@ export class NeoChessBoard {
     if (this.showHighlights) {
       this.drawingManager.renderHighlights();
     }
+    if (this.showAnnotationBadges) {
+      this.drawingManager.renderAnnotationBadge();
+    }
     if (this.allowPremoves) {
       this.drawingManager.renderPremove();
     }
@@ -3117,6 +3553,28 @@ export class NeoChessBoard {
     return this._indicesToSquare(ff, rr);
   }
 
+  /**
+   * Square under a viewport point, `null` off the board
+   */
+  private _clientPointToSquare(clientX: number, clientY: number): Square | null {
+    const rect = this.cOverlay.getBoundingClientRect();
+    if (
+      clientX < rect.left ||
+      clientY < rect.top ||
+      clientX > rect.left + rect.width ||
+      clientY > rect.top + rect.height
+    ) {
+      return null;
+    }
+    const scaleX = rect.width ? this.cOverlay.width / rect.width : 1;
+    const scaleY = rect.height ? this.cOverlay.height / rect.height : 1;
+    const point = this._applyInverseCameraTransform({
+      x: (clientX - rect.left) * scaleX,
+      y: (clientY - rect.top) * scaleY,
+    });
+    return this._xyToSquare(point.x, point.y);
+  }
+
   private _pieceAt(square: Square): string | null {
     const { f, r } = this._squareToIndices(square);
     return this.state.board[r]?.[f] ?? null;
@@ -3983,6 +4441,7 @@ export class NeoChessBoard {
     const moveDetail = legal.move as RulesMoveDetail | undefined;
 
     this.state = newState;
+    this._syncVariationPath();
     this._syncOrientationFromTurn(false);
     this._clearSelectionState();
     if (!this._pendingPromotion) {
@@ -3995,15 +4454,24 @@ export class NeoChessBoard {
     }
 
     const eventType = this._determineSoundEventType(legal);
-    if (eventType === 'capture') {
+    const exploded = moveDetail?.exploded;
+    if (exploded?.length) {
+      // Atomic captures blow up whatever the move also announces (check, win)
+      this.captureEffectManager?.explode(from, to, exploded);
+    } else if (eventType === 'capture') {
       this.captureEffectManager?.trigger(from, to);
     }
     this.audioManager.playSound(eventType, movingColor);
     this._animateTo(newState, oldState);
+    // Pocket and check counts do not wait for the animation to end
+    this.pocketManager?.update();
+    this.checkCounterManager?.update();
     this._triggerCameraEffectsForMove(from, to, legal);
     this._emitMoveEvent(from, to, fen, moveDetail ?? null);
 
+    const clockBeforeMove = this.clockManager?.getState() ?? null;
     this.clockManager?.switchActive();
+    this._recordMoveClock(oldState.turn, clockBeforeMove);
 
     setTimeout(() => {
       this._executePremoveIfValid();
@@ -5321,9 +5789,12 @@ export class NeoChessBoard {
   }
 
   private _updateStateAfterPgnLoad(): void {
+    this.variationPath = [];
+    this.moveClockRecords.clear();
     this.state = this._parseFEN(this.rules.getFEN());
     this._syncOrientationFromTurn(false);
     this.renderAll();
+    this._emitUpdateEvent();
   }
 
   private _displayAnnotationsFromPgn(pgnNotation: PgnNotation): void {
@@ -5343,6 +5814,106 @@ export class NeoChessBoard {
     this.showPgnAnnotationsForPly(totalPlies);
   }
 
+  /**
+   * Replay the line at `path` from the start of the game, then step back to `targetPly`
+   * so the rest of the line stays available through redo.
+   */
+  private _navigateToVariationPly(
+    pgnNotation: PgnNotation,
+    path: PgnVariationPath,
+    targetPly: number,
+    immediate: boolean,
+  ): boolean {
+    const sanMoves = pgnNotation.getSanSequence(path);
+    const targetLength = targetPly - pgnNotation.getInitialPly();
+    if (!sanMoves || targetLength < 0 || targetLength > sanMoves.length) {
+      return false;
+    }
+
+    const previousState = this.state;
+    // Keep the moves ahead of the board as well, so a failed replay restores redo too
+    let redoDepth = 0;
+    while (this.rules.redo?.()) {
+      redoDepth++;
+    }
+    const previousLine = this.getMoveHistory();
+
+    this._rewindRulesHistory();
+    if (!this._replaySanMoves(sanMoves)) {
+      this._rewindRulesHistory();
+      this._replaySanMoves(previousLine);
+      for (let step = 0; step < redoDepth; step++) {
+        this.rules.undo();
+      }
+      return false;
+    }
+
+    for (let length = sanMoves.length; length > targetLength; length--) {
+      this.rules.undo();
+    }
+
+    this.variationPath = path;
+    this._cancelPendingPromotion();
+    this._pendingPromotion = null;
+    this.drawingManager?.clearPromotionPreview();
+
+    const newState = this._parseFEN(this.rules.getFEN());
+    this.state = newState;
+    this._syncOrientationFromTurn(false);
+    this._clearInteractionState();
+    this._premove = null;
+    this._premoveQueues.w = [];
+    this._premoveQueues.b = [];
+    this._syncPremoveDisplay(undefined, false);
+
+    const lastMove = targetLength > 0 ? this.rules.getLastMove?.() : null;
+    this._lastMove =
+      lastMove?.from && lastMove?.to ? { from: lastMove.from, to: lastMove.to } : null;
+
+    if (immediate || !this.showAnimations || this.animationMs <= 0) {
+      this._clearAnimation();
+      this.renderAll();
+    } else {
+      this._animateTo(newState, previousState);
+    }
+
+    this.showPgnAnnotationsForPly(targetPly);
+    this._emitUpdateEvent();
+    return true;
+  }
+
+  /**
+   * Record the moves played inside a variation in the tree (see `PgnNotation#mergeLine`) and
+   * follow the line that now holds them. On the mainline the moves are imported on export.
+   */
+  private _syncVariationPath(): void {
+    const pgnNotation = this._getPgnNotation();
+    if (!pgnNotation || this.variationPath.length === 0) {
+      return;
+    }
+
+    this.variationPath = pgnNotation.mergeLine(this.getMoveHistory(), this.variationPath) ?? [];
+  }
+
+  private _rewindRulesHistory(): void {
+    while (this.rules.undo()) {
+      // Step back to the first position of the game
+    }
+  }
+
+  private _replaySanMoves(sanMoves: readonly string[]): boolean {
+    for (const san of sanMoves) {
+      try {
+        if (!this.rules.move(san)?.ok) {
+          return false;
+        }
+      } catch {
+        return false;
+      }
+    }
+    return true;
+  }
+
   private _applyAnnotations(annotations: PgnMoveAnnotations): void {
     if (annotations.arrows) {
       for (const arrow of annotations.arrows) {
@@ -5357,6 +5928,37 @@ export class NeoChessBoard {
     }
   }
 
+  private _applyAnnotationBadge(
+    pgnNotation: PgnNotation,
+    moveNumber: number,
+    isWhiteMove: boolean,
+    nags?: number[],
+  ): void {
+    const [nag] = nags ?? [];
+    if (nag === undefined) {
+      return;
+    }
+
+    const san = pgnNotation.getMoveSan(moveNumber, isWhiteMove, this.variationPath);
+    const square = san ? this._resolveSanDestination(san, isWhiteMove) : null;
+    if (square) {
+      this.drawingManager!.setAnnotationBadge(square, nag);
+    }
+  }
+
+  private _resolveSanDestination(san: string, isWhiteMove: boolean): Square | null {
+    const homeRank = isWhiteMove ? '1' : '8';
+    if (/^[O0]-[O0]-[O0]/.test(san)) {
+      return `c${homeRank}` as Square;
+    }
+    if (/^[O0]-[O0]/.test(san)) {
+      return `g${homeRank}` as Square;
+    }
+
+    const squares = san.match(/[a-z]\d+/g);
+    return (squares?.at(-1) as Square | undefined) ?? null;
+  }
+
   private _saveAnnotationsToPgn(
     arrows: Arrow[],
     circles: SquareHighlight[],
@@ -5464,6 +6066,8 @@ export class NeoChessBoard {
       fen,
       captured: detail?.captured ?? undefined,
       san: detail?.san ?? undefined,
+      ...(detail?.drop ? { drop: detail.drop } : {}),
+      ...(detail?.exploded ? { exploded: detail.exploded } : {}),
     } as BoardEventMap['move'];
     this.bus.emit('move', movePayload);
     this._notifyExtensionEvent('onMove', movePayload);
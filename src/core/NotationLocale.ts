@@ -0,0 +1,68 @@
+/**
+ * Localized move notation
+ * SAN is always stored and exchanged with English piece letters; these helpers rewrite it for
+ * display with another language's letters (`Cf3`, `Sf3`) or with figurines (`♘f3`).
+ */
+
+/** Piece letters used by English SAN */
+export type SanPieceLetter = 'K' | 'Q' | 'R' | 'B' | 'N';
+
+/** Display symbol of each piece, keyed by its English SAN letter */
+export type NotationPieceTable = Readonly<Record<SanPieceLetter, string>>;
+
+export type BuiltInNotationLocale = 'en' | 'fr' | 'de' | 'es' | 'it' | 'nl' | 'figurine';
+
+/**
+ * A built-in locale, or a custom table. Letters missing from a custom table stay English.
+ */
+export type NotationLocale = BuiltInNotationLocale | Partial<NotationPieceTable>;
+
+export const NOTATION_LOCALES: Readonly<Record<BuiltInNotationLocale, NotationPieceTable>> = {
+  en: { K: 'K', Q: 'Q', R: 'R', B: 'B', N: 'N' },
+  fr: { K: 'R', Q: 'D', R: 'T', B: 'F', N: 'C' },
+  de: { K: 'K', Q: 'D', R: 'T', B: 'L', N: 'S' },
+  es: { K: 'R', Q: 'D', R: 'T', B: 'A', N: 'C' },
+  it: { K: 'R', Q: 'D', R: 'T', B: 'A', N: 'C' },
+  nl: { K: 'K', Q: 'D', R: 'T', B: 'L', N: 'P' },
+  figurine: { K: '♔', Q: '♕', R: '♖', B: '♗', N: '♘' },
+};
+
+const SAN_PIECE_REGEX = /^[KQRBN]/;
+const SAN_PROMOTION_REGEX = /=([QRBN])/;
+const MOVETEXT_COMMENT_REGEX = /(\{[^}]*\}|;[^\n]*)/;
+const SAN_MOVE_REGEX = /[KQRBN]?[a-h]?[1-8]?x?[a-h][1-8](?:=[QRBN])?/g;
+
+/**
+ * Resolve a locale name or custom table to a complete piece table
+ */
+export function resolveNotationTable(locale: NotationLocale): NotationPieceTable {
+  return typeof locale === 'string'
+    ? (NOTATION_LOCALES[locale] ?? NOTATION_LOCALES.en)
+    : { ...NOTATION_LOCALES.en, ...locale };
+}
+
+/**
+ * Rewrite an English SAN move with the piece symbols of `locale`
+ */
+export function localizeSan(san: string, locale: NotationLocale): string {
+  const table = resolveNotationTable(locale);
+  return san
+    .replace(SAN_PIECE_REGEX, (letter) => table[letter as SanPieceLetter])
+    .replace(SAN_PROMOTION_REGEX, (_, letter: SanPieceLetter) => `=${table[letter]}`);
+}
+
+/**
+ * Rewrite every move of a PGN movetext with the piece symbols of `locale`.
+ * Comments are kept as written. The result is meant for display: PGN readers expect English SAN.
+ */
+export function localizeMoveText(moveText: string, locale: NotationLocale): string {
+  // The capturing group keeps comments in the split result, at odd indexes
+  return moveText
+    .split(MOVETEXT_COMMENT_REGEX)
+    .map((segment, index) =>
+      index % 2 === 1
+        ? segment
+        : segment.replaceAll(SAN_MOVE_REGEX, (san) => localizeSan(san, locale)),
+    )
+    .join('');
+}
@@ -0,0 +1,290 @@
+/**
+ * Opening explorer
+ * Builds a move tree keyed by position from local PGN games: how often each continuation was
+ * played, how those games ended and the ratings of the players. Transpositions share a node.
+ */
+
+import { Chess, type Move as ChessJsMove } from 'chess.js';
+import { PgnParseError } from './errors';
+import { splitPgnGames } from './PgnDatabase';
+import type { PgnMetadata } from './PgnNotation';
+import { recoverPgn } from './PgnRecovery';
+import { polyglotKey } from './Polyglot';
+import type { PromotionPiece, Square } from './types';
+
+export interface OpeningExplorerOptions {
+  /** Plies of each game added to the tree (default 40) */
+  maxPlies?: number;
+  /** Repair games with `recoverPgn` first; a game cut at an illegal move keeps its legal part */
+  lenient?: boolean;
+}
+
+export interface OpeningResultCounts {
+  games: number;
+  white: number;
+  draws: number;
+  black: number;
+  /** Mean rating of both players over the games with at least one rating */
+  averageRating: number | null;
+}
+
+export interface OpeningMoveStats extends OpeningResultCounts {
+  san: string;
+  uci: string;
+  from: Square;
+  to: Square;
+  promotion?: PromotionPiece;
+  /** Position reached by the move */
+  fen: string;
+}
+
+export interface OpeningPositionStats extends OpeningResultCounts {
+  fen: string;
+  /** Continuations, most played first */
+  moves: OpeningMoveStats[];
+}
+
+export interface OpeningExplorerImportResult {
+  /** Games added to the tree */
+  added: number;
+  /** One entry per game that could not be read; the game is skipped */
+  issues: PgnParseError[];
+}
+
+export interface OpeningGameInfo {
+  /** `1-0`, `0-1`, `1/2-1/2` or `*` */
+  result?: string;
+  whiteElo?: number;
+  blackElo?: number;
+}
+
+interface ResultAccumulator {
+  games: number;
+  white: number;
+  draws: number;
+  black: number;
+  ratingSum: number;
+  ratedGames: number;
+}
+
+interface MoveNode extends ResultAccumulator {
+  readonly move: ChessJsMove;
+}
+
+interface PositionNode extends ResultAccumulator {
+  readonly fen: string;
+  readonly moves: Map<string, MoveNode>;
+}
+
+const DEFAULT_MAX_PLIES = 40;
+
+function createAccumulator(): ResultAccumulator {
+  return { games: 0, white: 0, draws: 0, black: 0, ratingSum: 0, ratedGames: 0 };
+}
+
+function parseRating(value: string | undefined): number | undefined {
+  const rating = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(rating) && rating > 0 ? rating : undefined;
+}
+
+function gameRating(info: OpeningGameInfo): number | null {
+  const ratings = [info.whiteElo, info.blackElo].filter(
+    (rating): rating is number => rating !== undefined,
+  );
+  return ratings.length > 0
+    ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+    : null;
+}
+
+function record(
+  accumulator: ResultAccumulator,
+  info: OpeningGameInfo,
+  rating: number | null,
+): void {
+  accumulator.games++;
+  switch (info.result) {
+    case '1-0': {
+      accumulator.white++;
+      break;
+    }
+    case '0-1': {
+      accumulator.black++;
+      break;
+    }
+    case '1/2-1/2': {
+      accumulator.draws++;
+      break;
+    }
+  }
+  if (rating !== null) {
+    accumulator.ratingSum += rating;
+    accumulator.ratedGames++;
+  }
+}
+
+function toCounts(accumulator: ResultAccumulator): OpeningResultCounts {
+  return {
+    games: accumulator.games,
+    white: accumulator.white,
+    draws: accumulator.draws,
+    black: accumulator.black,
+    averageRating:
+      accumulator.ratedGames > 0
+        ? Math.round(accumulator.ratingSum / accumulator.ratedGames)
+        : null,
+  };
+}
+
+/**
+ * Position-keyed move tree built from PGN games, entirely offline.
+ *
+ * ```ts
+ * const explorer = new OpeningExplorer();
+ * explorer.addPgn(collection);
+ * explorer.getPosition(board.getCurrentFEN())?.moves; // [{ san: 'e4', games: 812, white: 301, ... }]
+ * ```
+ */
+export class OpeningExplorer {
+  private readonly maxPlies: number;
+  private readonly lenient: boolean;
+  /** Positions by Polyglot key, which ignores an en passant square no pawn can use */
+  private readonly positions = new Map<bigint, PositionNode>();
+  private gameCount = 0;
+
+  constructor(options: OpeningExplorerOptions = {}) {
+    this.maxPlies = Math.max(0, options.maxPlies ?? DEFAULT_MAX_PLIES);
+    this.lenient = options.lenient ?? false;
+  }
+
+  /** Number of games added */
+  get size(): number {
+    return this.gameCount;
+  }
+
+  /**
+   * Add every game of a PGN collection. The tags `Result`, `WhiteElo` and `BlackElo` feed the
+   * statistics; games starting from a `FEN` tag are added from that position.
+   */
+  addPgn(pgn: string): OpeningExplorerImportResult {
+    const result: OpeningExplorerImportResult = { added: 0, issues: [] };
+
+    for (const [index, gamePgn] of splitPgnGames(pgn).entries()) {
+      const text = this.lenient ? recoverPgn(gamePgn).pgn : gamePgn;
+      const chess = new Chess();
+      try {
+        chess.loadPgn(text);
+      } catch (error) {
+        result.issues.push(
+          new PgnParseError(
+            `Cannot read game ${index + 1} of the collection.`,
+            'PGN_IMPORT_FAILED',
+            {
+              cause: error,
+              details: { index },
+            },
+          ),
+        );
+        continue;
+      }
+
+      const headers = chess.getHeaders() as PgnMetadata;
+      const moves = chess.history({ verbose: true });
+      this.addPlayedMoves(moves[0]?.before ?? chess.fen(), moves, {
+        result: headers.Result,
+        whiteElo: parseRating(headers.WhiteElo),
+        blackElo: parseRating(headers.BlackElo),
+      });
+      result.added++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Add one game given as SAN or UCI moves from `initialFen` (the standard start by default)
+   */
+  addGame(moves: readonly string[], info: OpeningGameInfo = {}, initialFen?: string): void {
+    const chess = new Chess(initialFen);
+    const startFen = chess.fen();
+    const played = moves.slice(0, this.maxPlies).map((move) => {
+      try {
+        return chess.move(move);
+      } catch (error) {
+        throw new PgnParseError(`Cannot add illegal move "${move}".`, 'PGN_IMPORT_FAILED', {
+          cause: error,
+          details: { san: move, ply: chess.history().length + 1 },
+        });
+      }
+    });
+    this.addPlayedMoves(startFen, played, info);
+  }
+
+  /**
+   * Statistics of a position and its continuations, `null` when no game reached it
+   */
+  getPosition(fen: string): OpeningPositionStats | null {
+    const node = this.positions.get(polyglotKey(fen));
+    if (!node) return null;
+
+    const moves = [...node.moves.values()]
+      .map(({ move, ...accumulator }) => ({
+        ...toCounts(accumulator),
+        san: move.san,
+        uci: move.lan,
+        from: move.from as Square,
+        to: move.to as Square,
+        promotion: move.promotion as PromotionPiece | undefined,
+        fen: move.after,
+      }))
+      .sort((a, b) => b.games - a.games);
+
+    return { ...toCounts(node), fen: node.fen, moves };
+  }
+
+  clear(): void {
+    this.positions.clear();
+    this.gameCount = 0;
+  }
+
+  private addPlayedMoves(
+    initialFen: string,
+    moves: readonly ChessJsMove[],
+    info: OpeningGameInfo,
+  ): void {
+    const rating = gameRating(info);
+    // A game coming back to a position, or repeating a move from it, counts there once
+    const counted = new Set<ResultAccumulator>();
+    const count = (accumulator: ResultAccumulator) => {
+      if (counted.has(accumulator)) return;
+      counted.add(accumulator);
+      record(accumulator, info, rating);
+    };
+    let fen = initialFen;
+
+    for (const move of moves.slice(0, this.maxPlies)) {
+      const position = this.getNode(fen);
+      count(position);
+
+      let child = position.moves.get(move.lan);
+      if (!child) {
+        child = { move, ...createAccumulator() };
+        position.moves.set(move.lan, child);
+      }
+      count(child);
+      fen = move.after;
+    }
+    // The final position counts the game too, so that its results show once reached
+    count(this.getNode(fen));
+    this.gameCount++;
+  }
+
+  private getNode(fen: string): PositionNode {
+    const key = polyglotKey(fen);
+    let node = this.positions.get(key);
+    if (!node) {
+      node = { fen, moves: new Map(), ...createAccumulator() };
+      this.positions.set(key, node);
+    }
+    return node;
+  }
+}
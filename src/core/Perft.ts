@@ -0,0 +1,334 @@
+/**
+ * Perft
+ * Counts the leaf nodes of the legal move tree to a given depth. Comparing the counts with
+ * published values is the standard conformance test of a move generator; the divide output
+ * (nodes under each root move) narrows a mismatch down to the move that is wrong.
+ */
+
+import { PerftError } from './errors';
+import type { Move, RulesAdapter, Square, Variant } from './types';
+
+/**
+ * Rules adapter the perft tools can drive; `getAllMoves` is used when the adapter provides it,
+ * `movesFrom` on every square otherwise
+ */
+export type PerftAdapter = Pick<
+  RulesAdapter,
+  'setFEN' | 'getFEN' | 'movesFrom' | 'move' | 'undo'
+> & {
+  getAllMoves?(): Move[];
+};
+
+export interface PerftDivideEntry {
+  /** Root move in UCI notation */
+  readonly move: string;
+  readonly nodes: number;
+}
+
+export interface PerftDivideResult {
+  readonly depth: number;
+  readonly nodes: number;
+  /** Nodes under each root move, in generation order */
+  readonly moves: PerftDivideEntry[];
+}
+
+export interface PerftPosition {
+  readonly name: string;
+  readonly fen: string;
+  readonly variant: Variant;
+  /** Reference node counts, depth 1 first */
+  readonly nodes: readonly number[];
+}
+
+export interface PerftSuiteOptions {
+  /** Deepest depth checked per position (default 3); shallower when fewer counts are known */
+  readonly maxDepth?: number;
+  /** Positions to run (default `PERFT_SUITE`) */
+  readonly positions?: readonly PerftPosition[];
+  /** Variants the adapter supports (default all) */
+  readonly variants?: readonly Variant[];
+  /** Called after each position with its result */
+  readonly onProgress?: (result: PerftTestResult, index: number, total: number) => void;
+}
+
+export interface PerftTestResult {
+  readonly position: PerftPosition;
+  readonly depth: number;
+  readonly expected: number;
+  /** `null` when the adapter failed on the position */
+  readonly nodes: number | null;
+  readonly passed: boolean;
+  readonly error?: string;
+}
+
+export interface PerftSuiteResult {
+  readonly results: PerftTestResult[];
+  readonly passed: number;
+  readonly total: number;
+}
+
+export interface PerftBenchmarkOptions {
+  /** Depth searched on every position (default 3) */
+  readonly depth?: number;
+  readonly positions?: readonly PerftPosition[];
+  /** Clock in milliseconds (default `performance.now`) */
+  readonly now?: () => number;
+}
+
+export interface PerftBenchmarkResult {
+  readonly adapter: string;
+  readonly nodes: number;
+  readonly timeMs: number;
+  readonly nodesPerSecond: number;
+}
+
+/**
+ * Standard perft positions (Chess Programming Wiki) and Chess960 positions from Reinhard
+ * Scharnagl's reference list, with their node counts
+ */
+export const PERFT_SUITE: readonly PerftPosition[] = [
+  {
+    name: 'Initial position',
+    fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+    variant: 'standard',
+    nodes: [20, 400, 8902, 197_281, 4_865_609],
+  },
+  {
+    name: 'Kiwipete',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    variant: 'standard',
+    nodes: [48, 2039, 97_862, 4_085_603],
+  },
+  {
+    name: 'Position 3',
+    fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+    variant: 'standard',
+    nodes: [14, 191, 2812, 43_238, 674_624],
+  },
+  {
+    name: 'Position 4',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    variant: 'standard',
+    nodes: [6, 264, 9467, 422_333],
+  },
+  {
+    name: 'Position 4 mirrored',
+    fen: 'r2q1rk1/pP1p2pp/Q4n2/bbp1p3/Np6/1B3NBn/pPPP1PPP/R3K2R b KQ - 0 1',
+    variant: 'standard',
+    nodes: [6, 264, 9467, 422_333],
+  },
+  {
+    name: 'Position 5',
+    fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+    variant: 'standard',
+    nodes: [44, 1486, 62_379, 2_103_487],
+  },
+  {
+    name: 'Position 6',
+    fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+    variant: 'standard',
+    nodes: [46, 2079, 89_890, 3_894_594],
+  },
+  {
+    name: 'Chess960 #1',
+    fen: 'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9',
+    variant: 'chess960',
+    nodes: [21, 528, 12_189, 326_672],
+  },
+  {
+    name: 'Chess960 #2',
+    fen: '2nnrbkr/p1qppppp/8/1ppb4/6PP/3PP3/PPP2P2/BQNNRBKR w HEhe - 1 9',
+    variant: 'chess960',
+    nodes: [21, 807, 18_002, 667_366],
+  },
+  {
+    name: 'Chess960 #3',
+    fen: 'b1q1rrkb/pppppppp/3nn3/8/P7/1PPP4/4PPPP/BQNNRKRB w GE - 1 9',
+    variant: 'chess960',
+    nodes: [20, 479, 10_471, 273_318],
+  },
+  {
+    name: 'Chess960 #4',
+    fen: 'qbbnnrkr/2pp2pp/p7/1p2pp2/8/P3PP2/1PPP1KPP/QBBNNR1R w hf - 0 9',
+    variant: 'chess960',
+    nodes: [22, 593, 13_440, 382_958],
+  },
+  {
+    name: 'Chess960 #5',
+    fen: '1nbbnrkr/p1p1ppp1/3p4/1p3P1p/3Pq2P/8/PPP1P1P1/QNBBNRKR w HFhf - 0 9',
+    variant: 'chess960',
+    nodes: [28, 1120, 31_058, 1_171_749],
+  },
+];
+
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'] as const;
+const RANKS = ['1', '2', '3', '4', '5', '6', '7', '8'] as const;
+const DEFAULT_SUITE_DEPTH = 3;
+const DEFAULT_BENCHMARK_DEPTH = 3;
+
+function toUci(move: Move): string {
+  return `${move.from}${move.to}${move.promotion ?? ''}`;
+}
+
+function legalMoves(adapter: PerftAdapter): Move[] {
+  if (adapter.getAllMoves) return adapter.getAllMoves();
+  const moves: Move[] = [];
+  for (const file of FILES) {
+    for (const rank of RANKS) {
+      moves.push(...adapter.movesFrom(`${file}${rank}` as Square));
+    }
+  }
+  return moves;
+}
+
+function assertDepth(depth: number): void {
+  if (!Number.isInteger(depth) || depth < 1) {
+    throw new PerftError(
+      `Perft depth must be a positive integer; got ${depth}.`,
+      'PERFT_INVALID_DEPTH',
+      {
+        details: { depth },
+      },
+    );
+  }
+}
+
+function playMove(adapter: PerftAdapter, move: Move): void {
+  const fen = adapter.getFEN();
+  const response = adapter.move({ from: move.from, to: move.to, promotion: move.promotion });
+  if (!response?.ok) {
+    throw new PerftError(
+      `The adapter rejected its own move ${toUci(move)} in ${fen}.`,
+      'PERFT_MOVE_REJECTED',
+      { details: { fen, move: toUci(move), reason: response?.reason } },
+    );
+  }
+}
+
+function countNodes(adapter: PerftAdapter, depth: number): number {
+  const moves = legalMoves(adapter);
+  // Bulk counting: the last ply is not played
+  if (depth === 1) return moves.length;
+
+  let nodes = 0;
+  for (const move of moves) {
+    playMove(adapter, move);
+    nodes += countNodes(adapter, depth - 1);
+    adapter.undo();
+  }
+  return nodes;
+}
+
+/**
+ * Leaf nodes of the move tree of the adapter's current position. The position is restored
+ * afterwards.
+ */
+export function perft(adapter: PerftAdapter, depth: number): number {
+  assertDepth(depth);
+  return countNodes(adapter, depth);
+}
+
+/**
+ * Perft with the node count under each root move
+ */
+export function perftDivide(adapter: PerftAdapter, depth: number): PerftDivideResult {
+  assertDepth(depth);
+  const moves = legalMoves(adapter).map((move) => {
+    if (depth === 1) return { move: toUci(move), nodes: 1 };
+    playMove(adapter, move);
+    const nodes = countNodes(adapter, depth - 1);
+    adapter.undo();
+    return { move: toUci(move), nodes };
+  });
+  return { depth, nodes: moves.reduce((sum, entry) => sum + entry.nodes, 0), moves };
+}
+
+/**
+ * Divide output in the format printed by engines (`go perft`), sorted by move, so that two
+ * generators can be compared with a text diff
+ */
+export function formatPerftDivide(result: PerftDivideResult): string {
+  const lines = [...result.moves]
+    .sort((a, b) => a.move.localeCompare(b.move))
+    .map((entry) => `${entry.move}: ${entry.nodes}`);
+  return [...lines, '', `Nodes searched: ${result.nodes}`].join('\n');
+}
+
+/**
+ * Run the perft suite on an adapter. Each position is checked at the deepest depth up to
+ * `maxDepth` with a known count; failures are reported, not thrown.
+ */
+export function runPerftSuite(
+  adapter: PerftAdapter,
+  options: PerftSuiteOptions = {},
+): PerftSuiteResult {
+  const maxDepth = options.maxDepth ?? DEFAULT_SUITE_DEPTH;
+  assertDepth(maxDepth);
+  const positions = (options.positions ?? PERFT_SUITE).filter(
+    (position) => !options.variants || options.variants.includes(position.variant),
+  );
+
+  const results = positions.map((position, index) => {
+    const depth = Math.min(maxDepth, position.nodes.length);
+    const expected = position.nodes[depth - 1];
+    let result: PerftTestResult;
+    try {
+      adapter.setFEN(position.fen);
+      const nodes = countNodes(adapter, depth);
+      result = { position, depth, expected, nodes, passed: nodes === expected };
+    } catch (error) {
+      result = {
+        position,
+        depth,
+        expected,
+        nodes: null,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    options.onProgress?.(result, index, positions.length);
+    return result;
+  });
+
+  return {
+    results,
+    passed: results.filter((result) => result.passed).length,
+    total: results.length,
+  };
+}
+
+/**
+ * Nodes per second of each adapter over the same positions and depth
+ *
+ * ```ts
+ * benchmarkPerft({ light: () => new LightRules(), chessjs: () => new ChessJsRules() });
+ * // [{ adapter: 'light', nodes: 112_353, timeMs: 850, nodesPerSecond: 132_180 }, ...]
+ * ```
+ */
+export function benchmarkPerft(
+  adapters: Readonly<Record<string, () => PerftAdapter>>,
+  options: PerftBenchmarkOptions = {},
+): PerftBenchmarkResult[] {
+  const depth = options.depth ?? DEFAULT_BENCHMARK_DEPTH;
+  assertDepth(depth);
+  const positions =
+    options.positions ?? PERFT_SUITE.filter((position) => position.variant === 'standard');
+  const now = options.now ?? (() => performance.now());
+
+  return Object.entries(adapters).map(([name, createAdapter]) => {
+    const adapter = createAdapter();
+    let nodes = 0;
+    const start = now();
+    for (const position of positions) {
+      adapter.setFEN(position.fen);
+      nodes += countNodes(adapter, depth);
+    }
+    const timeMs = now() - start;
+    return {
+      adapter: name,
+      nodes,
+      timeMs,
+      nodesPerSecond: timeMs > 0 ? Math.round((nodes / timeMs) * 1000) : 0,
+    };
+  });
+}
@@ -1,6 +1,7 @@
 /**
  * Parser for PGN annotations with arrows and circles
- * Supports %cal (arrows) and %csl (circles) extensions popular on lichess.org and chesscafe.com
+ * Supports %cal (arrows) and %csl (circles) extensions popular on lichess.org and chesscafe.com,
+ * plus the %eval, %clk and %emt commands found in online game exports
  */
 
 import type { Square, Arrow, SquareHighlight } from './types';
@@ -11,6 +12,10 @@ export interface ParsedAnnotations {
   highlights: Array<SquareHighlight & { color: string }>;
   textComment: string;
   evaluation?: number | string;
+  /** Remaining clock time after the move, in milliseconds (`%clk`) */
+  clock?: number;
+  /** Time spent on the move, in milliseconds (`%emt`) */
+  elapsed?: number;
   issues?: PgnParseError[];
 }
 
@@ -20,6 +25,9 @@ const CSL_REGEX = /%csl\s+([^%\s]+)/g;
 const VISUAL_ANNOTATION_REGEX = /%(?:cal|csl)\s+[^%\s]+/;
 const SQUARE_REGEX = /^[a-h][1-8]$/;
 const EVAL_REGEX = /(?:\[\s*)?%eval\s+([^\]\s}]+)(?:\s*\])?/gi;
+const CLK_REGEX = /(?:\[\s*)?%clk\s+([^\]\s}]+)(?:\s*\])?/gi;
+const EMT_REGEX = /(?:\[\s*)?%emt\s+([^\]\s}]+)(?:\s*\])?/gi;
+const CLOCK_TIME_REGEX = /^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/;
 
 const NUMERIC_VALUE_REGEX = /^[-+]?((\d+(?:\.\d+)?)|(?:\.\d+))$/;
 
@@ -127,6 +135,61 @@ export const PgnAnnotationParser = {
     return 'R'; // Default to red
   },
 
+  /**
+   * Parse a `%clk`/`%emt` time value (`H:MM:SS`, `M:SS`, optional fraction) into milliseconds
+   */
+  parseClockTime(value: string): number | undefined {
+    const match = CLOCK_TIME_REGEX.exec(value.trim());
+    if (!match) {
+      return undefined;
+    }
+
+    const hours = Number(match[1] ?? 0);
+    const minutes = Number(match[2]);
+    const seconds = Number(match[3]);
+    return Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000);
+  },
+
+  /**
+   * Format milliseconds as a `%clk`/`%emt` time value (`H:MM:SS` with an optional fraction)
+   */
+  formatClockTime(milliseconds: number): string {
+    const safeMs = Math.max(0, Math.round(milliseconds));
+    const totalSeconds = Math.floor(safeMs / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const millis = safeMs % 1000;
+    const fraction = millis === 0 ? '' : `.${String(millis).padStart(3, '0').replace(/0+$/, '')}`;
+
+    return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}${fraction}`;
+  },
+
+  /**
+   * Create `[%clk ...] [%emt ...]` commands for the given times
+   */
+  formatClockCommands(times: { clock?: number; elapsed?: number }): string {
+    const parts: string[] = [];
+    if (times.clock !== undefined) {
+      parts.push(`[%clk ${PgnAnnotationParser.formatClockTime(times.clock)}]`);
+    }
+    if (times.elapsed !== undefined) {
+      parts.push(`[%emt ${PgnAnnotationParser.formatClockTime(times.elapsed)}]`);
+    }
+    return parts.join(' ');
+  },
+
+  /**
+   * Remove `%clk`/`%emt` commands from a comment
+   */
+  stripClockCommands(comment: string): string {
+    return comment
+      .replaceAll(CLK_REGEX, ' ')
+      .replaceAll(EMT_REGEX, ' ')
+      .replaceAll(/\s+/g, ' ')
+      .trim();
+  },
+
   /**
    * Check if a string is a valid chess square notation
    */
@@ -139,6 +202,8 @@ class AnnotationParser {
   private arrows: Arrow[] = [];
   private highlights: Array<SquareHighlight & { color: string }> = [];
   private evaluation?: number | string;
+  private clock?: number;
+  private elapsed?: number;
   private issues: PgnParseError[] = [];
   private processingComment: string;
 
@@ -150,6 +215,8 @@ class AnnotationParser {
     this.parseArrows();
     this.parseCircles();
     this.parseEvaluation();
+    this.clock = this.parseClockCommand(CLK_REGEX);
+    this.elapsed = this.parseClockCommand(EMT_REGEX);
 
     const textComment = this.processingComment.replaceAll(/\s+/g, ' ').trim();
     return {
@@ -157,6 +224,8 @@ class AnnotationParser {
       highlights: this.highlights,
       textComment: textComment || '',
       evaluation: this.evaluation,
+      clock: this.clock,
+      elapsed: this.elapsed,
       issues: this.issues.length > 0 ? this.issues : undefined,
     };
   }
@@ -275,6 +344,22 @@ class AnnotationParser {
     );
   }
 
+  private parseClockCommand(regex: RegExp): number | undefined {
+    let milliseconds: number | undefined;
+    this.processingComment = this.processingComment.replaceAll(regex, (match, value: string) => {
+      const parsed = PgnAnnotationParser.parseClockTime(value);
+      if (parsed === undefined) {
+        this.recordIssue('PGN_PARSE_INVALID_CLOCK', `Invalid clock annotation "${match.trim()}".`, {
+          spec: value,
+        });
+      } else {
+        milliseconds = parsed;
+      }
+      return ' ';
+    });
+    return milliseconds;
+  }
+
   private removeMatch(match: string): void {
     this.processingComment = this.processingComment.replace(match, ' ');
   }
@@ -0,0 +1,514 @@
+/**
+ * Multi-game PGN database
+ * Splits a PGN file into games, indexes their tag pairs without touching the movetext,
+ * and parses individual games on demand (through the PGN parser worker when available)
+ */
+
+import { PgnNotation, type PgnMetadata } from './PgnNotation';
+import { PgnParserWorkerManager } from './PgnParserWorkerManager';
+import type { NeoChessBoard } from './NeoChessBoard';
+import type { ParsedPgnResult } from '../workers/PgnParserWorker';
+
+export type PgnDatabaseSortKey = 'index' | 'white' | 'black' | 'event' | 'eco' | 'result' | 'date';
+
+export interface PgnDatabaseEntry {
+  /** Position of the game in the file, starting at 0 */
+  index: number;
+  /** Character offset of the game in the source text */
+  offset: number;
+  /** Length of the game in the source text */
+  length: number;
+  headers: Readonly<PgnMetadata>;
+  white?: string;
+  black?: string;
+  event?: string;
+  eco?: string;
+  result?: string;
+  date?: string;
+}
+
+export interface PgnDatabaseFilters {
+  white?: string;
+  black?: string;
+  /** Matches either side */
+  player?: string;
+  event?: string;
+  /** ECO prefix, e.g. `B` or `B90` */
+  eco?: string;
+  result?: string | string[];
+  /** Inclusive lower bound in PGN date format (`YYYY.MM.DD`, unknown parts may be omitted) */
+  dateFrom?: string;
+  /** Inclusive upper bound in PGN date format */
+  dateTo?: string;
+}
+
+export interface PgnDatabaseQueryOptions {
+  filters?: PgnDatabaseFilters;
+  sortBy?: PgnDatabaseSortKey;
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
+}
+
+export interface PgnDatabaseQueryResult {
+  entries: PgnDatabaseEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasPrevious: boolean;
+  hasNext: boolean;
+}
+
+export interface PgnDatabaseOptions {
+  /**
+   * Worker manager used by the async parsing methods. When omitted, one is created on first use
+   * (if `useWorker` is enabled) and terminated by `dispose()`.
+   */
+  workerManager?: PgnParserWorkerManager;
+  /**
+   * Parse games in a Web Worker when one is available
+   * @default true
+   */
+  useWorker?: boolean;
+}
+
+export type PgnDatabaseBoard = Pick<
+  NeoChessBoard,
+  'loadPgnWithAnnotations' | 'loadPgnWithAnnotationsAsync'
+>;
+
+const HEADER_TAG_REGEX = /\[(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]/g;
+const RESULT_SUFFIX_REGEX = /(?:1-0|0-1|1\/2-1\/2|\*)$/;
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_BATCH_SIZE = 100;
+
+interface GameBounds {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Locate the games of a multi-game PGN text. A new game starts at a tag pair following movetext,
+ * or at movetext following a game termination marker. Brace and semicolon comments are skipped.
+ */
+function findGameBounds(text: string): GameBounds[] {
+  const bounds: GameBounds[] = [];
+  let gameStart = -1;
+  let hasMoveText = false;
+  let terminated = false;
+  let inComment = false;
+  let position = 0;
+
+  const closeGame = (end: number) => {
+    if (gameStart !== -1 && text.slice(gameStart, end).trim()) {
+      bounds.push({ offset: gameStart, length: end - gameStart });
+    }
+    gameStart = -1;
+    hasMoveText = false;
+    terminated = false;
+  };
+
+  while (position < text.length) {
+    const newline = text.indexOf('\n', position);
+    const lineEnd = newline === -1 ? text.length : newline + 1;
+    const line = text.slice(position, lineEnd);
+    const trimmed = line.trim();
+
+    const isHeader = !inComment && trimmed.startsWith('[');
+    if (trimmed && !inComment && ((isHeader && hasMoveText) || (!isHeader && terminated))) {
+      closeGame(position);
+    }
+    if (trimmed && gameStart === -1) {
+      gameStart = position;
+    }
+
+    if (trimmed && !isHeader && !trimmed.startsWith('%')) {
+      const scanned = scanMoveText(trimmed, inComment);
+      inComment = scanned.inComment;
+      if (scanned.code) {
+        hasMoveText = true;
+        terminated = !inComment && RESULT_SUFFIX_REGEX.test(scanned.code);
+      }
+    }
+
+    position = lineEnd;
+  }
+
+  closeGame(text.length);
+  return bounds;
+}
+
+/**
+ * Remove comments from a movetext line, starting inside a brace comment when `inComment` is set
+ */
+function scanMoveText(line: string, inComment: boolean): { code: string; inComment: boolean } {
+  let code = '';
+  let insideBraces = inComment;
+
+  for (const char of line) {
+    if (insideBraces) {
+      insideBraces = char !== '}';
+      continue;
+    }
+    if (char === '{') {
+      insideBraces = true;
+      continue;
+    }
+    if (char === ';') {
+      break;
+    }
+    code += char;
+  }
+
+  return { code: code.trim(), inComment: insideBraces };
+}
+
+function parseHeaderSection(gameText: string): PgnMetadata {
+  const headers: PgnMetadata = {};
+
+  for (const line of gameText.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+    if (!trimmed.startsWith('[')) {
+      break;
+    }
+    for (const match of trimmed.matchAll(HEADER_TAG_REGEX)) {
+      headers[match[1]!] = match[2]!.replaceAll(/\\(["\\])/g, '$1');
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Split a multi-game PGN text into the text of each game
+ */
+export function splitPgnGames(pgn: string): string[] {
+  return findGameBounds(pgn).map(({ offset, length }) => pgn.slice(offset, offset + length).trim());
+}
+
+/**
+ * Make PGN dates comparable as strings; unknown parts (`??`) become `unknown`
+ */
+function normalizeDate(date: string, unknown = '0'): string {
+  const [year = '', month = '', day = ''] = date.split('.');
+  const part = (value: string, size: number) =>
+    /^\d+$/.test(value) ? value.padStart(size, '0') : unknown.repeat(size);
+  return `${part(year, 4)}.${part(month, 2)}.${part(day, 2)}`;
+}
+
+function includesText(value: string | undefined, query: string | undefined): boolean {
+  if (!query) {
+    return true;
+  }
+  return (value ?? '').toLowerCase().includes(query.trim().toLowerCase());
+}
+
+function matchesFilters(entry: PgnDatabaseEntry, filters: PgnDatabaseFilters): boolean {
+  if (
+    !includesText(entry.white, filters.white) ||
+    !includesText(entry.black, filters.black) ||
+    !includesText(entry.event, filters.event)
+  ) {
+    return false;
+  }
+
+  if (
+    filters.player &&
+    !includesText(entry.white, filters.player) &&
+    !includesText(entry.black, filters.player)
+  ) {
+    return false;
+  }
+
+  if (filters.eco && !(entry.eco ?? '').toUpperCase().startsWith(filters.eco.toUpperCase())) {
+    return false;
+  }
+
+  if (filters.result !== undefined) {
+    const results = Array.isArray(filters.result) ? filters.result : [filters.result];
+    if (results.length > 0 && !results.includes(entry.result ?? '')) {
+      return false;
+    }
+  }
+
+  return matchesDateRange(entry, filters);
+}
+
+function matchesDateRange(entry: PgnDatabaseEntry, filters: PgnDatabaseFilters): boolean {
+  if (!filters.dateFrom && !filters.dateTo) {
+    return true;
+  }
+  if (!entry.date) {
+    return false;
+  }
+
+  const date = normalizeDate(entry.date);
+  if (filters.dateFrom && date < normalizeDate(filters.dateFrom)) {
+    return false;
+  }
+  return !(filters.dateTo && date > normalizeDate(filters.dateTo, '9'));
+}
+
+function getSortValue(entry: PgnDatabaseEntry, key: PgnDatabaseSortKey): string | undefined {
+  switch (key) {
+    case 'date': {
+      return entry.date ? normalizeDate(entry.date) : undefined;
+    }
+    case 'index': {
+      return undefined;
+    }
+    default: {
+      return entry[key] ?? undefined;
+    }
+  }
+}
+
+function compareEntries(
+  a: PgnDatabaseEntry,
+  b: PgnDatabaseEntry,
+  key: PgnDatabaseSortKey,
+  direction: number,
+): number {
+  const valueA = getSortValue(a, key);
+  const valueB = getSortValue(b, key);
+
+  if (valueA !== valueB) {
+    // Games without the tag always come last
+    if (valueA === undefined) {
+      return 1;
+    }
+    if (valueB === undefined) {
+      return -1;
+    }
+    const compared = valueA.localeCompare(valueB, undefined, { sensitivity: 'base' });
+    if (compared !== 0) {
+      return compared * direction;
+    }
+  }
+
+  return (a.index - b.index) * (key === 'index' ? direction : 1);
+}
+
+export class PgnDatabase {
+  private readonly source: string;
+  private readonly entries: PgnDatabaseEntry[];
+  private readonly notations = new Map<number, PgnNotation>();
+  private workerManager: PgnParserWorkerManager | null;
+  private readonly ownsWorkerManager: boolean;
+  private readonly useWorker: boolean;
+
+  constructor(pgn: string, options: PgnDatabaseOptions = {}) {
+    this.source = pgn.startsWith('\uFEFF') ? pgn.slice(1) : pgn;
+    this.entries = findGameBounds(this.source).map(({ offset, length }, index) => {
+      const headers = parseHeaderSection(this.source.slice(offset, offset + length));
+      return {
+        index,
+        offset,
+        length,
+        headers,
+        white: headers.White,
+        black: headers.Black,
+        event: headers.Event,
+        eco: headers.ECO,
+        result: headers.Result,
+        date: headers.Date,
+      };
+    });
+    this.workerManager = options.workerManager ?? null;
+    this.ownsWorkerManager = !options.workerManager;
+    this.useWorker = options.useWorker ?? true;
+  }
+
+  /**
+   * Number of games in the database
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * All indexed games, in file order
+   */
+  getEntries(): readonly PgnDatabaseEntry[] {
+    return this.entries;
+  }
+
+  getEntry(index: number): PgnDatabaseEntry | null {
+    return this.entries[index] ?? null;
+  }
+
+  /**
+   * Raw PGN text of a game
+   */
+  getGamePgn(index: number): string | null {
+    const entry = this.entries[index];
+    return entry ? this.source.slice(entry.offset, entry.offset + entry.length).trim() : null;
+  }
+
+  /**
+   * Games matching every given filter, in file order
+   */
+  filter(filters: PgnDatabaseFilters): PgnDatabaseEntry[] {
+    return this.entries.filter((entry) => matchesFilters(entry, filters));
+  }
+
+  /**
+   * Sort entries (all games by default) by a header; games missing the header come last
+   */
+  sort(
+    key: PgnDatabaseSortKey,
+    order: 'asc' | 'desc' = 'asc',
+    entries: readonly PgnDatabaseEntry[] = this.entries,
+  ): PgnDatabaseEntry[] {
+    const direction = order === 'desc' ? -1 : 1;
+    return [...entries].sort((a, b) => compareEntries(a, b, key, direction));
+  }
+
+  /**
+   * Filter, sort and paginate the index
+   */
+  query(options: PgnDatabaseQueryOptions = {}): PgnDatabaseQueryResult {
+    const filtered = options.filters ? this.filter(options.filters) : [...this.entries];
+    const sorted = this.sort(options.sortBy ?? 'index', options.sortOrder, filtered);
+    const pageSize = Math.max(1, options.pageSize ?? DEFAULT_PAGE_SIZE);
+    const page = Math.max(1, options.page ?? 1);
+    const sliceStart = (page - 1) * pageSize;
+    const entries = sorted.slice(sliceStart, sliceStart + pageSize);
+
+    return {
+      entries,
+      total: sorted.length,
+      page,
+      pageSize,
+      hasPrevious: sliceStart > 0,
+      hasNext: sliceStart + entries.length < sorted.length,
+    };
+  }
+
+  /**
+   * Parse a game on the main thread; the result is cached
+   */
+  getNotation(index: number): PgnNotation | null {
+    const cached = this.notations.get(index);
+    if (cached) {
+      return cached;
+    }
+
+    const pgn = this.getGamePgn(index);
+    if (pgn === null) {
+      return null;
+    }
+
+    const notation = new PgnNotation();
+    notation.loadPgnWithAnnotations(pgn);
+    this.notations.set(index, notation);
+    return notation;
+  }
+
+  /**
+   * Parse a game, in the PGN parser worker when available
+   */
+  async parseGame(index: number): Promise<ParsedPgnResult | null> {
+    const [result] = await this.parseGames([index]);
+    return result ?? null;
+  }
+
+  /**
+   * Parse several games (all by default), sending them to the PGN parser worker in batches.
+   * Falls back to the main thread when no worker is available.
+   */
+  async parseGames(
+    indices: readonly number[] = this.entries.map((entry) => entry.index),
+    batchSize: number = DEFAULT_BATCH_SIZE,
+  ): Promise<ParsedPgnResult[]> {
+    const games = indices
+      .map((index) => ({ entry: this.getEntry(index), pgn: this.getGamePgn(index) }))
+      .filter(
+        (game): game is { entry: PgnDatabaseEntry; pgn: string } =>
+          game.entry !== null && game.pgn !== null,
+      );
+    const results: ParsedPgnResult[] = [];
+    const size = Math.max(1, batchSize);
+
+    for (let start = 0; start < games.length; start += size) {
+      const batch = games.slice(start, start + size);
+      const parsed = await this.parseBatchWithWorker(batch.map((game) => game.pgn));
+      results.push(...(parsed ?? batch.map((game) => this.toParsedResult(game.entry))));
+    }
+
+    return results;
+  }
+
+  /**
+   * Load a game into a board
+   */
+  loadGame(board: PgnDatabaseBoard, index: number): boolean {
+    const pgn = this.getGamePgn(index);
+    return pgn === null ? false : board.loadPgnWithAnnotations(pgn);
+  }
+
+  /**
+   * Load a game into a board, letting the board parse large games in its worker
+   */
+  async loadGameAsync(board: PgnDatabaseBoard, index: number): Promise<boolean> {
+    const pgn = this.getGamePgn(index);
+    return pgn === null ? false : board.loadPgnWithAnnotationsAsync(pgn);
+  }
+
+  /**
+   * Release cached games and terminate the worker created by the database
+   */
+  dispose(): void {
+    this.notations.clear();
+    if (this.ownsWorkerManager) {
+      this.workerManager?.terminate();
+      this.workerManager = null;
+    }
+  }
+
+  private getWorkerManager(): PgnParserWorkerManager | null {
+    if (!this.workerManager && this.ownsWorkerManager && this.useWorker) {
+      if (typeof Worker === 'undefined') {
+        return null;
+      }
+      try {
+        this.workerManager = new PgnParserWorkerManager();
+      } catch (error) {
+        console.warn('Failed to initialize PgnParserWorkerManager:', error);
+        return null;
+      }
+    }
+    return this.workerManager?.isAvailable() ? this.workerManager : null;
+  }
+
+  private async parseBatchWithWorker(pgns: string[]): Promise<ParsedPgnResult[] | null> {
+    const manager = this.getWorkerManager();
+    if (!manager) {
+      return null;
+    }
+
+    try {
+      return await manager.parsePgnBatch(pgns, { includeAnnotations: true });
+    } catch (workerError) {
+      console.warn('Worker parsing failed, falling back to sync:', workerError);
+      return null;
+    }
+  }
+
+  private toParsedResult(entry: PgnDatabaseEntry): ParsedPgnResult {
+    const notation = this.getNotation(entry.index)!;
+    return {
+      metadata: { ...entry.headers },
+      moves: notation.getMovesWithAnnotations(),
+      result: entry.result ?? notation.getResult(),
+      parseIssues: notation.getParseIssues().map((issue) => ({
+        message: issue.message,
+        code: issue.code,
+        details: issue.details ? { ...issue.details } : undefined,
+      })),
+    };
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * PGN export format (PGN standard, section 8)
+ * Canonical tag section and movetext layout expected by database software,
+ * plus a validator reporting which export-format rules a PGN text violates
+ */
+
+import { PgnParseError, type PgnParseErrorCode } from './errors';
+import type { PgnMetadata } from './PgnNotation';
+
+/** Tags every exported game carries, in this order */
+export const SEVEN_TAG_ROSTER = [
+  'Event',
+  'Site',
+  'Date',
+  'Round',
+  'White',
+  'Black',
+  'Result',
+] as const;
+
+/** Maximum number of characters on an export-format line */
+export const PGN_EXPORT_LINE_LENGTH = 80;
+
+const SEVEN_TAG_DEFAULTS: Readonly<Record<(typeof SEVEN_TAG_ROSTER)[number], string>> = {
+  Event: '?',
+  Site: '?',
+  Date: '????.??.??',
+  Round: '?',
+  White: '?',
+  Black: '?',
+  Result: '*',
+};
+
+const RESULT_TOKENS = new Set(['1-0', '0-1', '1/2-1/2', '*']);
+const EXPORT_TAG_REGEX = /^\[(\w+) "((?:[^"\\]|\\["\\])*)"\]$/;
+
+/**
+ * Escape backslashes and quotes in a tag value
+ */
+export function escapePgnTagValue(value: string): string {
+  return value.replaceAll('\\', '\\\\').replaceAll('"', String.raw`\"`);
+}
+
+/**
+ * Build the export-format tag section: the Seven Tag Roster (with `?` placeholders for unknown
+ * values) followed by the remaining tags in ASCII order. `SetUp "1"` is added whenever a `FEN`
+ * tag is present.
+ */
+export function formatExportTags(metadata: PgnMetadata, result: string): string[] {
+  const roster = new Set<string>(SEVEN_TAG_ROSTER);
+  const tags: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(metadata)) {
+    if (!roster.has(name) && value?.trim()) {
+      tags[name] = value.trim();
+    }
+  }
+
+  if (tags.FEN) {
+    tags.SetUp = '1';
+  } else {
+    delete tags.SetUp;
+  }
+
+  const rosterLines = SEVEN_TAG_ROSTER.map((name) => {
+    const value = name === 'Result' ? result : metadata[name]?.trim() || SEVEN_TAG_DEFAULTS[name];
+    return `[${name} "${escapePgnTagValue(value)}"]`;
+  });
+  const supplementalLines = Object.keys(tags)
+    .sort((a, b) => (a < b ? -1 : 1))
+    .map((name) => `[${name} "${escapePgnTagValue(tags[name]!)}"]`);
+
+  return [...rosterLines, ...supplementalLines];
+}
+
+/**
+ * Re-flow movetext into lines of at most `maxLength` characters, breaking between tokens.
+ * A token longer than the limit is kept whole on its own line.
+ */
+export function wrapPgnMoveText(
+  moveText: string,
+  maxLength: number = PGN_EXPORT_LINE_LENGTH,
+): string {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const token of moveText.split(/\s+/).filter(Boolean)) {
+    if (current && current.length + 1 + token.length > maxLength) {
+      lines.push(current);
+      current = token;
+    } else {
+      current = current ? `${current} ${token}` : token;
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+
+  return lines.join('\n');
+}
+
+interface ExportTagPair {
+  name: string;
+  value: string;
+  line: number;
+}
+
+class ExportFormatValidator {
+  private readonly issues: PgnParseError[] = [];
+  private readonly lines: string[];
+
+  constructor(pgn: string) {
+    this.lines = pgn.replaceAll('\r\n', '\n').replace(/\n+$/, '').split('\n');
+  }
+
+  validate(): PgnParseError[] {
+    this.checkLineLengths();
+    const { tags, moveTextStart } = this.readTagSection();
+    this.checkTagRoster(tags);
+    this.checkSetUp(tags);
+    this.checkMoveText(moveTextStart, tags.find((tag) => tag.name === 'Result')?.value);
+    return this.issues;
+  }
+
+  private checkLineLengths(): void {
+    for (const [index, line] of this.lines.entries()) {
+      if (line.length > PGN_EXPORT_LINE_LENGTH) {
+        this.record(
+          'PGN_EXPORT_LINE_TOO_LONG',
+          `Line ${index + 1} has ${line.length} characters; export format allows ${PGN_EXPORT_LINE_LENGTH}.`,
+          { line: index + 1 },
+        );
+      }
+    }
+  }
+
+  private readTagSection(): { tags: ExportTagPair[]; moveTextStart: number } {
+    const tags: ExportTagPair[] = [];
+    let index = 0;
+
+    for (; index < this.lines.length; index++) {
+      const line = this.lines[index]!;
+      if (!line.startsWith('[')) {
+        break;
+      }
+
+      const match = EXPORT_TAG_REGEX.exec(line);
+      if (match) {
+        tags.push({
+          name: match[1]!,
+          value: match[2]!.replaceAll(/\\(["\\])/g, '$1'),
+          line: index + 1,
+        });
+      } else {
+        this.record(
+          'PGN_EXPORT_INVALID_TAG',
+          `Line ${index + 1} is not a single tag pair with an escaped value.`,
+          { line: index + 1 },
+        );
+      }
+    }
+
+    if (tags.length > 0 && index < this.lines.length) {
+      if (this.lines[index]!.trim() === '') {
+        index++;
+      } else {
+        this.record(
+          'PGN_EXPORT_MISSING_BLANK_LINE',
+          'The tag section must be followed by an empty line.',
+          { line: index + 1 },
+        );
+      }
+    }
+
+    return { tags, moveTextStart: index };
+  }
+
+  private checkTagRoster(tags: ExportTagPair[]): void {
+    for (const [position, name] of SEVEN_TAG_ROSTER.entries()) {
+      const tag = tags.find((candidate) => candidate.name === name);
+      if (!tag) {
+        this.record('PGN_EXPORT_MISSING_TAG', `Missing "${name}" tag from the Seven Tag Roster.`, {
+          tag: name,
+        });
+      } else if (tags[position]?.name !== name) {
+        this.record(
+          'PGN_EXPORT_TAG_ORDER',
+          `"${name}" must be tag number ${position + 1} of the Seven Tag Roster.`,
+          { tag: name, line: tag.line },
+        );
+      }
+    }
+
+    const supplemental = tags.filter(
+      (tag) => !(SEVEN_TAG_ROSTER as readonly string[]).includes(tag.name),
+    );
+    for (let index = 1; index < supplemental.length; index++) {
+      const previous = supplemental[index - 1]!;
+      const tag = supplemental[index]!;
+      if (previous.name > tag.name) {
+        this.record(
+          'PGN_EXPORT_TAG_ORDER',
+          `Supplemental tag "${tag.name}" must come before "${previous.name}" (ASCII order).`,
+          { tag: tag.name, line: tag.line },
+        );
+      }
+    }
+  }
+
+  private checkSetUp(tags: ExportTagPair[]): void {
+    const fen = tags.find((tag) => tag.name === 'FEN');
+    const setUp = tags.find((tag) => tag.name === 'SetUp');
+
+    if (fen && setUp?.value !== '1') {
+      this.record('PGN_EXPORT_MISSING_SETUP', 'A "FEN" tag requires [SetUp "1"].', {
+        tag: 'SetUp',
+        line: fen.line,
+      });
+    } else if (!fen && setUp?.value === '1') {
+      this.record('PGN_EXPORT_MISSING_SETUP', '[SetUp "1"] requires a "FEN" tag.', {
+        tag: 'FEN',
+        line: setUp.line,
+      });
+    }
+  }
+
+  private checkMoveText(start: number, resultTag?: string): void {
+    let inComment = false;
+    const tokens: string[] = [];
+
+    for (let index = start; index < this.lines.length; index++) {
+      const line = this.lines[index]!;
+      let hasLineComment = !inComment && line.startsWith('%');
+      for (const char of line) {
+        if (char === '{' || char === '}') {
+          inComment = char === '{';
+        } else if (char === ';' && !inComment) {
+          hasLineComment = true;
+        }
+      }
+      if (hasLineComment) {
+        this.record(
+          'PGN_EXPORT_LINE_COMMENT',
+          `Line ${index + 1} uses a ";" comment or "%" escape, which export format does not allow.`,
+          { line: index + 1 },
+        );
+      }
+      tokens.push(...line.split(/\s+/).filter(Boolean));
+    }
+
+    const termination = tokens.at(-1);
+    if (!termination || !RESULT_TOKENS.has(termination)) {
+      this.record(
+        'PGN_EXPORT_MISSING_TERMINATION',
+        'The movetext must end with a game termination marker.',
+      );
+      return;
+    }
+
+    if (resultTag !== undefined && resultTag !== termination) {
+      this.record(
+        'PGN_EXPORT_RESULT_MISMATCH',
+        `The termination marker "${termination}" does not match [Result "${resultTag}"].`,
+        { tag: 'Result' },
+      );
+    }
+  }
+
+  private record(
+    code: PgnParseErrorCode,
+    message: string,
+    details?: Record<string, unknown>,
+  ): void {
+    this.issues.push(new PgnParseError(message, code, { details }));
+  }
+}
+
+/**
+ * Check a single-game PGN text against the export-format rules.
+ * Returns one issue per violated rule occurrence; an empty array means the text is compliant.
+ */
+export function validatePgnExportFormat(pgn: string): PgnParseError[] {
+  return new ExportFormatValidator(pgn).validate();
+}
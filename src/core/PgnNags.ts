@@ -0,0 +1,108 @@
+/**
+ * Numeric Annotation Glyphs (NAG).
+ * PGN stores them as `$1`–`$255`; many files also use the symbolic forms (`!?`, `??`, `+=`),
+ * either glued to the SAN or as standalone tokens. Both are normalized to NAG numbers.
+ */
+
+const MIN_NAG = 1;
+const MAX_NAG = 255;
+
+const NAG_TOKEN_REGEX = /^\$(\d{1,3})$/;
+const SAN_SUFFIX_REGEX = /(!!|\?\?|!\?|\?!|!|\?)$/;
+
+/**
+ * Display glyphs for the NAGs that have a conventional symbol.
+ */
+const NAG_SYMBOLS: Readonly<Record<number, string>> = {
+  1: '!',
+  2: '?',
+  3: '!!',
+  4: '??',
+  5: '!?',
+  6: '?!',
+  7: '□',
+  10: '=',
+  13: '∞',
+  14: '⩲',
+  15: '⩱',
+  16: '±',
+  17: '∓',
+  18: '+-',
+  19: '-+',
+  22: '⨀',
+  23: '⨀',
+  32: '⟳',
+  33: '⟳',
+  36: '→',
+  37: '→',
+  40: '↑',
+  41: '↑',
+  132: '⇆',
+  133: '⇆',
+  140: '∆',
+  146: 'N',
+};
+
+/**
+ * Symbolic annotations accepted on import, including common ASCII spellings.
+ */
+const SYMBOL_TO_NAG: Readonly<Record<string, number>> = {
+  '!': 1,
+  '?': 2,
+  '!!': 3,
+  '??': 4,
+  '!?': 5,
+  '?!': 6,
+  '□': 7,
+  '=': 10,
+  '∞': 13,
+  '⩲': 14,
+  '+=': 14,
+  '+/=': 14,
+  '⩱': 15,
+  '=+': 15,
+  '=/+': 15,
+  '±': 16,
+  '+/-': 16,
+  '∓': 17,
+  '-/+': 17,
+  '+-': 18,
+  '-+': 19,
+};
+
+export function isValidNag(nag: number): boolean {
+  return Number.isInteger(nag) && nag >= MIN_NAG && nag <= MAX_NAG;
+}
+
+/**
+ * Parse a standalone NAG token (`$14`, `+=`, `!?`). Returns null for anything else.
+ */
+export function parseNag(token: string): number | null {
+  const numericMatch = NAG_TOKEN_REGEX.exec(token);
+  if (numericMatch) {
+    const nag = Number.parseInt(numericMatch[1]!, 10);
+    return isValidNag(nag) ? nag : null;
+  }
+
+  return SYMBOL_TO_NAG[token] ?? null;
+}
+
+/**
+ * Detach a move-quality suffix (`e4!?`, `Qxf7??`) from a SAN token.
+ */
+export function splitSanSuffix(san: string): { san: string; nags: number[] } {
+  const match = SAN_SUFFIX_REGEX.exec(san);
+  if (!match || match.index === 0) {
+    return { san, nags: [] };
+  }
+
+  return { san: san.slice(0, match.index), nags: [SYMBOL_TO_NAG[match[1]!]!] };
+}
+
+export function formatNags(nags?: readonly number[]): string {
+  return (nags ?? []).map((nag) => `$${nag}`).join(' ');
+}
+
+export function getNagSymbol(nag: number): string | undefined {
+  return NAG_SYMBOLS[nag];
+}
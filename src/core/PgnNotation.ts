@@ -4,13 +4,32 @@
  * Supports visual annotations (%cal arrows and %csl circles)
  */
 import { PgnAnnotationParser } from './PgnAnnotationParser';
+import { cleanMoveNotation } from './BoardNotation';
 import { PgnParseError, type PgnParseErrorCode } from './errors';
+import { formatNags, parseNag, splitSanSuffix } from './PgnNags';
+import { formatExportTags, wrapPgnMoveText } from './PgnExportFormat';
+import {
+  cloneMoveAnnotations,
+  clonePgnLine,
+  findLinePly,
+  getSideVariations,
+  joinLines,
+  listLinePlies,
+  moveFromPly,
+  plyFromMove,
+  setSideVariations,
+  splitLineAtPly,
+  tokenizeMoveText,
+  type MoveTextToken,
+  type PgnLinePly,
+} from './PgnVariations';
 import type {
   RulesAdapter,
   PgnMove,
   PgnMoveAnnotations,
   ChessLike,
   VerboseHistoryEntry,
+  PgnVariationPath,
 } from './types';
 
 export interface PgnMetadata {
@@ -33,7 +52,31 @@ export interface PgnMetadata {
   [key: string]: string | undefined;
 }
 
-const PGN_HEADER_REGEX = /\[(\w+)\s+"([^"]*)"\]/;
+const PGN_HEADER_REGEX = /\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]/;
+
+interface PreservedMoveState {
+  whiteComment?: string;
+  blackComment?: string;
+  whiteAnnotations?: PgnMoveAnnotations;
+  blackAnnotations?: PgnMoveAnnotations;
+  evaluation?: PgnMove['evaluation'];
+  white?: string;
+  black?: string;
+  whiteVariations?: PgnMove[][];
+  blackVariations?: PgnMove[][];
+}
+
+interface ParsedMoveEntry {
+  ply: number;
+  san: string;
+  comments: string[];
+  variations: PgnMove[][];
+  nags: number[];
+}
+
+function isSameSan(first: string, second: string): boolean {
+  return cleanMoveNotation(first) === cleanMoveNotation(second);
+}
 
 export class PgnNotation {
   private metadata: PgnMetadata;
@@ -48,26 +91,8 @@ export class PgnNotation {
     return history.length > 0 && typeof history[0] !== 'string';
   }
 
-  private captureCurrentMoveState(): Map<
-    number,
-    {
-      whiteComment?: string;
-      blackComment?: string;
-      whiteAnnotations?: PgnMoveAnnotations;
-      blackAnnotations?: PgnMoveAnnotations;
-      evaluation?: PgnMove['evaluation'];
-    }
-  > {
-    const preservedMoves = new Map<
-      number,
-      {
-        whiteComment?: string;
-        blackComment?: string;
-        whiteAnnotations?: PgnMoveAnnotations;
-        blackAnnotations?: PgnMoveAnnotations;
-        evaluation?: PgnMove['evaluation'];
-      }
-    >();
+  private captureCurrentMoveState(): Map<number, PreservedMoveState> {
+    const preservedMoves = new Map<number, PreservedMoveState>();
 
     for (const move of this.moves) {
       preservedMoves.set(move.moveNumber, {
@@ -76,6 +101,10 @@ export class PgnNotation {
         whiteAnnotations: this.cloneAnnotations(move.whiteAnnotations),
         blackAnnotations: this.cloneAnnotations(move.blackAnnotations),
         evaluation: move.evaluation ? { ...move.evaluation } : undefined,
+        white: move.white,
+        black: move.black,
+        whiteVariations: move.whiteVariations?.map((line) => clonePgnLine(line)),
+        blackVariations: move.blackVariations?.map((line) => clonePgnLine(line)),
       });
     }
 
@@ -255,6 +284,25 @@ export class PgnNotation {
 
     this.restorePreservedMoveState(preservedMoves);
     this.updateResultFromChess(chess);
+    this.updateSetupFromChess(chess);
+  }
+
+  /**
+   * Mirror the starting position of the chess.js game in the `SetUp`/`FEN` tags
+   */
+  private updateSetupFromChess(chess: ChessLike): void {
+    if (typeof chess.getHeaders !== 'function') {
+      return;
+    }
+
+    const fen = chess.getHeaders().FEN;
+    if (fen) {
+      this.metadata.SetUp = '1';
+      this.metadata.FEN = fen;
+    } else {
+      delete this.metadata.SetUp;
+      delete this.metadata.FEN;
+    }
   }
 
   /**
@@ -283,6 +331,14 @@ export class PgnNotation {
       const whiteMove = match[2];
       const blackMove = match[3];
 
+      // `12. ... Nf6` (or `12... Nf6`) opens a game started with Black to move
+      if (/^\.+$/.test(whiteMove)) {
+        if (blackMove && !['1-0', '0-1', '1/2-1/2', '*'].includes(blackMove)) {
+          this.addMove(moveNumber, undefined, blackMove);
+        }
+        continue;
+      }
+
       // Additional check to make sure we don\'t include result markers as moves
       if (whiteMove && !['1-0', '0-1', '1/2-1/2', '*'].includes(whiteMove)) {
         // Filter out result markers from black move as well
@@ -294,29 +350,10 @@ export class PgnNotation {
   }
 
   private cloneAnnotations(annotations?: PgnMoveAnnotations): PgnMoveAnnotations | undefined {
-    if (!annotations) {
-      return undefined;
-    }
-
-    return {
-      ...annotations,
-      arrows: annotations.arrows?.map((arrow) => ({ ...arrow })),
-      circles: annotations.circles?.map((circle) => ({ ...circle })),
-    };
+    return cloneMoveAnnotations(annotations);
   }
 
-  private restorePreservedMoveState(
-    preservedMoves: Map<
-      number,
-      {
-        whiteComment?: string;
-        blackComment?: string;
-        whiteAnnotations?: PgnMoveAnnotations;
-        blackAnnotations?: PgnMoveAnnotations;
-        evaluation?: PgnMove['evaluation'];
-      }
-    >,
-  ): void {
+  private restorePreservedMoveState(preservedMoves: Map<number, PreservedMoveState>): void {
     if (preservedMoves.size === 0 || this.moves.length === 0) {
       return;
     }
@@ -348,6 +385,14 @@ export class PgnNotation {
       } else if (snapshot.evaluation?.black !== undefined) {
         this.updateMoveEvaluation(move, 'black', snapshot.evaluation.black);
       }
+
+      // Side lines only make sense while the move they branch from is unchanged
+      if (snapshot.white === move.white) {
+        setSideVariations(move, 'white', snapshot.whiteVariations);
+      }
+      if (snapshot.black === move.black) {
+        setSideVariations(move, 'black', snapshot.blackVariations);
+      }
     }
   }
 
@@ -452,19 +497,48 @@ export class PgnNotation {
       return undefined;
     }
 
-    let moveText = `${move.moveNumber}.`;
+    let moveText = hasWhiteMove ? `${move.moveNumber}.` : `${move.moveNumber}...`;
 
     if (hasWhiteMove) {
-      moveText += this.appendMoveWithComment(move.white ?? '', move.whiteComment);
+      moveText += this.appendMoveWithComment(
+        this.formatSanWithNags(move.white ?? '', move.whiteAnnotations),
+        this.withClockCommands(move.whiteComment, move.whiteAnnotations),
+      );
     }
 
     if (hasBlackMove) {
-      moveText += this.appendMoveWithComment(move.black ?? '', move.blackComment);
+      moveText += this.appendMoveWithComment(
+        this.formatSanWithNags(move.black ?? '', move.blackAnnotations),
+        this.withClockCommands(move.blackComment, move.blackAnnotations),
+      );
     }
 
     return moveText;
   }
 
+  /**
+   * Rewrite the clock commands of a raw comment from the move annotations,
+   * so times recorded after the comment was parsed are exported too
+   */
+  private withClockCommands(
+    comment: string | undefined,
+    annotations?: PgnMoveAnnotations,
+  ): string | undefined {
+    const clockCommands = annotations ? PgnAnnotationParser.formatClockCommands(annotations) : '';
+    if (!clockCommands) {
+      return comment;
+    }
+
+    const trimmed = comment?.trim() ?? '';
+    const text = trimmed.startsWith('{') && trimmed.endsWith('}') ? trimmed.slice(1, -1) : trimmed;
+    return `${clockCommands} ${PgnAnnotationParser.stripClockCommands(text)}`.trim();
+  }
+
+  private formatSanWithNags(san: string, annotations?: PgnMoveAnnotations): string {
+    const nags = formatNags(annotations?.nags);
+    return nags ? `${san} ${nags}` : san;
+  }
+
   private appendMoveWithComment(move: string, comment?: string): string {
     const trimmedComment = comment?.trim();
     if (!trimmedComment) {
@@ -496,6 +570,10 @@ export class PgnNotation {
     if (annotations.evaluation !== undefined) {
       annotationParts.push(PgnNotation.formatEvaluation(annotations.evaluation));
     }
+    const clockCommands = PgnAnnotationParser.formatClockCommands(annotations);
+    if (clockCommands) {
+      annotationParts.push(clockCommands);
+    }
     const textComment = annotations.textComment?.trim();
     if (textComment) {
       annotationParts.push(textComment);
@@ -538,21 +616,45 @@ export class PgnNotation {
       return undefined;
     }
 
-    let moveText = `${move.moveNumber}.`;
+    let moveText = '';
 
     if (move.white) {
       const whiteComment = this.buildAnnotationComment(move.whiteAnnotations, move.whiteComment);
-      moveText += this.appendMoveWithComment(move.white, whiteComment);
+      const whiteSan = this.formatSanWithNags(move.white, move.whiteAnnotations);
+      moveText += `${move.moveNumber}.${this.appendMoveWithComment(whiteSan, whiteComment)}`;
+      moveText += this.formatVariations(move.whiteVariations);
     }
 
     if (move.black) {
+      // Black needs its own move number when it does not directly follow White's move
+      if (!move.white || move.whiteVariations?.length) {
+        moveText += `${moveText ? ' ' : ''}${move.moveNumber}...`;
+      }
       const blackComment = this.buildAnnotationComment(move.blackAnnotations, move.blackComment);
-      moveText += this.appendMoveWithComment(move.black, blackComment);
+      const blackSan = this.formatSanWithNags(move.black, move.blackAnnotations);
+      moveText += this.appendMoveWithComment(blackSan, blackComment);
+      moveText += this.formatVariations(move.blackVariations);
     }
 
     return moveText;
   }
 
+  private formatVariations(variations?: PgnMove[][]): string {
+    if (!variations?.length) {
+      return '';
+    }
+
+    return variations
+      .map((line) => {
+        const lineText = line
+          .map((move) => this.formatAnnotatedMove(move))
+          .filter(Boolean)
+          .join(' ');
+        return ` (${lineText})`;
+      })
+      .join('');
+  }
+
   /**
    * Get move count
    */
@@ -634,7 +736,7 @@ export class PgnNotation {
         // Header line
         const match = PGN_HEADER_REGEX.exec(line);
         if (match) {
-          this.metadata[match[1]] = match[2];
+          this.metadata[match[1]] = match[2].replaceAll(/\\(["\\])/g, '$1');
         }
       } else if (line.trim() && !line.startsWith('[')) {
         inMoves = true;
@@ -651,47 +753,6 @@ export class PgnNotation {
     return [...this.parseIssues];
   }
 
-  /**
-   * Parse moves string with embedded annotations
-   */
-  private parseMovesWithAnnotations(movesText: string): void {
-    this.moves = [];
-
-    const movePattern = /(\d+)\.(?!\d)(\.{2})?/g;
-
-    let match: RegExpExecArray | null;
-
-    while ((match = movePattern.exec(movesText)) !== null) {
-      const moveNumber = Number.parseInt(match[1], 10);
-      const startsWithBlack = Boolean(match[2]);
-      let currentIndex = movePattern.lastIndex;
-
-      const pgnMove = this.ensureMoveWithAnnotations(moveNumber);
-
-      if (!startsWithBlack) {
-        const whiteSection = this.extractMoveSection(
-          movesText,
-          currentIndex,
-          moveNumber,
-          'white',
-          this.registerIssue.bind(this),
-        );
-        currentIndex = whiteSection.nextIndex;
-        this.applyMoveSection(pgnMove, whiteSection, 'white', moveNumber);
-      }
-
-      const blackSection = this.extractMoveSection(
-        movesText,
-        currentIndex,
-        moveNumber,
-        'black',
-        this.registerIssue.bind(this),
-      );
-
-      this.applyMoveSection(pgnMove, blackSection, 'black', moveNumber);
-    }
-  }
-
   private static formatEvaluation(value: number | string): string {
     return `[%eval ${String(value).trim()}]`;
   }
@@ -744,8 +805,8 @@ export class PgnNotation {
     this.parseIssues.push(new PgnParseError(message, code, { details }));
   }
 
-  private ensureMoveWithAnnotations(moveNumber: number): PgnMove {
-    let pgnMove = this.moves.find((move) => move.moveNumber === moveNumber);
+  private ensureMoveWithAnnotations(moveNumber: number, line: PgnMove[] = this.moves): PgnMove {
+    let pgnMove = line.find((move) => move.moveNumber === moveNumber);
     if (pgnMove) {
       if (!pgnMove.whiteAnnotations) {
         pgnMove.whiteAnnotations = { arrows: [], circles: [], textComment: '' };
@@ -761,7 +822,7 @@ export class PgnNotation {
       whiteAnnotations: { arrows: [], circles: [], textComment: '' },
       blackAnnotations: { arrows: [], circles: [], textComment: '' },
     };
-    this.moves.push(pgnMove);
+    line.push(pgnMove);
     return pgnMove;
   }
 
@@ -788,6 +849,8 @@ export class PgnNotation {
         circles: parsed.highlights,
         textComment: parsed.textComment,
         evaluation: parsed.evaluation,
+        clock: parsed.clock,
+        elapsed: parsed.elapsed,
       };
     } else {
       pgnMove.blackAnnotations = {
@@ -795,6 +858,8 @@ export class PgnNotation {
         circles: parsed.highlights,
         textComment: parsed.textComment,
         evaluation: parsed.evaluation,
+        clock: parsed.clock,
+        elapsed: parsed.elapsed,
       };
     }
     this.updateMoveEvaluation(pgnMove, color, parsed.evaluation);
@@ -810,133 +875,213 @@ export class PgnNotation {
     }
   }
 
-  private applyMoveSection(
-    pgnMove: PgnMove,
-    section: { san?: string; comments: string[] },
-    color: 'white' | 'black',
-    moveNumber: number,
+  /**
+   * Parse moves string with embedded annotations and recursive variations
+   */
+  private parseMovesWithAnnotations(movesText: string): void {
+    const line: PgnMove[] = [];
+    this.parseMoveTextLine(tokenizeMoveText(movesText), { index: 0 }, line, null, 0);
+    this.moves = line;
+  }
+
+  private parseMoveTextLine(
+    tokens: MoveTextToken[],
+    cursor: { index: number },
+    line: PgnMove[],
+    startPly: number | null,
+    depth: number,
   ): void {
-    if (section.san) {
-      if (color === 'white') {
-        pgnMove.white = section.san;
-      } else {
-        pgnMove.black = section.san;
-      }
-      if (section.comments.length > 0) {
-        const normalizedComment = this.normalizeCommentParts(section.comments);
-        if (!normalizedComment) {
-          return;
+    const entries: ParsedMoveEntry[] = [];
+    let nextPly = startPly;
+    let pendingComments: string[] = [];
+    let numberedSinceLastMove = false;
+
+    while (cursor.index < tokens.length) {
+      const token = tokens[cursor.index++]!;
+      const lastEntry = entries.at(-1);
+
+      switch (token.type) {
+        case 'comment': {
+          this.registerUnterminatedComment(token, nextPly ?? (lastEntry ? lastEntry.ply + 1 : 1));
+          if (lastEntry && !numberedSinceLastMove) {
+            lastEntry.comments.push(token.value);
+          } else {
+            pendingComments.push(token.value);
+          }
+          break;
         }
-        const parsed = PgnAnnotationParser.parseComment(normalizedComment);
-        if (color === 'white') {
-          pgnMove.whiteComment = normalizedComment;
-        } else {
-          pgnMove.blackComment = normalizedComment;
+        case 'moveNumber': {
+          nextPly = plyFromMove(token.moveNumber, token.black ? 'black' : 'white');
+          numberedSinceLastMove = true;
+          break;
+        }
+        case 'san': {
+          const standaloneNag = parseNag(token.value);
+          if (standaloneNag !== null) {
+            lastEntry?.nags.push(standaloneNag);
+            break;
+          }
+
+          const ply = nextPly ?? (lastEntry ? lastEntry.ply + 1 : 1);
+          const { san, nags } = splitSanSuffix(token.value);
+          entries.push({ ply, san, comments: pendingComments, variations: [], nags });
+          pendingComments = [];
+          nextPly = ply + 1;
+          numberedSinceLastMove = false;
+          break;
+        }
+        case 'open': {
+          this.parseVariation(tokens, cursor, lastEntry, depth);
+          break;
+        }
+        case 'close': {
+          if (depth > 0) {
+            this.flushMoveEntries(line, entries, pendingComments);
+            return;
+          }
+          this.registerIssue('PGN_PARSE_UNEXPECTED_VARIATION', 'Unmatched ")" in PGN move text.', {
+            index: token.index,
+          });
+          break;
+        }
+        case 'result': {
+          this.handleResultToken(tokens, cursor, token.value, depth);
+          break;
+        }
+        case 'nag': {
+          const nag = parseNag(token.value);
+          if (nag !== null) {
+            lastEntry?.nags.push(nag);
+          }
+          break;
         }
-        this.applyParsedAnnotations(pgnMove, color, parsed, moveNumber);
       }
-      return;
     }
 
-    if (section.comments.length > 0) {
-      this.registerIssue('PGN_PARSE_MOVE_TEXT_MISSING', 'Comment found without preceding move.', {
-        moveNumber,
-        color,
-        rawComment: section.comments.join(' '),
-      });
+    if (depth > 0) {
+      this.registerIssue(
+        'PGN_PARSE_UNTERMINATED_VARIATION',
+        'Unterminated variation detected while parsing PGN move text.',
+        { ply: startPly ?? undefined },
+      );
     }
+    this.flushMoveEntries(line, entries, pendingComments);
   }
 
-  private extractMoveSection(
-    movesText: string,
-    startIndex: number,
-    moveNumber: number,
-    color: 'white' | 'black',
-    registerIssue: (
-      code: PgnParseErrorCode,
-      message: string,
-      details?: Record<string, unknown>,
-    ) => void,
-  ): { san?: string; comments: string[]; nextIndex: number } {
-    let index = startIndex;
-    const comments: string[] = [];
-    const length = movesText.length;
-
-    const skipWhitespace = () => {
-      while (index < length && /\s/.test(movesText[index]!)) {
-        index++;
-      }
-    };
+  private parseVariation(
+    tokens: MoveTextToken[],
+    cursor: { index: number },
+    anchor: ParsedMoveEntry | undefined,
+    depth: number,
+  ): void {
+    const variation: PgnMove[] = [];
+    const openIndex = cursor.index - 1;
+    this.parseMoveTextLine(tokens, cursor, variation, anchor?.ply ?? null, depth + 1);
+
+    if (!anchor) {
+      this.registerIssue(
+        'PGN_PARSE_UNEXPECTED_VARIATION',
+        'Variation found without a preceding move to branch from.',
+        { index: tokens[openIndex]?.index },
+      );
+      return;
+    }
 
-    const collectComments = () => {
-      while (true) {
-        skipWhitespace();
-        if (index >= length || movesText[index] !== '{') {
-          break;
-        }
+    if (variation.length > 0) {
+      anchor.variations.push(variation);
+    }
+  }
 
-        const closingIndex = movesText.indexOf('}', index + 1);
-        if (closingIndex === -1) {
-          const remaining = movesText.slice(index + 1).trim();
-          if (remaining) {
-            comments.push(remaining);
-          }
-          registerIssue(
-            'PGN_PARSE_UNTERMINATED_COMMENT',
-            'Unterminated PGN comment detected while parsing annotations.',
-            { moveNumber, color, index },
-          );
-          index = length;
-          break;
-        }
+  private handleResultToken(
+    tokens: MoveTextToken[],
+    cursor: { index: number },
+    result: string,
+    depth: number,
+  ): void {
+    if (depth > 0) {
+      return;
+    }
 
-        const content = movesText.slice(index + 1, closingIndex).trim();
-        if (content) {
-          comments.push(content);
-        }
-        index = closingIndex + 1;
-      }
-    };
+    if (cursor.index < tokens.length) {
+      this.registerIssue(
+        'PGN_PARSE_RESULT_IN_MOVE',
+        'Game result token encountered before move text.',
+        { rawComment: result },
+      );
+      return;
+    }
 
-    collectComments();
-    skipWhitespace();
+    this.setResult(result);
+  }
 
-    if (index >= length) {
-      return { san: undefined, comments, nextIndex: index };
+  private registerUnterminatedComment(
+    token: Extract<MoveTextToken, { type: 'comment' }>,
+    ply: number,
+  ): void {
+    if (token.terminated) {
+      return;
     }
 
-    const rest = movesText.slice(index);
+    const { moveNumber, side } = moveFromPly(ply);
+    this.registerIssue(
+      'PGN_PARSE_UNTERMINATED_COMMENT',
+      'Unterminated PGN comment detected while parsing annotations.',
+      { moveNumber, color: side, index: token.index },
+    );
+  }
 
-    const resultTokenMatch = /^(1-0|0-1|1\/2-1\/2|\*)/.exec(rest);
-    if (/^(\d+)\.(?!\d)(\.{2})?/.test(rest) || resultTokenMatch) {
-      if (resultTokenMatch) {
-        registerIssue(
-          'PGN_PARSE_RESULT_IN_MOVE',
-          'Game result token encountered before move text.',
-          { moveNumber, color, rawComment: resultTokenMatch[1] },
-        );
-      }
-      return { san: undefined, comments, nextIndex: index };
+  private flushMoveEntries(
+    line: PgnMove[],
+    entries: ParsedMoveEntry[],
+    danglingComments: string[],
+  ): void {
+    for (const entry of entries) {
+      const { moveNumber, side } = moveFromPly(entry.ply);
+      const pgnMove = this.ensureMoveWithAnnotations(moveNumber, line);
+      this.applyMoveEntry(pgnMove, entry, side, moveNumber);
     }
 
-    const sanMatch = /^([^\s{]+)/.exec(rest);
-    if (!sanMatch) {
-      if (rest.trim()) {
-        registerIssue('PGN_PARSE_MOVE_TEXT_MISSING', 'Unable to parse move text segment in PGN.', {
-          moveNumber,
-          color,
-          rawComment: rest.trim().slice(0, 20),
-        });
-      }
-      return { san: undefined, comments, nextIndex: index };
+    const orphanComments = danglingComments.filter((comment) => comment.length > 0);
+    if (orphanComments.length > 0) {
+      const lastPly = entries.at(-1)?.ply ?? 0;
+      const { moveNumber, side } = moveFromPly(lastPly + 1);
+      this.registerIssue('PGN_PARSE_MOVE_TEXT_MISSING', 'Comment found without preceding move.', {
+        moveNumber,
+        color: side,
+        rawComment: orphanComments.join(' '),
+      });
     }
+  }
 
-    const san = sanMatch[1];
-    index += san.length;
+  private applyMoveEntry(
+    pgnMove: PgnMove,
+    entry: ParsedMoveEntry,
+    color: 'white' | 'black',
+    moveNumber: number,
+  ): void {
+    if (color === 'white') {
+      pgnMove.white = entry.san;
+    } else {
+      pgnMove.black = entry.san;
+    }
 
-    collectComments();
+    setSideVariations(pgnMove, color, entry.variations);
+
+    const normalizedComment = this.normalizeCommentParts(entry.comments);
+    if (normalizedComment) {
+      const parsed = PgnAnnotationParser.parseComment(normalizedComment);
+      if (color === 'white') {
+        pgnMove.whiteComment = normalizedComment;
+      } else {
+        pgnMove.blackComment = normalizedComment;
+      }
+      this.applyParsedAnnotations(pgnMove, color, parsed, moveNumber);
+    }
 
-    return { san, comments, nextIndex: index };
+    if (entry.nags.length > 0) {
+      const annotationsKey = color === 'white' ? 'whiteAnnotations' : 'blackAnnotations';
+      pgnMove[annotationsKey] = { ...pgnMove[annotationsKey], nags: [...entry.nags] };
+    }
   }
 
   /**
@@ -954,10 +1099,34 @@ export class PgnNotation {
   }
 
   /**
-   * Get annotations for a specific move
+   * Generate the game in PGN export format: Seven Tag Roster first, remaining tags in ASCII order,
+   * `SetUp`/`FEN` for custom start positions, escaped tag values, movetext wrapped at 80 columns
+   * and an explicit termination marker
    */
-  getMoveAnnotations(moveNumber: number, isWhite: boolean): PgnMoveAnnotations | undefined {
-    const move = this.moves.find((m) => m.moveNumber === moveNumber);
+  toExportFormatPgn(): string {
+    const moveText = this.moves
+      .map((move) => this.formatAnnotatedMove(move))
+      .filter(Boolean)
+      .join(' ');
+
+    return [
+      formatExportTags(this.metadata, this.result).join('\n'),
+      '',
+      wrapPgnMoveText(`${moveText} ${this.result}`),
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Get annotations for a specific move, optionally along the variation reached through `path`
+   */
+  getMoveAnnotations(
+    moveNumber: number,
+    isWhite: boolean,
+    path: PgnVariationPath = [],
+  ): PgnMoveAnnotations | undefined {
+    const ply = plyFromMove(moveNumber, isWhite ? 'white' : 'black');
+    const move = this.resolveLineForPly(ply, path)?.find((m) => m.moveNumber === moveNumber);
     if (move === undefined) {
       return undefined;
     }
@@ -965,10 +1134,262 @@ export class PgnNotation {
     return isWhite ? move.whiteAnnotations : move.blackAnnotations;
   }
 
+  /**
+   * Record the clock time (`[%clk]`) and time spent (`[%emt]`) for a mainline move
+   */
+  setMoveClock(
+    moveNumber: number,
+    isWhite: boolean,
+    times: { clock?: number; elapsed?: number },
+  ): boolean {
+    const move = this.moves.find((m) => m.moveNumber === moveNumber);
+    const san = isWhite ? move?.white : move?.black;
+    if (!move || san === undefined) {
+      return false;
+    }
+
+    const annotationsKey = isWhite ? 'whiteAnnotations' : 'blackAnnotations';
+    move[annotationsKey] = { ...move[annotationsKey], ...times };
+    return true;
+  }
+
+  /**
+   * Get the SAN recorded for a specific move, optionally along the variation reached through `path`
+   */
+  getMoveSan(
+    moveNumber: number,
+    isWhite: boolean,
+    path: PgnVariationPath = [],
+  ): string | undefined {
+    const ply = plyFromMove(moveNumber, isWhite ? 'white' : 'black');
+    const move = this.resolveLineForPly(ply, path)?.find((m) => m.moveNumber === moveNumber);
+    return isWhite ? move?.white : move?.black;
+  }
+
   /**
    * Get all moves with their annotations
    */
   getMovesWithAnnotations(): PgnMove[] {
     return [...this.moves];
   }
+
+  /**
+   * Get the moves of a line in the variation tree (the mainline when `path` is empty)
+   */
+  getLine(path: PgnVariationPath = []): PgnMove[] | undefined {
+    const line = this.resolveLine(path);
+    return line ? [...line] : undefined;
+  }
+
+  /**
+   * Get the alternative lines branching off the move played at `ply` in the given line
+   */
+  getVariations(ply: number, path: PgnVariationPath = []): PgnMove[][] {
+    const entry = this.resolveLinePly(ply, path);
+    if (!entry) {
+      return [];
+    }
+
+    return [...(getSideVariations(entry.move, entry.side) ?? [])];
+  }
+
+  /**
+   * Add a sibling line offering `sanMoves` as an alternative to the move played at `ply`.
+   * Returns the path of the new line, or null when there is no move to branch from.
+   */
+  addVariation(
+    ply: number,
+    sanMoves: string[],
+    path: PgnVariationPath = [],
+  ): PgnVariationPath | null {
+    const entry = this.resolveLinePly(ply, path);
+    if (!entry || sanMoves.length === 0) {
+      return null;
+    }
+
+    const variation: PgnMove[] = [];
+    this.writeLineMoves(variation, ply, sanMoves);
+
+    const variations = [...(getSideVariations(entry.move, entry.side) ?? []), variation];
+    setSideVariations(entry.move, entry.side, variations);
+    return [...path, { ply, index: variations.length - 1 }];
+  }
+
+  /**
+   * Record `sanMoves`, played from the start of the game, in the tree along the line at `path`.
+   * Moves the tree already holds are followed, into the parent line or a side line when they
+   * leave the line at `path`; the first new move starts a variation, or extends the line when it
+   * comes after its last move. Returns the path of the line holding the last move, or null when
+   * `path` does not exist.
+   */
+  mergeLine(sanMoves: readonly string[], path: PgnVariationPath = []): PgnVariationPath | null {
+    const line = this.getSanSequence(path);
+    if (!line) {
+      return null;
+    }
+
+    const divergence = sanMoves.findIndex(
+      (san, index) => index >= line.length || !isSameSan(san, line[index]),
+    );
+    if (divergence === -1) {
+      return [...path];
+    }
+
+    // The branches taken after the first new move no longer apply
+    const ply = this.getInitialPly() + divergence + 1;
+    const parentPath = path.filter((step) => step.ply < ply);
+    const parentLine = this.resolveLine(parentPath);
+    if (!parentLine) {
+      return null;
+    }
+    const remaining = sanMoves.slice(divergence);
+    const [next] = remaining;
+    const entry = findLinePly(parentLine, ply);
+    if (!entry) {
+      this.writeLineMoves(parentLine, ply, remaining);
+      return parentPath;
+    }
+    if (isSameSan(entry.san, next)) {
+      return this.mergeLine(sanMoves, parentPath);
+    }
+
+    const index = (getSideVariations(entry.move, entry.side) ?? []).findIndex((variation) => {
+      const first = findLinePly(variation, ply);
+      return first !== undefined && isSameSan(first.san, next);
+    });
+    return index === -1
+      ? this.addVariation(ply, remaining, parentPath)
+      : this.mergeLine(sanMoves, [...parentPath, { ply, index }]);
+  }
+
+  private writeLineMoves(line: PgnMove[], ply: number, sanMoves: readonly string[]): void {
+    for (const [offset, san] of sanMoves.entries()) {
+      const { moveNumber, side } = moveFromPly(ply + offset);
+      const move = this.ensureMoveWithAnnotations(moveNumber, line);
+      if (side === 'white') {
+        move.white = san;
+      } else {
+        move.black = san;
+      }
+    }
+  }
+
+  /**
+   * Remove a side line (and everything nested inside it)
+   */
+  deleteVariation(ply: number, index: number, path: PgnVariationPath = []): boolean {
+    const entry = this.resolveLinePly(ply, path);
+    const variations = entry ? getSideVariations(entry.move, entry.side) : undefined;
+    if (!entry || !variations?.[index]) {
+      return false;
+    }
+
+    setSideVariations(
+      entry.move,
+      entry.side,
+      variations.filter((_, variationIndex) => variationIndex !== index),
+    );
+    return true;
+  }
+
+  /**
+   * Swap a side line with the continuation it branches from.
+   * The promoted line takes over the parent line from `ply` onwards and the previous
+   * continuation becomes a variation in its place.
+   */
+  promoteVariation(ply: number, index: number, path: PgnVariationPath = []): boolean {
+    const line = this.resolveLine(path);
+    const entry = line ? findLinePly(line, ply) : undefined;
+    const variations = entry ? getSideVariations(entry.move, entry.side) : undefined;
+    const promoted = variations?.[index];
+    if (!line || !entry || !variations || !promoted) {
+      return false;
+    }
+
+    const { head, tail: demoted } = splitLineAtPly(line, ply);
+    setSideVariations(demoted[0]!, entry.side, undefined);
+
+    const newTail = clonePgnLine(promoted);
+    const siblings = variations.map((variation, variationIndex) =>
+      variationIndex === index ? demoted : clonePgnLine(variation),
+    );
+    const firstMove = newTail[0];
+    if (firstMove) {
+      setSideVariations(firstMove, entry.side, [
+        ...siblings,
+        ...(getSideVariations(firstMove, entry.side) ?? []),
+      ]);
+    }
+
+    line.splice(0, line.length, ...joinLines(head, newTail));
+    return true;
+  }
+
+  /**
+   * SAN moves from the start of the game to the end of the line at `path`,
+   * optionally stopping after the absolute ply `throughPly`.
+   * Returns null when the path does not exist.
+   */
+  getSanSequence(path: PgnVariationPath = [], throughPly?: number): string[] | null {
+    const limit = throughPly ?? Number.POSITIVE_INFINITY;
+    const sanMoves: string[] = [];
+    let line: PgnMove[] | undefined = this.moves;
+
+    for (const step of path) {
+      const plies = listLinePlies(line);
+      for (const entry of plies) {
+        if (entry.ply < step.ply && entry.ply <= limit) {
+          sanMoves.push(entry.san);
+        }
+      }
+
+      const branch = plies.find((entry) => entry.ply === step.ply);
+      line = branch ? getSideVariations(branch.move, branch.side)?.[step.index] : undefined;
+      if (!line) {
+        return null;
+      }
+    }
+
+    for (const entry of listLinePlies(line)) {
+      if (entry.ply <= limit) {
+        sanMoves.push(entry.san);
+      }
+    }
+
+    return sanMoves;
+  }
+
+  /**
+   * Number of plies played before the first recorded move
+   * (non-zero when the game starts from a custom position)
+   */
+  getInitialPly(): number {
+    const [first] = listLinePlies(this.moves);
+    return first ? first.ply - 1 : 0;
+  }
+
+  private resolveLine(path: PgnVariationPath): PgnMove[] | undefined {
+    let line: PgnMove[] | undefined = this.moves;
+
+    for (const step of path) {
+      const entry: PgnLinePly | undefined = line ? findLinePly(line, step.ply) : undefined;
+      line = entry ? getSideVariations(entry.move, entry.side)?.[step.index] : undefined;
+    }
+
+    return line;
+  }
+
+  /**
+   * Resolve the line that holds `ply` when following `path`:
+   * plies before a branch point still belong to the parent line.
+   */
+  private resolveLineForPly(ply: number, path: PgnVariationPath): PgnMove[] | undefined {
+    const branchIndex = path.findIndex((step) => ply < step.ply);
+    return this.resolveLine(branchIndex === -1 ? path : path.slice(0, branchIndex));
+  }
+
+  private resolveLinePly(ply: number, path: PgnVariationPath): PgnLinePly | undefined {
+    const line = this.resolveLine(path);
+    return line ? findLinePly(line, ply) : undefined;
+  }
 }
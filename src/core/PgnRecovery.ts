@@ -0,0 +1,416 @@
+/**
+ * Lenient PGN import
+ * Repairs the mistakes found in PGN pasted from chat apps, forums or scanned books
+ * (figurines, localized piece letters, `0-0`, en-dash results, smart quotes, missing move numbers)
+ * and cuts the game at its first illegal move. Every repair is reported as a `PgnParseError`.
+ */
+
+import { Chess } from 'chess.js';
+import { PgnParseError, type PgnParseErrorCode } from './errors';
+import { NOTATION_LOCALES, type BuiltInNotationLocale } from './NotationLocale';
+import { parseNag, splitSanSuffix } from './PgnNags';
+import { tokenizeMoveText, type MoveTextToken } from './PgnVariations';
+
+export type PgnPieceLocale = Exclude<BuiltInNotationLocale, 'figurine'>;
+
+export interface PgnRecoveryOptions {
+  /**
+   * Language of the piece letters. Detected from the movetext when omitted.
+   */
+  locale?: PgnPieceLocale;
+}
+
+export interface PgnLoadOptions extends PgnRecoveryOptions {
+  /** Repair the PGN with recoverPgn() before loading it */
+  lenient?: boolean;
+}
+
+export interface PgnRecoveryResult {
+  /** Repaired PGN text */
+  pgn: string;
+  /** One entry per repair, plus `PGN_RECOVERY_ILLEGAL_MOVE` when the game was cut */
+  issues: PgnParseError[];
+}
+
+const PIECE_LOCALES: readonly PgnPieceLocale[] = ['en', 'fr', 'de', 'es', 'it', 'nl'];
+
+/**
+ * Piece letters (king, queen, rook, bishop, knight) of each supported language
+ */
+const PIECE_LETTERS = Object.fromEntries(
+  PIECE_LOCALES.map((locale) => {
+    const table = NOTATION_LOCALES[locale];
+    return [locale, [table.K, table.Q, table.R, table.B, table.N].join('')];
+  }),
+) as Readonly<Record<PgnPieceLocale, string>>;
+
+const FIGURINES: Readonly<Record<string, string>> = {
+  '♔': 'K',
+  '♕': 'Q',
+  '♖': 'R',
+  '♗': 'B',
+  '♘': 'N',
+  '♚': 'K',
+  '♛': 'Q',
+  '♜': 'R',
+  '♝': 'B',
+  '♞': 'N',
+  '♙': '',
+  '♟': '',
+};
+
+const FIGURINE_REGEX = /[♔♕♖♗♘♙♚♛♜♝♞♟]/g;
+const SMART_QUOTES_REGEX = /[“”„‟″«»]/g;
+const DASHES = '[-‐‑‒–—−]';
+const CASTLING_REGEX = new RegExp(`^[0oO]${DASHES}[0oO](${DASHES}[0oO])?(?=[+#!?]*$)`);
+const DECISIVE_RESULT_REGEX = new RegExp(`^(1|0)${DASHES}(0|1)$`);
+const DRAW_RESULT_REGEX = new RegExp(`^(?:½|1/2)${DASHES}(?:½|1/2)$`);
+const ELLIPSIS_MOVE_REGEX = /^(\d+)…(.*)$/;
+const HEADER_LINE_REGEX = /^\s*\[/;
+const FEN_HEADER_REGEX = /^\s*\[FEN\s+"([^"]+)"\s*\]/m;
+const RESULT_HEADER_REGEX = /^(\s*\[Result\s+")[^"]*("\s*\])/m;
+
+interface LineState {
+  ply: number;
+  lastMovePly: number;
+  needsNumber: boolean;
+}
+
+function detectLocale(sanTokens: readonly string[]): PgnPieceLocale {
+  const used = new Set<string>();
+  for (const san of sanTokens) {
+    for (const letter of san.replace(CASTLING_REGEX, '').match(/[A-Z]/g) ?? []) {
+      used.add(letter);
+    }
+  }
+
+  return (
+    PIECE_LOCALES.find((locale) =>
+      [...used].every((letter) => PIECE_LETTERS[locale].includes(letter)),
+    ) ?? 'en'
+  );
+}
+
+function normalizeResult(value: string): string | null {
+  if (DRAW_RESULT_REGEX.test(value)) {
+    return '1/2-1/2';
+  }
+  const decisive = DECISIVE_RESULT_REGEX.exec(value);
+  if (decisive && decisive[1] !== decisive[2]) {
+    return `${decisive[1]}-${decisive[2]}`;
+  }
+  return null;
+}
+
+function joinMoveText(tokens: readonly string[]): string {
+  let text = '';
+  for (const token of tokens) {
+    text += text === '' || text.endsWith('(') || token === ')' ? token : ` ${token}`;
+  }
+  return text;
+}
+
+class PgnRecoverer {
+  private readonly issues: PgnParseError[] = [];
+  private readonly output: string[] = [];
+  private readonly stack: LineState[] = [];
+  private line: LineState;
+  private readonly chess: Chess | null;
+  private locale: PgnPieceLocale = 'en';
+  private pendingNumber: number | null = null;
+  private result: string | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly headers: string,
+    private readonly moveText: string,
+    private readonly options: PgnRecoveryOptions,
+  ) {
+    const fen = FEN_HEADER_REGEX.exec(headers)?.[1];
+    this.chess = PgnRecoverer.createChess(fen);
+    const firstPly = this.chess
+      ? (this.chess.moveNumber() - 1) * 2 + (this.chess.turn() === 'w' ? 1 : 2)
+      : 1;
+    this.line = { ply: firstPly, lastMovePly: firstPly - 1, needsNumber: true };
+  }
+
+  private static createChess(fen?: string): Chess | null {
+    try {
+      return new Chess(fen);
+    } catch {
+      return null;
+    }
+  }
+
+  recover(): PgnRecoveryResult {
+    const headers = this.recoverHeaders();
+    const tokens = tokenizeMoveText(this.moveText);
+    this.locale =
+      this.options.locale ??
+      detectLocale(
+        tokens.flatMap((token) =>
+          token.type === 'san' ? [token.value.replaceAll(FIGURINE_REGEX, '')] : [],
+        ),
+      );
+
+    for (const token of tokens) {
+      if (this.stopped) {
+        break;
+      }
+      this.processToken(token);
+    }
+
+    while (this.stack.length > 0) {
+      this.closeVariation();
+    }
+
+    const termination = this.stopped ? '*' : (this.result ?? '*');
+    const movetext = joinMoveText([...this.output, termination]);
+    const pgnHeaders = this.stopped ? headers.replace(RESULT_HEADER_REGEX, '$1*$2') : headers;
+
+    return {
+      pgn: pgnHeaders ? `${pgnHeaders}\n\n${movetext}` : movetext,
+      issues: this.issues,
+    };
+  }
+
+  private recoverHeaders(): string {
+    return this.headers
+      .split('\n')
+      .map((line, index) =>
+        line.replaceAll(SMART_QUOTES_REGEX, (quote) => {
+          this.record('PGN_RECOVERY_SMART_QUOTES', `Replaced ${quote} with a straight quote.`, {
+            line: index + 1,
+            original: quote,
+            replacement: '"',
+          });
+          return '"';
+        }),
+      )
+      .join('\n')
+      .trim();
+  }
+
+  private processToken(token: MoveTextToken): void {
+    switch (token.type) {
+      case 'moveNumber': {
+        this.pendingNumber = token.moveNumber;
+        return;
+      }
+      case 'comment': {
+        this.output.push(`{${token.value}}`);
+        this.line.needsNumber = true;
+        return;
+      }
+      case 'nag': {
+        this.output.push(token.value);
+        this.line.needsNumber = true;
+        return;
+      }
+      case 'open': {
+        this.openVariation();
+        return;
+      }
+      case 'close': {
+        this.closeVariation();
+        return;
+      }
+      case 'result': {
+        this.result = token.value;
+        return;
+      }
+      case 'san': {
+        this.processSan(token.value);
+        return;
+      }
+    }
+  }
+
+  private openVariation(): void {
+    this.stack.push(this.line);
+    const ply = this.line.lastMovePly;
+    this.line = { ply, lastMovePly: ply - 1, needsNumber: true };
+    this.output.push('(');
+  }
+
+  private closeVariation(): void {
+    const parent = this.stack.pop();
+    if (!parent) {
+      return;
+    }
+    this.line = { ...parent, needsNumber: true };
+    this.output.push(')');
+  }
+
+  private processSan(value: string): void {
+    // `12…Nf6` with a Unicode ellipsis is not recognized as a move number by the tokenizer
+    const numbered = ELLIPSIS_MOVE_REGEX.exec(value);
+    if (numbered) {
+      this.pendingNumber = Number.parseInt(numbered[1]!, 10);
+      if (numbered[2]) {
+        this.processSan(numbered[2]);
+      }
+      return;
+    }
+
+    const result = normalizeResult(value);
+    if (result) {
+      this.record('PGN_RECOVERY_RESULT', `Normalized result "${value}" to "${result}".`, {
+        original: value,
+        replacement: result,
+      });
+      this.result = result;
+      return;
+    }
+
+    const nag = parseNag(value);
+    if (nag !== null) {
+      this.output.push(`$${nag}`);
+      this.line.needsNumber = true;
+      return;
+    }
+
+    const { san, nags } = splitSanSuffix(this.normalizeSan(value));
+    if (!this.applyToBoard(san)) {
+      return;
+    }
+
+    this.checkMoveNumber();
+    const { moveNumber, isWhite } = this.currentMove();
+    if (isWhite || this.line.needsNumber) {
+      this.output.push(`${moveNumber}${isWhite ? '.' : '...'}`);
+    }
+    this.output.push(san, ...nags.map((nag) => `$${nag}`));
+
+    this.line.lastMovePly = this.line.ply;
+    this.line.ply++;
+    this.line.needsNumber = false;
+  }
+
+  /**
+   * Play a mainline move on the validation board. Returns false (and stops the import)
+   * when the move is illegal; side-line moves are not validated.
+   */
+  private applyToBoard(san: string): boolean {
+    if (!this.chess || this.stack.length > 0) {
+      return true;
+    }
+
+    try {
+      this.chess.move(san);
+      return true;
+    } catch {
+      const { moveNumber, isWhite } = this.currentMove();
+      this.record(
+        'PGN_RECOVERY_ILLEGAL_MOVE',
+        `Illegal move "${san}" at ${moveNumber}${isWhite ? '.' : '...'}; the game was cut before it.`,
+        { ply: this.line.ply, moveNumber, color: isWhite ? 'white' : 'black', san },
+      );
+      this.stopped = true;
+      return false;
+    }
+  }
+
+  private currentMove(): { moveNumber: number; isWhite: boolean } {
+    return { moveNumber: Math.ceil(this.line.ply / 2), isWhite: this.line.ply % 2 === 1 };
+  }
+
+  private checkMoveNumber(): void {
+    const { moveNumber, isWhite } = this.currentMove();
+    const written = this.pendingNumber;
+    this.pendingNumber = null;
+
+    if (written === null ? !isWhite : written === moveNumber) {
+      return;
+    }
+
+    this.record(
+      'PGN_RECOVERY_MOVE_NUMBER',
+      written === null
+        ? `Inserted missing move number ${moveNumber}.`
+        : `Replaced move number ${written} with ${moveNumber}.`,
+      { ply: this.line.ply, moveNumber },
+    );
+  }
+
+  private normalizeSan(value: string): string {
+    let san = value;
+
+    const withoutFigurines = san.replaceAll(FIGURINE_REGEX, (glyph) => FIGURINES[glyph] ?? glyph);
+    if (withoutFigurines !== san) {
+      this.recordSanFix('PGN_RECOVERY_FIGURINE', san, withoutFigurines);
+      san = withoutFigurines;
+    }
+
+    const castling = CASTLING_REGEX.exec(san);
+    if (castling && castling[0] !== (castling[1] ? 'O-O-O' : 'O-O')) {
+      const replaced = san.replace(CASTLING_REGEX, castling[1] ? 'O-O-O' : 'O-O');
+      this.recordSanFix('PGN_RECOVERY_CASTLING', san, replaced);
+      return replaced;
+    }
+    if (castling) {
+      return san;
+    }
+
+    if (this.locale !== 'en') {
+      const replaced = this.translatePieceLetters(san);
+      if (replaced !== san) {
+        this.recordSanFix('PGN_RECOVERY_PIECE_LETTERS', san, replaced, { locale: this.locale });
+        san = replaced;
+      }
+    }
+
+    return san;
+  }
+
+  private translatePieceLetters(san: string): string {
+    const source = PIECE_LETTERS[this.locale];
+    const translate = (letter: string) => {
+      const index = source.indexOf(letter);
+      return index === -1 ? letter : PIECE_LETTERS.en[index]!;
+    };
+
+    return san
+      .replace(/^[A-Z]/, translate)
+      .replace(/(?<==)[A-Z]/, translate)
+      .replace(/(?<=[a-h][18])[A-Z](?=[+#!?]*$)/, (letter) => `=${translate(letter)}`);
+  }
+
+  private recordSanFix(
+    code: PgnParseErrorCode,
+    original: string,
+    replacement: string,
+    details: Record<string, unknown> = {},
+  ): void {
+    this.record(code, `Rewrote "${original}" as "${replacement}".`, {
+      ply: this.line.ply,
+      original,
+      replacement,
+      ...details,
+    });
+  }
+
+  private record(code: PgnParseErrorCode, message: string, details?: Record<string, unknown>) {
+    this.issues.push(new PgnParseError(message, code, { details }));
+  }
+}
+
+/**
+ * Repair a single-game PGN text so it can be loaded, reporting every change that was made
+ */
+export function recoverPgn(pgn: string, options: PgnRecoveryOptions = {}): PgnRecoveryResult {
+  const lines = pgn
+    .replace(/^\uFEFF/, '')
+    .replaceAll('\r\n', '\n')
+    .split('\n');
+  const firstMoveTextLine = lines.findIndex(
+    (line) => line.trim() !== '' && !HEADER_LINE_REGEX.test(line),
+  );
+  const split = firstMoveTextLine === -1 ? lines.length : firstMoveTextLine;
+
+  return new PgnRecoverer(
+    lines.slice(0, split).join('\n'),
+    lines.slice(split).join('\n'),
+    options,
+  ).recover();
+}
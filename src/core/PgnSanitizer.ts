@@ -1,3 +1,5 @@
+import { parseNag } from './PgnNags';
+
 export function sanitizePgnString(pgn: string): string {
   if (!pgn.trim()) {
     return pgn.trim();
@@ -8,7 +10,7 @@ export function sanitizePgnString(pgn: string): string {
 
   if (movesSectionIndex === -1) {
     return normalizeWhitespace(
-      mergeSequentialComments(stripVariations(normalizedLineEndings)),
+      mergeSequentialComments(normalizeSymbolicNags(stripVariations(normalizedLineEndings))),
     ).trim();
   }
 
@@ -16,7 +18,7 @@ export function sanitizePgnString(pgn: string): string {
   const moves = normalizedLineEndings.slice(movesSectionIndex + 2);
 
   const sanitizedMoves = normalizeWhitespace(
-    mergeSequentialComments(stripVariations(moves)),
+    mergeSequentialComments(normalizeSymbolicNags(stripVariations(moves))),
   ).trim();
 
   return `${headers}${sanitizedMoves}`.trim();
@@ -78,3 +80,21 @@ function normalizeWhitespace(text: string): string {
 function mergeSequentialComments(text: string): string {
   return text.replaceAll(/\}\s*\{/g, ' ');
 }
+
+/**
+ * chess.js only understands `$n` NAGs and suffixes glued to the SAN, so rewrite standalone
+ * symbolic annotations (`!?`, `+=`, `±`) outside comments into their numeric form.
+ */
+function normalizeSymbolicNags(moves: string): string {
+  return moves
+    .split(/(\{[^}]*\})/)
+    .map((segment) =>
+      segment.startsWith('{')
+        ? segment
+        : segment.replaceAll(/(?<=^|\s)[^\s\w$(){}]+(?=\s|$)/g, (token) => {
+            const nag = parseNag(token);
+            return nag === null ? token : `$${nag}`;
+          }),
+    )
+    .join('');
+}
@@ -0,0 +1,283 @@
+/**
+ * Helpers for the PGN variation tree (RAV).
+ * Lines are stored as `PgnMove[]` grouped by move number; these helpers translate
+ * between that layout and absolute plies so lines can be split, joined and promoted.
+ */
+import type { PgnMove, PgnMoveAnnotations } from './types';
+
+export type PgnSide = 'white' | 'black';
+
+export interface PgnLinePly {
+  ply: number;
+  side: PgnSide;
+  san: string;
+  move: PgnMove;
+}
+
+export type MoveTextToken =
+  | { type: 'comment'; value: string; index: number; terminated: boolean }
+  | { type: 'open'; index: number }
+  | { type: 'close'; index: number }
+  | { type: 'moveNumber'; moveNumber: number; black: boolean; index: number }
+  | { type: 'result'; value: string; index: number }
+  | { type: 'nag'; value: string; index: number }
+  | { type: 'san'; value: string; index: number };
+
+const RESULT_TOKEN_REGEX = /^(1-0|0-1|1\/2-1\/2|\*)(?=[\s(){}]|$)/;
+const MOVE_NUMBER_TOKEN_REGEX = /^(\d+)\s*(\.+)/;
+const NAG_TOKEN_REGEX = /^\$\d+/;
+const SAN_TOKEN_REGEX = /^[^\s{}()$]+/;
+
+export function plyFromMove(moveNumber: number, side: PgnSide): number {
+  return (moveNumber - 1) * 2 + (side === 'white' ? 1 : 2);
+}
+
+export function moveFromPly(ply: number): { moveNumber: number; side: PgnSide } {
+  return { moveNumber: Math.ceil(ply / 2), side: ply % 2 === 1 ? 'white' : 'black' };
+}
+
+export function cloneMoveAnnotations(
+  annotations?: PgnMoveAnnotations,
+): PgnMoveAnnotations | undefined {
+  if (!annotations) {
+    return undefined;
+  }
+
+  return {
+    ...annotations,
+    arrows: annotations.arrows?.map((arrow) => ({ ...arrow })),
+    circles: annotations.circles?.map((circle) => ({ ...circle })),
+    nags: annotations.nags && [...annotations.nags],
+  };
+}
+
+export function clonePgnLine(line: readonly PgnMove[]): PgnMove[] {
+  return line.map((move) => clonePgnMove(move));
+}
+
+export function clonePgnMove(move: PgnMove): PgnMove {
+  return mergePgnMoves(pickSide(move, 'white'), pickSide(move, 'black'));
+}
+
+export function getSideVariations(move: PgnMove, side: PgnSide): PgnMove[][] | undefined {
+  return side === 'white' ? move.whiteVariations : move.blackVariations;
+}
+
+export function setSideVariations(
+  move: PgnMove,
+  side: PgnSide,
+  variations: PgnMove[][] | undefined,
+): void {
+  const value = variations && variations.length > 0 ? variations : undefined;
+  if (side === 'white') {
+    move.whiteVariations = value;
+  } else {
+    move.blackVariations = value;
+  }
+}
+
+/**
+ * Flatten a line into its plies, in order.
+ */
+export function listLinePlies(line: readonly PgnMove[]): PgnLinePly[] {
+  const plies: PgnLinePly[] = [];
+  for (const move of line) {
+    if (move.white !== undefined) {
+      plies.push({
+        ply: plyFromMove(move.moveNumber, 'white'),
+        side: 'white',
+        san: move.white,
+        move,
+      });
+    }
+    if (move.black !== undefined) {
+      plies.push({
+        ply: plyFromMove(move.moveNumber, 'black'),
+        side: 'black',
+        san: move.black,
+        move,
+      });
+    }
+  }
+  return plies;
+}
+
+export function findLinePly(line: readonly PgnMove[], ply: number): PgnLinePly | undefined {
+  return listLinePlies(line).find((entry) => entry.ply === ply);
+}
+
+/**
+ * Copy only the fields that belong to one side of a move pair.
+ */
+export function pickSide(move: PgnMove, side: PgnSide): PgnMove {
+  const picked: PgnMove = { moveNumber: move.moveNumber };
+  const evaluation = move.evaluation?.[side];
+
+  if (side === 'white') {
+    assignDefined(picked, 'white', move.white);
+    assignDefined(picked, 'whiteComment', move.whiteComment);
+    assignDefined(picked, 'whiteAnnotations', cloneMoveAnnotations(move.whiteAnnotations));
+    assignDefined(
+      picked,
+      'whiteVariations',
+      move.whiteVariations?.map((line) => clonePgnLine(line)),
+    );
+  } else {
+    assignDefined(picked, 'black', move.black);
+    assignDefined(picked, 'blackComment', move.blackComment);
+    assignDefined(picked, 'blackAnnotations', cloneMoveAnnotations(move.blackAnnotations));
+    assignDefined(
+      picked,
+      'blackVariations',
+      move.blackVariations?.map((line) => clonePgnLine(line)),
+    );
+  }
+
+  if (evaluation !== undefined) {
+    picked.evaluation = { [side]: evaluation };
+  }
+
+  return picked;
+}
+
+function assignDefined<K extends keyof PgnMove>(target: PgnMove, key: K, value: PgnMove[K]): void {
+  if (value !== undefined) {
+    target[key] = value;
+  }
+}
+
+function mergePgnMoves(first: PgnMove, second: PgnMove): PgnMove {
+  const merged: PgnMove = { ...first, ...second, moveNumber: first.moveNumber };
+  if (first.evaluation || second.evaluation) {
+    merged.evaluation = { ...first.evaluation, ...second.evaluation };
+  }
+  return merged;
+}
+
+/**
+ * Split a line so that `head` holds every ply before `ply` and `tail` the rest.
+ */
+export function splitLineAtPly(
+  line: readonly PgnMove[],
+  ply: number,
+): { head: PgnMove[]; tail: PgnMove[] } {
+  const head: PgnMove[] = [];
+  const tail: PgnMove[] = [];
+
+  for (const move of line) {
+    const whiteInHead = move.white !== undefined && plyFromMove(move.moveNumber, 'white') < ply;
+    const blackInHead = move.black !== undefined && plyFromMove(move.moveNumber, 'black') < ply;
+    const whiteInTail = move.white !== undefined && !whiteInHead;
+    const blackInTail = move.black !== undefined && !blackInHead;
+
+    if (!whiteInTail && !blackInTail) {
+      head.push(clonePgnMove(move));
+    } else if (!whiteInHead && !blackInHead) {
+      tail.push(clonePgnMove(move));
+    } else {
+      head.push(pickSide(move, 'white'));
+      tail.push(pickSide(move, 'black'));
+    }
+  }
+
+  return { head, tail };
+}
+
+/**
+ * Concatenate two lines, merging the move pair shared at the seam.
+ */
+export function joinLines(head: readonly PgnMove[], tail: readonly PgnMove[]): PgnMove[] {
+  const joined = clonePgnLine(head);
+  const [first, ...rest] = clonePgnLine(tail);
+
+  if (!first) {
+    return joined;
+  }
+
+  const last = joined.at(-1);
+  if (last?.moveNumber === first.moveNumber) {
+    joined[joined.length - 1] = mergePgnMoves(last, first);
+  } else {
+    joined.push(first);
+  }
+
+  joined.push(...rest);
+  return joined;
+}
+
+/**
+ * Split PGN movetext into comments, variation brackets, move numbers, NAGs, results and SAN.
+ */
+export function tokenizeMoveText(movesText: string): MoveTextToken[] {
+  const tokens: MoveTextToken[] = [];
+  const length = movesText.length;
+  let index = 0;
+
+  while (index < length) {
+    const char = movesText[index]!;
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '{') {
+      const closingIndex = movesText.indexOf('}', index + 1);
+      const terminated = closingIndex !== -1;
+      const end = terminated ? closingIndex : length;
+      tokens.push({
+        type: 'comment',
+        value: movesText.slice(index + 1, end).trim(),
+        index,
+        terminated,
+      });
+      index = terminated ? closingIndex + 1 : length;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', index });
+      index++;
+      continue;
+    }
+
+    const rest = movesText.slice(index);
+    const token = matchAtomToken(rest, index);
+    tokens.push(token.token);
+    index += token.length;
+  }
+
+  return tokens;
+}
+
+function matchAtomToken(rest: string, index: number): { token: MoveTextToken; length: number } {
+  const resultMatch = RESULT_TOKEN_REGEX.exec(rest);
+  if (resultMatch) {
+    return {
+      token: { type: 'result', value: resultMatch[1]!, index },
+      length: resultMatch[0].length,
+    };
+  }
+
+  const moveNumberMatch = MOVE_NUMBER_TOKEN_REGEX.exec(rest);
+  if (moveNumberMatch) {
+    return {
+      token: {
+        type: 'moveNumber',
+        moveNumber: Number.parseInt(moveNumberMatch[1]!, 10),
+        black: moveNumberMatch[2]!.length >= 3,
+        index,
+      },
+      length: moveNumberMatch[0].length,
+    };
+  }
+
+  const nagMatch = NAG_TOKEN_REGEX.exec(rest);
+  if (nagMatch) {
+    return { token: { type: 'nag', value: nagMatch[0], index }, length: nagMatch[0].length };
+  }
+
+  const sanMatch = SAN_TOKEN_REGEX.exec(rest);
+  const value = sanMatch ? sanMatch[0] : rest[0]!;
+  return { token: { type: 'san', value, index }, length: value.length };
+}
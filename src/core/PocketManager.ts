@@ -0,0 +1,205 @@
+import { POCKET_PIECES } from './CrazyhouseRules';
+import type { BoardOrientation, Color, PocketPiece, Pockets, Square } from './types';
+
+interface PocketManagerOptions {
+  root: HTMLElement;
+  getPockets: () => Pockets | null;
+  getOrientation: () => BoardOrientation;
+  getTurn: () => Color;
+  isInteractive: () => boolean;
+  /** Square under a viewport point, `null` off the board */
+  squareAtClientPoint: (clientX: number, clientY: number) => Square | null;
+  onDrop: (piece: PocketPiece, to: Square) => void;
+}
+
+const GLYPHS: Record<Color, Record<PocketPiece, string>> = {
+  w: { q: '♕', r: '♖', b: '♗', n: '♘', p: '♙' },
+  b: { q: '♛', r: '♜', b: '♝', n: '♞', p: '♟' },
+};
+
+/**
+ * Pockets of a Crazyhouse game beside the board, the side at the bottom of the board below.
+ * Pieces of the side to move are dragged from the pocket onto a square to drop them.
+ */
+export class PocketManager {
+  private readonly options: PocketManagerOptions;
+  private readonly containers = new Map<Color, HTMLDivElement>();
+  private renderedKey: string | null = null;
+  /** Ends the drag in progress: removes the ghost piece and the document listeners */
+  private disposeDrag: (() => void) | null = null;
+
+  constructor(options: PocketManagerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Redraw the pockets when the counts, the side to move or the orientation changed
+   */
+  public update(): void {
+    const pockets = this.options.getPockets();
+    if (!pockets) {
+      this.removeContainers();
+      return;
+    }
+
+    const orientation = this.options.getOrientation();
+    const turn = this.options.getTurn();
+    const key = JSON.stringify([pockets, orientation, turn, this.options.isInteractive()]);
+    if (key === this.renderedKey) return;
+    this.renderedKey = key;
+
+    const bottom: Color = orientation === 'white' ? 'w' : 'b';
+    for (const color of ['w', 'b'] as const) {
+      const container = this.ensureContainer(color);
+      const position = color === bottom ? 'bottom' : 'top';
+      container.dataset.position = position;
+      Object.assign(container.style, {
+        top: position === 'top' ? '0' : '',
+        bottom: position === 'bottom' ? '0' : '',
+        flexDirection: position === 'top' ? 'column' : 'column-reverse',
+      });
+      this.renderPieces(container, color, pockets, turn);
+    }
+  }
+
+  public destroy(): void {
+    this.cancelDrag();
+    this.removeContainers();
+  }
+
+  private ensureContainer(color: Color): HTMLDivElement {
+    const existing = this.containers.get(color);
+    if (existing?.isConnected) return existing;
+
+    const doc = this.options.root.ownerDocument ?? document;
+    const container = doc.createElement('div');
+    container.className = 'ncb-pocket';
+    container.dataset.color = color;
+    Object.assign(container.style, {
+      position: 'absolute',
+      left: '100%',
+      marginLeft: '6px',
+      display: 'flex',
+      gap: '4px',
+      padding: '4px',
+      borderRadius: '6px',
+      background: 'rgba(15, 23, 42, 0.85)',
+      zIndex: '30',
+    });
+    this.options.root.append(container);
+    this.containers.set(color, container);
+    return container;
+  }
+
+  private renderPieces(container: HTMLElement, color: Color, pockets: Pockets, turn: Color) {
+    const doc = container.ownerDocument;
+    const active = color === turn && this.options.isInteractive();
+    container.toggleAttribute('data-active', color === turn);
+
+    container.replaceChildren(
+      ...POCKET_PIECES.map((piece) => {
+        const count = pockets[color][piece];
+        const button = doc.createElement('button');
+        button.type = 'button';
+        button.className = 'ncb-pocket__piece';
+        button.dataset.piece = piece;
+        button.dataset.count = String(count);
+        button.title = `${piece.toUpperCase()} × ${count}`;
+        button.disabled = count === 0 || !active;
+        Object.assign(button.style, {
+          position: 'relative',
+          width: '36px',
+          height: '36px',
+          padding: '0',
+          border: 'none',
+          borderRadius: '4px',
+          background: 'rgba(30, 41, 59, 0.85)',
+          color: '#f8fafc',
+          fontSize: '26px',
+          lineHeight: '36px',
+          cursor: button.disabled ? 'default' : 'grab',
+          opacity: count === 0 ? '0.3' : '1',
+          touchAction: 'none',
+        });
+        button.textContent = GLYPHS[color][piece];
+
+        const badge = doc.createElement('span');
+        badge.className = 'ncb-pocket__count';
+        badge.textContent = String(count);
+        Object.assign(badge.style, {
+          position: 'absolute',
+          right: '1px',
+          bottom: '1px',
+          fontSize: '11px',
+          lineHeight: '1',
+          fontWeight: '600',
+        });
+        button.append(badge);
+
+        button.addEventListener('pointerdown', (event) => {
+          if (button.disabled) return;
+          event.preventDefault();
+          event.stopPropagation();
+          this.startDrag(piece, color, event);
+        });
+        return button;
+      }),
+    );
+  }
+
+  private startDrag(piece: PocketPiece, color: Color, event: PointerEvent): void {
+    this.cancelDrag();
+
+    const doc = this.options.root.ownerDocument ?? document;
+    const ghost = doc.createElement('div');
+    ghost.className = 'ncb-pocket__ghost';
+    ghost.textContent = GLYPHS[color][piece];
+    Object.assign(ghost.style, {
+      position: 'fixed',
+      fontSize: '40px',
+      lineHeight: '1',
+      pointerEvents: 'none',
+      transform: 'translate(-50%, -50%)',
+      zIndex: '1000',
+    });
+    const follow = (pointer: PointerEvent) => {
+      ghost.style.left = `${pointer.clientX}px`;
+      ghost.style.top = `${pointer.clientY}px`;
+    };
+    follow(event);
+    doc.body.append(ghost);
+
+    const onMove = (pointer: PointerEvent) => follow(pointer);
+    const onUp = (pointer: PointerEvent) => {
+      this.cancelDrag();
+      const square = this.options.squareAtClientPoint(pointer.clientX, pointer.clientY);
+      if (square) {
+        this.options.onDrop(piece, square);
+      }
+    };
+    const onCancel = () => this.cancelDrag();
+    doc.addEventListener('pointermove', onMove);
+    doc.addEventListener('pointerup', onUp);
+    doc.addEventListener('pointercancel', onCancel);
+
+    this.disposeDrag = () => {
+      doc.removeEventListener('pointermove', onMove);
+      doc.removeEventListener('pointerup', onUp);
+      doc.removeEventListener('pointercancel', onCancel);
+      ghost.remove();
+    };
+  }
+
+  private cancelDrag(): void {
+    this.disposeDrag?.();
+    this.disposeDrag = null;
+  }
+
+  private removeContainers(): void {
+    for (const container of this.containers.values()) {
+      container.remove();
+    }
+    this.containers.clear();
+    this.renderedKey = null;
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Polyglot opening books (`.bin`)
+ * A sorted list of 16-byte big-endian entries: the Zobrist key of a position, a move, its weight
+ * and a learning value. Most engine and GUI opening books are distributed in this format.
+ */
+
+import { PolyglotBookError } from './errors';
+import { POLYGLOT_RANDOM64 } from './PolyglotRandom';
+import type { PromotionPiece, Square } from './types';
+import { parseFEN } from './utils';
+
+export interface PolyglotEntry {
+  key: bigint;
+  /** Raw Polyglot move, castling written as the king taking its rook */
+  move: number;
+  weight: number;
+  learn: number;
+}
+
+export interface PolyglotMove {
+  /** Move in UCI notation, castling as the king's two-square move */
+  uci: string;
+  from: Square;
+  to: Square;
+  promotion?: PromotionPiece;
+  weight: number;
+  learn: number;
+  /** Share of the position's total weight, from 0 to 1 */
+  probability: number;
+}
+
+export interface PolyglotPickOptions {
+  /** Random source of the weighted choice (default `Math.random`) */
+  random?: () => number;
+  /** Always play the most weighted move */
+  best?: boolean;
+}
+
+const ENTRY_SIZE = 16;
+const PIECE_KINDS = 'pPnNbBrRqQkK';
+const CASTLING_RIGHTS = 'KQkq';
+const CASTLING_OFFSET = 768;
+const EN_PASSANT_OFFSET = 772;
+const TURN_OFFSET = 780;
+const FILES = 'abcdefgh';
+const PROMOTION_PIECES: readonly (PromotionPiece | undefined)[] = [undefined, 'n', 'b', 'r', 'q'];
+
+function squareName(file: number, rank: number): Square {
+  return `${FILES[file]}${rank + 1}` as Square;
+}
+
+/**
+ * Polyglot Zobrist key of a FEN. The en passant file only counts when a pawn of the side to move
+ * can capture on it.
+ */
+export function polyglotKey(fen: string): bigint {
+  const { board, turn, castling, ep } = parseFEN(fen);
+  let key = 0n;
+
+  for (const [rank, row] of board.entries()) {
+    for (const [file, piece] of row.entries()) {
+      const kind = piece ? PIECE_KINDS.indexOf(piece) : -1;
+      if (kind !== -1) {
+        key ^= POLYGLOT_RANDOM64[64 * kind + 8 * rank + file];
+      }
+    }
+  }
+
+  for (const [index, right] of [...CASTLING_RIGHTS].entries()) {
+    if (castling.includes(right)) {
+      key ^= POLYGLOT_RANDOM64[CASTLING_OFFSET + index];
+    }
+  }
+
+  if (ep) {
+    const file = FILES.indexOf(ep[0]);
+    const pawn = turn === 'w' ? 'P' : 'p';
+    // Pawns able to capture stand on the fifth rank for White, the fourth for Black
+    const row = board[turn === 'w' ? 4 : 3] ?? [];
+    if (row[file - 1] === pawn || row[file + 1] === pawn) {
+      key ^= POLYGLOT_RANDOM64[EN_PASSANT_OFFSET + file];
+    }
+  }
+
+  if (turn === 'w') {
+    key ^= POLYGLOT_RANDOM64[TURN_OFFSET];
+  }
+  return key;
+}
+
+/**
+ * Decode a raw Polyglot move on a board as returned by `parseFEN` (rank 1 first). Castling,
+ * stored as the king taking its rook, becomes the king's two-square move when the king stands on
+ * the e-file.
+ */
+export function decodePolyglotMove(
+  move: number,
+  board: readonly (readonly (string | null)[])[],
+): Pick<PolyglotMove, 'uci' | 'from' | 'to' | 'promotion'> {
+  let toFile = move & 7;
+  const toRank = (move >> 3) & 7;
+  const fromFile = (move >> 6) & 7;
+  const fromRank = (move >> 9) & 7;
+  const promotion = PROMOTION_PIECES[(move >> 12) & 7];
+
+  const piece = board[fromRank]?.[fromFile];
+  const target = board[toRank]?.[toFile];
+  const isCastling = (piece === 'K' && target === 'R') || (piece === 'k' && target === 'r');
+  if (isCastling && fromFile === 4 && (toFile === 0 || toFile === 7)) {
+    toFile = toFile === 7 ? 6 : 2;
+  }
+
+  const from = squareName(fromFile, fromRank);
+  const to = squareName(toFile, toRank);
+  return { uci: `${from}${to}${promotion ?? ''}`, from, to, promotion };
+}
+
+/**
+ * Read-only Polyglot book. Entries stay in the binary buffer and are found by binary search.
+ *
+ * ```ts
+ * const book = await PolyglotBook.load('/books/performance.bin');
+ * book.getMoves(board.getCurrentFEN()); // [{ uci: 'e2e4', weight: 120, probability: 0.41 }, ...]
+ * ```
+ */
+export class PolyglotBook {
+  private readonly view: DataView;
+
+  constructor(data: ArrayBuffer | ArrayBufferView) {
+    this.view = ArrayBuffer.isView(data)
+      ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+      : new DataView(data);
+    if (this.view.byteLength % ENTRY_SIZE !== 0) {
+      throw new PolyglotBookError(
+        `A Polyglot book is made of ${ENTRY_SIZE}-byte entries; got ${this.view.byteLength} bytes.`,
+        'POLYGLOT_INVALID_SIZE',
+        { details: { size: this.view.byteLength } },
+      );
+    }
+  }
+
+  /**
+   * Fetch a book, e.g. from the application's static assets
+   */
+  static async load(url: string | URL, init?: RequestInit): Promise<PolyglotBook> {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw new PolyglotBookError(
+        `Could not load the opening book ${String(url)}.`,
+        'POLYGLOT_LOAD_FAILED',
+        {
+          details: { url: String(url) },
+          cause: error,
+        },
+      );
+    }
+    if (!response.ok) {
+      throw new PolyglotBookError(
+        `Could not load the opening book ${String(url)} (HTTP ${response.status}).`,
+        'POLYGLOT_LOAD_FAILED',
+        { details: { url: String(url), status: response.status } },
+      );
+    }
+    return new PolyglotBook(await response.arrayBuffer());
+  }
+
+  /** Number of entries */
+  get size(): number {
+    return this.view.byteLength / ENTRY_SIZE;
+  }
+
+  /**
+   * Raw entries of a position, in file order
+   */
+  getEntries(fen: string): PolyglotEntry[] {
+    const key = polyglotKey(fen);
+    const entries: PolyglotEntry[] = [];
+    for (let index = this.lowerBound(key); index < this.size; index++) {
+      const entry = this.readEntry(index);
+      if (entry.key !== key) break;
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  /**
+   * Book moves of a position, most weighted first
+   */
+  getMoves(fen: string): PolyglotMove[] {
+    const entries = this.getEntries(fen);
+    if (entries.length === 0) return [];
+
+    const { board } = parseFEN(fen);
+    const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+    return entries
+      .map((entry) => ({
+        ...decodePolyglotMove(entry.move, board),
+        weight: entry.weight,
+        learn: entry.learn,
+        probability: total > 0 ? entry.weight / total : 1 / entries.length,
+      }))
+      .sort((a, b) => b.weight - a.weight);
+  }
+
+  /**
+   * Pick a book move with a probability proportional to its weight. Moves of weight 0 are never
+   * played; `null` when the position is out of book.
+   */
+  pickMove(fen: string, options: PolyglotPickOptions = {}): PolyglotMove | null {
+    const moves = this.getMoves(fen).filter((move) => move.weight > 0);
+    if (moves.length === 0) return null;
+    if (options.best) return moves[0];
+
+    const total = moves.reduce((sum, move) => sum + move.weight, 0);
+    let pick = (options.random ?? Math.random)() * total;
+    for (const move of moves) {
+      pick -= move.weight;
+      if (pick < 0) return move;
+    }
+    return moves.at(-1) ?? null;
+  }
+
+  private lowerBound(key: bigint): number {
+    let low = 0;
+    let high = this.size;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.view.getBigUint64(middle * ENTRY_SIZE) < key) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  private readEntry(index: number): PolyglotEntry {
+    const offset = index * ENTRY_SIZE;
+    return {
+      key: this.view.getBigUint64(offset),
+      move: this.view.getUint16(offset + 8),
+      weight: this.view.getUint16(offset + 10),
+      learn: this.view.getUint32(offset + 12),
+    };
+  }
+}
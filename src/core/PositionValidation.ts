@@ -0,0 +1,431 @@
+/**
+ * Position legality checks
+ * `parseFEN` only checks FEN syntax; these checks reject positions that cannot arise in a game:
+ * missing kings, pawns on the back rank, too many promoted pieces, the side not to move in check,
+ * castling rights without king and rook at home, impossible en passant squares. Variant FENs are
+ * read with their extra fields and held to the rules of the variant.
+ */
+
+import {
+  FenValidationError,
+  InvalidFENError,
+  type FenErrorCode,
+  type FenErrorDetails,
+} from './errors';
+import type { Color, Variant } from './types';
+import { FILES, parseFEN } from './utils';
+import { parseThreeCheckFen } from './VariantRules';
+
+export interface PositionValidationOptions {
+  /** Castling rights may refer to any rook on the back rank, as in Chess960 (`KQkq` or `HAha`) */
+  chess960?: boolean;
+  /**
+   * Variant of the position (default `standard`). Three-check FENs may carry the check counter,
+   * Crazyhouse FENs the pockets and promoted markers; Crazyhouse drops lift the material limits
+   * and Antichess has no royal king.
+   */
+  variant?: Variant;
+}
+
+type Board = (string | null)[][];
+
+interface ColorCounts {
+  total: number;
+  k: number;
+  q: number;
+  r: number;
+  b: number;
+  n: number;
+  p: number;
+}
+
+const COLOR_NAMES: Record<Color, string> = { w: 'White', b: 'Black' };
+const CASTLING_FIELD_REGEX = /^(?:-|[KQA-Hkqa-h]{1,4})$/;
+const EN_PASSANT_FIELD_REGEX = /^[a-h][1-8]$/;
+const COUNTER_REGEX = /^\d+$/;
+
+const KNIGHT_OFFSETS = [
+  [1, 2],
+  [2, 1],
+  [2, -1],
+  [1, -2],
+  [-1, -2],
+  [-2, -1],
+  [-2, 1],
+  [-1, 2],
+] as const;
+const KING_OFFSETS = [
+  [1, 0],
+  [1, 1],
+  [0, 1],
+  [-1, 1],
+  [-1, 0],
+  [-1, -1],
+  [0, -1],
+  [1, -1],
+] as const;
+const ROOK_DIRECTIONS = KING_OFFSETS.filter(([file, rank]) => file === 0 || rank === 0);
+const BISHOP_DIRECTIONS = KING_OFFSETS.filter(([file, rank]) => file !== 0 && rank !== 0);
+
+function pieceColor(piece: string): Color {
+  return piece === piece.toUpperCase() ? 'w' : 'b';
+}
+
+function squareName(file: number, rank: number): string {
+  return `${FILES[file]}${rank + 1}`;
+}
+
+function pieceAt(board: Board, file: number, rank: number): string | null {
+  return board[rank]?.[file] ?? null;
+}
+
+function countSquares(row: string): number {
+  let count = 0;
+  for (const token of row.match(/\d+|\D/g) ?? []) {
+    count += /\d/.test(token) ? Number.parseInt(token, 10) : 1;
+  }
+  return count;
+}
+
+function isAttackedBySlider(
+  board: Board,
+  file: number,
+  rank: number,
+  directions: readonly (readonly [number, number])[],
+  attackers: string,
+): boolean {
+  return directions.some(([fileStep, rankStep]) => {
+    let targetFile = file + fileStep;
+    let targetRank = rank + rankStep;
+    while (targetFile >= 0 && targetFile < 8 && targetRank >= 0 && targetRank < 8) {
+      const piece = pieceAt(board, targetFile, targetRank);
+      if (piece) {
+        return attackers.includes(piece);
+      }
+      targetFile += fileStep;
+      targetRank += rankStep;
+    }
+    return false;
+  });
+}
+
+/**
+ * Whether `by` attacks the square, ignoring pins
+ */
+function isSquareAttacked(board: Board, file: number, rank: number, by: Color): boolean {
+  const piece = (letter: string) => (by === 'w' ? letter.toUpperCase() : letter);
+  const pawnRank = by === 'w' ? rank - 1 : rank + 1;
+  const isPiece = (offsets: readonly (readonly [number, number])[], letter: string) =>
+    offsets.some(([df, dr]) => pieceAt(board, file + df, rank + dr) === piece(letter));
+
+  return (
+    [file - 1, file + 1].some((pawnFile) => pieceAt(board, pawnFile, pawnRank) === piece('p')) ||
+    isPiece(KNIGHT_OFFSETS, 'n') ||
+    isPiece(KING_OFFSETS, 'k') ||
+    isAttackedBySlider(board, file, rank, ROOK_DIRECTIONS, piece('r') + piece('q')) ||
+    isAttackedBySlider(board, file, rank, BISHOP_DIRECTIONS, piece('b') + piece('q'))
+  );
+}
+
+class PositionValidator {
+  private readonly issues: FenValidationError[] = [];
+  private readonly counts: Record<Color, ColorCounts> = {
+    w: { total: 0, k: 0, q: 0, r: 0, b: 0, n: 0, p: 0 },
+    b: { total: 0, k: 0, q: 0, r: 0, b: 0, n: 0, p: 0 },
+  };
+  private readonly kings: Partial<Record<Color, [number, number]>> = {};
+
+  constructor(
+    private readonly fen: string,
+    private readonly parts: string[],
+    private readonly board: Board,
+    private readonly turn: Color,
+    private readonly options: PositionValidationOptions,
+  ) {}
+
+  private get variant(): Variant {
+    return this.options.variant ?? 'standard';
+  }
+
+  validate(): FenValidationError[] {
+    this.checkPieces();
+    this.checkMaterial();
+    this.checkKings();
+    this.checkCastling();
+    this.checkEnPassant();
+    this.checkCounters();
+    return this.issues;
+  }
+
+  private report(code: FenErrorCode, message: string, details: FenErrorDetails = {}): void {
+    this.issues.push(new FenValidationError(message, code, { fen: this.fen, ...details }));
+  }
+
+  private checkPieces(): void {
+    for (const [rank, row] of this.board.entries()) {
+      for (const [file, piece] of row.entries()) {
+        if (!piece) continue;
+        const color = pieceColor(piece);
+        const type = piece.toLowerCase() as keyof Omit<ColorCounts, 'total'>;
+        this.counts[color].total += 1;
+        this.counts[color][type] += 1;
+        if (type === 'k') {
+          this.kings[color] = [file, rank];
+        }
+        if (type === 'p' && (rank === 0 || rank === 7)) {
+          const square = squareName(file, rank);
+          this.report('INVALID_FEN_PAWN_ON_BACK_RANK', `Pawn on ${square} is on a back rank.`, {
+            color,
+            square,
+          });
+        }
+      }
+    }
+  }
+
+  private checkMaterial(): void {
+    // Captured pieces are dropped back on the board in Crazyhouse, whatever their number
+    if (this.variant === 'crazyhouse') return;
+
+    for (const color of ['w', 'b'] as const) {
+      const counts = this.counts[color];
+      const name = COLOR_NAMES[color];
+      if (counts.total > 16) {
+        this.report('INVALID_FEN_TOO_MANY_PIECES', `${name} has ${counts.total} pieces.`, {
+          color,
+          count: counts.total,
+        });
+      }
+      if (counts.p > 8) {
+        this.report('INVALID_FEN_TOO_MANY_PAWNS', `${name} has ${counts.p} pawns.`, {
+          color,
+          count: counts.p,
+        });
+      }
+
+      // Every piece beyond the starting set must come from a promoted pawn
+      const promoted =
+        Math.max(0, counts.q - 1) +
+        Math.max(0, counts.r - 2) +
+        Math.max(0, counts.b - 2) +
+        Math.max(0, counts.n - 2);
+      if (promoted > 8 - Math.min(counts.p, 8)) {
+        this.report(
+          'INVALID_FEN_TOO_MANY_PROMOTED',
+          `${name} has ${promoted} promoted pieces but only ${8 - counts.p} missing pawns.`,
+          { color, count: promoted },
+        );
+      }
+    }
+  }
+
+  private checkKings(): void {
+    // The king is an ordinary piece in Antichess: it can be captured, promoted to and never in check
+    if (this.variant === 'antichess') return;
+
+    for (const color of ['w', 'b'] as const) {
+      const count = this.counts[color].k;
+      if (count !== 1) {
+        this.report(
+          'INVALID_FEN_KING_COUNT',
+          `${COLOR_NAMES[color]} must have exactly one king, found ${count}.`,
+          { color, count },
+        );
+      }
+    }
+
+    const inactive: Color = this.turn === 'w' ? 'b' : 'w';
+    const king = this.kings[inactive];
+    if (
+      this.counts[inactive].k === 1 &&
+      king &&
+      !this.kingsTouch() &&
+      isSquareAttacked(this.board, ...king, this.turn)
+    ) {
+      this.report(
+        'INVALID_FEN_INACTIVE_KING_IN_CHECK',
+        `${COLOR_NAMES[inactive]} is in check but it is ${COLOR_NAMES[this.turn]}'s move.`,
+        { color: inactive, square: squareName(...king) },
+      );
+    }
+  }
+
+  /**
+   * Atomic: kings standing side by side cannot give or be in check, capturing one would blow
+   * up the other
+   */
+  private kingsTouch(): boolean {
+    const { w, b } = this.kings;
+    return (
+      this.variant === 'atomic' &&
+      w !== undefined &&
+      b !== undefined &&
+      Math.abs(w[0] - b[0]) <= 1 &&
+      Math.abs(w[1] - b[1]) <= 1
+    );
+  }
+
+  private checkCastling(): void {
+    const field = this.parts[2] ?? '-';
+    if (!CASTLING_FIELD_REGEX.test(field) || new Set(field).size !== field.length) {
+      this.report('INVALID_FEN_CASTLING_RIGHTS', `"${field}" is not a valid castling field.`, {
+        fieldValue: field,
+      });
+      return;
+    }
+    if (field === '-') return;
+
+    for (const right of field) {
+      const color = pieceColor(right);
+      const problem = this.castlingProblem(right, color);
+      if (problem) {
+        this.report(
+          'INVALID_FEN_CASTLING_RIGHTS',
+          `Castling right "${right}" is impossible: ${problem}.`,
+          {
+            color,
+            fieldValue: right,
+          },
+        );
+      }
+    }
+  }
+
+  private castlingProblem(right: string, color: Color): string | null {
+    const homeRank = color === 'w' ? 0 : 7;
+    const king = this.kings[color];
+    const rook = color === 'w' ? 'R' : 'r';
+    if (king?.[1] !== homeRank) {
+      return 'the king is not on its home rank';
+    }
+
+    const kingFile = king[0];
+    const letter = right.toLowerCase();
+    const relaxed =
+      this.options.chess960 === true ||
+      this.variant === 'chess960' ||
+      (letter !== 'k' && letter !== 'q');
+    if (!relaxed) {
+      if (kingFile !== 4) return 'the king is not on its home square';
+      const rookFile = letter === 'k' ? 7 : 0;
+      return pieceAt(this.board, rookFile, homeRank) === rook
+        ? null
+        : `no rook on ${squareName(rookFile, homeRank)}`;
+    }
+
+    const candidates = this.board[homeRank].flatMap((piece, file) =>
+      piece === rook ? [file] : [],
+    );
+    if (letter === 'k') {
+      return candidates.some((file) => file > kingFile) ? null : 'no rook on the king side';
+    }
+    if (letter === 'q') {
+      return candidates.some((file) => file < kingFile) ? null : 'no rook on the queen side';
+    }
+    const file = FILES.indexOf(letter);
+    return candidates.includes(file) && file !== kingFile
+      ? null
+      : `no rook on ${squareName(file, homeRank)}`;
+  }
+
+  private checkEnPassant(): void {
+    const field = this.parts[3] ?? '-';
+    if (field === '-') return;
+
+    const problem = this.enPassantProblem(field);
+    if (problem) {
+      this.report(
+        'INVALID_FEN_EN_PASSANT',
+        `En passant square "${field}" is impossible: ${problem}.`,
+        {
+          square: field,
+          fieldValue: field,
+        },
+      );
+    }
+  }
+
+  private enPassantProblem(field: string): string | null {
+    if (!EN_PASSANT_FIELD_REGEX.test(field)) return 'not a square';
+
+    const file = FILES.indexOf(field.charAt(0));
+    const rank = Number.parseInt(field.charAt(1), 10) - 1;
+    const expectedRank = this.turn === 'w' ? 5 : 2;
+    if (rank !== expectedRank) {
+      return `it must be on rank ${expectedRank + 1} when ${COLOR_NAMES[this.turn]} is to move`;
+    }
+
+    // The pawn that just moved two squares stands in front of the square, the squares it crossed are empty
+    const direction = this.turn === 'w' ? -1 : 1;
+    const pawn = this.turn === 'w' ? 'p' : 'P';
+    if (pieceAt(this.board, file, rank + direction) !== pawn) {
+      return `no pawn on ${squareName(file, rank + direction)}`;
+    }
+    if (pieceAt(this.board, file, rank) || pieceAt(this.board, file, rank - direction)) {
+      return 'the squares the pawn crossed are not empty';
+    }
+    return null;
+  }
+
+  private checkCounters(): void {
+    const [halfmove, fullmove]: (string | undefined)[] = this.parts.slice(4);
+    if (halfmove !== undefined && !COUNTER_REGEX.test(halfmove)) {
+      this.report('INVALID_FEN_MOVE_COUNTER', `Halfmove clock "${halfmove}" is not a number.`, {
+        fieldValue: halfmove,
+      });
+    }
+    if (fullmove !== undefined && (!COUNTER_REGEX.test(fullmove) || Number(fullmove) < 1)) {
+      this.report(
+        'INVALID_FEN_MOVE_COUNTER',
+        `Fullmove number "${fullmove}" must be a positive number.`,
+        { fieldValue: fullmove },
+      );
+    }
+  }
+}
+
+/**
+ * Check that a FEN describes a legal standard-board position. Returns every problem found,
+ * each with its own `FenErrorCode`; an empty array means the position is legal. A FEN that
+ * does not parse yields the single `InvalidFENError` thrown by `parseFEN`.
+ */
+export function validatePosition(
+  fen: string,
+  options: PositionValidationOptions = {},
+): FenValidationError[] {
+  const trimmed = fen.trim();
+  let turn: Color;
+  let board: Board;
+  try {
+    ({ turn, board } = parseFEN(trimmed));
+  } catch (error) {
+    if (error instanceof InvalidFENError) {
+      return [error];
+    }
+    throw error;
+  }
+
+  // The check counter and the pockets are not standard fields; parseFEN already read them
+  const fields = options.variant === 'threecheck' ? parseThreeCheckFen(trimmed).fen : trimmed;
+  const parts = fields.split(/\s+/);
+  const placement = (parts[0] ?? '').replace(/\[.*$/, '').replaceAll('~', '');
+  const rows = placement.split('/');
+  if (rows.length !== 8 || countSquares(rows[0] ?? '') !== 8) {
+    return [
+      new FenValidationError(
+        `Position must describe an 8x8 board, received ${rows.length} ranks.`,
+        'INVALID_FEN_BOARD_SIZE',
+        { fen: trimmed, actualFiles: countSquares(rows[0] ?? '') },
+      ),
+    ];
+  }
+
+  return new PositionValidator(trimmed, parts, board, turn, options).validate();
+}
+
+/**
+ * Whether `validatePosition` finds no problem with the FEN
+ */
+export function isLegalPosition(fen: string, options: PositionValidationOptions = {}): boolean {
+  return validatePosition(fen, options).length === 0;
+}
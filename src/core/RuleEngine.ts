@@ -1,13 +1,26 @@
 import { Chess } from 'chess.js';
-import type { PromotionPiece, MoveNotation, RulesAdapter, Square } from './types';
+import type { PocketPiece, PromotionPiece, MoveNotation, RulesAdapter, Square } from './types';
 
 const COORDINATE_MOVE_REGEX = /^([a-h][1-8])\s*[-\s]*([a-h][1-8])(?:=?([qrbn]))?$/i;
-
+const LONG_ALGEBRAIC_REGEX =
+  /^[KQRBN]?([a-h][1-8])[-x:]([a-h][1-8])(?:=?([QRBN]))?(?:e\.p\.)?[+#]?$/;
+const ICCF_MOVE_REGEX = /^([1-8]{2})([1-8]{2})([1-4])?$/;
+const DROP_MOVE_REGEX = /^([PNBRQ]?)@([a-h][1-8])([+#])?$/i;
+const POCKET_SUFFIX_REGEX = /\[[^\]]*\]/;
+const CASTLING_SAN_REGEX = /^O-O(?:-O)?/;
+const SAN_PIECE_REGEX = /^[KQRBN]/;
+const SAN_CHECK_REGEX = /[+#]$/;
+const ICCF_PROMOTIONS: readonly PromotionPiece[] = ['q', 'r', 'b', 'n'];
+
+/**
+ * A drop (Crazyhouse) has `from` equal to `to` and the dropped piece in `drop`
+ */
 export type NormalizedNotationMove = {
   from: Square;
   to: Square;
   promotion?: PromotionPiece;
   san?: string;
+  drop?: PocketPiece;
 };
 
 type NotationEngineMove = {
@@ -54,6 +67,96 @@ export class RuleEngine {
     };
   }
 
+  /**
+   * Parse long algebraic notation (`Ng1-f3`, `e4xd5`, `e7-e8=Q+`). Castling (`O-O`) is SAN and
+   * needs the position to resolve, so it is not handled here.
+   */
+  public parseLongAlgebraicNotation(
+    notation: string,
+  ): { from: Square; to: Square; promotion?: PromotionPiece } | null {
+    const match = LONG_ALGEBRAIC_REGEX.exec(notation.trim());
+    if (!match) return null;
+
+    return {
+      from: match[1] as Square,
+      to: match[2] as Square,
+      promotion: match[3]?.toLowerCase() as PromotionPiece | undefined,
+    };
+  }
+
+  /**
+   * Parse ICCF numeric notation: file and rank digits of both squares (`5254` is e2-e4),
+   * followed by a promotion digit (1 queen, 2 rook, 3 bishop, 4 knight).
+   */
+  public parseIccfNotation(
+    notation: string,
+  ): { from: Square; to: Square; promotion?: PromotionPiece } | null {
+    const match = ICCF_MOVE_REGEX.exec(notation.trim());
+    if (!match) return null;
+
+    const toSquare = (digits: string) =>
+      `${String.fromCodePoint(96 + Number(digits[0]))}${digits[1]}` as Square;
+
+    return {
+      from: toSquare(match[1] as string),
+      to: toSquare(match[2] as string),
+      promotion: match[3] ? ICCF_PROMOTIONS[Number(match[3]) - 1] : undefined,
+    };
+  }
+
+  /**
+   * Parse a Crazyhouse drop (`N@f3`, `P@e4` or `@e4`), which SAN and UCI write alike
+   */
+  public parseDropNotation(notation: string): { piece: PocketPiece; to: Square } | null {
+    const match = DROP_MOVE_REGEX.exec(notation.trim());
+    if (!match) return null;
+
+    return {
+      piece: (match[1] || 'p').toLowerCase() as PocketPiece,
+      to: match[2].toLowerCase() as Square,
+    };
+  }
+
+  /**
+   * Parse a move written in coordinate, long algebraic or ICCF numeric notation
+   */
+  public parseMoveNotation(
+    notation: string,
+  ): { from: Square; to: Square; promotion?: PromotionPiece } | null {
+    return (
+      this.parseCoordinateNotation(notation) ??
+      this.parseLongAlgebraicNotation(notation) ??
+      this.parseIccfNotation(notation)
+    );
+  }
+
+  /**
+   * Write an already-played move in the requested notation. SAN and long algebraic output use
+   * `move.san` when present, otherwise the move is resolved against the current position.
+   */
+  public formatMove(move: NormalizedNotationMove, notation: MoveNotation): string | null {
+    switch (notation) {
+      case 'san': {
+        return this.resolveSanFromMove(move);
+      }
+      case 'lan': {
+        return this.formatLongAlgebraicFromMove(move);
+      }
+      case 'iccf': {
+        return this.formatIccfFromMove(move);
+      }
+      case 'uci': {
+        return this.formatUciFromMove(move);
+      }
+      case 'coord': {
+        return this.formatCoordinateFromMove(move);
+      }
+      default: {
+        return null;
+      }
+    }
+  }
+
   public convertMoveNotation(
     notation: string,
     from: MoveNotation,
@@ -75,20 +178,7 @@ export class RuleEngine {
       return null;
     }
 
-    switch (normalizedTo) {
-      case 'san': {
-        return this.resolveSanFromMove(normalizedMove);
-      }
-      case 'uci': {
-        return this.formatUciFromMove(normalizedMove);
-      }
-      case 'coord': {
-        return this.formatCoordinateFromMove(normalizedMove);
-      }
-      default: {
-        return null;
-      }
-    }
+    return this.formatMove(normalizedMove, normalizedTo);
   }
 
   public sanToUci(san: string): string | null {
@@ -107,34 +197,73 @@ export class RuleEngine {
     return this.convertMoveNotation(uci, 'uci', 'coord');
   }
 
+  public sanToLongAlgebraic(san: string): string | null {
+    return this.convertMoveNotation(san, 'san', 'lan');
+  }
+
+  public sanToIccf(san: string): string | null {
+    return this.convertMoveNotation(san, 'san', 'iccf');
+  }
+
   private normalizeNotationInput(
     notation: string,
     from: MoveNotation,
   ): NormalizedNotationMove | null {
-    if (from === 'san') {
+    const drop = from === 'iccf' ? null : this.parseDropNotation(notation);
+    if (drop) {
+      const check = DROP_MOVE_REGEX.exec(notation.trim())?.[3] ?? '';
+      return {
+        from: drop.to,
+        to: drop.to,
+        drop: drop.piece,
+        san: `${drop.piece.toUpperCase()}@${drop.to}${check}`,
+      };
+    }
+
+    if (from === 'san' || (from === 'lan' && CASTLING_SAN_REGEX.test(notation.trim()))) {
       return this.normalizeMoveFromSan(notation);
     }
 
-    if (from === 'uci' || from === 'coord') {
-      const parsed = this.parseCoordinateNotation(notation);
-      if (!parsed) {
+    const parsed = this.parseSquareNotation(notation, from);
+    if (!parsed) {
+      return null;
+    }
+
+    return {
+      from: parsed.from.toLowerCase() as Square,
+      to: parsed.to.toLowerCase() as Square,
+      promotion: parsed.promotion,
+    };
+  }
+
+  private parseSquareNotation(
+    notation: string,
+    from: MoveNotation,
+  ): { from: Square; to: Square; promotion?: PromotionPiece } | null {
+    switch (from) {
+      case 'uci':
+      case 'coord': {
+        return this.parseCoordinateNotation(notation);
+      }
+      case 'lan': {
+        return this.parseLongAlgebraicNotation(notation);
+      }
+      case 'iccf': {
+        return this.parseIccfNotation(notation);
+      }
+      default: {
         return null;
       }
-
-      return {
-        from: parsed.from.toLowerCase() as Square,
-        to: parsed.to.toLowerCase() as Square,
-        promotion: parsed.promotion,
-      };
     }
-
-    return null;
   }
 
   private resolveSanFromMove(move: NormalizedNotationMove): string | null {
     if (move.san) {
       return move.san;
     }
+    if (move.drop) {
+      return `${move.drop.toUpperCase()}@${move.to}`;
+    }
 
     const chess = this.createNotationChess();
     if (!chess) {
@@ -158,6 +287,9 @@ export class RuleEngine {
     if (!move.from || !move.to) {
       return null;
     }
+    if (move.drop) {
+      return `${move.drop.toUpperCase()}@${move.to}`;
+    }
 
     const promotion = move.promotion ? move.promotion.toLowerCase() : '';
     return `${move.from}${move.to}${promotion}`;
@@ -167,9 +299,44 @@ export class RuleEngine {
     return this.formatUciFromMove(move);
   }
 
+  private formatLongAlgebraicFromMove(move: NormalizedNotationMove): string | null {
+    const san = this.resolveSanFromMove(move);
+    if (!san) {
+      return null;
+    }
+
+    if (move.drop) {
+      return san;
+    }
+
+    const check = SAN_CHECK_REGEX.exec(san)?.[0] ?? '';
+    const castling = CASTLING_SAN_REGEX.exec(san);
+    if (castling) {
+      return `${castling[0]}${check}`;
+    }
+
+    const piece = SAN_PIECE_REGEX.exec(san)?.[0] ?? '';
+    const separator = san.includes('x') ? 'x' : '-';
+    const promotion = move.promotion ? `=${move.promotion.toUpperCase()}` : '';
+    return `${piece}${move.from}${separator}${move.to}${promotion}${check}`;
+  }
+
+  /**
+   * ICCF numeric notation has no way to write a drop
+   */
+  private formatIccfFromMove(move: NormalizedNotationMove): string | null {
+    if (move.drop) {
+      return null;
+    }
+    const digits = (square: Square) => `${(square.codePointAt(0) ?? 96) - 96}${square[1]}`;
+    const promotion = move.promotion ? String(ICCF_PROMOTIONS.indexOf(move.promotion) + 1) : '';
+    return `${digits(move.from)}${digits(move.to)}${promotion}`;
+  }
+
   private createNotationChess(): NotationEngine | null {
     try {
-      const fen = this.getRules().getFEN();
+      // Board moves of a Crazyhouse position resolve without its pocket and promotion marks
+      const fen = this.getRules().getFEN().replace(POCKET_SUFFIX_REGEX, '').replaceAll('~', '');
       return this.createNotationEngine(fen);
     } catch {
       return null;
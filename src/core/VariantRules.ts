@@ -0,0 +1,175 @@
+import type { Chess, Move as ChessMove } from 'chess.js';
+import type { Color, RemainingChecks, Square, Variant } from './types';
+import { START_FEN } from './utils';
+
+export const THREE_CHECK_START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 3+3 0 1';
+export const RACING_KINGS_START_FEN = '8/8/8/8/8/8/krbnNBRK/qrbnNBRQ w - - 0 1';
+
+const THREE_CHECKS = 3;
+const CHECK_COUNTER_REGEX = /^(\d+)\+(\d+)$/;
+/** Checks given, the way Lichess appends them to three-check FENs (`... 0 1 +1+0`) */
+const CHECKS_GIVEN_REGEX = /^\+(\d+)\+(\d+)$/;
+const HILL_SQUARES: ReadonlySet<Square> = new Set<Square>(['d4', 'e4', 'd5', 'e5']);
+
+export type VariantEndReason =
+  | 'threeChecks'
+  | 'kingOfTheHill'
+  | 'raceFinished'
+  /** Atomic: a king was caught in an explosion */
+  | 'kingExploded'
+  /** Antichess: the side to move has no move left, having lost all its pieces or being blocked */
+  | 'noMovesLeft';
+
+export interface VariantOutcome {
+  result: '1-0' | '0-1' | '1/2-1/2';
+  reason: VariantEndReason;
+}
+
+export interface VariantPosition {
+  chess: Chess;
+  /** Checks left to give, for variants won by checks */
+  remainingChecks: RemainingChecks | null;
+  /** Moves of the side to move that the variant allows */
+  legalMoves(): ChessMove[];
+}
+
+/**
+ * Rules a variant adds on top of the standard moves generated by chess.js
+ */
+export interface VariantRuleSet {
+  readonly variant: Variant;
+  /** Value of the PGN `Variant` tag */
+  readonly pgnName: string;
+  readonly startFen: string;
+  /** Checks that win the game. The FEN then carries the checks each side still has to give */
+  readonly checksToWin?: number;
+  /** Whether the variant allows the move that reached `after` */
+  allowsMove?(after: Chess): boolean;
+  /** End of the game by the variant's own win conditions, looked at before mate and draws */
+  getOutcome(position: VariantPosition): VariantOutcome | null;
+  /** Replaces the standard insufficient material rule */
+  isInsufficientMaterial?(chess: Chess): boolean;
+}
+
+const winFor = (color: Color): VariantOutcome['result'] => (color === 'w' ? '1-0' : '0-1');
+
+function findKing(chess: Chess, color: Color): Square | null {
+  for (const row of chess.board()) {
+    for (const piece of row) {
+      if (piece?.type === 'k' && piece.color === color) {
+        return piece.square as Square;
+      }
+    }
+  }
+  return null;
+}
+
+const THREE_CHECK_RULES: VariantRuleSet = {
+  variant: 'threecheck',
+  pgnName: 'Three-check',
+  startFen: THREE_CHECK_START_FEN,
+  checksToWin: THREE_CHECKS,
+  getOutcome: ({ remainingChecks }) => {
+    for (const color of ['w', 'b'] as const) {
+      if (remainingChecks?.[color] === 0) {
+        return { result: winFor(color), reason: 'threeChecks' };
+      }
+    }
+    return null;
+  },
+  // Any piece but a king can still give check
+  isInsufficientMaterial: (chess) =>
+    chess.board().every((row) => row.every((p) => !p || p.type === 'k')),
+};
+
+const KING_OF_THE_HILL_RULES: VariantRuleSet = {
+  variant: 'kingofthehill',
+  pgnName: 'King of the Hill',
+  startFen: START_FEN,
+  getOutcome: ({ chess }) => {
+    for (const color of ['w', 'b'] as const) {
+      const king = findKing(chess, color);
+      if (king && HILL_SQUARES.has(king)) {
+        return { result: winFor(color), reason: 'kingOfTheHill' };
+      }
+    }
+    return null;
+  },
+  // A lone king can still walk to the centre
+  isInsufficientMaterial: () => false,
+};
+
+const RACING_KINGS_RULES: VariantRuleSet = {
+  variant: 'racingkings',
+  pgnName: 'Racing Kings',
+  startFen: RACING_KINGS_START_FEN,
+  // Neither side may give check
+  allowsMove: (after) => !after.inCheck(),
+  getOutcome: ({ chess, legalMoves }) => {
+    const whiteHome = findKing(chess, 'w')?.endsWith('8') ?? false;
+    const blackHome = findKing(chess, 'b')?.endsWith('8') ?? false;
+    if (whiteHome && blackHome) {
+      return { result: '1/2-1/2', reason: 'raceFinished' };
+    }
+    if (blackHome) {
+      return { result: '0-1', reason: 'raceFinished' };
+    }
+    if (!whiteHome) {
+      return null;
+    }
+    // Black moves last and draws by reaching the eighth rank too
+    const blackCanFollow =
+      chess.turn() === 'b' &&
+      legalMoves().some((move) => move.piece === 'k' && move.to.endsWith('8'));
+    return blackCanFollow ? null : { result: '1-0', reason: 'raceFinished' };
+  },
+  isInsufficientMaterial: () => false,
+};
+
+/**
+ * Variants played with chess.js move generation and their own win conditions
+ */
+export const VARIANT_RULES: Partial<Record<Variant, VariantRuleSet>> = {
+  threecheck: THREE_CHECK_RULES,
+  kingofthehill: KING_OF_THE_HILL_RULES,
+  racingkings: RACING_KINGS_RULES,
+};
+
+/**
+ * Split a three-check FEN into the standard FEN and the checks left to give. Both the
+ * `3+3` field before the halfmove clock and the Lichess `+0+0` suffix (checks given) are read;
+ * without either, each side has `checksToWin` checks to give.
+ */
+export function parseThreeCheckFen(
+  fen: string,
+  checksToWin: number = THREE_CHECKS,
+): { fen: string; remainingChecks: RemainingChecks } {
+  const parts = fen.trim().split(/\s+/);
+  let remainingChecks: RemainingChecks = { w: checksToWin, b: checksToWin };
+
+  const given = CHECKS_GIVEN_REGEX.exec(parts.at(-1) ?? '');
+  if (given) {
+    parts.pop();
+    remainingChecks = {
+      w: Math.max(0, checksToWin - Number(given[1])),
+      b: Math.max(0, checksToWin - Number(given[2])),
+    };
+  }
+
+  const counter = CHECK_COUNTER_REGEX.exec(parts[4] ?? '');
+  if (counter) {
+    parts.splice(4, 1);
+    remainingChecks = { w: Number(counter[1]), b: Number(counter[2]) };
+  }
+
+  return { fen: parts.join(' '), remainingChecks };
+}
+
+/**
+ * Write the checks left to give into a standard six-field FEN
+ */
+export function formatThreeCheckFen(fen: string, remainingChecks: RemainingChecks): string {
+  const parts = fen.trim().split(/\s+/);
+  parts.splice(4, 0, `${remainingChecks.w}+${remainingChecks.b}`);
+  return parts.join(' ');
+}
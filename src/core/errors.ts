@@ -29,9 +29,20 @@ export type FenErrorCode =
   | 'INVALID_FEN_BOARD_EMPTY'
   | 'INVALID_FEN_INVALID_EMPTY_SQUARE_COUNT'
   | 'INVALID_FEN_INVALID_PIECE'
+  | 'INVALID_FEN_INVALID_POCKET'
   | 'INVALID_FEN_RANK_NO_SQUARES'
   | 'INVALID_FEN_INCONSISTENT_ROW_LENGTH'
-  | 'INVALID_FEN_ACTIVE_COLOR';
+  | 'INVALID_FEN_ACTIVE_COLOR'
+  | 'INVALID_FEN_BOARD_SIZE'
+  | 'INVALID_FEN_KING_COUNT'
+  | 'INVALID_FEN_PAWN_ON_BACK_RANK'
+  | 'INVALID_FEN_TOO_MANY_PIECES'
+  | 'INVALID_FEN_TOO_MANY_PAWNS'
+  | 'INVALID_FEN_TOO_MANY_PROMOTED'
+  | 'INVALID_FEN_INACTIVE_KING_IN_CHECK'
+  | 'INVALID_FEN_CASTLING_RIGHTS'
+  | 'INVALID_FEN_EN_PASSANT'
+  | 'INVALID_FEN_MOVE_COUNTER';
 
 export interface FenErrorDetails extends Record<string, unknown> {
   fen?: string;
@@ -42,6 +53,9 @@ export interface FenErrorDetails extends Record<string, unknown> {
   expectedFiles?: number;
   actualFiles?: number;
   fieldValue?: string;
+  color?: 'w' | 'b';
+  square?: string;
+  count?: number;
 }
 
 export class FenValidationError extends NeoChessError {
@@ -67,15 +81,54 @@ export class InvalidFENError extends FenValidationError {
   }
 }
 
+/**
+ * Thrown by strict position setup when the FEN parses but describes an illegal position.
+ * `code` is the code of the first issue; `issues` lists every problem found.
+ */
+export class PositionValidationError extends FenValidationError {
+  declare public readonly code: FenErrorCode;
+  declare public readonly details?: Readonly<FenErrorDetails>;
+  public readonly issues: readonly FenValidationError[];
+
+  constructor(fen: string, issues: readonly FenValidationError[]) {
+    const [first] = issues;
+    super(
+      `Illegal position: ${issues.map((issue) => issue.message).join(' ')}`,
+      first?.code ?? 'INVALID_FEN_GENERIC',
+      { fen },
+    );
+    this.issues = Object.freeze([...issues]);
+  }
+}
+
 export type PgnParseErrorCode =
   | 'PGN_PARSE_UNTERMINATED_COMMENT'
   | 'PGN_PARSE_INVALID_ARROW_SPEC'
   | 'PGN_PARSE_INVALID_ARROW_SQUARE'
   | 'PGN_PARSE_INVALID_CIRCLE_SPEC'
   | 'PGN_PARSE_INVALID_CIRCLE_SQUARE'
+  | 'PGN_PARSE_INVALID_CLOCK'
   | 'PGN_PARSE_MOVE_TEXT_MISSING'
   | 'PGN_PARSE_RESULT_IN_MOVE'
-  | 'PGN_IMPORT_FAILED';
+  | 'PGN_PARSE_UNEXPECTED_VARIATION'
+  | 'PGN_PARSE_UNTERMINATED_VARIATION'
+  | 'PGN_IMPORT_FAILED'
+  | 'PGN_EXPORT_MISSING_TAG'
+  | 'PGN_EXPORT_TAG_ORDER'
+  | 'PGN_EXPORT_INVALID_TAG'
+  | 'PGN_EXPORT_MISSING_SETUP'
+  | 'PGN_EXPORT_MISSING_BLANK_LINE'
+  | 'PGN_EXPORT_LINE_TOO_LONG'
+  | 'PGN_EXPORT_LINE_COMMENT'
+  | 'PGN_EXPORT_MISSING_TERMINATION'
+  | 'PGN_EXPORT_RESULT_MISMATCH'
+  | 'PGN_RECOVERY_SMART_QUOTES'
+  | 'PGN_RECOVERY_RESULT'
+  | 'PGN_RECOVERY_CASTLING'
+  | 'PGN_RECOVERY_FIGURINE'
+  | 'PGN_RECOVERY_PIECE_LETTERS'
+  | 'PGN_RECOVERY_MOVE_NUMBER'
+  | 'PGN_RECOVERY_ILLEGAL_MOVE';
 
 export interface PgnParseErrorDetails extends Record<string, unknown> {
   moveNumber?: number;
@@ -85,6 +138,12 @@ export interface PgnParseErrorDetails extends Record<string, unknown> {
   rawComment?: string;
   index?: number;
   message?: string;
+  ply?: number;
+  line?: number;
+  tag?: string;
+  san?: string;
+  original?: string;
+  replacement?: string;
 }
 
 export class PgnParseError extends NeoChessError {
@@ -96,3 +155,101 @@ export class PgnParseError extends NeoChessError {
     this.name = 'PgnParseError';
   }
 }
+
+export type EpdParseErrorCode =
+  | 'EPD_EMPTY'
+  | 'EPD_INVALID_POSITION'
+  | 'EPD_INVALID_OPCODE'
+  | 'EPD_UNTERMINATED_STRING'
+  | 'EPD_MISSING_SEMICOLON';
+
+export interface EpdParseErrorDetails extends Record<string, unknown> {
+  epd?: string;
+  line?: number;
+  opcode?: string;
+  index?: number;
+}
+
+export class EpdParseError extends NeoChessError {
+  declare public readonly code: EpdParseErrorCode;
+  declare public readonly details?: Readonly<EpdParseErrorDetails>;
+
+  constructor(message: string, code: EpdParseErrorCode, options: NeoChessErrorOptions = {}) {
+    super(message, code, options);
+    this.name = 'EpdParseError';
+  }
+}
+
+export type EngineOptionErrorCode = 'ENGINE_UNKNOWN_OPTION' | 'ENGINE_INVALID_OPTION_VALUE';
+
+export interface EngineOptionErrorDetails extends Record<string, unknown> {
+  option?: string;
+  value?: unknown;
+  expected?: string;
+}
+
+export class EngineOptionError extends NeoChessError {
+  declare public readonly code: EngineOptionErrorCode;
+  declare public readonly details?: Readonly<EngineOptionErrorDetails>;
+
+  constructor(message: string, code: EngineOptionErrorCode, options: NeoChessErrorOptions = {}) {
+    super(message, code, options);
+    this.name = 'EngineOptionError';
+  }
+}
+
+export type EnginePoolErrorCode =
+  | 'ENGINE_JOB_CANCELLED'
+  | 'ENGINE_POOL_TERMINATED'
+  | 'ENGINE_INVALID_REQUEST';
+
+export interface EnginePoolErrorDetails extends Record<string, unknown> {
+  fen?: string;
+}
+
+export class EnginePoolError extends NeoChessError {
+  declare public readonly code: EnginePoolErrorCode;
+  declare public readonly details?: Readonly<EnginePoolErrorDetails>;
+
+  constructor(message: string, code: EnginePoolErrorCode, options: NeoChessErrorOptions = {}) {
+    super(message, code, options);
+    this.name = 'EnginePoolError';
+  }
+}
+
+export type PolyglotBookErrorCode = 'POLYGLOT_INVALID_SIZE' | 'POLYGLOT_LOAD_FAILED';
+
+export interface PolyglotBookErrorDetails extends Record<string, unknown> {
+  size?: number;
+  url?: string;
+  status?: number;
+}
+
+export class PolyglotBookError extends NeoChessError {
+  declare public readonly code: PolyglotBookErrorCode;
+  declare public readonly details?: Readonly<PolyglotBookErrorDetails>;
+
+  constructor(message: string, code: PolyglotBookErrorCode, options: NeoChessErrorOptions = {}) {
+    super(message, code, options);
+    this.name = 'PolyglotBookError';
+  }
+}
+
+export type PerftErrorCode = 'PERFT_INVALID_DEPTH' | 'PERFT_MOVE_REJECTED';
+
+export interface PerftErrorDetails extends Record<string, unknown> {
+  depth?: number;
+  fen?: string;
+  move?: string;
+  reason?: string;
+}
+
+export class PerftError extends NeoChessError {
+  declare public readonly code: PerftErrorCode;
+  declare public readonly details?: Readonly<PerftErrorDetails>;
+
+  constructor(message: string, code: PerftErrorCode, options: NeoChessErrorOptions = {}) {
+    super(message, code, options);
+    this.name = 'PerftError';
+  }
+}
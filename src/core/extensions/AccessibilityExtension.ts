@@ -1,3 +1,4 @@
+import { localizeSan, type NotationLocale } from '../NotationLocale';
 import type { ExtensionConfig, Square } from '../types';
 import { FILES, RANKS, isWhitePiece, parseFEN, sqToFR } from '../utils';
 
@@ -26,6 +27,10 @@ export interface AccessibilityExtensionOptions {
    * Politeness setting for announcements.
    */
   livePoliteness?: 'polite' | 'assertive';
+  /**
+   * Piece letters used in the move list and move announcements (English SAN by default).
+   */
+  notationLocale?: NotationLocale;
 }
 
 export interface AccessibilityExtensionConfig extends AccessibilityExtensionOptions {
@@ -383,7 +388,7 @@ export function createAccessibilityExtension(
 
         updateSelectionState();
         updateBrailleOutput(parsed.board);
-        updateMovesList(board.getMoveHistory());
+        updateMovesList(board.getMoveHistory({ notationLocale: options.notationLocale }));
       };
 
       const moveFocusBy = (deltaFile: number, deltaRank: number, fallbackSquare: Square) => {
@@ -499,7 +504,10 @@ export function createAccessibilityExtension(
           refreshOutputs();
           const piece = board.getPieceAt(payload.to);
           const description = describeSquare(payload.to, piece);
-          setStatus(`Move played: ${payload.from} to ${payload.to}. ${description}`);
+          const san = payload.san
+            ? `${localizeSan(payload.san, options.notationLocale ?? 'en')}, `
+            : '';
+          setStatus(`Move played: ${san}${payload.from} to ${payload.to}. ${description}`);
           if (keyboardEnabled) {
             setActiveSquare(payload.to, true);
           }
@@ -2,6 +2,9 @@ import { ClockManager } from '../../clock/ClockManager';
 import type { ClockConfig, ClockEvents, ClockState } from '../../clock/types';
 import { EventBus } from '../EventBus';
 import { ChessJsRules } from '../ChessJsRules';
+import { CrazyhouseRules } from '../CrazyhouseRules';
+import { AtomicRules } from '../AtomicRules';
+import { AntichessRules } from '../AntichessRules';
 import type {
   BoardEventMap,
   BoardPremoveSettings,
@@ -41,6 +44,27 @@ export interface ChessGameOptions {
   };
 }
 
+/**
+ * Default rules adapter of a variant: chess.js for the variants it can play, a dedicated adapter
+ * for those that change how pieces move or capture
+ */
+function createRulesAdapter(variant: Variant = 'standard', fen?: string): RulesAdapter {
+  switch (variant) {
+    case 'crazyhouse': {
+      return new CrazyhouseRules(fen);
+    }
+    case 'atomic': {
+      return new AtomicRules(fen);
+    }
+    case 'antichess': {
+      return new AntichessRules(fen);
+    }
+    default: {
+      return new ChessJsRules({ variant, fen });
+    }
+  }
+}
+
 export class ChessGame {
   public readonly bus: EventBus<BoardEventMap>;
   private _rules: RulesAdapter;
@@ -73,13 +97,7 @@ export class ChessGame {
     this.rankLabels = geometry.rankLabels ?? generateRankLabels(geometry.ranks);
 
     this.bus = options.bus ?? new EventBus<BoardEventMap>();
-    const variant = options.variant ?? 'standard';
-    this._rules =
-      options.rulesAdapter ??
-      new ChessJsRules({
-        variant,
-        fen: options.fen,
-      });
+    this._rules = options.rulesAdapter ?? createRulesAdapter(options.variant, options.fen);
 
     const premoveSettings: BoardPremoveSettings = options.premove ?? {};
     this._applyInitialPremoveSettings(premoveSettings);
@@ -5,6 +5,7 @@ import type { PgnNotation } from './PgnNotation';
 import type { ClockConfig, ClockState } from '../clock/types';
 import type { CameraEffectsOptions, CameraEventPayloadMap } from '../effects/types';
 import type { PuzzleEventMap, PuzzleModeConfig } from '../extensions/puzzle-mode/types';
+import type { EngineBoardEventMap, GameAnalysisEventMap } from '../engine/types';
 export type { ClockCallbacks, ClockConfig, ClockState } from '../clock/types';
 export type {
   PuzzleEventMap,
@@ -23,7 +24,22 @@ export type ColorInput = Color | NamedPlayerColor;
 export type PremoveColorListInput = ColorInput | PremoveColorOption | ColorInput[];
 export type Piece = 'K' | 'Q' | 'R' | 'B' | 'N' | 'P' | 'k' | 'q' | 'r' | 'b' | 'n' | 'p';
 export type BoardOrientation = 'white' | 'black';
-export type Variant = 'standard' | 'chess960';
+export type Variant =
+  | 'standard'
+  | 'chess960'
+  | 'crazyhouse'
+  | 'threecheck'
+  | 'kingofthehill'
+  | 'racingkings'
+  | 'atomic'
+  | 'antichess';
+/** Piece types that can be held in a Crazyhouse pocket and dropped */
+export type PocketPiece = 'p' | 'n' | 'b' | 'r' | 'q';
+export type Pocket = Record<PocketPiece, number>;
+/** Pieces in hand of each side */
+export type Pockets = Record<Color, Pocket>;
+/** Checks each side still has to give to win a three-check game */
+export type RemainingChecks = Record<Color, number>;
 
 export interface SquareDataType {
   square: Square;
@@ -84,7 +100,10 @@ export type PromotionPiece = Required<Move>['promotion'];
 
 export type PromotionMode = 'move' | 'premove';
 
-export type MoveNotation = 'san' | 'uci' | 'coord';
+/**
+ * `lan` is long algebraic notation (`Ng1-f3`, `e4xd5`), `iccf` is ICCF numeric notation (`7163`)
+ */
+export type MoveNotation = 'san' | 'uci' | 'coord' | 'lan' | 'iccf';
 
 export interface PromotionRequest {
   from: Square;
@@ -112,6 +131,8 @@ export interface Arrow {
   width?: number;
   opacity?: number;
   knightMove?: boolean;
+  /** Short text drawn on the destination square, e.g. the move number in a principal variation */
+  label?: string;
 }
 
 export interface ArrowStyleOptions {
@@ -196,7 +217,8 @@ export type BoardSoundEventColor = 'white' | 'black';
 export type BoardSoundEventUrl = string | Partial<Record<BoardSoundEventColor, string>>;
 export type BoardSoundEventUrls = Partial<Record<BoardSoundEventType, BoardSoundEventUrl>>;
 
-export type CaptureEffectType = 'sparkles' | 'ripple';
+/** `explosion` is the blast of an Atomic capture, spreading over the neighbouring squares */
+export type CaptureEffectType = 'sparkles' | 'ripple' | 'explosion';
 
 export interface CaptureEffectRendererParams {
   from: Square;
@@ -206,12 +228,18 @@ export interface CaptureEffectRendererParams {
   palette: string[];
   durationMs: number;
   effect: CaptureEffectType;
+  /** Squares emptied by an Atomic explosion */
+  exploded?: Square[];
   board: NeoChessBoard;
 }
 
 export type CaptureEffectRenderer = (params: CaptureEffectRendererParams) => void | (() => void);
 
 export interface CaptureEffectOptions {
+  /**
+   * Show an effect on captures. Atomic explosions are shown unless this is explicitly `false`,
+   * since they tell which pieces left the board.
+   */
   enabled?: boolean;
   durationMs?: number;
   palette?: string[];
@@ -234,8 +262,22 @@ export interface PremoveInvalidatedEvent {
   reason?: string;
 }
 
-export interface BoardEventMap extends CameraEventPayloadMap, PuzzleEventMap {
-  move: { from: Square; to: Square; fen: string; captured?: string | null; san?: string };
+export interface BoardEventMap
+  extends CameraEventPayloadMap,
+    PuzzleEventMap,
+    GameAnalysisEventMap,
+    EngineBoardEventMap {
+  /** A drop (Crazyhouse) is reported with `from` equal to `to` and the dropped piece in `drop` */
+  move: {
+    from: Square;
+    to: Square;
+    fen: string;
+    captured?: string | null;
+    san?: string;
+    drop?: PocketPiece;
+    /** Squares emptied by the explosion of an Atomic capture */
+    exploded?: Square[];
+  };
   illegal: { from: Square; to: Square; reason: string };
   update: { fen: string };
   promotion: PromotionRequest;
@@ -262,6 +304,7 @@ export type VerboseHistoryEntry = { san: string } & Record<string, unknown>;
 export interface ChessLike {
   history(options?: { verbose?: boolean }): string[] | VerboseHistoryEntry[];
   pgn?(): string;
+  getHeaders?(): Record<string, string>;
   isDraw?(): boolean;
   isCheckmate(): boolean;
   isStalemate(): boolean;
@@ -274,6 +317,8 @@ export type RulesMoveDetail = {
   from: Square;
   to: Square;
   san?: string;
+  /** Squares emptied by the explosion of an Atomic capture */
+  exploded?: Square[];
 } & Record<string, unknown>;
 
 export interface RulesMoveResponse {
@@ -320,9 +365,15 @@ export interface RulesAdapter {
   getPGN?(): string; // chess.js exposes game.pgn(); we'll proxy it here
   header?: (h: Record<string, string>) => void; // chess.js header
   history?(): string[]; // Move history for annotation purposes
+  getHistory?(): RulesMoveDetail[]; // Detailed move history (from/to/promotion/san)
   toPgn?(includeHeaders?: boolean): string;
   loadPgn?(pgn: string): boolean;
   getPgnNotation?(): PgnNotation;
+  // Drops, for variants with pockets (Crazyhouse)
+  getPockets?(): Pockets;
+  /** Squares a piece from the pocket of the side to move can be dropped on */
+  dropSquares?(piece: PocketPiece): Square[];
+  drop?(piece: PocketPiece, to: Square): RulesMoveResponse | null | undefined;
 }
 
 export interface Theme {
@@ -482,7 +533,16 @@ export interface BoardOptions {
   fen?: string;
   position?: string;
   variant?: Variant;
+  /**
+   * Reject illegal positions, in the `fen` or `position` option and in `setFEN`, with a
+   * `PositionValidationError` (see `validatePosition`)
+   */
+  strictPositionValidation?: boolean;
   rulesAdapter?: RulesAdapter;
+  /** Show the pockets beside the board when the rules adapter has them (default `true`) */
+  showPockets?: boolean;
+  /** Show the checks left to give beside the board in three-check games (default `true`) */
+  showCheckCounter?: boolean;
   // Additional options
   allowAutoScroll?: boolean;
   allowDragging?: boolean;
@@ -497,6 +557,8 @@ export interface BoardOptions {
   premove?: BoardPremoveSettings;
   showArrows?: boolean;
   showHighlights?: boolean;
+  /** Draw the NAG of the current PGN move (`!`, `??`, `+=`...) as a badge on its destination square. */
+  showAnnotationBadges?: boolean;
   rightClickHighlights?: boolean;
   maxArrows?: number;
   maxHighlights?: number;
@@ -600,6 +662,12 @@ export interface PgnMoveAnnotations {
   circles?: SquareHighlight[];
   textComment?: string;
   evaluation?: number | string;
+  /** Numeric Annotation Glyphs attached to the move, e.g. `[1]` for `!` or `[14]` for `+=`. */
+  nags?: number[];
+  /** Remaining clock time after the move in milliseconds (`[%clk]`). */
+  clock?: number;
+  /** Time spent on the move in milliseconds (`[%emt]`). */
+  elapsed?: number;
 }
 
 export interface PgnMove {
@@ -614,4 +682,27 @@ export interface PgnMove {
     white?: number | string;
     black?: number | string;
   };
+  /**
+   * Recursive annotation variations (RAV) offered as alternatives to the white move.
+   * Each entry is a complete side line starting at this ply.
+   */
+  whiteVariations?: PgnMove[][];
+  /**
+   * Recursive annotation variations (RAV) offered as alternatives to the black move.
+   */
+  blackVariations?: PgnMove[][];
+}
+
+/**
+ * One step into the variation tree: at the absolute `ply` of the current line
+ * (1 = White's first move), follow the alternative line at `index`.
+ */
+export interface PgnVariationStep {
+  ply: number;
+  index: number;
 }
+
+/**
+ * Address of a line in the variation tree. An empty path designates the mainline.
+ */
+export type PgnVariationPath = readonly PgnVariationStep[];
@@ -7,6 +7,7 @@ import type {
   Piece,
   PieceDataType,
   PositionDataType,
+  RemainingChecks,
   AnimationEasing,
   AnimationEasingName,
 } from './types';
@@ -233,6 +234,40 @@ export interface ParsedFENState {
   ep: string | null;
   halfmove: number;
   fullmove: number;
+  /** Pieces in hand from a Crazyhouse pocket suffix (`...RNBQKBNR[Qnp]`), white's uppercase */
+  pocket?: string;
+  /** Checks each side still has to give, from a three-check counter field (`3+3`) */
+  remainingChecks?: RemainingChecks;
+}
+
+const POCKET_SUFFIX_REGEX = /\[([^\]]*)\]$/;
+const POCKET_PIECES_REGEX = /^[PNBRQpnbrq]*$/;
+
+/**
+ * Split the board field of a FEN into the placement and the Crazyhouse pocket, if any
+ */
+function splitFenPocket(boardPart: string): { placement: string; pocket?: string } {
+  const match = POCKET_SUFFIX_REGEX.exec(boardPart);
+  if (!match) return { placement: boardPart };
+  return { placement: boardPart.slice(0, match.index), pocket: match[1] };
+}
+
+const CHECK_COUNTER_REGEX = /^(\d+)\+(\d+)$/;
+
+/**
+ * Take the three-check counter out of the FEN fields: `3+3`, the checks white and black still
+ * have to give, written between the en passant square and the halfmove clock
+ */
+function splitFenCheckCounter(parts: string[]): {
+  fields: string[];
+  remainingChecks?: RemainingChecks;
+} {
+  const match = parts.length === 7 ? CHECK_COUNTER_REGEX.exec(parts[4]) : null;
+  if (!match) return { fields: parts };
+  return {
+    fields: [...parts.slice(0, 4), ...parts.slice(5)],
+    remainingChecks: { w: Number(match[1]), b: Number(match[2]) },
+  };
 }
 
 type FenValidationFail = (code: FenErrorCode, reason: string, details?: FenErrorDetails) => never;
@@ -265,6 +300,8 @@ function validateBoardRows(rows: string[], fail: FenValidationFail): void {
       } else if (piecePattern.test(char)) {
         totalSquares += 1;
         i += 1;
+        // Crazyhouse marks promoted pieces with a tilde
+        if (row[i] === '~') i += 1;
       } else {
         fail(
           'INVALID_FEN_INVALID_PIECE',
@@ -320,7 +357,7 @@ function validateFenString(fen: string): string[] {
     fail('INVALID_FEN_EMPTY', 'FEN string cannot be empty.');
   }
 
-  const parts = trimmedFen.split(/\s+/);
+  const parts = splitFenCheckCounter(trimmedFen.split(/\s+/)).fields;
   if (parts.length === 0 || parts.length > 6) {
     fail(
       'INVALID_FEN_FIELD_COUNT',
@@ -329,8 +366,15 @@ function validateFenString(fen: string): string[] {
     );
   }
 
-  const boardPart = parts[0];
-  const rows = boardPart.split('/');
+  const { placement, pocket } = splitFenPocket(parts[0]);
+  if (placement.includes('[') || (pocket !== undefined && !POCKET_PIECES_REGEX.test(pocket))) {
+    fail(
+      'INVALID_FEN_INVALID_POCKET',
+      `FEN pocket must list pawns, knights, bishops, rooks or queens in brackets, received '${parts[0]}'.`,
+      { fieldValue: parts[0] },
+    );
+  }
+  const rows = placement.split('/');
   if (rows.length === 0) {
     fail('INVALID_FEN_BOARD_EMPTY', 'FEN board description must contain at least one rank.');
   }
@@ -446,6 +490,11 @@ function parseFenRow(
   while (charIndex < rowString.length && fileIndex < files) {
     const char = rowString[charIndex];
 
+    if (char === '~') {
+      charIndex++;
+      continue;
+    }
+
     if (/\d/.test(char)) {
       // Compte les cases vides consécutives
       let digitEnd = charIndex + 1;
@@ -510,6 +559,8 @@ class FENParser {
   }
 
   parse(): ParsedFENState {
+    const { pocket } = splitFenPocket(this.parts[0]);
+    const { remainingChecks } = splitFenCheckCounter(this.fen.trim().split(/\s+/));
     return {
       board: this.parseBoard(),
       turn: this.parseTurn(),
@@ -517,11 +568,13 @@ class FENParser {
       ep: this.parseEnPassant(),
       halfmove: this.parseHalfmove(),
       fullmove: this.parseFullmove(),
+      ...(pocket === undefined ? {} : { pocket }),
+      ...(remainingChecks ? { remainingChecks } : {}),
     };
   }
 
   private parseBoard(): (string | null)[][] {
-    return parseFenBoard(this.parts[0], this.files, this.ranks);
+    return parseFenBoard(splitFenPocket(this.parts[0]).placement, this.files, this.ranks);
   }
 
   private parseTurn(): Color {
@@ -0,0 +1,214 @@
+import type { EngineAnalysisResult, EngineAnalysisUpdate, EngineLine } from './types';
+
+export interface EngineAnalysisStreamOptions {
+  /** Minimum delay between two updates; the latest lines are always delivered */
+  readonly throttleMs: number;
+  /** Called once when the consumer stops the stream before the search ends */
+  readonly onStop: () => void;
+}
+
+type UpdateListener = (update: EngineAnalysisUpdate) => void;
+
+function isSameLine(a: EngineLine, b: EngineLine): boolean {
+  return (
+    a.depth === b.depth &&
+    a.score.type === b.score.type &&
+    a.score.value === b.score.value &&
+    a.pv.join(' ') === b.pv.join(' ')
+  );
+}
+
+/**
+ * Updates of a running search, one snapshot of every MultiPV line at a time. Identical info lines
+ * are dropped and updates are throttled, the trailing one being delivered after the delay. The
+ * stream ends with a `done` update carrying the best move, when the search completes, is stopped
+ * or is superseded by a search of another position.
+ *
+ * Read it with `for await` (leaving the loop stops the search) or with `subscribe`.
+ */
+export class EngineAnalysisStream implements AsyncIterable<EngineAnalysisUpdate> {
+  /** Final result of the search */
+  readonly result: Promise<EngineAnalysisResult>;
+
+  private readonly lines = new Map<number, EngineLine>();
+  private readonly changed = new Set<number>();
+  private readonly listeners = new Set<UpdateListener>();
+  private readonly queue: EngineAnalysisUpdate[] = [];
+  private readonly waiting: Array<{
+    resolve: (result: IteratorResult<EngineAnalysisUpdate>) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  private resolveResult!: (result: EngineAnalysisResult) => void;
+  private rejectResult!: (error: Error) => void;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastFlush = 0;
+  private finished = false;
+  private stopRequested = false;
+  private error: Error | null = null;
+  /** Updates are only queued once an iterator reads them */
+  private iterating = false;
+  private finalUpdate: EngineAnalysisUpdate | null = null;
+
+  constructor(
+    readonly fen: string,
+    private readonly options: EngineAnalysisStreamOptions,
+  ) {
+    this.result = new Promise<EngineAnalysisResult>((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+  }
+
+  get isDone(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Lines received so far, best first
+   */
+  getLines(): EngineLine[] {
+    return [...this.lines.values()].sort((a, b) => a.id - b.id);
+  }
+
+  subscribe(listener: UpdateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Ask the engine to stop; the stream still ends with the best move found
+   */
+  stop(): void {
+    if (this.finished || this.stopRequested) return;
+    this.stopRequested = true;
+    this.options.onStop();
+  }
+
+  /** Record an info line of the search. Used by the engine. */
+  push(line: EngineLine): void {
+    if (this.finished) return;
+    const previous = this.lines.get(line.id);
+    if (previous && isSameLine(previous, line)) return;
+
+    this.lines.set(line.id, line);
+    this.changed.add(line.id);
+    this.scheduleFlush();
+  }
+
+  /** End the stream with the best move. Used by the engine. */
+  finish(bestMove?: string, ponder?: string): void {
+    if (this.finished) return;
+    this.clearFlushTimer();
+    const update = this.buildUpdate(true, bestMove, ponder);
+    this.finished = true;
+    this.finalUpdate = update;
+    this.deliver(update);
+    this.resolveResult({ fen: update.fen, lines: update.lines, bestMove, ponder });
+    this.close();
+  }
+
+  /** End the stream with an error. Used by the engine. */
+  fail(error: Error): void {
+    if (this.finished) return;
+    this.clearFlushTimer();
+    this.finished = true;
+    this.error = error;
+    // Consumers reading updates only must not see an unhandled rejection
+    this.result.catch(() => {});
+    this.rejectResult(error);
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.reject(error);
+    }
+    this.close();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<EngineAnalysisUpdate> {
+    // A stream read after the search ended still yields its final update
+    if (!this.iterating && this.finalUpdate) {
+      this.queue.push(this.finalUpdate);
+    }
+    this.iterating = true;
+    return {
+      next: () => {
+        const update = this.queue.shift();
+        if (update) {
+          return Promise.resolve({ value: update, done: false });
+        }
+        if (this.error) {
+          return Promise.reject(this.error);
+        }
+        if (this.finished) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+      },
+      return: () => {
+        this.stop();
+        this.queue.length = 0;
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    const wait = this.lastFlush + this.options.throttleMs - Date.now();
+    if (wait <= 0) {
+      this.flush();
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, wait);
+  }
+
+  private flush(): void {
+    if (this.finished || this.changed.size === 0) return;
+    this.lastFlush = Date.now();
+    this.deliver(this.buildUpdate(false));
+  }
+
+  private buildUpdate(done: boolean, bestMove?: string, ponder?: string): EngineAnalysisUpdate {
+    const lines = this.getLines();
+    const changed = lines.filter((line) => this.changed.has(line.id));
+    this.changed.clear();
+    return {
+      fen: this.fen,
+      lines,
+      changed,
+      depth: Math.max(0, ...lines.map((line) => line.depth)),
+      done,
+      bestMove,
+      ponder,
+    };
+  }
+
+  private deliver(update: EngineAnalysisUpdate): void {
+    for (const listener of this.listeners) {
+      listener(update);
+    }
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      waiter.resolve({ value: update, done: false });
+    } else if (this.iterating) {
+      this.queue.push(update);
+    }
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private close(): void {
+    this.listeners.clear();
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.resolve({ value: undefined, done: true });
+    }
+  }
+}
@@ -0,0 +1,322 @@
+import { EnginePoolError } from '../core/errors';
+import { StockfishEngine } from './StockfishEngine';
+import type { EngineAnalysisRequest, EngineAnalysisResult, EngineCreateOptions } from './types';
+
+/**
+ * Engine the pool can drive, such as `StockfishEngine` or any `UciEngine`
+ */
+export interface PoolEngine {
+  analyze(request: EngineAnalysisRequest): Promise<EngineAnalysisResult>;
+  /** Ends the running search early; its result is then discarded */
+  stop?(): void;
+  terminate(): void;
+}
+
+export interface EnginePoolOptions {
+  /** Number of engines analysing in parallel (default 2) */
+  readonly size?: number;
+  /** Creates the engines, `StockfishEngine`s with the `engine` options by default */
+  readonly createEngine?: () => PoolEngine;
+  readonly engine?: EngineCreateOptions;
+  /** Results kept for repeated requests, least recently used first out (default 500, 0 disables) */
+  readonly cacheSize?: number;
+}
+
+export interface EnginePoolJobOptions {
+  /** Higher priorities are analysed first; equal priorities keep their order (default 0) */
+  readonly priority?: number;
+  readonly signal?: AbortSignal;
+}
+
+export interface EnginePoolStats {
+  readonly engines: number;
+  readonly running: number;
+  readonly queued: number;
+  readonly cached: number;
+}
+
+interface JobWaiter {
+  readonly resolve: (result: EngineAnalysisResult) => void;
+  readonly reject: (error: Error) => void;
+  readonly dispose: () => void;
+}
+
+interface PoolJob {
+  readonly key: string;
+  readonly request: EngineAnalysisRequest;
+  priority: number;
+  readonly sequence: number;
+  readonly waiters: Set<JobWaiter>;
+  slot: EngineSlot | null;
+  /** Every waiter left while the job was running */
+  abandoned: boolean;
+}
+
+interface EngineSlot {
+  readonly engine: PoolEngine;
+  job: PoolJob | null;
+}
+
+const DEFAULT_POOL_SIZE = 2;
+const DEFAULT_CACHE_SIZE = 500;
+
+/**
+ * Identifies requests with the same answer: the position, with normalised spacing, and the
+ * search limits
+ */
+function requestKey(request: EngineAnalysisRequest): string {
+  return [
+    request.fen.trim().split(/\s+/).join(' '),
+    request.depth ?? '',
+    request.movetimeMs ?? '',
+    request.multiPv ?? 1,
+    (request.limitMoves ?? []).join(','),
+  ].join('|');
+}
+
+/**
+ * Runs analysis requests on a fixed number of engines. Requests wait in a priority queue,
+ * identical requests share one search and finished results are cached, so that batch jobs
+ * (puzzle validation, opening reports) can submit everything at once.
+ */
+export class EnginePool {
+  private readonly size: number;
+  private readonly cacheSize: number;
+  private readonly createEngine: () => PoolEngine;
+  private readonly slots: EngineSlot[] = [];
+  private readonly queue: PoolJob[] = [];
+  /** Queued and running jobs by request key */
+  private readonly jobs = new Map<string, PoolJob>();
+  private readonly cache = new Map<string, EngineAnalysisResult>();
+  private sequence = 0;
+  private terminated = false;
+
+  constructor(options: EnginePoolOptions = {}) {
+    this.size = Math.max(1, Math.floor(options.size ?? DEFAULT_POOL_SIZE));
+    this.cacheSize = Math.max(0, options.cacheSize ?? DEFAULT_CACHE_SIZE);
+    this.createEngine = options.createEngine ?? (() => new StockfishEngine(options.engine));
+  }
+
+  /**
+   * Analyse a position once an engine is free. Resolves at once from the cache, and joins the
+   * search of an identical pending request.
+   */
+  analyze(
+    request: EngineAnalysisRequest,
+    options: EnginePoolJobOptions = {},
+  ): Promise<EngineAnalysisResult> {
+    if (this.terminated) {
+      return Promise.reject(
+        new EnginePoolError('The engine pool has been terminated.', 'ENGINE_POOL_TERMINATED'),
+      );
+    }
+    if (request.infinite) {
+      return Promise.reject(
+        new EnginePoolError(
+          'The engine pool cannot run infinite searches.',
+          'ENGINE_INVALID_REQUEST',
+          {
+            details: { fen: request.fen },
+          },
+        ),
+      );
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(this.createCancelledError(request));
+    }
+
+    const key = requestKey(request);
+    const cached = this.cache.get(key);
+    if (cached) {
+      // Refresh the entry's position in the LRU order
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return Promise.resolve(cached);
+    }
+
+    const priority = options.priority ?? 0;
+    let job = this.jobs.get(key);
+    if (job) {
+      job.priority = Math.max(job.priority, priority);
+    } else {
+      job = {
+        key,
+        request,
+        priority,
+        sequence: this.sequence++,
+        waiters: new Set(),
+        slot: null,
+        abandoned: false,
+      };
+      this.jobs.set(key, job);
+      this.queue.push(job);
+    }
+
+    const promise = this.addWaiter(job, options.signal);
+    this.dispatch();
+    return promise;
+  }
+
+  /**
+   * Analyse many positions, results in the order of the requests
+   */
+  analyzeAll(
+    requests: readonly EngineAnalysisRequest[],
+    options: EnginePoolJobOptions = {},
+  ): Promise<EngineAnalysisResult[]> {
+    return Promise.all(requests.map((request) => this.analyze(request, options)));
+  }
+
+  getStats(): EnginePoolStats {
+    return {
+      engines: this.slots.length,
+      running: this.slots.filter((slot) => slot.job).length,
+      queued: this.queue.length,
+      cached: this.cache.size,
+    };
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Reject every pending request and terminate the engines
+   */
+  terminate(): void {
+    if (this.terminated) return;
+    this.terminated = true;
+
+    const error = new EnginePoolError(
+      'The engine pool has been terminated.',
+      'ENGINE_POOL_TERMINATED',
+    );
+    for (const job of this.jobs.values()) {
+      this.settle(job, (waiter) => waiter.reject(error));
+    }
+    this.jobs.clear();
+    this.queue.length = 0;
+    for (const slot of this.slots.splice(0)) {
+      slot.engine.terminate();
+    }
+  }
+
+  private addWaiter(job: PoolJob, signal: AbortSignal | undefined): Promise<EngineAnalysisResult> {
+    return new Promise<EngineAnalysisResult>((resolve, reject) => {
+      const onAbort = () => {
+        job.waiters.delete(waiter);
+        waiter.dispose();
+        reject(this.createCancelledError(job.request));
+        if (job.waiters.size === 0) {
+          this.cancelJob(job);
+        }
+      };
+      const waiter: JobWaiter = {
+        resolve,
+        reject,
+        dispose: () => signal?.removeEventListener('abort', onAbort),
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      job.waiters.add(waiter);
+    });
+  }
+
+  /**
+   * Drop a job nobody waits for: out of the queue, or stopped on its engine
+   */
+  private cancelJob(job: PoolJob): void {
+    this.jobs.delete(job.key);
+    if (job.slot) {
+      job.abandoned = true;
+      job.slot.engine.stop?.();
+      return;
+    }
+    const index = this.queue.indexOf(job);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const slot = this.acquireSlot();
+      if (!slot) return;
+      const job = this.takeNextJob();
+      void this.run(slot, job);
+    }
+  }
+
+  private acquireSlot(): EngineSlot | null {
+    const idle = this.slots.find((slot) => !slot.job);
+    if (idle) return idle;
+    if (this.slots.length >= this.size) return null;
+
+    const slot: EngineSlot = { engine: this.createEngine(), job: null };
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private takeNextJob(): PoolJob {
+    let next = 0;
+    for (let index = 1; index < this.queue.length; index++) {
+      const candidate = this.queue[index];
+      const best = this.queue[next];
+      if (
+        candidate.priority > best.priority ||
+        (candidate.priority === best.priority && candidate.sequence < best.sequence)
+      ) {
+        next = index;
+      }
+    }
+    const [job] = this.queue.splice(next, 1);
+    return job;
+  }
+
+  private async run(slot: EngineSlot, job: PoolJob): Promise<void> {
+    slot.job = job;
+    job.slot = slot;
+    try {
+      const result = await slot.engine.analyze(job.request);
+      if (!job.abandoned && !this.terminated) {
+        this.remember(job.key, result);
+        this.settle(job, (waiter) => waiter.resolve(result));
+      }
+    } catch (error) {
+      const asError = error instanceof Error ? error : new Error('Engine analysis failed');
+      this.settle(job, (waiter) => waiter.reject(asError));
+    } finally {
+      slot.job = null;
+      job.slot = null;
+      if (this.jobs.get(job.key) === job) {
+        this.jobs.delete(job.key);
+      }
+      if (!this.terminated) {
+        this.dispatch();
+      }
+    }
+  }
+
+  private settle(job: PoolJob, callback: (waiter: JobWaiter) => void): void {
+    for (const waiter of job.waiters) {
+      waiter.dispose();
+      callback(waiter);
+    }
+    job.waiters.clear();
+  }
+
+  private remember(key: string, result: EngineAnalysisResult): void {
+    if (this.cacheSize === 0) return;
+    this.cache.set(key, result);
+    while (this.cache.size > this.cacheSize) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) break;
+      this.cache.delete(oldest);
+    }
+  }
+
+  private createCancelledError(request: EngineAnalysisRequest): EnginePoolError {
+    return new EnginePoolError('The analysis request was cancelled.', 'ENGINE_JOB_CANCELLED', {
+      details: { fen: request.fen },
+    });
+  }
+}
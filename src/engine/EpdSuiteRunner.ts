@@ -0,0 +1,128 @@
+import { Chess } from 'chess.js';
+import { getEpdOperands, parseEpdSuite, resolveEpdMoves, type EpdRecord } from '../core/Epd';
+import type { EngineAnalysisRequest, EngineAnalysisResult } from './types';
+
+/**
+ * Anything that can analyse a position, such as `StockfishEngine`
+ */
+export interface EpdSuiteEngine {
+  analyze(request: EngineAnalysisRequest): Promise<EngineAnalysisResult>;
+}
+
+export interface EpdSuiteRunOptions {
+  readonly depth?: number;
+  readonly movetimeMs?: number;
+  /** Called after each position with its result */
+  readonly onProgress?: (result: EpdTestResult, index: number, total: number) => void;
+}
+
+export interface EpdTestResult {
+  readonly record: EpdRecord;
+  readonly id?: string;
+  /** Expected moves (`bm`), in SAN */
+  readonly bestMoves: string[];
+  /** Moves to avoid (`am`), in SAN */
+  readonly avoidMoves: string[];
+  /** Engine move in UCI notation */
+  readonly engineMove: string | null;
+  readonly engineSan: string | null;
+  readonly solved: boolean;
+  readonly error?: string;
+}
+
+export interface EpdSuiteResult {
+  readonly results: EpdTestResult[];
+  readonly solved: number;
+  readonly total: number;
+}
+
+function uciToSan(fen: string, uci: string): string | null {
+  try {
+    return new Chess(fen).move({
+      from: uci.slice(0, 2),
+      to: uci.slice(2, 4),
+      promotion: uci.slice(4, 5) || undefined,
+    }).san;
+  } catch {
+    return null;
+  }
+}
+
+async function runEpdTest(
+  engine: EpdSuiteEngine,
+  record: EpdRecord,
+  options: EpdSuiteRunOptions,
+): Promise<EpdTestResult> {
+  const bestMoves = resolveEpdMoves(record, 'bm').map((move) => move.san);
+  const avoidMoves = resolveEpdMoves(record, 'am').map((move) => move.san);
+  const base = { record, id: getEpdOperands(record, 'id')?.[0], bestMoves, avoidMoves };
+
+  // A mistyped or illegal expectation would otherwise let any engine move pass
+  const unresolved = (['bm', 'am'] as const).filter(
+    (opcode) =>
+      resolveEpdMoves(record, opcode).length < (getEpdOperands(record, opcode)?.length ?? 0),
+  );
+  if (unresolved.length > 0) {
+    return {
+      ...base,
+      engineMove: null,
+      engineSan: null,
+      solved: false,
+      error: `Cannot resolve the ${unresolved.join(' and ')} moves in this position`,
+    };
+  }
+
+  try {
+    const analysis = await engine.analyze({
+      fen: record.fen,
+      depth: options.depth,
+      movetimeMs: options.movetimeMs,
+      multiPv: 1,
+    });
+    const engineMove = analysis.bestMove ?? null;
+    const engineSan = engineMove ? uciToSan(record.fen, engineMove) : null;
+    const solved =
+      engineSan !== null &&
+      (getEpdOperands(record, 'bm') === undefined || bestMoves.includes(engineSan)) &&
+      !avoidMoves.includes(engineSan);
+
+    return { ...base, engineMove, engineSan, solved };
+  } catch (error) {
+    return {
+      ...base,
+      engineMove: null,
+      engineSan: null,
+      solved: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Run an EPD test suite through an engine, one position at a time. A position is solved when
+ * the engine plays one of its `bm` moves and none of its `am` moves; positions with neither
+ * opcode are skipped, and positions whose `bm` or `am` moves are not legal there fail without
+ * asking the engine.
+ */
+export async function runEpdSuite(
+  engine: EpdSuiteEngine,
+  suite: string | readonly EpdRecord[],
+  options: EpdSuiteRunOptions = {},
+): Promise<EpdSuiteResult> {
+  const records = (typeof suite === 'string' ? parseEpdSuite(suite).records : suite).filter(
+    (record) => getEpdOperands(record, 'bm') ?? getEpdOperands(record, 'am'),
+  );
+  const results: EpdTestResult[] = [];
+
+  for (const [index, record] of records.entries()) {
+    const result = await runEpdTest(engine, record, options);
+    results.push(result);
+    options.onProgress?.(result, index, records.length);
+  }
+
+  return {
+    results,
+    solved: results.filter((result) => result.solved).length,
+    total: results.length,
+  };
+}
@@ -0,0 +1,240 @@
+import type { EngineAnalysisResult, EngineScore, GameAnalysisResult } from './types';
+
+/**
+ * Win/draw/loss probabilities, in per mille, from the point of view of the side the score is for
+ */
+export interface WinDrawLoss {
+  readonly win: number;
+  readonly draw: number;
+  readonly loss: number;
+}
+
+export interface PlayerAccuracy {
+  /** Game accuracy from 0 to 100 */
+  readonly accuracy: number;
+  /** Average centipawn loss */
+  readonly acpl: number;
+  readonly moves: number;
+}
+
+export interface GameAccuracy {
+  readonly white: PlayerAccuracy;
+  readonly black: PlayerAccuracy;
+}
+
+export interface EvaluationSummary {
+  /** Best line score from White's point of view */
+  readonly score: EngineScore;
+  /** White's winning chances from 0 to 100 */
+  readonly winPercent: number;
+  /** Win/draw/loss for White */
+  readonly wdl: WinDrawLoss;
+}
+
+/** Centipawns beyond which evaluations are capped, mates included */
+const EVALUATION_CAP_CP = 1000;
+/** Slope of the Lichess winning chances sigmoid */
+const WINNING_CHANCES_SLOPE = 0.003_682_08;
+/** Stockfish centipawns are normalized so that 100 is a 50% win rate at ply 64 */
+const NORMALIZE_TO_PAWN_VALUE = 328;
+/** Stockfish 15.1 win rate model: polynomials in the game ply for the logistic offset and scale */
+const WDL_OFFSET_COEFFICIENTS = [0.380_365_25, -2.820_150_7, 23.178_821_35, 307.367_684_07];
+const WDL_SCALE_COEFFICIENTS = [-2.294_347_33, 13.276_897_88, -14.268_289_04, 63.453_183_3];
+const DEFAULT_WDL_PLY = 64;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function polynomial(coefficients: readonly number[], x: number): number {
+  let result = 0;
+  for (const coefficient of coefficients) {
+    result = result * x + coefficient;
+  }
+  return result;
+}
+
+/**
+ * Convert a score to centipawns capped at ±1000, mates counting as the cap
+ */
+export function scoreToCentipawns(score: EngineScore): number {
+  if (score.type === 'cp') {
+    return clamp(score.value, -EVALUATION_CAP_CP, EVALUATION_CAP_CP);
+  }
+  // Mate 0 means the side the score is for has been mated
+  return score.value > 0 ? EVALUATION_CAP_CP : -EVALUATION_CAP_CP;
+}
+
+/**
+ * Negate a side-to-move score when Black is to move, giving White's point of view
+ */
+export function scoreFromWhite(score: EngineScore, turn: 'w' | 'b'): EngineScore {
+  return turn === 'w' ? score : { type: score.type, value: -score.value };
+}
+
+/**
+ * Winning chances from 0 to 100 (the Lichess sigmoid on capped centipawns)
+ */
+export function winPercent(score: EngineScore): number {
+  const centipawns = scoreToCentipawns(score);
+  return 50 + 50 * (2 / (1 + Math.exp(-WINNING_CHANCES_SLOPE * centipawns)) - 1);
+}
+
+function winRate(centipawns: number, ply: number): number {
+  const m = Math.min(240, ply) / 64;
+  const offset = polynomial(WDL_OFFSET_COEFFICIENTS, m);
+  const scale = polynomial(WDL_SCALE_COEFFICIENTS, m);
+  const internal = clamp((centipawns * NORMALIZE_TO_PAWN_VALUE) / 100, -4000, 4000);
+  return Math.round(1000 / (1 + Math.exp((offset - internal) / scale)));
+}
+
+/**
+ * Win/draw/loss probabilities in per mille, following the Stockfish win rate model. The model
+ * depends on the game ply; at ply 64, +100 centipawns is a 50% win.
+ */
+export function scoreToWdl(score: EngineScore, ply: number = DEFAULT_WDL_PLY): WinDrawLoss {
+  if (score.type === 'mate') {
+    return score.value > 0 ? { win: 1000, draw: 0, loss: 0 } : { win: 0, draw: 0, loss: 1000 };
+  }
+
+  const win = winRate(score.value, ply);
+  const loss = winRate(-score.value, ply);
+  return { win, draw: 1000 - win - loss, loss };
+}
+
+/**
+ * Accuracy of a single move from 0 to 100, from the mover's winning chances before and after it
+ */
+export function moveAccuracy(winPercentBefore: number, winPercentAfter: number): number {
+  const drop = Math.max(0, winPercentBefore - winPercentAfter);
+  // The +1 offsets the imprecision of the analysis, as Lichess does
+  return clamp(103.166_81 * Math.exp(-0.043_544_15 * drop) - 3.166_92 + 1, 0, 100);
+}
+
+function standardDeviation(values: readonly number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(values.length, 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * One weight per move: the volatility of White's winning chances around it. Moves played in
+ * sharp positions count more.
+ */
+function volatilityWeights(winPercents: readonly number[]): number[] {
+  const moves = winPercents.length - 1;
+  const windowSize = clamp(Math.round(moves / 10), 2, 8);
+  const first = winPercents.slice(0, windowSize);
+  const windows = Array.from({ length: moves }, (_, index) =>
+    index < windowSize - 2 ? first : winPercents.slice(index - windowSize + 2, index + 2),
+  );
+  return windows.map((window) => clamp(standardDeviation(window), 0.5, 12));
+}
+
+function summarizePlayer(
+  accuracies: number[],
+  weights: number[],
+  losses: number[],
+): PlayerAccuracy {
+  if (accuracies.length === 0) {
+    return { accuracy: 100, acpl: 0, moves: 0 };
+  }
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const weightedMean =
+    accuracies.reduce((sum, accuracy, index) => sum + accuracy * (weights[index] ?? 0), 0) /
+    totalWeight;
+  const harmonicMean =
+    accuracies.length / accuracies.reduce((sum, accuracy) => sum + 1 / Math.max(accuracy, 1), 0);
+
+  return {
+    accuracy: (weightedMean + harmonicMean) / 2,
+    acpl: losses.reduce((sum, loss) => sum + loss, 0) / losses.length,
+    moves: accuracies.length,
+  };
+}
+
+function isGameAnalysis(
+  game: GameAnalysisResult | readonly EngineScore[],
+): game is GameAnalysisResult {
+  return !Array.isArray(game);
+}
+
+/**
+ * Accuracy and average centipawn loss of each player, in the manner of Lichess: move accuracies
+ * derived from winning chances, averaged with weights for position volatility.
+ *
+ * Takes a `GameAnalyzer` result, or the evaluations from White's point of view of the starting
+ * position and of the position after each move. `mate 0` marks the side to move as mated.
+ */
+export function computeGameAccuracy(
+  game: GameAnalysisResult | readonly EngineScore[],
+  initialTurn?: 'w' | 'b',
+): GameAccuracy {
+  const evaluations = isGameAnalysis(game)
+    ? [game.initialEvaluation, ...game.moves.map((move) => move.evaluation)]
+    : [...game];
+  const firstTurn = initialTurn ?? (isGameAnalysis(game) ? game.moves[0]?.color : undefined) ?? 'w';
+
+  const sideToMove = (index: number): 'w' | 'b' =>
+    (index % 2 === 0) === (firstTurn === 'w') ? 'w' : 'b';
+  const centipawns = evaluations.map((score, index) => {
+    if (score.type === 'mate' && score.value === 0) {
+      return sideToMove(index) === 'w' ? -EVALUATION_CAP_CP : EVALUATION_CAP_CP;
+    }
+    return scoreToCentipawns(score);
+  });
+  const winPercents = centipawns.map((value) => winPercent({ type: 'cp', value }));
+  const weights = volatilityWeights(winPercents);
+
+  const players = {
+    w: { accuracies: [] as number[], weights: [] as number[], losses: [] as number[] },
+    b: { accuracies: [] as number[], weights: [] as number[], losses: [] as number[] },
+  };
+  for (let index = 0; index < evaluations.length - 1; index++) {
+    const mover = sideToMove(index);
+    const sign = mover === 'w' ? 1 : -1;
+    const before = centipawns[index] ?? 0;
+    const after = centipawns[index + 1] ?? 0;
+    const player = players[mover];
+    player.accuracies.push(
+      moveAccuracy(
+        50 + sign * ((winPercents[index] ?? 50) - 50),
+        50 + sign * ((winPercents[index + 1] ?? 50) - 50),
+      ),
+    );
+    player.weights.push(weights[index] ?? 0.5);
+    player.losses.push(Math.max(0, sign * (before - after)));
+  }
+
+  return {
+    white: summarizePlayer(players.w.accuracies, players.w.weights, players.w.losses),
+    black: summarizePlayer(players.b.accuracies, players.b.weights, players.b.losses),
+  };
+}
+
+/**
+ * Summarize an engine result for display, for instance in the engine extension's `onResult`:
+ * the best line's score, winning chances and WDL, all from White's point of view.
+ */
+export function summarizeEvaluation(result: EngineAnalysisResult): EvaluationSummary | null {
+  const best = result.lines.find((line) => line.id === 1) ?? result.lines.at(0);
+  if (!best) {
+    return null;
+  }
+
+  const fields = result.fen.split(/\s+/);
+  const sideToMove = fields[1] === 'b' ? 'b' : 'w';
+  const fullmove = fields[5] ?? '1';
+  const ply = (Number.parseInt(fullmove, 10) - 1) * 2 + (sideToMove === 'b' ? 1 : 0);
+  const sign = sideToMove === 'w' ? 1 : -1;
+  const wdl = scoreToWdl(best.score, Number.isNaN(ply) ? DEFAULT_WDL_PLY : ply);
+
+  return {
+    score: scoreFromWhite(best.score, sideToMove),
+    // Capped before orienting, so that `mate 0` counts against the side to move
+    winPercent: winPercent({ type: 'cp', value: sign * scoreToCentipawns(best.score) }),
+    wdl: sideToMove === 'w' ? wdl : { win: wdl.loss, draw: wdl.draw, loss: wdl.win },
+  };
+}
@@ -0,0 +1,301 @@
+import { Chess, type Move as ChessJsMove } from 'chess.js';
+import { PgnParseError } from '../core/errors';
+import type { EventBus } from '../core/EventBus';
+import type { NeoChessBoard } from '../core/NeoChessBoard';
+import type { PgnNotation } from '../core/PgnNotation';
+import type { BoardEventMap } from '../core/types';
+import { START_FEN } from '../core/utils';
+import type {
+  AnalyzedMove,
+  EngineAnalysisRequest,
+  EngineAnalysisResult,
+  EngineScore,
+  GameAnalysisResult,
+  MoveClassification,
+  MoveClassificationThresholds,
+} from './types';
+
+/**
+ * Anything that can analyse a position, such as `StockfishEngine`
+ */
+export interface GameAnalysisEngine {
+  analyze(request: EngineAnalysisRequest): Promise<EngineAnalysisResult>;
+}
+
+export interface GameAnalyzerOptions {
+  readonly depth?: number;
+  readonly movetimeMs?: number;
+  readonly thresholds?: Partial<MoveClassificationThresholds>;
+  /** Bus receiving `analysis:*` events; `analyzeBoard` uses the board's bus */
+  readonly bus?: EventBus<BoardEventMap>;
+}
+
+export interface AnalyzeBoardOptions {
+  /** Write the evaluations and NAGs into the board's `PgnNotation` (default `true`) */
+  readonly annotate?: boolean;
+}
+
+export interface GameAnalysisAnnotationOptions {
+  /** Write `[%eval]` comments (default `true`) */
+  readonly evaluations?: boolean;
+  /** Mark inaccuracies, mistakes and blunders with `?!`, `?` and `??` (default `true`) */
+  readonly nags?: boolean;
+}
+
+export const DEFAULT_MOVE_CLASSIFICATION_THRESHOLDS: MoveClassificationThresholds = {
+  best: 0,
+  inaccuracy: 50,
+  mistake: 100,
+  blunder: 200,
+};
+
+const MATE_SCORE_CP = 10_000;
+/** Evaluations are capped before computing the loss, so a won position stays won */
+const MAX_EVALUATION_CP = 1000;
+/** `$1`–`$6`: the move assessment glyphs replaced by the analysis */
+const MOVE_ASSESSMENT_NAGS = new Set([1, 2, 3, 4, 5, 6]);
+const CLASSIFICATION_NAGS: Partial<Record<MoveClassification, number>> = {
+  inaccuracy: 6,
+  mistake: 2,
+  blunder: 4,
+};
+
+interface PositionEvaluation {
+  /** Evaluation from White's point of view */
+  score: EngineScore;
+  /** Centipawns from White's point of view, mates included */
+  centipawns: number;
+  bestMove: string | null;
+}
+
+function clampEvaluation(centipawns: number): number {
+  return Math.max(-MAX_EVALUATION_CP, Math.min(MAX_EVALUATION_CP, centipawns));
+}
+
+function toUci(move: Pick<ChessJsMove, 'from' | 'to' | 'promotion'>): string {
+  return `${move.from}${move.to}${move.promotion ?? ''}`;
+}
+
+function uciToSan(fen: string, uci: string): string | null {
+  try {
+    return new Chess(fen).move({
+      from: uci.slice(0, 2),
+      to: uci.slice(2, 4),
+      promotion: uci.slice(4, 5) || undefined,
+    }).san;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Classify a move from its centipawn loss. A move matching the engine's choice is always best.
+ */
+export function classifyMove(
+  centipawnLoss: number,
+  thresholds: Partial<MoveClassificationThresholds> = {},
+  playedBestMove = false,
+): MoveClassification {
+  const limits = { ...DEFAULT_MOVE_CLASSIFICATION_THRESHOLDS, ...thresholds };
+  if (playedBestMove || centipawnLoss <= limits.best) return 'best';
+  if (centipawnLoss >= limits.blunder) return 'blunder';
+  if (centipawnLoss >= limits.mistake) return 'mistake';
+  if (centipawnLoss >= limits.inaccuracy) return 'inaccuracy';
+  return 'excellent';
+}
+
+function formatEvaluation(score: EngineScore): number | string | undefined {
+  if (score.type === 'cp') {
+    return Math.round(score.value) / 100;
+  }
+  return score.value === 0 ? undefined : `#${score.value}`;
+}
+
+/**
+ * Write an analysis into a `PgnNotation`: `[%eval]` comments from White's point of view and
+ * move assessment NAGs. Other annotations of the moves are kept.
+ */
+export function writeGameAnalysisToPgn(
+  notation: PgnNotation,
+  analysis: GameAnalysisResult,
+  options: GameAnalysisAnnotationOptions = {},
+): void {
+  const { evaluations = true, nags = true } = options;
+
+  for (const move of analysis.moves) {
+    const isWhite = move.color === 'w';
+    const existing = notation.getMoveAnnotations(move.moveNumber, isWhite) ?? {};
+    const next = { ...existing };
+
+    if (evaluations) {
+      next.evaluation = formatEvaluation(move.evaluation);
+    }
+    const nag = CLASSIFICATION_NAGS[move.classification];
+    if (nags && nag !== undefined) {
+      next.nags = [...(existing.nags ?? []).filter((code) => !MOVE_ASSESSMENT_NAGS.has(code)), nag];
+    }
+
+    notation.addMoveAnnotations(move.moveNumber, isWhite, next);
+  }
+}
+
+/**
+ * Evaluates every position of a game with an engine and classifies each move by the centipawns
+ * it loses against the engine's evaluation. Positions are analysed one at a time.
+ */
+export class GameAnalyzer {
+  constructor(
+    private readonly engine: GameAnalysisEngine,
+    private readonly options: GameAnalyzerOptions = {},
+  ) {}
+
+  /**
+   * Analyse a list of SAN or UCI moves played from `initialFen`
+   */
+  async analyzeMoves(
+    moves: readonly string[],
+    initialFen: string = START_FEN,
+    bus: EventBus<BoardEventMap> | undefined = this.options.bus,
+  ): Promise<GameAnalysisResult> {
+    const chess = new Chess(initialFen);
+    const played = moves.map((move) => {
+      try {
+        return chess.move(move);
+      } catch (error) {
+        throw new PgnParseError(`Cannot analyse illegal move "${move}".`, 'PGN_IMPORT_FAILED', {
+          cause: error,
+          details: { san: move, ply: chess.history().length + 1 },
+        });
+      }
+    });
+
+    return this.analyzePlayedMoves(initialFen, played, bus);
+  }
+
+  /**
+   * Analyse the mainline of a PGN game
+   */
+  async analyzePgn(pgn: string): Promise<GameAnalysisResult> {
+    const chess = new Chess();
+    try {
+      chess.loadPgn(pgn);
+    } catch (error) {
+      throw new PgnParseError('Cannot read the PGN to analyse.', 'PGN_IMPORT_FAILED', {
+        cause: error,
+      });
+    }
+
+    const played = chess.history({ verbose: true });
+    return this.analyzePlayedMoves(played[0]?.before ?? chess.fen(), played, this.options.bus);
+  }
+
+  /**
+   * Analyse the moves played on a board, emitting progress on the board's event bus.
+   * Results are written into the board's `PgnNotation` unless `annotate` is `false`.
+   */
+  async analyzeBoard(
+    board: NeoChessBoard,
+    options: AnalyzeBoardOptions = {},
+  ): Promise<GameAnalysisResult> {
+    const [initialFen = board.getCurrentFEN()] = board.getPositionHistory();
+    const result = await this.analyzeMoves(board.getMoveHistory(), initialFen, board.bus);
+
+    const notation = options.annotate === false ? null : board.getPgnNotation();
+    if (notation) {
+      writeGameAnalysisToPgn(notation, result);
+    }
+    return result;
+  }
+
+  private async analyzePlayedMoves(
+    initialFen: string,
+    played: readonly ChessJsMove[],
+    bus: EventBus<BoardEventMap> | undefined,
+  ): Promise<GameAnalysisResult> {
+    bus?.emit('analysis:start', { initialFen, total: played.length });
+
+    const initial = await this.evaluatePosition(initialFen);
+    const moves: AnalyzedMove[] = [];
+    let before = initial;
+
+    for (const [index, move] of played.entries()) {
+      const after = await this.evaluatePosition(move.after);
+      const analyzed = this.buildAnalyzedMove(index + 1, move, before, after);
+      moves.push(analyzed);
+      bus?.emit('analysis:progress', {
+        move: analyzed,
+        completed: index + 1,
+        total: played.length,
+      });
+      before = after;
+    }
+
+    const result: GameAnalysisResult = { initialFen, initialEvaluation: initial.score, moves };
+    bus?.emit('analysis:complete', result);
+    return result;
+  }
+
+  private buildAnalyzedMove(
+    ply: number,
+    move: ChessJsMove,
+    before: PositionEvaluation,
+    after: PositionEvaluation,
+  ): AnalyzedMove {
+    const uci = toUci(move);
+    const swing = clampEvaluation(before.centipawns) - clampEvaluation(after.centipawns);
+    const centipawnLoss = Math.max(0, move.color === 'w' ? swing : -swing);
+
+    return {
+      ply,
+      moveNumber: Number.parseInt(move.before.split(' ')[5] ?? '1', 10),
+      color: move.color,
+      san: move.san,
+      uci,
+      fenBefore: move.before,
+      fenAfter: move.after,
+      bestMove: before.bestMove,
+      bestSan: before.bestMove ? uciToSan(move.before, before.bestMove) : null,
+      evaluation: after.score,
+      centipawnLoss,
+      classification: classifyMove(centipawnLoss, this.options.thresholds, before.bestMove === uci),
+    };
+  }
+
+  private async evaluatePosition(fen: string): Promise<PositionEvaluation> {
+    const chess = new Chess(fen);
+    const sign = chess.turn() === 'w' ? 1 : -1;
+
+    if (chess.isCheckmate()) {
+      return {
+        score: { type: 'mate', value: 0 },
+        centipawns: -sign * MATE_SCORE_CP,
+        bestMove: null,
+      };
+    }
+    if (chess.isGameOver()) {
+      return { score: { type: 'cp', value: 0 }, centipawns: 0, bestMove: null };
+    }
+
+    const request: EngineAnalysisRequest = {
+      fen,
+      depth: this.options.depth,
+      movetimeMs: this.options.movetimeMs,
+      multiPv: 1,
+    };
+    // A search the engine failed or did not finish in time gets a second try before the
+    // analysis gives up, so one slow position does not lose the plies already analysed
+    const analysis = await this.engine.analyze(request).catch(() => this.engine.analyze(request));
+    // Engines report the score from the side to move; an engine without info lines counts as 0
+    const score = analysis.lines[0]?.score ?? { type: 'cp', value: 0 };
+    const centipawns =
+      score.type === 'cp'
+        ? score.value
+        : Math.sign(score.value) * (MATE_SCORE_CP - Math.abs(score.value));
+
+    return {
+      score: { type: score.type, value: sign * score.value },
+      centipawns: sign * centipawns,
+      bestMove: analysis.bestMove ?? null,
+    };
+  }
+}
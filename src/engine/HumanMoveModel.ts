@@ -0,0 +1,209 @@
+import { fenStringToPositionObject } from '../core/utils';
+import { scoreToCentipawns } from './EvaluationModel';
+import type { EngineAnalysisResult } from './types';
+
+/**
+ * Playing strength: what the engine is limited to and how far from its best line the player
+ * strays. Lines come from a MultiPV search; `temperatureCp` spreads the choice among them.
+ */
+export interface AIPlayingLevel {
+  /** Elo sent with `UCI_LimitStrength`; a range picks one value per game */
+  readonly elo?: number | readonly [number, number];
+  readonly skillLevel?: number;
+  readonly depth?: number;
+  readonly movetimeMs?: number;
+  /** Candidate moves analysed (default 1) */
+  readonly multiPv?: number;
+  /** Candidates losing more than this against the best line are never played (default 0) */
+  readonly maxLossCp?: number;
+  /** Loss at which a candidate is `e` times less likely than the best one; 0 always plays it */
+  readonly temperatureCp?: number;
+}
+
+export interface AITimePressure {
+  /** Remaining clock time under which the player hurries */
+  readonly thresholdMs: number;
+  readonly temperatureFactor: number;
+  readonly maxLossCp: number;
+}
+
+/**
+ * Style applied on top of a level
+ */
+export interface AIPersonality {
+  /** Centipawns credited to captures and promotions when comparing candidates */
+  readonly captureBonusCp: number;
+  /** Multiplier of the level's temperature */
+  readonly temperatureFactor: number;
+  /** Multiplier of the think time */
+  readonly thinkTimeFactor: number;
+  readonly timePressure?: AITimePressure;
+}
+
+export type AIPersonalityName = 'balanced' | 'aggressive' | 'solid' | 'nervous';
+
+export interface ThinkTimeOptions {
+  /** Think time without a running clock (default 1500) */
+  readonly baseMs?: number;
+  readonly minMs?: number;
+  readonly maxMs?: number;
+}
+
+export interface ThinkTimeContext extends ThinkTimeOptions {
+  /** Full move number of the position */
+  readonly moveNumber: number;
+  /** Clock of the side to move, when one is running */
+  readonly clock?: { readonly remainingMs: number; readonly incrementMs: number };
+  readonly personality?: AIPersonality;
+  readonly random?: () => number;
+}
+
+export interface HumanMoveChoiceOptions {
+  readonly level?: AIPlayingLevel;
+  readonly personality?: AIPersonality;
+  /** Remaining clock time of the side to move, for the personality's time pressure */
+  readonly remainingMs?: number;
+  readonly random?: () => number;
+}
+
+/**
+ * Levels 1 (beginner) to 8 (full strength), each one stronger, deeper and less random
+ */
+export const AI_LEVELS: readonly AIPlayingLevel[] = [
+  { skillLevel: 0, depth: 1, multiPv: 5, maxLossCp: 600, temperatureCp: 250 },
+  { skillLevel: 3, depth: 2, multiPv: 4, maxLossCp: 400, temperatureCp: 150 },
+  { skillLevel: 6, depth: 3, multiPv: 4, maxLossCp: 250, temperatureCp: 100 },
+  { skillLevel: 9, depth: 5, multiPv: 3, maxLossCp: 150, temperatureCp: 60 },
+  { skillLevel: 12, depth: 7, multiPv: 3, maxLossCp: 100, temperatureCp: 35 },
+  { skillLevel: 15, depth: 9, multiPv: 2, maxLossCp: 60, temperatureCp: 20 },
+  { skillLevel: 18, depth: 11, multiPv: 2, maxLossCp: 30, temperatureCp: 10 },
+  { skillLevel: 20, depth: 12, multiPv: 1, maxLossCp: 0, temperatureCp: 0 },
+];
+
+export const AI_PERSONALITIES: Readonly<Record<AIPersonalityName, AIPersonality>> = {
+  balanced: { captureBonusCp: 0, temperatureFactor: 1, thinkTimeFactor: 1 },
+  /** Goes for captures and promotions, and plays fast */
+  aggressive: { captureBonusCp: 40, temperatureFactor: 1.2, thinkTimeFactor: 0.8 },
+  /** Sticks to the engine's choice, avoids trades and takes its time */
+  solid: { captureBonusCp: -15, temperatureFactor: 0.5, thinkTimeFactor: 1.25 },
+  /** Plays well until its clock runs low, then hurries and blunders */
+  nervous: {
+    captureBonusCp: 0,
+    temperatureFactor: 1,
+    thinkTimeFactor: 1,
+    timePressure: { thresholdMs: 30_000, temperatureFactor: 4, maxLossCp: 600 },
+  },
+};
+
+const DEFAULT_BASE_THINK_TIME_MS = 1500;
+const DEFAULT_MIN_THINK_TIME_MS = 300;
+const DEFAULT_MAX_THINK_TIME_MS = 30_000;
+/** Spread of the log-normal think time */
+const THINK_TIME_SIGMA = 0.5;
+/** Moves played quickly as "book" moves */
+const OPENING_MOVES = 8;
+
+/**
+ * Level `1`-`8` from `AI_LEVELS`, or a custom level as is
+ */
+export function resolveAIPlayingLevel(level: number | AIPlayingLevel): AIPlayingLevel {
+  if (typeof level !== 'number') return level;
+  const index = Math.min(AI_LEVELS.length, Math.max(1, Math.round(level))) - 1;
+  return AI_LEVELS[index];
+}
+
+/**
+ * Elo of the level, drawn uniformly from a range
+ */
+export function resolveAIElo(
+  elo: AIPlayingLevel['elo'],
+  random: () => number = Math.random,
+): number | undefined {
+  if (elo === undefined || typeof elo === 'number') return elo;
+  const [min, max] = elo[0] <= elo[1] ? elo : [elo[1], elo[0]];
+  return Math.round(min + random() * (max - min));
+}
+
+function isForcing(fen: string, move: string): boolean {
+  const target = move.slice(2, 4);
+  return move.length > 4 || target in fenStringToPositionObject(fen);
+}
+
+/**
+ * Pick a move among the MultiPV lines of `result` the way a player of the level would: the best
+ * line is the likeliest, weaker lines less so the more they lose, and none losing more than
+ * `maxLossCp`.
+ */
+export function chooseHumanMove(
+  result: EngineAnalysisResult,
+  options: HumanMoveChoiceOptions = {},
+): string | null {
+  const { level = {}, personality = AI_PERSONALITIES.balanced, random = Math.random } = options;
+  const pressure =
+    personality.timePressure &&
+    options.remainingMs !== undefined &&
+    options.remainingMs < personality.timePressure.thresholdMs
+      ? personality.timePressure
+      : null;
+
+  const candidates = result.lines
+    .filter((line) => line.pv.length > 0)
+    .map((line) => {
+      const move = line.pv[0];
+      const bonus = isForcing(result.fen, move) ? personality.captureBonusCp : 0;
+      return { move, value: scoreToCentipawns(line.score) + bonus };
+    });
+  if (candidates.length === 0) return result.bestMove ?? null;
+
+  const best = Math.max(...candidates.map((candidate) => candidate.value));
+  const maxLoss = Math.max(level.maxLossCp ?? 0, pressure?.maxLossCp ?? 0);
+  const temperature =
+    (level.temperatureCp ?? 0) * personality.temperatureFactor * (pressure?.temperatureFactor ?? 1);
+  const playable = candidates.filter((candidate) => best - candidate.value <= maxLoss);
+
+  if (temperature <= 0 || playable.length === 1) {
+    return playable.find((candidate) => candidate.value === best)?.move ?? playable[0].move;
+  }
+
+  const weights = playable.map((candidate) => Math.exp((candidate.value - best) / temperature));
+  let pick = random() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (const [index, candidate] of playable.entries()) {
+    pick -= weights[index];
+    if (pick < 0) return candidate.move;
+  }
+  return playable.at(-1)?.move ?? null;
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * How long a player takes over a move, log-normally distributed around a budget: the remaining
+ * clock time shared over the moves still to play plus most of the increment, or `baseMs` without
+ * a clock. Opening moves are played faster and a player never spends more than a quarter of
+ * their remaining time.
+ */
+export function computeThinkTime(context: ThinkTimeContext): number {
+  const { clock, personality = AI_PERSONALITIES.balanced, random = Math.random } = context;
+  const minMs = context.minMs ?? DEFAULT_MIN_THINK_TIME_MS;
+  let maxMs = context.maxMs ?? DEFAULT_MAX_THINK_TIME_MS;
+
+  let budget = context.baseMs ?? DEFAULT_BASE_THINK_TIME_MS;
+  if (clock) {
+    const movesLeft = Math.max(10, 40 - Math.min(context.moveNumber, 30));
+    budget = clock.remainingMs / movesLeft + clock.incrementMs * 0.8;
+    maxMs = Math.min(maxMs, clock.remainingMs / 4);
+  }
+  if (context.moveNumber <= OPENING_MOVES) {
+    budget /= 2;
+  }
+
+  const sample = budget * Math.exp(THINK_TIME_SIGMA * gaussian(random) - THINK_TIME_SIGMA ** 2 / 2);
+  const thinkTime = sample * personality.thinkTimeFactor;
+  return Math.round(Math.max(Math.min(minMs, maxMs), Math.min(maxMs, thinkTime)));
+}
@@ -0,0 +1,116 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
+import { UciEngine } from './UciEngine';
+import type { EngineCreateOptions, EngineTransport } from './types';
+
+export interface NodeProcessTransportOptions {
+  /** Path of the engine binary, e.g. `/usr/local/bin/stockfish` */
+  readonly command: string;
+  readonly args?: readonly string[];
+  readonly cwd?: string;
+  readonly env?: Readonly<Record<string, string | undefined>>;
+  /** Delay before the process is killed when it ignores `quit` (default 1000) */
+  readonly quitTimeoutMs?: number;
+}
+
+const DEFAULT_QUIT_TIMEOUT_MS = 1000;
+
+/**
+ * Engine transport spawning a local UCI binary and talking to it over stdio, for Node.js scripts,
+ * servers and tests. Import it from the `neo-chess-board/node` entry point.
+ */
+export class NodeProcessTransport implements EngineTransport {
+  private readonly process: ChildProcessWithoutNullStreams;
+  private listeners: Array<(message: string) => void> = [];
+  private errorListeners: Array<(error: ErrorEvent | MessageEvent) => void> = [];
+  /** Incomplete last line of stdout */
+  private buffer = '';
+  private terminated = false;
+
+  constructor(private readonly options: NodeProcessTransportOptions) {
+    this.process = spawn(options.command, [...(options.args ?? [])], {
+      cwd: options.cwd,
+      env: options.env ? { ...options.env } : undefined,
+      stdio: 'pipe',
+    });
+    this.process.stdout.setEncoding('utf8');
+    this.process.stdout.on('data', (chunk: string) => this.handleOutput(chunk));
+    this.process.on('error', (error) => this.emitError(error));
+    this.process.on('exit', (code, signal) => {
+      if (this.terminated) return;
+      const reason = signal ?? `code ${code}`;
+      this.emitError(
+        new Error(`Engine process "${options.command}" exited unexpectedly (${reason})`),
+      );
+    });
+    // Writes racing the exit of the process must not crash the host
+    this.process.stdin.on('error', (error) => this.emitError(error));
+  }
+
+  /** Process id of the engine, once spawned */
+  get pid(): number | undefined {
+    return this.process.pid;
+  }
+
+  onMessage(callback: (message: string) => void): void {
+    this.listeners.push(callback);
+  }
+
+  onError(callback: (error: ErrorEvent | MessageEvent) => void): void {
+    this.errorListeners.push(callback);
+  }
+
+  postMessage(message: string): void {
+    if (this.terminated || !this.process.stdin.writable) return;
+    this.process.stdin.write(`${message}\n`);
+  }
+
+  /**
+   * Send `quit` and kill the process if it is still running after `quitTimeoutMs`
+   */
+  terminate(): void {
+    if (this.terminated) return;
+    this.terminated = true;
+    this.listeners = [];
+    this.errorListeners = [];
+
+    if (this.process.exitCode !== null || this.process.signalCode !== null) return;
+    if (this.process.stdin.writable) {
+      this.process.stdin.end('quit\n');
+    }
+    const timer = setTimeout(() => {
+      if (this.process.exitCode === null && this.process.signalCode === null) {
+        this.process.kill();
+      }
+    }, this.options.quitTimeoutMs ?? DEFAULT_QUIT_TIMEOUT_MS);
+    this.process.once('exit', () => clearTimeout(timer));
+  }
+
+  private handleOutput(chunk: string): void {
+    const lines = (this.buffer + chunk).split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const message = line.trim();
+      if (!message) continue;
+      this.listeners.forEach((listener) => listener(message));
+    }
+  }
+
+  private emitError(error: Error): void {
+    const event = new MessageEvent('error', { data: error });
+    this.errorListeners.forEach((listener) => listener(event));
+  }
+}
+
+/**
+ * `UciEngine` running a local binary, e.g. `createNodeEngine('/usr/bin/stockfish', { threads: 4 })`
+ */
+export function createNodeEngine(
+  command: string,
+  options: EngineCreateOptions & Omit<NodeProcessTransportOptions, 'command'> = {},
+): UciEngine {
+  const { args, cwd, env, quitTimeoutMs, ...engineOptions } = options;
+  return new UciEngine({
+    ...engineOptions,
+    transportFactory: () => new NodeProcessTransport({ command, args, cwd, env, quitTimeoutMs }),
+  });
+}
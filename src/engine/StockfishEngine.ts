@@ -1,29 +1,26 @@
 import { Chess } from 'chess.js';
-import { EventBus } from '../core/EventBus';
-import {
-  buildGoCommand,
-  buildPositionCommand,
-  buildUciCommand,
-  parseBestMove,
-  parseInfo,
-} from './UCIProtocol';
-import type {
-  EngineAnalysisRequest,
-  EngineAnalysisResult,
-  EngineCreateOptions,
-  EngineEventMap,
-  EngineLine,
-  EngineTransport,
-} from './types';
-
-const DEFAULT_THROTTLE_MS = 150;
-const DEFAULT_STOP_TIMEOUT_MS = 1500;
+import type { EngineCreateOptions, EngineTransport } from './types';
+import { UciEngine } from './UciEngine';
+
+const MOCK_MAX_DEPTH = 30;
+const MOCK_OPTIONS = [
+  'option name Threads type spin default 1 min 1 max 1024',
+  'option name Hash type spin default 16 min 1 max 33554432',
+  'option name MultiPV type spin default 1 min 1 max 500',
+  'option name Skill Level type spin default 20 min 0 max 20',
+  'option name UCI_Chess960 type check default false',
+  'option name UCI_LimitStrength type check default false',
+  'option name UCI_Elo type spin default 1320 min 1320 max 3190',
+];
 
 class MockStockfishTransport implements EngineTransport {
   private listeners: Array<(message: string) => void> = [];
   private errorListeners: Array<(error: ErrorEvent | MessageEvent) => void> = [];
   private fen: string = 'startpos';
   private disposed = false;
+  private searchTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Best move of the running search, reported when it ends */
+  private pendingBestMove: string | null = null;
 
   onMessage(callback: (message: string) => void): void {
     this.listeners.push(callback);
@@ -35,23 +32,29 @@ class MockStockfishTransport implements EngineTransport {
 
   postMessage(message: string): void {
     if (this.disposed) return;
-    this.handleMessage(message).catch((error) => {
+    try {
+      this.handleMessage(message);
+    } catch (error) {
       this.errorListeners.forEach((listener) =>
         listener(new MessageEvent('error', { data: error })),
       );
-    });
+    }
   }
 
   terminate(): void {
     this.disposed = true;
+    if (this.searchTimer) clearTimeout(this.searchTimer);
+    this.searchTimer = null;
+    this.pendingBestMove = null;
     this.listeners = [];
     this.errorListeners = [];
   }
 
-  private async handleMessage(message: string): Promise<void> {
+  private handleMessage(message: string): void {
     const [command] = message.split(' ');
     if (command === 'uci') {
       this.emit('id name mock-stockfish');
+      MOCK_OPTIONS.forEach((option) => this.emit(option));
       this.emit('uciok');
       return;
     }
@@ -67,25 +70,46 @@ class MockStockfishTransport implements EngineTransport {
       return;
     }
     if (command === 'go') {
-      await this.simulateSearch();
+      this.startSearch(message.split(' ').includes('infinite'));
       return;
     }
     if (command === 'stop') {
-      this.emit('bestmove 0000');
+      this.finishSearch();
     }
   }
 
-  private async simulateSearch(): Promise<void> {
+  private startSearch(infinite: boolean): void {
     const chess = new Chess(this.fen);
     const moves = chess.moves({ verbose: true });
     const best = moves[0];
     const moveString = best ? `${best.from}${best.to}${best.promotion ?? ''}` : '0000';
     const score = this.evaluateMaterial(chess);
-    const infoLine = `info depth 12 score cp ${score} pv ${moveString}`;
-    await new Promise((resolve) => setTimeout(resolve, 30));
-    this.emit(infoLine);
-    await new Promise((resolve) => setTimeout(resolve, 40));
-    this.emit(`bestmove ${moveString}`);
+    const info = (depth: number) => `info depth ${depth} score cp ${score} pv ${moveString}`;
+    this.pendingBestMove = moveString;
+
+    if (!infinite) {
+      this.searchTimer = setTimeout(() => {
+        this.emit(info(12));
+        this.searchTimer = setTimeout(() => this.finishSearch(), 40);
+      }, 30);
+      return;
+    }
+
+    // Deepen until stopped, then wait for `stop` like a real engine
+    const deepen = (depth: number) => {
+      this.emit(info(depth));
+      this.searchTimer = depth < MOCK_MAX_DEPTH ? setTimeout(() => deepen(depth + 1), 30) : null;
+    };
+    this.searchTimer = setTimeout(() => deepen(1), 30);
+  }
+
+  private finishSearch(): void {
+    if (this.searchTimer) clearTimeout(this.searchTimer);
+    this.searchTimer = null;
+    const move = this.pendingBestMove;
+    if (move === null) return;
+    this.pendingBestMove = null;
+    this.emit(`bestmove ${move}`);
   }
 
   private evaluateMaterial(chess: Chess): number {
@@ -106,148 +130,11 @@ class MockStockfishTransport implements EngineTransport {
   }
 }
 
-export class StockfishEngine {
-  private readonly bus = new EventBus<EngineEventMap>();
-  private readonly options: EngineCreateOptions;
-  private transport: EngineTransport | null = null;
-  private ready = false;
-  private currentRequest: EngineAnalysisRequest | null = null;
-  private latestLines = new Map<number, EngineLine>();
-  private stopTimer: ReturnType<typeof setTimeout> | null = null;
-  private lastEmit = 0;
-
+export class StockfishEngine extends UciEngine {
   constructor(options: EngineCreateOptions = {}) {
-    this.options = options;
-  }
-
-  async init(): Promise<void> {
-    if (this.ready && this.transport) return;
-    this.transport = (this.options.transportFactory ?? (() => new MockStockfishTransport()))();
-    this.transport.onMessage((message) => this.handleMessage(message));
-    this.transport.onError((error) => {
-      this.bus.emit('error', { message: 'Engine transport error', cause: error });
+    super({
+      ...options,
+      transportFactory: options.transportFactory ?? (() => new MockStockfishTransport()),
     });
-    await new Promise<void>((resolve) => {
-      const dispose = this.on('ready', () => {
-        dispose();
-        resolve();
-      });
-      this.transport?.postMessage('uci');
-      this.transport?.postMessage('isready');
-    });
-
-    // Configure Chess960 after engine is ready
-    if (this.options.variant === 'chess960') {
-      this.setOption('UCI_Chess960', true);
-    }
-  }
-
-  on<K extends keyof EngineEventMap>(
-    event: K,
-    handler: (payload: EngineEventMap[K]) => void,
-  ): () => void {
-    return this.bus.on(event, handler);
-  }
-
-  setOption(name: string, value: string | number | boolean): void {
-    this.transport?.postMessage(buildUciCommand('setoption name', name, 'value', value));
-  }
-
-  async analyze(request: EngineAnalysisRequest): Promise<EngineAnalysisResult> {
-    await this.init();
-    this.currentRequest = request;
-    this.latestLines.clear();
-
-    this.transport?.postMessage(buildPositionCommand(request.fen, request.limitMoves));
-    this.transport?.postMessage(
-      buildGoCommand({
-        depth: request.depth ?? this.options.depth,
-        movetimeMs: request.movetimeMs,
-        multiPv: request.multiPv ?? this.options.multiPv,
-      }),
-    );
-
-    return new Promise<EngineAnalysisResult>((resolve, reject) => {
-      const disposeError = this.on('error', (err) => {
-        disposeAll();
-        reject(new Error(err.message));
-      });
-      const disposeResult = this.on('bestmove', (payload) => {
-        disposeAll();
-        resolve(this.buildResult(payload.move, payload.ponder));
-      });
-      const stopGuard = setTimeout(() => {
-        disposeAll();
-        reject(new Error('Engine timeout'));
-      }, this.options.stopTimeoutMs ?? DEFAULT_STOP_TIMEOUT_MS);
-
-      const disposeAll = () => {
-        clearTimeout(stopGuard);
-        disposeError();
-        disposeResult();
-      };
-    });
-  }
-
-  async getBestMove(fen: string, movetimeMs?: number): Promise<string | null> {
-    const result = await this.analyze({ fen, movetimeMs, multiPv: 1 });
-    return result.bestMove ?? null;
-  }
-
-  stop(reason?: string): void {
-    this.transport?.postMessage('stop');
-    if (this.stopTimer) clearTimeout(this.stopTimer);
-    this.stopTimer = setTimeout(() => {
-      this.bus.emit('stopped', { reason });
-    }, this.options.stopTimeoutMs ?? DEFAULT_STOP_TIMEOUT_MS);
-  }
-
-  terminate(): void {
-    this.transport?.terminate();
-    this.transport = null;
-    this.ready = false;
-  }
-
-  private handleMessage(message: string): void {
-    if (message === 'uciok' || message === 'readyok') {
-      if (!this.ready) {
-        this.ready = true;
-        this.bus.emit('ready', { options: { ...this.options } });
-      }
-      return;
-    }
-
-    const info = parseInfo(message);
-    if (info) {
-      this.latestLines.set(info.id, info);
-      const now = Date.now();
-      if (now - this.lastEmit >= (this.options.throttleMs ?? DEFAULT_THROTTLE_MS)) {
-        this.lastEmit = now;
-        this.bus.emit('info', info);
-        this.bus.emit('result', this.buildResult());
-      }
-      return;
-    }
-
-    const bestMove = parseBestMove(message);
-    if (bestMove && this.currentRequest) {
-      const payload = {
-        move: bestMove.move,
-        ponder: bestMove.ponder,
-        fen: this.currentRequest.fen,
-      };
-      this.bus.emit('bestmove', payload);
-      this.bus.emit('result', this.buildResult(bestMove.move, bestMove.ponder));
-    }
-  }
-
-  private buildResult(bestMove?: string, ponder?: string): EngineAnalysisResult {
-    const lines = [...this.latestLines.values()].sort((a, b) => a.id - b.id);
-    return {
-      fen: this.currentRequest?.fen ?? '',
-      lines,
-      bestMove,
-      ponder,
-    };
   }
 }
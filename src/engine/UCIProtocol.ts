@@ -1,4 +1,4 @@
-import type { EngineLine } from './types';
+import type { EngineLine, UciEngineInfo, UciOption } from './types';
 
 const INFO_REGEX = /info\s+(.*)/;
 const DEPTH_REGEX = /depth\s+(\d+)/;
@@ -10,6 +10,9 @@ const NPS_REGEX = /nps\s+(\d+)/;
 const NODES_REGEX = /nodes\s+(\d+)/;
 const TIME_REGEX = /time\s+(\d+)/;
 const BESTMOVE_REGEX = /^bestmove\s+(\S+)(?:\s+ponder\s+(\S+))?/;
+const ID_REGEX = /^id\s+(name|author)\s+(.+)$/;
+const OPTION_REGEX = /^option\s+name\s+(.+?)\s+type\s+(check|spin|combo|button|string)\b(.*)$/;
+const OPTION_KEYWORDS = new Set(['default', 'min', 'max', 'var']);
 
 export function buildUciCommand(
   command: string,
@@ -33,17 +36,23 @@ export function buildGoCommand({
   depth,
   movetimeMs,
   multiPv,
+  infinite,
 }: {
   depth?: number;
   movetimeMs?: number;
   multiPv?: number;
+  infinite?: boolean;
 }): string {
   const segments: string[] = ['go'];
-  if (typeof depth === 'number') {
-    segments.push('depth', depth.toString());
-  }
-  if (typeof movetimeMs === 'number') {
-    segments.push('movetime', movetimeMs.toString());
+  if (infinite) {
+    segments.push('infinite');
+  } else {
+    if (typeof depth === 'number') {
+      segments.push('depth', depth.toString());
+    }
+    if (typeof movetimeMs === 'number') {
+      segments.push('movetime', movetimeMs.toString());
+    }
   }
   if (typeof multiPv === 'number') {
     segments.push('multipv', multiPv.toString());
@@ -94,3 +103,67 @@ export function parseBestMove(line: string): { move: string; ponder?: string } |
   const [, move, ponder] = match;
   return { move, ponder: ponder || undefined };
 }
+
+export function parseId(line: string): Partial<Pick<UciEngineInfo, 'name' | 'author'>> | null {
+  const match = ID_REGEX.exec(line.trim());
+  if (!match) return null;
+  const [, field, value] = match;
+  return field === 'name' ? { name: value.trim() } : { author: value.trim() };
+}
+
+/**
+ * Parse an `option name ... type ...` line. Names and values may contain spaces; the keywords
+ * `default`, `min`, `max` and `var` separate the fields.
+ */
+export function parseOption(line: string): UciOption | null {
+  const match = OPTION_REGEX.exec(line.trim());
+  if (!match) return null;
+  const [, name, type, rest] = match;
+
+  const fields: { default?: string; min?: string; max?: string } = {};
+  const vars: string[] = [];
+  let keyword: string | null = null;
+  let words: string[] = [];
+  const flush = () => {
+    const value = words.join(' ');
+    if (keyword === 'var') {
+      vars.push(value);
+    } else if (keyword === 'default' || keyword === 'min' || keyword === 'max') {
+      fields[keyword] = value === '<empty>' ? '' : value;
+    }
+    words = [];
+  };
+  for (const token of rest.trim().split(/\s+/).filter(Boolean)) {
+    if (OPTION_KEYWORDS.has(token)) {
+      flush();
+      keyword = token;
+    } else {
+      words.push(token);
+    }
+  }
+  flush();
+
+  switch (type) {
+    case 'check': {
+      return { name, type, default: fields.default === 'true' };
+    }
+    case 'spin': {
+      return {
+        name,
+        type,
+        default: Number(fields.default ?? 0),
+        min: Number(fields.min ?? Number.MIN_SAFE_INTEGER),
+        max: Number(fields.max ?? Number.MAX_SAFE_INTEGER),
+      };
+    }
+    case 'combo': {
+      return { name, type, default: fields.default ?? vars.at(0) ?? '', vars };
+    }
+    case 'button': {
+      return { name, type };
+    }
+    default: {
+      return { name, type: 'string', default: fields.default ?? '' };
+    }
+  }
+}
@@ -0,0 +1,458 @@
+import { EngineOptionError } from '../core/errors';
+import { EventBus } from '../core/EventBus';
+import type { Variant } from '../core/types';
+import { EngineAnalysisStream } from './EngineAnalysisStream';
+import {
+  buildGoCommand,
+  buildPositionCommand,
+  buildUciCommand,
+  parseBestMove,
+  parseId,
+  parseInfo,
+  parseOption,
+} from './UCIProtocol';
+import type {
+  EngineAnalysisRequest,
+  EngineAnalysisResult,
+  EngineCreateOptions,
+  EngineEventMap,
+  EngineTransport,
+  UciEngineInfo,
+  UciOption,
+  UciOptionValue,
+} from './types';
+
+const DEFAULT_THROTTLE_MS = 150;
+const DEFAULT_STOP_TIMEOUT_MS = 1500;
+const DEFAULT_HANDSHAKE_TIMEOUT_MS = 30_000;
+
+export interface UciEngineOptions extends EngineCreateOptions {
+  readonly transportFactory: () => EngineTransport;
+}
+
+interface EngineSearch {
+  readonly request: EngineAnalysisRequest;
+  readonly stream: EngineAnalysisStream;
+  /** A newer search replaced this one; its output is no longer reported */
+  superseded: boolean;
+  /** Fails the search when the engine does not answer `bestmove` in time */
+  guard: ReturnType<typeof setTimeout> | null;
+}
+
+/** `UCI_Variant` values of multi-variant engines such as Fairy-Stockfish */
+const UCI_VARIANT_NAMES: Partial<Record<Variant, string>> = {
+  crazyhouse: 'crazyhouse',
+  threecheck: '3check',
+  kingofthehill: 'kingofthehill',
+  racingkings: 'racingkings',
+  atomic: 'atomic',
+  antichess: 'antichess',
+};
+
+function describeOption(option: UciOption): string {
+  switch (option.type) {
+    case 'check': {
+      return 'a boolean';
+    }
+    case 'spin': {
+      return `an integer from ${option.min} to ${option.max}`;
+    }
+    case 'combo': {
+      return `one of ${option.vars.join(', ')}`;
+    }
+    case 'button': {
+      return 'no value';
+    }
+    default: {
+      return 'a string';
+    }
+  }
+}
+
+function isValidOptionValue(option: UciOption, value: UciOptionValue | undefined): boolean {
+  switch (option.type) {
+    case 'check': {
+      return typeof value === 'boolean';
+    }
+    case 'spin': {
+      return (
+        typeof value === 'number' &&
+        Number.isInteger(value) &&
+        value >= option.min &&
+        value <= option.max
+      );
+    }
+    case 'combo': {
+      return (
+        typeof value === 'string' &&
+        option.vars.some((choice) => choice.toLowerCase() === value.toLowerCase())
+      );
+    }
+    case 'button': {
+      return value === undefined;
+    }
+    default: {
+      return typeof value === 'string';
+    }
+  }
+}
+
+function validateOptionValue(option: UciOption, value: UciOptionValue | undefined): void {
+  if (!isValidOptionValue(option, value)) {
+    const expected = describeOption(option);
+    throw new EngineOptionError(
+      `Invalid value ${JSON.stringify(value)} for engine option "${option.name}": expected ${expected}.`,
+      'ENGINE_INVALID_OPTION_VALUE',
+      { details: { option: option.name, value, expected } },
+    );
+  }
+}
+
+/**
+ * Drives any engine speaking UCI through an `EngineTransport`: the `uci` handshake, the option
+ * schema the engine advertises, and analysis searches. `StockfishEngine` is a `UciEngine` with a
+ * Stockfish default transport; other engines (Lc0, Komodo, a custom bot) only need their own.
+ */
+export class UciEngine {
+  private readonly bus = new EventBus<EngineEventMap>();
+  private readonly options: UciEngineOptions;
+  private transport: EngineTransport | null = null;
+  private ready = false;
+  private identity: Partial<Pick<UciEngineInfo, 'name' | 'author'>> = {};
+  /** Advertised options by lowercase name, UCI names being case-insensitive */
+  private readonly schema = new Map<string, UciOption>();
+  /** Options set before the handshake, sent once the schema is known */
+  private readonly pendingOptions = new Map<string, UciOptionValue | undefined>();
+  private initializing: Promise<void> | null = null;
+  /** Rejects the handshake in progress, when the engine fails or is terminated while starting */
+  private abortHandshake: ((error: Error) => void) | null = null;
+  /** Searches sent to the engine, oldest first, awaiting their `bestmove` */
+  private searches: EngineSearch[] = [];
+  private stopTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastEmit = 0;
+
+  constructor(options: UciEngineOptions) {
+    this.options = options;
+  }
+
+  async init(): Promise<void> {
+    if (this.ready && this.transport) return;
+    if (!this.initializing) {
+      const initializing = this.connect().finally(() => {
+        if (this.initializing === initializing) this.initializing = null;
+      });
+      this.initializing = initializing;
+    }
+    return this.initializing;
+  }
+
+  on<K extends keyof EngineEventMap>(
+    event: K,
+    handler: (payload: EngineEventMap[K]) => void,
+  ): () => void {
+    return this.bus.on(event, handler);
+  }
+
+  /**
+   * Name, author and options reported by the engine, empty until `init` resolves
+   */
+  getInfo(): UciEngineInfo {
+    return { ...this.identity, options: [...this.schema.values()] };
+  }
+
+  getOption(name: string): UciOption | undefined {
+    return this.schema.get(name.toLowerCase());
+  }
+
+  /**
+   * Send `setoption`. Once the engine has advertised its options, unknown names and values
+   * outside the schema throw an `EngineOptionError`. Buttons take no value. Options set before
+   * `init` are sent after the handshake.
+   */
+  setOption(name: string, value?: UciOptionValue): void {
+    if (!this.ready) {
+      this.pendingOptions.set(name, value);
+      return;
+    }
+    if (this.schema.size > 0) {
+      const option = this.schema.get(name.toLowerCase());
+      if (!option) {
+        throw new EngineOptionError(`Engine has no option "${name}".`, 'ENGINE_UNKNOWN_OPTION', {
+          details: { option: name, value },
+        });
+      }
+      validateOptionValue(option, value);
+    }
+    this.transport?.postMessage(
+      value === undefined
+        ? buildUciCommand('setoption name', name)
+        : buildUciCommand('setoption name', name, 'value', value),
+    );
+  }
+
+  async analyze(request: EngineAnalysisRequest): Promise<EngineAnalysisResult> {
+    await this.init();
+    return this.analyzeStream(request).result;
+  }
+
+  /**
+   * Start a search and stream its lines as the depth increases. Starting another search stops
+   * this one, so following the board only takes a new call per position. The search fails with
+   * `Engine timeout` when the engine has not answered `stopTimeoutMs` after its movetime ran out
+   * or after it was stopped; searches bounded by depth alone run as long as the engine needs.
+   */
+  analyzeStream(request: EngineAnalysisRequest): EngineAnalysisStream {
+    const search: EngineSearch = {
+      request,
+      stream: new EngineAnalysisStream(request.fen, {
+        throttleMs: this.options.throttleMs ?? DEFAULT_THROTTLE_MS,
+        onStop: () => this.stopSearch(search),
+      }),
+      superseded: false,
+      guard: null,
+    };
+    void this.startSearch(search);
+    return search.stream;
+  }
+
+  async getBestMove(fen: string, movetimeMs?: number): Promise<string | null> {
+    const result = await this.analyze({ fen, movetimeMs, multiPv: 1 });
+    return result.bestMove ?? null;
+  }
+
+  stop(reason?: string): void {
+    this.transport?.postMessage('stop');
+    if (this.stopTimer) clearTimeout(this.stopTimer);
+    this.stopTimer = setTimeout(() => {
+      this.bus.emit('stopped', { reason });
+    }, this.stopTimeoutMs());
+  }
+
+  terminate(): void {
+    this.transport?.terminate();
+    this.transport = null;
+    this.ready = false;
+    this.initializing = null;
+    this.abortHandshake?.(new Error('Engine terminated'));
+    this.failSearches(new Error('Engine terminated'));
+  }
+
+  private async connect(): Promise<void> {
+    this.identity = {};
+    this.schema.clear();
+    const transport = this.options.transportFactory();
+    this.transport = transport;
+    transport.onMessage((message) => this.handleMessage(message));
+    transport.onError((error) => {
+      this.bus.emit('error', { message: 'Engine transport error', cause: error });
+      this.abortHandshake?.(new Error('Engine transport error', { cause: error }));
+      this.failSearches(new Error('Engine transport error'));
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(() => {
+          this.abortHandshake?.(new Error('Engine handshake timeout'));
+        }, this.options.handshakeTimeoutMs ?? DEFAULT_HANDSHAKE_TIMEOUT_MS);
+        const dispose = this.on('ready', () => {
+          settle();
+          resolve();
+        });
+        const settle = () => {
+          clearTimeout(timeout);
+          dispose();
+          this.abortHandshake = null;
+        };
+        this.abortHandshake = (error) => {
+          settle();
+          reject(error);
+        };
+        transport.postMessage('uci');
+        transport.postMessage('isready');
+      });
+    } catch (error) {
+      // Drop the engine that failed, the next `init` starts a new one
+      if (this.transport === transport) {
+        transport.terminate();
+        this.transport = null;
+      }
+      throw new Error('Engine failed to start', { cause: error });
+    }
+
+    this.configure();
+  }
+
+  /**
+   * Send the configured options once the engine is ready. The shorthand options are skipped when
+   * the engine does not advertise them; an engine without a schema receives them all.
+   */
+  private configure(): void {
+    const { threads, hash, skillLevel, elo, variant } = this.options;
+    const shorthand: Array<[string, UciOptionValue | undefined]> = [
+      ['Threads', threads],
+      ['Hash', hash],
+      ['Skill Level', skillLevel],
+      ['UCI_LimitStrength', elo === undefined ? undefined : true],
+      ['UCI_Elo', elo],
+      ['UCI_Chess960', variant === 'chess960' ? true : undefined],
+      ['UCI_Variant', variant ? UCI_VARIANT_NAMES[variant] : undefined],
+    ];
+    for (const [name, value] of shorthand) {
+      if (value === undefined) continue;
+      const option = this.getOption(name);
+      if (option?.type === 'spin' && typeof value === 'number') {
+        this.setOption(name, Math.min(option.max, Math.max(option.min, value)));
+      } else if (option || this.schema.size === 0) {
+        this.setOption(name, value);
+      }
+    }
+
+    for (const [name, value] of Object.entries(this.options.uciOptions ?? {})) {
+      this.setOption(name, value);
+    }
+    const pending = [...this.pendingOptions];
+    this.pendingOptions.clear();
+    for (const [name, value] of pending) {
+      this.setOption(name, value);
+    }
+  }
+
+  private async startSearch(search: EngineSearch): Promise<void> {
+    try {
+      await this.init();
+    } catch (error) {
+      search.stream.fail(error instanceof Error ? error : new Error('Engine failed to start'));
+      return;
+    }
+    // Stopped while the engine was starting
+    if (search.stream.isDone) return;
+
+    for (const previous of this.searches) {
+      if (!previous.superseded) {
+        previous.superseded = true;
+        this.sendStop(previous);
+      }
+    }
+    this.searches.push(search);
+
+    const { request } = search;
+    this.transport?.postMessage(buildPositionCommand(request.fen, request.limitMoves));
+    this.transport?.postMessage(
+      buildGoCommand({
+        depth: request.depth ?? this.options.depth,
+        movetimeMs: request.movetimeMs,
+        multiPv: request.multiPv ?? this.options.multiPv,
+        infinite: request.infinite,
+      }),
+    );
+    if (request.movetimeMs !== undefined && !request.infinite) {
+      this.armGuard(search, request.movetimeMs + this.stopTimeoutMs());
+    }
+  }
+
+  private stopSearch(search: EngineSearch): void {
+    if (!this.searches.includes(search)) {
+      search.stream.finish();
+      return;
+    }
+    if (!search.superseded) {
+      this.sendStop(search);
+    }
+  }
+
+  private sendStop(search: EngineSearch): void {
+    this.transport?.postMessage('stop');
+    this.armGuard(search, this.stopTimeoutMs());
+  }
+
+  private armGuard(search: EngineSearch, delayMs: number): void {
+    this.clearGuard(search);
+    search.guard = setTimeout(() => {
+      search.guard = null;
+      search.stream.fail(new Error('Engine timeout'));
+    }, delayMs);
+  }
+
+  private clearGuard(search: EngineSearch): void {
+    if (search.guard) clearTimeout(search.guard);
+    search.guard = null;
+  }
+
+  private stopTimeoutMs(): number {
+    return this.options.stopTimeoutMs ?? DEFAULT_STOP_TIMEOUT_MS;
+  }
+
+  private failSearches(error: Error): void {
+    for (const search of this.searches.splice(0)) {
+      this.clearGuard(search);
+      search.stream.fail(error);
+    }
+  }
+
+  private handleMessage(message: string): void {
+    if (message === 'uciok' || message === 'readyok') {
+      if (!this.ready) {
+        this.ready = true;
+        this.bus.emit('ready', { options: { ...this.options }, engine: this.getInfo() });
+      }
+      return;
+    }
+
+    // `id` and `option` lines precede `uciok`
+    const option = parseOption(message);
+    if (option) {
+      this.schema.set(option.name.toLowerCase(), option);
+      return;
+    }
+    const identity = parseId(message);
+    if (identity) {
+      this.identity = { ...this.identity, ...identity };
+      return;
+    }
+
+    // The engine answers searches in order, so the oldest one owns the output
+    const search = this.searches.at(0);
+
+    const info = parseInfo(message);
+    if (info) {
+      if (!search) return;
+      search.stream.push(info);
+      if (search.superseded) return;
+      const now = Date.now();
+      if (now - this.lastEmit >= (this.options.throttleMs ?? DEFAULT_THROTTLE_MS)) {
+        this.lastEmit = now;
+        this.bus.emit('info', info);
+        this.bus.emit('result', this.buildResult(search));
+      }
+      return;
+    }
+
+    const bestMove = parseBestMove(message);
+    if (bestMove && search) {
+      this.searches.shift();
+      this.clearGuard(search);
+      search.stream.finish(bestMove.move, bestMove.ponder);
+      if (search.superseded) return;
+      const payload = {
+        move: bestMove.move,
+        ponder: bestMove.ponder,
+        fen: search.request.fen,
+      };
+      this.bus.emit('bestmove', payload);
+      this.bus.emit('result', this.buildResult(search, bestMove.move, bestMove.ponder));
+    }
+  }
+
+  private buildResult(
+    search: EngineSearch,
+    bestMove?: string,
+    ponder?: string,
+  ): EngineAnalysisResult {
+    return {
+      fen: search.request.fen,
+      lines: search.stream.getLines(),
+      bestMove,
+      ponder,
+    };
+  }
+}
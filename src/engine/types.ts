@@ -1,3 +1,5 @@
+import type { Variant } from '../core/types';
+
 export type EngineScoreType = 'cp' | 'mate';
 
 export interface EngineScore {
@@ -15,7 +17,8 @@ export interface EngineOptionMap {
   readonly wasmUrl?: string;
   readonly moves?: string[];
   readonly debug?: boolean;
-  readonly variant?: 'standard' | 'chess960';
+  /** Sent as `UCI_Chess960`, or `UCI_Variant` for the variants of multi-variant engines */
+  readonly variant?: Variant;
 }
 
 export interface EngineAnalysisRequest {
@@ -24,6 +27,8 @@ export interface EngineAnalysisRequest {
   readonly movetimeMs?: number;
   readonly multiPv?: number;
   readonly limitMoves?: string[];
+  /** Search until stopped (`go infinite`); `depth` and `movetimeMs` are ignored */
+  readonly infinite?: boolean;
 }
 
 export interface EngineLine {
@@ -43,8 +48,76 @@ export interface EngineAnalysisResult {
   readonly ponder?: string;
 }
 
+/**
+ * Snapshot streamed while a search runs
+ */
+export interface EngineAnalysisUpdate extends EngineAnalysisResult {
+  /** Lines whose depth, score or principal variation changed since the previous update */
+  readonly changed: EngineLine[];
+  /** Deepest depth reached by the lines */
+  readonly depth: number;
+  /** `true` for the last update of the search, which carries the best move */
+  readonly done: boolean;
+}
+
+export type UciOptionValue = string | number | boolean;
+
+export interface UciCheckOption {
+  readonly name: string;
+  readonly type: 'check';
+  readonly default: boolean;
+}
+
+export interface UciSpinOption {
+  readonly name: string;
+  readonly type: 'spin';
+  readonly default: number;
+  readonly min: number;
+  readonly max: number;
+}
+
+export interface UciComboOption {
+  readonly name: string;
+  readonly type: 'combo';
+  readonly default: string;
+  readonly vars: string[];
+}
+
+export interface UciButtonOption {
+  readonly name: string;
+  readonly type: 'button';
+}
+
+export interface UciStringOption {
+  readonly name: string;
+  readonly type: 'string';
+  readonly default: string;
+}
+
+/**
+ * Option advertised by an engine during the `uci` handshake
+ */
+export type UciOption =
+  | UciCheckOption
+  | UciSpinOption
+  | UciComboOption
+  | UciButtonOption
+  | UciStringOption;
+
+export type UciOptionType = UciOption['type'];
+
+/**
+ * Identity and option schema reported by an engine in reply to `uci`
+ */
+export interface UciEngineInfo {
+  readonly name?: string;
+  readonly author?: string;
+  readonly options: UciOption[];
+}
+
 export interface EngineReadyEvent {
   readonly options: EngineOptionMap;
+  readonly engine: UciEngineInfo;
 }
 
 export interface EngineErrorEvent {
@@ -83,6 +156,68 @@ export interface EngineTransport {
 
 export interface EngineCreateOptions extends EngineOptionMap {
   readonly transportFactory?: () => EngineTransport;
+  /** Options sent with `setoption` after the handshake, checked against the engine's schema */
+  readonly uciOptions?: Readonly<Record<string, UciOptionValue>>;
   readonly throttleMs?: number;
+  /** Time the engine has to answer `bestmove` once its movetime ran out or it was stopped */
   readonly stopTimeoutMs?: number;
+  /** Time the engine has to answer the `uci` and `isready` handshake (default 30 s) */
+  readonly handshakeTimeoutMs?: number;
+}
+
+export type MoveClassification = 'best' | 'excellent' | 'inaccuracy' | 'mistake' | 'blunder';
+
+/**
+ * Centipawn loss at which a move is classified; `best` is the largest loss still counted as best
+ */
+export interface MoveClassificationThresholds {
+  readonly best: number;
+  readonly inaccuracy: number;
+  readonly mistake: number;
+  readonly blunder: number;
+}
+
+export interface AnalyzedMove {
+  /** 1-based ply within the analysed game */
+  readonly ply: number;
+  readonly moveNumber: number;
+  readonly color: 'w' | 'b';
+  readonly san: string;
+  readonly uci: string;
+  readonly fenBefore: string;
+  readonly fenAfter: string;
+  /** Engine move in the position before the move, in UCI notation */
+  readonly bestMove: string | null;
+  readonly bestSan: string | null;
+  /** Evaluation after the move from White's point of view; `mate 0` once the game is over by mate */
+  readonly evaluation: EngineScore;
+  readonly centipawnLoss: number;
+  readonly classification: MoveClassification;
+}
+
+export interface GameAnalysisResult {
+  readonly initialFen: string;
+  /** Evaluation of the starting position from White's point of view */
+  readonly initialEvaluation: EngineScore;
+  readonly moves: AnalyzedMove[];
+}
+
+export interface GameAnalysisProgressEvent {
+  readonly move: AnalyzedMove;
+  readonly completed: number;
+  readonly total: number;
+}
+
+export interface GameAnalysisEventMap {
+  'analysis:start': { initialFen: string; total: number };
+  'analysis:progress': GameAnalysisProgressEvent;
+  'analysis:complete': GameAnalysisResult;
+}
+
+/**
+ * Board events emitted by the engine extension
+ */
+export interface EngineBoardEventMap {
+  'engine:update': EngineAnalysisUpdate;
+  'engine:result': EngineAnalysisResult;
 }
@@ -0,0 +1,78 @@
+import type { ExtensionContext, Square } from '../core/types';
+
+const MIN_WIDTH = 4;
+const MAX_WIDTH = 14;
+
+export interface WeightedArrow {
+  readonly from: Square;
+  readonly to: Square;
+  /** Weight of the move relative to the heaviest one, from 0 to 1 */
+  readonly share: number;
+  readonly label?: string;
+}
+
+/**
+ * Arrows for the candidate moves of the current position, thicker and more opaque the heavier
+ * the move, shared by the opening book and opening explorer extensions. `render` runs once per
+ * new position and the overlay removes its own arrows before each redraw.
+ */
+export class WeightedArrowOverlay {
+  private cleanup: Array<() => void> = [];
+  private arrows: Array<[Square, Square]> = [];
+  private renderedFen: string | null = null;
+
+  constructor(
+    private readonly context: ExtensionContext<unknown>,
+    private readonly name: string,
+    private readonly render: (fen: string) => void,
+  ) {}
+
+  start(): void {
+    const { bus } = this.context;
+    const update = () => this.update();
+    this.cleanup.push(bus.on('move', update), bus.on('update', update));
+    this.update();
+  }
+
+  destroy(): void {
+    for (const dispose of this.cleanup.splice(0)) {
+      try {
+        dispose();
+      } catch (error) {
+        console.error(`[neo-chess-board] ${this.name} extension cleanup failed`, error);
+      }
+    }
+    this.clear();
+  }
+
+  draw(moves: readonly WeightedArrow[], color: string): void {
+    this.clear();
+    // The heaviest move is drawn last so that it stays on top
+    for (let index = moves.length - 1; index >= 0; index--) {
+      const { from, to, share, label } = moves[index];
+      this.context.board.addArrow({
+        from,
+        to,
+        color,
+        width: MIN_WIDTH + (MAX_WIDTH - MIN_WIDTH) * share,
+        opacity: 0.35 + 0.55 * share,
+        label,
+      });
+      this.arrows.push([from, to]);
+    }
+  }
+
+  clear(): void {
+    for (const [from, to] of this.arrows.splice(0)) {
+      this.context.board.removeArrow(from, to);
+    }
+  }
+
+  private update(): void {
+    const fen = this.context.board.getCurrentFEN();
+    // A move emits both `move` and `update`
+    if (fen === this.renderedFen) return;
+    this.renderedFen = fen;
+    this.render(fen);
+  }
+}
@@ -24,6 +24,11 @@ export interface ClockExtensionOptions {
   showTenths?: boolean;
   highlightActive?: boolean;
   flagIcon?: string;
+  /**
+   * While the clock is not running, show the `[%clk]` times recorded in the loaded PGN
+   * for the current ply. Defaults to true.
+   */
+  showRecordedTimes?: boolean;
   onReady?: (api: ClockExtensionApi) => void;
 }
 
@@ -61,6 +66,25 @@ function defaultFormatTime(milliseconds: number, showTenths: boolean): string {
   return base;
 }
 
+function createRecordedClockState(): ClockState {
+  const side = {
+    initial: 0,
+    increment: 0,
+    delay: 0,
+    remaining: 0,
+    delayRemaining: 0,
+    isFlagged: false,
+  };
+  return {
+    white: { ...side },
+    black: { ...side },
+    active: null,
+    isRunning: false,
+    isPaused: true,
+    lastUpdatedAt: null,
+  };
+}
+
 function resolveLabels(options?: ClockExtensionOptions): { w: string; b: string } {
   const labels = options?.labels;
   if (!labels) {
@@ -161,12 +185,16 @@ class ClockDisplayExtension implements Extension<ClockExtensionOptions> {
     const handlePause = () => {
       this.render(this.state);
     };
+    const handleUpdate = () => {
+      this.render(this.state);
+    };
 
     this.cleanup.push(
       this.context.bus.on('clock:change', handleChange),
       this.context.bus.on('clock:flag', handleFlag),
       this.context.bus.on('clock:start', handleStart),
       this.context.bus.on('clock:pause', handlePause),
+      this.context.bus.on('update', handleUpdate),
     );
 
     const api: ClockExtensionApi = {
@@ -183,8 +211,8 @@ class ClockDisplayExtension implements Extension<ClockExtensionOptions> {
     const initialState = this.context.board.getClockState();
     if (initialState) {
       this.state = initialState;
-      this.render(initialState);
     }
+    this.render(this.state);
   }
 
   onDestroy(): void {
@@ -199,7 +227,29 @@ class ClockDisplayExtension implements Extension<ClockExtensionOptions> {
     this.elements = null;
   }
 
-  private render(state: ClockState | null): void {
+  /**
+   * Replace the live remaining times with the ones recorded in the PGN for the current ply.
+   */
+  private resolveDisplayedState(state: ClockState | null): ClockState | null {
+    if (this.context.options?.showRecordedTimes === false || state?.isRunning) {
+      return state;
+    }
+
+    const recorded = this.context.board.getRecordedClockTimes();
+    if (!recorded) {
+      return state;
+    }
+
+    const base = state ?? createRecordedClockState();
+    return {
+      ...base,
+      white: { ...base.white, remaining: recorded.w ?? base.white.remaining },
+      black: { ...base.black, remaining: recorded.b ?? base.black.remaining },
+    };
+  }
+
+  private render(liveState: ClockState | null): void {
+    const state = this.resolveDisplayedState(liveState);
     if (!this.elements || !state) {
       return;
     }
@@ -1,12 +1,41 @@
+import {
+  AI_PERSONALITIES,
+  chooseHumanMove,
+  computeThinkTime,
+  resolveAIElo,
+  resolveAIPlayingLevel,
+  type AIPersonality,
+  type AIPersonalityName,
+  type AIPlayingLevel,
+  type ThinkTimeOptions,
+} from '../engine/HumanMoveModel';
+import type { PolyglotBook } from '../core/Polyglot';
 import { StockfishEngine } from '../engine/StockfishEngine';
+import type { UciEngine } from '../engine/UciEngine';
 import type { EngineCreateOptions } from '../engine/types';
 import type { ExtensionConfig, ExtensionContext, PromotionPiece, Square } from '../core/types';
 
 export interface AIPlayerExtensionOptions {
   readonly engine?: EngineCreateOptions;
+  /** Engine to use instead of Stockfish, e.g. a `UciEngine` over another engine's transport */
+  readonly createEngine?: () => UciEngine;
   readonly aiColor?: 'white' | 'black';
   readonly movetimeMs?: number;
   readonly depth?: number;
+  /**
+   * Level `1`-`8` of `AI_LEVELS` or a custom level. Its Elo and skill level configure the default
+   * Stockfish engine; an engine from `createEngine` keeps its own strength settings.
+   */
+  readonly level?: number | AIPlayingLevel;
+  readonly personality?: AIPersonalityName | AIPersonality;
+  /** Wait like a player before moving, using the clock when one is running (default: move at once) */
+  readonly thinkTime?: boolean | ThinkTimeOptions;
+  /** Opening book whose moves are played before asking the engine */
+  readonly book?: PolyglotBook;
+  /** Last full move number the book is consulted for (default: while the position is in book) */
+  readonly maxBookMoves?: number;
+  /** Random source of the move choice and think time, e.g. a seeded generator (default `Math.random`) */
+  readonly random?: () => number;
   readonly onMoveStart?: () => void;
   readonly onMoveComplete?: (move: string) => void;
   readonly onError?: (error: Error) => void;
@@ -34,19 +63,91 @@ export function createAIPlayerExtension(
     id: id ?? 'ai-player',
     options,
     create(context: ExtensionContext<AIPlayerExtensionOptions>) {
-      const engine = new StockfishEngine(options.engine);
+      const random = options.random ?? Math.random;
+      const level = options.level === undefined ? null : resolveAIPlayingLevel(options.level);
+      const personality =
+        typeof options.personality === 'string'
+          ? AI_PERSONALITIES[options.personality]
+          : options.personality;
+      let thinkTime: ThinkTimeOptions | null = null;
+      if (options.thinkTime === true) {
+        thinkTime = {};
+      } else if (options.thinkTime) {
+        thinkTime = options.thinkTime;
+      }
+      const humanLike = level !== null || personality !== undefined;
+
+      const engine =
+        options.createEngine?.() ??
+        new StockfishEngine({
+          variant: context.board.getVariant(),
+          ...options.engine,
+          ...(level?.skillLevel === undefined ? {} : { skillLevel: level.skillLevel }),
+          ...(level?.elo === undefined ? {} : { elo: resolveAIElo(level.elo, random) }),
+        });
       let disposed = false;
       let thinking = false;
 
+      const getClock = (turn: 'w' | 'b') => {
+        const state = context.board.getClockState();
+        if (!state?.isRunning || state.isPaused) return;
+        const side = turn === 'w' ? state.white : state.black;
+        return { remainingMs: side.remaining, incrementMs: side.increment };
+      };
+
+      const chooseMove = async (
+        fen: string,
+        moveNumber: number,
+        remainingMs: number | undefined,
+      ) => {
+        if (options.book && moveNumber <= (options.maxBookMoves ?? Infinity)) {
+          const bookMove = options.book.pickMove(fen, { random });
+          if (bookMove) return bookMove.uci;
+        }
+
+        const movetimeMs = level?.movetimeMs ?? options.movetimeMs ?? 400;
+        if (!humanLike) {
+          return engine.getBestMove(fen, movetimeMs);
+        }
+        const result = await engine.analyze({
+          fen,
+          depth: level?.depth ?? options.depth,
+          movetimeMs: level?.depth === undefined ? movetimeMs : level.movetimeMs,
+          multiPv: level?.multiPv ?? 1,
+        });
+        return chooseHumanMove(result, { level: level ?? {}, personality, remainingMs, random });
+      };
+
       const triggerAIMove = async (fen: string) => {
         if (disposed || thinking) return;
         thinking = true;
         options.onMoveStart?.();
         try {
-          const move = await engine.getBestMove(fen, options.movetimeMs ?? 400);
+          const startedAt = Date.now();
+          const turn = context.board.getTurn();
+          const clock = getClock(turn);
+          const moveNumber = Number.parseInt(fen.split(' ').at(5) ?? '1', 10) || 1;
+          const move = await chooseMove(fen, moveNumber, clock?.remainingMs);
           if (!move) throw new Error('Engine did not return a move');
           const parsed = parseUciMove(move);
           if (!parsed) throw new Error(`Invalid engine move: ${move}`);
+
+          if (thinkTime) {
+            const delay = computeThinkTime({
+              ...thinkTime,
+              moveNumber,
+              clock,
+              personality,
+              random,
+            });
+            const remaining = delay - (Date.now() - startedAt);
+            if (remaining > 0) {
+              await new Promise((resolve) => setTimeout(resolve, remaining));
+            }
+          }
+          // The game moved on while the engine was thinking
+          if (disposed || context.board.getCurrentFEN() !== fen) return;
+
           context.board.attemptMove(parsed.from, parsed.to, { promotion: parsed.promotion });
           options.onMoveComplete?.(move);
         } catch (error) {
@@ -1,16 +1,27 @@
 import { StockfishEngine } from '../engine/StockfishEngine';
-import type { EngineAnalysisResult, EngineCreateOptions } from '../engine/types';
+import type { UciEngine } from '../engine/UciEngine';
+import type {
+  EngineAnalysisResult,
+  EngineAnalysisUpdate,
+  EngineCreateOptions,
+} from '../engine/types';
 import type { ExtensionConfig, ExtensionContext } from '../core/types';
 
 export interface EngineExtensionOptions {
   readonly engine?: EngineCreateOptions;
+  /** Engine to use instead of Stockfish, e.g. a `UciEngine` over another engine's transport */
+  readonly createEngine?: () => UciEngine;
   readonly autoStart?: boolean;
   readonly depth?: number;
   readonly movetimeMs?: number;
   readonly multiPv?: number;
+  /** Analyse each position until the board moves on (`go infinite`) */
+  readonly infinite?: boolean;
+  /** Throttled lines of the running search, also emitted as the `engine:update` board event */
+  readonly onUpdate?: (update: EngineAnalysisUpdate) => void;
   readonly onResult?: (result: EngineAnalysisResult) => void;
   readonly onError?: (error: Error) => void;
-  readonly onReady?: (engine: StockfishEngine) => void;
+  readonly onReady?: (engine: UciEngine) => void;
 }
 
 export interface EngineExtensionConfig extends EngineExtensionOptions {
@@ -24,27 +35,44 @@ export function createEngineExtension(
   return {
     id: id ?? 'engine-analysis',
     options,
-    create(_context: ExtensionContext<EngineExtensionOptions>) {
-      const engine = new StockfishEngine(options.engine);
+    create(context: ExtensionContext<EngineExtensionOptions>) {
+      const engine =
+        options.createEngine?.() ??
+        new StockfishEngine({ variant: context.board.getVariant(), ...options.engine });
       let disposed = false;
       let lastFen: string | null = null;
 
-      const analyze = async (fen: string) => {
+      // A new search stops the previous one, whose late output is ignored
+      const analyze = (fen: string) => {
+        if (fen === lastFen) return;
         lastFen = fen;
-        try {
-          const result = await engine.analyze({
-            fen,
-            depth: options.depth,
-            movetimeMs: options.movetimeMs,
-            multiPv: options.multiPv,
-          });
+        const stream = engine.analyzeStream({
+          fen,
+          depth: options.depth,
+          movetimeMs: options.movetimeMs,
+          multiPv: options.multiPv,
+          infinite: options.infinite,
+        });
+
+        stream.subscribe((update) => {
           if (disposed || lastFen !== fen) return;
-          options.onResult?.(result);
-        } catch (error) {
-          if (disposed) return;
-          const asError = error instanceof Error ? error : new Error('Engine analysis failed');
-          options.onError?.(asError);
-        }
+          options.onUpdate?.(update);
+          context.bus.emit('engine:update', update);
+        });
+        stream.result.then(
+          (result) => {
+            if (disposed || lastFen !== fen) return;
+            options.onResult?.(result);
+            context.bus.emit('engine:result', result);
+          },
+          (error: unknown) => {
+            if (disposed) return;
+            // A failed search may be retried on the same position
+            if (lastFen === fen) lastFen = null;
+            const asError = error instanceof Error ? error : new Error('Engine analysis failed');
+            options.onError?.(asError);
+          },
+        );
       };
 
       return {
@@ -52,14 +80,14 @@ export function createEngineExtension(
           await engine.init();
           options.onReady?.(engine);
           if (options.autoStart !== false) {
-            void analyze(ctx.board.getCurrentFEN());
+            analyze(ctx.board.getCurrentFEN());
           }
 
           ctx.registerExtensionPoint('move', ({ fen }) => {
-            void analyze(fen);
+            analyze(fen);
           });
           ctx.registerExtensionPoint('update', ({ fen }) => {
-            void analyze(fen);
+            analyze(fen);
           });
         },
         onDestroy() {
@@ -0,0 +1,215 @@
+import './evaluation-bar.css';
+import type { Extension, ExtensionConfig, ExtensionContext, Square } from '../core/types';
+import { summarizeEvaluation, type EvaluationSummary } from '../engine/EvaluationModel';
+import type { EngineAnalysisResult, EngineLine } from '../engine/types';
+
+export interface EvaluationBarExtensionOptions {
+  /** Show the evaluation bar (default `true`) */
+  showBar?: boolean;
+  /** Draw the principal variations as numbered arrows (default `true`) */
+  showBestLine?: boolean;
+  /** Number of moves of each principal variation drawn (default `3`) */
+  maxPvMoves?: number;
+  /** Arrow colours of the MultiPV lines, the first one for the best line */
+  lineColors?: string[];
+  /** Side of the board the bar is placed on (default `'left'`) */
+  position?: 'left' | 'right';
+  formatScore?: (summary: EvaluationSummary) => string;
+}
+
+export interface EvaluationBarExtensionConfig extends EvaluationBarExtensionOptions {
+  id?: string;
+}
+
+interface EvaluationBarElements {
+  container: HTMLDivElement;
+  fill: HTMLDivElement;
+  score: HTMLSpanElement;
+}
+
+const DEFAULT_LINE_COLORS = [
+  'rgba(0, 120, 60, 0.9)',
+  'rgba(30, 90, 200, 0.8)',
+  'rgba(220, 140, 0, 0.8)',
+  'rgba(150, 60, 180, 0.8)',
+];
+
+const DEFAULT_MAX_PV_MOVES = 3;
+
+/**
+ * Score from White's point of view: pawns with a sign, or `M3` / `-M3` for mates
+ */
+function defaultFormatScore({ score, winPercent }: EvaluationSummary): string {
+  if (score.type === 'mate') {
+    return `${winPercent < 50 ? '-' : ''}M${Math.abs(score.value)}`;
+  }
+  const pawns = (score.value / 100).toFixed(1);
+  return score.value > 0 ? `+${pawns}` : pawns;
+}
+
+function parseUciSquares(move: string): [Square, Square] | null {
+  const match = /^([a-h][1-8])([a-h][1-8])/.exec(move);
+  return match ? [match[1] as Square, match[2] as Square] : null;
+}
+
+class EvaluationBarExtension implements Extension<EvaluationBarExtensionOptions> {
+  private elements: EvaluationBarElements | null = null;
+  private cleanup: Array<() => void> = [];
+  /** Arrows drawn for the principal variations, removed before each redraw */
+  private arrows: Array<[Square, Square]> = [];
+  private displayedFen: string | null = null;
+
+  constructor(private readonly context: ExtensionContext<EvaluationBarExtensionOptions>) {}
+
+  onInit(): void {
+    const { board, bus, options } = this.context;
+
+    if (options.showBar !== false) {
+      const root = board.getRootElement();
+      const doc = root.ownerDocument;
+
+      const container = doc.createElement('div');
+      container.className = 'neo-eval-bar';
+      container.dataset.position = options.position ?? 'left';
+      container.dataset.orientation = board.getOrientation();
+      container.dataset.advantage = 'w';
+
+      const fill = doc.createElement('div');
+      fill.className = 'neo-eval-bar-fill';
+      fill.style.height = '50%';
+
+      const score = doc.createElement('span');
+      score.className = 'neo-eval-bar-score';
+
+      container.append(fill, score);
+      root.append(container);
+      this.elements = { container, fill, score };
+    }
+
+    const handlePositionChange = ({ fen }: { fen: string }) => {
+      if (this.displayedFen !== null && this.displayedFen !== fen) {
+        this.clearBestLines();
+        this.displayedFen = null;
+      }
+    };
+
+    this.cleanup.push(
+      bus.on('engine:update', (update) => {
+        // The final update is also emitted as `engine:result`
+        if (!update.done) this.render(update);
+      }),
+      bus.on('engine:result', (result) => this.render(result)),
+      bus.on('move', handlePositionChange),
+      bus.on('update', handlePositionChange),
+    );
+  }
+
+  onAfterRender(): void {
+    if (this.elements) {
+      this.elements.container.dataset.orientation = this.context.board.getOrientation();
+    }
+  }
+
+  onDestroy(): void {
+    for (const dispose of this.cleanup.splice(0)) {
+      try {
+        dispose();
+      } catch (error) {
+        console.error('[neo-chess-board] evaluation bar extension cleanup failed', error);
+      }
+    }
+    this.clearBestLines();
+    this.elements?.container.remove();
+    this.elements = null;
+  }
+
+  private render(result: EngineAnalysisResult): void {
+    // Results can arrive after the position changed
+    if (result.fen !== this.context.board.getCurrentFEN()) {
+      return;
+    }
+
+    this.displayedFen = result.fen;
+    const summary = summarizeEvaluation(result);
+    if (summary) {
+      this.renderBar(summary);
+    }
+    if (this.context.options.showBestLine !== false) {
+      this.renderBestLines(result.lines);
+    }
+  }
+
+  private renderBar(summary: EvaluationSummary): void {
+    if (!this.elements) {
+      return;
+    }
+
+    let whiteShare = summary.winPercent;
+    // A forced mate fills the bar; the sigmoid alone would stop short of it
+    if (summary.score.type === 'mate') {
+      whiteShare = summary.winPercent >= 50 ? 100 : 0;
+    }
+    const { container, fill, score } = this.elements;
+    const format = this.context.options.formatScore;
+    let label = defaultFormatScore(summary);
+    if (format) {
+      try {
+        label = format(summary);
+      } catch (error) {
+        console.error('[neo-chess-board] evaluation bar formatScore callback failed', error);
+      }
+    }
+
+    fill.style.height = `${whiteShare}%`;
+    score.textContent = label;
+    container.dataset.advantage = summary.winPercent < 50 ? 'b' : 'w';
+    container.title = label;
+  }
+
+  private renderBestLines(lines: readonly EngineLine[]): void {
+    const { board, options } = this.context;
+    const colors = options.lineColors?.length ? options.lineColors : DEFAULT_LINE_COLORS;
+    const maxMoves = Math.max(0, options.maxPvMoves ?? DEFAULT_MAX_PV_MOVES);
+
+    this.clearBestLines();
+
+    // The best line is drawn last so that it wins where lines share an arrow
+    const sorted = [...lines].sort((a, b) => b.id - a.id);
+    for (const line of sorted) {
+      const color = colors[(line.id - 1) % colors.length] ?? colors[0];
+      for (const [index, move] of line.pv.slice(0, maxMoves).entries()) {
+        const squares = parseUciSquares(move);
+        if (!squares) {
+          break;
+        }
+        const [from, to] = squares;
+        board.addArrow({ from, to, color, label: String(index + 1) });
+        this.arrows.push(squares);
+      }
+    }
+  }
+
+  private clearBestLines(): void {
+    for (const [from, to] of this.arrows.splice(0)) {
+      this.context.board.removeArrow(from, to);
+    }
+  }
+}
+
+/**
+ * Shows the analysis of `createEngineExtension` as it deepens: a vertical evaluation bar beside the board and
+ * the principal variations as numbered arrows, one colour per MultiPV line.
+ */
+export function createEvaluationBarExtension(
+  config: EvaluationBarExtensionConfig = {},
+): ExtensionConfig<EvaluationBarExtensionOptions> {
+  const { id = 'evaluation-bar', ...options } = config;
+
+  return {
+    id,
+    options,
+    create(context) {
+      return new EvaluationBarExtension({ ...context, options });
+    },
+  };
+}
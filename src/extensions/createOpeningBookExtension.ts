@@ -0,0 +1,81 @@
+import type { PolyglotBook, PolyglotMove } from '../core/Polyglot';
+import type { Extension, ExtensionConfig, ExtensionContext } from '../core/types';
+import { WeightedArrowOverlay } from './WeightedArrowOverlay';
+
+export interface OpeningBookExtensionOptions {
+  readonly book: PolyglotBook;
+  /** Book moves drawn, most weighted first (default `5`) */
+  readonly maxMoves?: number;
+  readonly color?: string;
+  /** Label each arrow with the move's share of the book weight, in percent (default `true`) */
+  readonly showPercentages?: boolean;
+  /** Called with the book moves of every new position, `[]` once out of book */
+  readonly onBookMoves?: (moves: PolyglotMove[], fen: string) => void;
+}
+
+export interface OpeningBookExtensionConfig extends OpeningBookExtensionOptions {
+  readonly id?: string;
+}
+
+const DEFAULT_MAX_MOVES = 5;
+const DEFAULT_COLOR = 'rgba(120, 70, 20, 0.9)';
+
+class OpeningBookExtension implements Extension<OpeningBookExtensionOptions> {
+  private readonly overlay: WeightedArrowOverlay;
+
+  constructor(private readonly context: ExtensionContext<OpeningBookExtensionOptions>) {
+    this.overlay = new WeightedArrowOverlay(context, 'opening book', (fen) => this.render(fen));
+  }
+
+  onInit(): void {
+    this.overlay.start();
+  }
+
+  onDestroy(): void {
+    this.overlay.destroy();
+  }
+
+  private render(fen: string): void {
+    const { options } = this.context;
+    const moves = options.book.getMoves(fen);
+
+    const shown = moves.slice(0, Math.max(0, options.maxMoves ?? DEFAULT_MAX_MOVES));
+    const top = shown[0]?.probability ?? 1;
+    this.overlay.draw(
+      shown.map((move) => ({
+        from: move.from,
+        to: move.to,
+        share: top > 0 ? move.probability / top : 1,
+        label:
+          options.showPercentages === false
+            ? undefined
+            : String(Math.round(move.probability * 100)),
+      })),
+      options.color ?? DEFAULT_COLOR,
+    );
+
+    try {
+      options.onBookMoves?.(moves, fen);
+    } catch (error) {
+      console.error('[neo-chess-board] opening book onBookMoves callback failed', error);
+    }
+  }
+}
+
+/**
+ * Draws the book moves of the current position as arrows, thicker and more opaque the more often
+ * the book plays them.
+ */
+export function createOpeningBookExtension(
+  config: OpeningBookExtensionConfig,
+): ExtensionConfig<OpeningBookExtensionOptions> {
+  const { id = 'opening-book', ...options } = config;
+
+  return {
+    id,
+    options,
+    create(context) {
+      return new OpeningBookExtension({ ...context, options });
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import './opening-explorer.css';
+import type {
+  OpeningExplorer,
+  OpeningMoveStats,
+  OpeningPositionStats,
+} from '../core/OpeningExplorer';
+import type { Extension, ExtensionConfig, ExtensionContext } from '../core/types';
+import { WeightedArrowOverlay } from './WeightedArrowOverlay';
+
+export interface OpeningExplorerExtensionOptions {
+  readonly explorer: OpeningExplorer;
+  /** Continuations shown, most played first (default `8`) */
+  readonly maxMoves?: number;
+  /** Show the statistics table (default `true`) */
+  readonly showTable?: boolean;
+  /** Draw the continuations as arrows weighted by frequency (default `true`) */
+  readonly showArrows?: boolean;
+  /** Element the table is appended to, next to the board by default */
+  readonly container?: HTMLElement;
+  readonly color?: string;
+  /** Called with the statistics of every new position, `null` once no game reached it */
+  readonly onPositionStats?: (stats: OpeningPositionStats | null, fen: string) => void;
+}
+
+export interface OpeningExplorerExtensionConfig extends OpeningExplorerExtensionOptions {
+  readonly id?: string;
+}
+
+const DEFAULT_MAX_MOVES = 8;
+const DEFAULT_COLOR = 'rgba(40, 100, 160, 0.9)';
+const COLUMNS = ['Move', 'Games', 'White', 'Draw', 'Black', 'Avg'];
+
+function percent(count: number, games: number): string {
+  return games > 0 ? `${Math.round((count / games) * 100)}%` : '-';
+}
+
+class OpeningExplorerExtension implements Extension<OpeningExplorerExtensionOptions> {
+  private table: HTMLTableElement | null = null;
+  private readonly overlay: WeightedArrowOverlay;
+
+  constructor(private readonly context: ExtensionContext<OpeningExplorerExtensionOptions>) {
+    this.overlay = new WeightedArrowOverlay(context, 'opening explorer', (fen) => this.render(fen));
+  }
+
+  onInit(): void {
+    const { board, options } = this.context;
+
+    if (options.showTable !== false) {
+      const root = board.getRootElement();
+      const table = root.ownerDocument.createElement('table');
+      table.className = 'neo-opening-explorer';
+      table.dataset.placement = options.container ? 'custom' : 'side';
+      table
+        .createTHead()
+        .insertRow()
+        .append(
+          ...COLUMNS.map((column) => {
+            const cell = root.ownerDocument.createElement('th');
+            cell.textContent = column;
+            return cell;
+          }),
+        );
+      table.createTBody();
+      (options.container ?? root).append(table);
+      this.table = table;
+    }
+
+    this.overlay.start();
+  }
+
+  onDestroy(): void {
+    this.overlay.destroy();
+    this.table?.remove();
+    this.table = null;
+  }
+
+  private render(fen: string): void {
+    const { options } = this.context;
+    const stats = options.explorer.getPosition(fen);
+    const shown = (stats?.moves ?? []).slice(0, Math.max(0, options.maxMoves ?? DEFAULT_MAX_MOVES));
+    this.renderTable(shown);
+    if (options.showArrows !== false) {
+      const top = shown[0]?.games ?? 1;
+      this.overlay.draw(
+        shown.map((move) => ({ from: move.from, to: move.to, share: move.games / top })),
+        options.color ?? DEFAULT_COLOR,
+      );
+    }
+
+    try {
+      options.onPositionStats?.(stats, fen);
+    } catch (error) {
+      console.error('[neo-chess-board] opening explorer onPositionStats callback failed', error);
+    }
+  }
+
+  private renderTable(moves: OpeningMoveStats[]): void {
+    const body = this.table?.tBodies[0];
+    if (!body) return;
+
+    body.replaceChildren();
+    for (const move of moves) {
+      const row = body.insertRow();
+      row.dataset.uci = move.uci;
+      const cells = [
+        move.san,
+        String(move.games),
+        percent(move.white, move.games),
+        percent(move.draws, move.games),
+        percent(move.black, move.games),
+        move.averageRating === null ? '-' : String(move.averageRating),
+      ];
+      for (const text of cells) {
+        row.insertCell().textContent = text;
+      }
+    }
+    this.table?.toggleAttribute('data-empty', moves.length === 0);
+  }
+}
+
+/**
+ * Shows how the games of an `OpeningExplorer` continued from the current position: a table of
+ * move frequencies, results and average ratings, and arrows weighted by frequency.
+ */
+export function createOpeningExplorerExtension(
+  config: OpeningExplorerExtensionConfig,
+): ExtensionConfig<OpeningExplorerExtensionOptions> {
+  const { id = 'opening-explorer', ...options } = config;
+
+  return {
+    id,
+    options,
+    create(context) {
+      return new OpeningExplorerExtension({ ...context, options });
+    },
+  };
+}
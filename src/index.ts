@@ -2,8 +2,22 @@ export * from './core/types';
 export * from './core/themes';
 export * from './core/EventBus';
 export * from './core/LightRules';
+export * from './core/Perft';
+export * from './core/CrazyhouseRules';
+export * from './core/AtomicRules';
+export * from './core/AntichessRules';
 export * from './core/ChessJsRules';
+export * from './core/VariantRules';
 export * from './core/PgnNotation';
+export * from './core/PgnNags';
+export * from './core/PgnDatabase';
+export * from './core/OpeningExplorer';
+export * from './core/PgnExportFormat';
+export * from './core/PgnRecovery';
+export * from './core/NotationLocale';
+export * from './core/Epd';
+export * from './core/Polyglot';
+export * from './core/PositionValidation';
 export * from './core/FlatSprites';
 export * from './core/PGN';
 export * from './core/utils';
@@ -20,15 +34,26 @@ export * from './extensions/PromotionDialogExtension';
 export * from './extensions/clockExtension';
 export * from './extensions/createCameraEffectsExtension';
 export * from './extensions/createEngineExtension';
+export * from './extensions/createEvaluationBarExtension';
 export * from './extensions/createAIPlayerExtension';
+export * from './extensions/createOpeningBookExtension';
+export * from './extensions/createOpeningExplorerExtension';
 export * from './core/extensions/AccessibilityExtension';
+export * from './engine/UciEngine';
 export * from './engine/StockfishEngine';
+export * from './engine/EngineAnalysisStream';
+export * from './engine/EnginePool';
 export * from './engine/UCIProtocol';
+export * from './engine/EpdSuiteRunner';
+export * from './engine/GameAnalyzer';
+export * from './engine/EvaluationModel';
+export * from './engine/HumanMoveModel';
 export * from './engine/types';
 // Agents module uses Web Workers and import.meta which is not compatible with Node/Jest ESM transform
 // Re-exporting agents from the main index pulls the module into the Node test environment and
 // causes TypeScript compile errors (import.meta). Keep agents separate to avoid runtime type errors
 // and allow Node-based tests to import core utilities safely. If you need agents in consuming code,
-// import directly from 'neo-chess-board/src/agents' or add a browser-only entry point.
+// import directly from 'neo-chess-board/src/agents' or add a browser-only entry point. Node scripts
+// get the engines and analysis without these modules from the 'neo-chess-board/node' entry point.
 // export * from './agents';
 export * from './utils/chess960';
@@ -0,0 +1,24 @@
+// Node.js entry point: engines, analysis and notation without the canvas board, the React
+// bindings or the Web Worker agents, whose `import.meta.url` worker URLs do not load in Node.
+// The main entry point stays browser-only so that it never pulls in `node:child_process`.
+export * from './core/errors';
+export * from './core/Epd';
+export * from './core/Polyglot';
+export * from './core/OpeningExplorer';
+export * from './core/Perft';
+export * from './core/CrazyhouseRules';
+export * from './core/AtomicRules';
+export * from './core/AntichessRules';
+export * from './core/PgnNotation';
+export * from './core/PositionValidation';
+export * from './engine/UciEngine';
+export * from './engine/StockfishEngine';
+export * from './engine/EngineAnalysisStream';
+export * from './engine/EnginePool';
+export * from './engine/NodeProcessTransport';
+export * from './engine/UCIProtocol';
+export * from './engine/EpdSuiteRunner';
+export * from './engine/GameAnalyzer';
+export * from './engine/EvaluationModel';
+export * from './engine/HumanMoveModel';
+export * from './engine/types';
@@ -0,0 +1,57 @@
+import { ANTICHESS_START_FEN, AntichessRules } from '../../src/core/AntichessRules';
+import { START_FEN } from '../../src/core/utils';
+
+describe('AntichessRules', () => {
+  it('starts without castling rights and drops those of loaded positions', () => {
+    expect(new AntichessRules().getFEN()).toBe(ANTICHESS_START_FEN);
+    expect(new AntichessRules(START_FEN).getFEN()).toBe(ANTICHESS_START_FEN);
+    expect(new AntichessRules('4k3/8/8/8/8/8/8/R3K2R w KQ - 0 1').movesFrom('e1')).toHaveLength(5);
+  });
+
+  it('makes captures compulsory', () => {
+    const rules = new AntichessRules();
+    expect(rules.move('e4').ok).toBe(true);
+    expect(rules.move('b5').ok).toBe(true);
+
+    expect(rules.mustCapture()).toBe(true);
+    expect(rules.getAllMoves().map((move) => `${move.from}${move.to}`)).toEqual(['f1b5']);
+    expect(rules.move({ from: 'd2', to: 'd4' })).toEqual({ ok: false, reason: 'capture required' });
+    expect(rules.move('Bxb5').move).toMatchObject({ san: 'Bxb5', captured: 'p' });
+  });
+
+  it('lets kings be captured and never reports check', () => {
+    const rules = new AntichessRules('4k3/8/8/8/8/8/8/3RK3 w - - 0 1');
+    expect(rules.move('Rd8').ok).toBe(true);
+    expect(rules.inCheck()).toBe(false);
+    // The attacked king is no more than a piece that has to take the rook
+    expect(rules.getAllMoves().map((move) => `${move.from}${move.to}`)).toEqual(['e8d8']);
+    expect(rules.move('Kxd8').ok).toBe(true);
+    expect(rules.pieceAt('d8')).toBe('k');
+  });
+
+  it('wins for the side that loses all its pieces', () => {
+    const rules = new AntichessRules('8/8/8/8/8/8/p7/1R6 b - - 0 1');
+    expect(rules.getAllMoves()).toHaveLength(4);
+    expect(rules.move('axb1=Q').ok).toBe(true);
+
+    expect(rules.getVariantOutcome()).toEqual({ result: '1-0', reason: 'noMovesLeft' });
+    expect(rules.isGameOver()).toBe(true);
+    expect(rules.isStalemate()).toBe(false);
+    expect(rules.getGameResult()).toBe('1-0');
+
+    const pgn = rules.toPgn();
+    expect(pgn).toContain('[Variant "Antichess"]');
+    expect(pgn).toContain('[FEN "8/8/8/8/8/8/p7/1R6 b - - 0 1"]');
+    expect(pgn).toContain('[Result "1-0"]');
+  });
+
+  it('wins for a blocked side and draws when no piece can be taken', () => {
+    const blocked = new AntichessRules('8/8/8/p7/P7/8/8/8 w - - 0 1');
+    expect(blocked.getGameResult()).toBe('1-0');
+
+    const bishops = new AntichessRules('b7/8/8/8/8/8/8/B7 w - - 0 1');
+    expect(bishops.isInsufficientMaterial()).toBe(true);
+    expect(bishops.getGameResult()).toBe('1/2-1/2');
+    expect(new AntichessRules('7b/8/8/8/8/8/8/B7 w - - 0 1').isInsufficientMaterial()).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { AtomicRules } from '../../src/core/AtomicRules';
+import { START_FEN } from '../../src/core/utils';
+
+const play = (rules: AtomicRules, moves: string[]) => {
+  for (const move of moves) {
+    expect(rules.move(move).ok).toBe(true);
+  }
+};
+
+describe('AtomicRules', () => {
+  it('blows up the pieces around a capture and wins by exploding the king', () => {
+    const rules = new AtomicRules();
+    play(rules, ['Nf3', 'a6', 'Ng5', 'a5']);
+
+    const response = rules.move('Nxf7');
+    expect(response.ok).toBe(true);
+    expect(response.move).toMatchObject({
+      san: 'Nxf7#',
+      captured: 'p',
+      exploded: ['f7', 'e8', 'f8', 'g8'],
+    });
+    // Pawns next to the blast survive, the capturing knight does not
+    expect(rules.getFEN()).toBe('rnbq3r/1pppp1pp/8/p7/8/8/PPPPPPPP/RNBQKB1R b KQ - 0 3');
+    expect(rules.getVariantOutcome()).toEqual({ result: '1-0', reason: 'kingExploded' });
+    expect(rules.isGameOver()).toBe(true);
+    expect(rules.getAllMoves()).toEqual([]);
+
+    expect(rules.undo()).toBe(true);
+    expect(rules.getVariantOutcome()).toBeNull();
+  });
+
+  it('centres the explosion of an en passant capture on the landing square', () => {
+    const rules = new AtomicRules('4k3/8/2n5/3pP3/8/8/8/4K3 w - d6 0 1');
+
+    expect(rules.move({ from: 'e5', to: 'd6' }).move?.exploded).toEqual(['d6', 'd5', 'c6']);
+    expect(rules.getFEN()).toBe('4k3/8/8/8/8/8/8/4K3 b - - 0 1');
+  });
+
+  it('forbids king captures and captures that blow up the own king', () => {
+    const rules = new AtomicRules('4k3/8/8/8/8/8/8/R2nK3 w - - 0 1');
+
+    expect(rules.movesFrom('a1').map((move) => move.to)).not.toContain('d1');
+    expect(rules.movesFrom('e1').map((move) => move.to)).not.toContain('d1');
+    expect(rules.move('Rxd1').ok).toBe(false);
+
+    // The king may not take the queen giving check, and every flight square is covered
+    rules.setFEN('4k3/8/8/8/8/8/4q3/4K3 w - - 0 1');
+    expect(rules.inCheck()).toBe(true);
+    expect(rules.isCheckmate()).toBe(true);
+    expect(rules.getGameResult()).toBe('0-1');
+  });
+
+  it('never checks kings that stand next to each other', () => {
+    const rules = new AtomicRules('8/8/8/8/8/4k3/r3K3/r7 w - - 0 1');
+
+    expect(rules.inCheck()).toBe(false);
+    // The king may stay on the attacked second rank while touching the enemy king, but not
+    // step away from it onto the first rank
+    expect(
+      rules
+        .movesFrom('e2')
+        .map((move) => move.to)
+        .sort(),
+    ).toEqual(['d2', 'd3', 'f2', 'f3']);
+    expect(rules.move({ from: 'e2', to: 'e1' }).ok).toBe(false);
+  });
+
+  it('drops castling rights of exploded rooks', () => {
+    const rules = new AtomicRules('r3k3/n7/8/8/8/8/8/R3K2R w KQq - 0 1');
+    play(rules, ['Rxa7']);
+
+    expect(rules.getFEN()).toBe('4k3/8/8/8/8/8/8/4K2R b K - 0 1');
+  });
+
+  it('reads SAN written with extra disambiguation or a promotion without =', () => {
+    const rules = new AtomicRules();
+    expect(rules.move('Ngf3').move?.san).toBe('Nf3');
+    expect(rules.move('Pe7e5').ok).toBe(false);
+
+    rules.setFEN('8/1P6/8/7k/8/8/8/4K3 w - - 0 1');
+    expect(rules.move('b8Q').move).toMatchObject({ san: 'b8=Q', promotion: 'q' });
+    expect(rules.undo()).toBe(true);
+    expect(rules.move('b8').ok).toBe(false);
+    // A king move to a castling square is castling, not a plain king move
+    rules.setFEN('4k3/8/8/8/8/8/8/4K2R w K - 0 1');
+    expect(rules.move('Kg1').ok).toBe(false);
+    expect(rules.move('O-O').ok).toBe(true);
+  });
+
+  it('exports the variant and the result in PGN', () => {
+    const rules = new AtomicRules();
+    play(rules, ['Nf3', 'a6', 'Ng5', 'a5', 'Nxf7']);
+
+    const pgn = rules.toPgn();
+    expect(rules.getHeaders()).toEqual({});
+    expect(pgn).toContain('[Variant "Atomic"]');
+    expect(pgn).toContain('[Result "1-0"]');
+    expect(pgn).toContain('3. Nxf7# 1-0');
+
+    rules.setFEN('4k3/8/8/8/8/8/8/4K3 w - - 0 1');
+    expect(rules.isInsufficientMaterial()).toBe(true);
+    expect(rules.getHeaders()).toEqual({ FEN: '4k3/8/8/8/8/8/8/4K3 w - - 0 1' });
+    rules.reset();
+    expect(rules.getFEN()).toBe(START_FEN);
+  });
+});
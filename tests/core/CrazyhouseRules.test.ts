@@ -0,0 +1,164 @@
+import {
+  CRAZYHOUSE_START_FEN,
+  CrazyhouseRules,
+  formatCrazyhouseFen,
+  parseCrazyhouseFen,
+} from '../../src/core/CrazyhouseRules';
+
+describe('CrazyhouseRules', () => {
+  let rules: CrazyhouseRules;
+
+  beforeEach(() => {
+    rules = new CrazyhouseRules();
+  });
+
+  describe('FEN', () => {
+    it('starts from the initial position with empty pockets', () => {
+      expect(rules.getFEN()).toBe(CRAZYHOUSE_START_FEN);
+      expect(rules.getPockets()).toEqual({
+        w: { p: 0, n: 0, b: 0, r: 0, q: 0 },
+        b: { p: 0, n: 0, b: 0, r: 0, q: 0 },
+      });
+    });
+
+    it('reads pockets and promoted pieces and writes them back', () => {
+      const fen = 'r3k2r/8/8/8/8/8/8/R3K1Q~R[NPPbq] w KQkq - 0 20';
+      const position = parseCrazyhouseFen(fen);
+
+      expect(position.fen).toBe('r3k2r/8/8/8/8/8/8/R3K1QR w KQkq - 0 20');
+      expect(position.pockets.w).toEqual({ p: 2, n: 1, b: 0, r: 0, q: 0 });
+      expect(position.pockets.b).toEqual({ p: 0, n: 0, b: 1, r: 0, q: 1 });
+      expect(position.promoted).toEqual(['g1']);
+      expect(formatCrazyhouseFen(position)).toBe('r3k2r/8/8/8/8/8/8/R3K1Q~R[NPPqb] w KQkq - 0 20');
+    });
+
+    it('accepts a standard FEN as a position with empty pockets', () => {
+      rules.setFEN('4k3/8/8/8/8/8/8/4K3 w - - 0 1');
+      expect(rules.getFEN()).toBe('4k3/8/8/8/8/8/8/4K3[] w - - 0 1');
+    });
+  });
+
+  describe('Captures', () => {
+    it('puts captured pieces in the pocket of the capturer', () => {
+      rules.move('e4');
+      rules.move('d5');
+      const capture = rules.move('exd5');
+
+      expect(capture.ok).toBe(true);
+      expect(capture.move).toMatchObject({ from: 'e4', to: 'd5', san: 'exd5', captured: 'p' });
+      expect(rules.getPockets().w.p).toBe(1);
+      expect(rules.getFEN()).toBe('rnbqkbnr/ppp1pppp/8/3P4/8/8/PPPP1PPP/RNBQKBNR[P] b KQkq - 0 2');
+
+      rules.move({ from: 'd8', to: 'd5' });
+      expect(rules.getPockets().b.p).toBe(1);
+    });
+
+    it('marks promoted pieces', () => {
+      rules.setFEN('8/P7/7k/8/8/8/8/K7[] w - - 0 1');
+      rules.move({ from: 'a7', to: 'a8', promotion: 'q' });
+
+      expect(rules.getFEN()).toBe('Q~7/8/7k/8/8/8/8/K7[] b - - 0 1');
+      expect(rules.history()).toEqual(['a8=Q']);
+    });
+
+    it('returns captured promoted pieces to the pocket as pawns', () => {
+      rules.setFEN('7k/8/8/8/8/8/8/K2q~3R[] w - - 0 1');
+      const capture = rules.move('Rxd1');
+
+      expect(capture.move).toMatchObject({ san: 'Rxd1', captured: 'q' });
+      expect(rules.getPockets().w).toEqual({ p: 1, n: 0, b: 0, r: 0, q: 0 });
+      expect(rules.getFEN()).toBe('7k/8/8/8/8/8/8/K2R4[P] b - - 0 1');
+    });
+  });
+
+  describe('Drops', () => {
+    const fen = 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R[Nb] w KQkq - 2 3';
+
+    it('drops a piece from the pocket on an empty square', () => {
+      rules.setFEN(fen);
+      const drop = rules.move('N@d5');
+
+      expect(drop.ok).toBe(true);
+      expect(drop.move).toMatchObject({ from: 'd5', to: 'd5', san: 'N@d5', drop: 'n' });
+      expect(rules.getFEN()).toBe(
+        'r1bqkbnr/pppp1ppp/2n5/3Np3/4P3/5N2/PPPP1PPP/RNBQKB1R[b] b KQkq - 3 3',
+      );
+      expect(rules.history()).toEqual(['N@d5']);
+    });
+
+    it('rejects drops from an empty pocket, on occupied squares and pawns on the back ranks', () => {
+      rules.setFEN('4k3/8/8/8/8/8/8/4K3[Pq] w - - 0 1');
+
+      expect(rules.drop('n', 'd4').ok).toBe(false);
+      expect(rules.drop('q', 'd4').ok).toBe(false);
+      expect(rules.drop('p', 'e1').ok).toBe(false);
+      expect(rules.dropSquares('p')).toHaveLength(48);
+      expect(rules.dropSquares('p')).not.toContain('a8');
+      expect(rules.drop('p', 'a7').ok).toBe(true);
+    });
+
+    it('only allows drops that block a check', () => {
+      rules.setFEN('R6k/6pp/8/8/8/8/8/7K[n] b - - 0 1');
+
+      expect(rules.inCheck()).toBe(true);
+      expect(rules.dropSquares('n')).toEqual(['b8', 'c8', 'd8', 'e8', 'f8', 'g8']);
+      expect(rules.isCheckmate()).toBe(false);
+      expect(rules.move('@d4').ok).toBe(false);
+    });
+
+    it('treats a check with nothing to drop in between as mate', () => {
+      rules.setFEN('R6k/6pp/8/8/8/8/8/7K[] b - - 0 1');
+
+      expect(rules.isCheckmate()).toBe(true);
+      expect(rules.getGameResult()).toBe('1-0');
+    });
+
+    it('suffixes drops that give mate', () => {
+      rules.setFEN('6rk/6pp/8/8/8/8/8/K7[N] w - - 0 1');
+      const drop = rules.move('N@f7');
+
+      expect(drop.move?.san).toBe('N@f7#');
+      expect(rules.isGameOver()).toBe(true);
+    });
+  });
+
+  describe('History', () => {
+    it('undoes and redoes moves and drops with their pockets', () => {
+      rules.move('e4');
+      rules.move('d5');
+      rules.move('exd5');
+      rules.move('Qxd5');
+      rules.move('P@e4');
+
+      expect(rules.getPockets().b.p).toBe(1);
+      expect(rules.undo()).toBe(true);
+      expect(rules.getPockets().w.p).toBe(1);
+      expect(rules.redo()).toBe(true);
+      expect(rules.getPockets().w.p).toBe(0);
+      expect(rules.getLastMove()).toMatchObject({ from: 'e4', to: 'e4', drop: 'p' });
+    });
+
+    it('exports the game as PGN with the variant tag', () => {
+      rules.move('e4');
+      rules.move('d5');
+      rules.move('exd5');
+      rules.move('Nf6');
+      rules.move('P@e5');
+
+      const pgn = rules.toPgn();
+      expect(pgn).toContain('[Variant "Crazyhouse"]');
+      expect(pgn).toContain('1. e4 d5 2. exd5 Nf6 3. P@e5');
+    });
+
+    it('counts the pockets in repetitions and never runs out of material', () => {
+      rules.setFEN('4k3/8/8/8/8/8/8/4K3[] w - - 0 1');
+      for (const move of ['Ke2', 'Ke7', 'Ke1', 'Ke8', 'Ke2', 'Ke7', 'Ke1', 'Ke8']) {
+        rules.move(move);
+      }
+
+      expect(rules.isInsufficientMaterial()).toBe(false);
+      expect(rules.isThreefoldRepetition()).toBe(true);
+      expect(rules.isDraw()).toBe(true);
+    });
+  });
+});
@@ -580,6 +580,21 @@ describe('DrawingManager', () => {
       expect(mockContext.restore).toHaveBeenCalled();
     });
 
+    it('should render the annotation badge with its glyph', () => {
+      drawingManager.setAnnotationBadge('e4', 4);
+      drawingManager.renderAnnotationBadge();
+
+      expect(drawingManager.getAnnotationBadge()).toEqual({ square: 'e4', nag: 4 });
+      expect(mockContext.fillText).toHaveBeenCalledWith(
+        '??',
+        expect.any(Number),
+        expect.any(Number),
+      );
+
+      drawingManager.setAnnotationBadge('e4', 250);
+      expect(drawingManager.getAnnotationBadge()).toBeNull();
+    });
+
     it('should render premove', () => {
       drawingManager.setPremove('e2', 'e4');
       drawingManager.renderPremove();
@@ -0,0 +1,107 @@
+import type { DrawingManager } from '../../src/core/DrawingManager';
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import {
+  fenToEpd,
+  formatEpd,
+  getEpdOperands,
+  parseEpd,
+  parseEpdSuite,
+  resolveEpdMoves,
+} from '../../src/core/Epd';
+import { EpdParseError } from '../../src/core/errors';
+
+const WAC_001 =
+  '2rr3k/pp3pp1/1nnqbN1p/3pN3/2pP4/2P3Q1/PPB4P/R4RK1 w - - bm Qg6; id "WAC.001"; c0 "mate; in 3";';
+
+describe('EPD parsing', () => {
+  it('parses the position and operations', () => {
+    const record = parseEpd(WAC_001);
+
+    expect(record.position).toBe('2rr3k/pp3pp1/1nnqbN1p/3pN3/2pP4/2P3Q1/PPB4P/R4RK1 w - -');
+    expect(record.fen).toBe(`${record.position} 0 1`);
+    expect(record.operations).toEqual([
+      { opcode: 'bm', operands: ['Qg6'] },
+      { opcode: 'id', operands: ['WAC.001'] },
+      { opcode: 'c0', operands: ['mate; in 3'] },
+    ]);
+  });
+
+  it('reads move counters, numeric and multi-move operands', () => {
+    const record = parseEpd(
+      'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 hmvc 0; fmvn 1; ce -12; pv e5 Nf3 Nc6; am d5 Nf6;',
+    );
+
+    expect(record.fen).toBe('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1');
+    expect(getEpdOperands(record, 'ce')).toEqual(['-12']);
+    expect(getEpdOperands(record, 'pv')).toEqual(['e5', 'Nf3', 'Nc6']);
+    expect(resolveEpdMoves(record, 'am').map((move) => [move.from, move.to])).toEqual([
+      ['d7', 'd5'],
+      ['g8', 'f6'],
+    ]);
+    expect(getEpdOperands(record, 'bm')).toBeUndefined();
+  });
+
+  it('reports malformed lines', () => {
+    const code = (epd: string) => {
+      try {
+        parseEpd(epd);
+      } catch (error) {
+        return (error as EpdParseError).code;
+      }
+      return null;
+    };
+
+    expect(code('')).toBe('EPD_EMPTY');
+    expect(code('8/8/8 w - - bm Kh1;')).toBe('EPD_INVALID_POSITION');
+    expect(code('4k3/8/8/8/8/8/8/4K3 x - - bm Kd1;')).toBe('EPD_INVALID_POSITION');
+    expect(code('4k3/8/8/8/8/8/8/4K3 w - - id "open;')).toBe('EPD_UNTERMINATED_STRING');
+    expect(code('4k3/8/8/8/8/8/8/4K3 w - - bm Kd1')).toBe('EPD_MISSING_SEMICOLON');
+    expect(code('4k3/8/8/8/8/8/8/4K3 w - - 1bm Kd1;')).toBe('EPD_INVALID_OPCODE');
+  });
+
+  it('parses suites and skips bad lines with their line number', () => {
+    const suite = parseEpdSuite(`# Bratko-Kopec excerpt\n${WAC_001}\n\nbad line\n${WAC_001}`);
+
+    expect(suite.records).toHaveLength(2);
+    expect(suite.issues).toHaveLength(1);
+    expect(suite.issues[0]).toBeInstanceOf(EpdParseError);
+    expect(suite.issues[0]?.details?.line).toBe(4);
+  });
+});
+
+describe('EPD output', () => {
+  it('round-trips operations with quoted strings', () => {
+    expect(formatEpd(parseEpd(WAC_001))).toBe(WAC_001);
+  });
+
+  it('builds EPD from a FEN and an operation map', () => {
+    expect(
+      fenToEpd('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', {
+        bm: ['e4', 'd4'],
+        ce: 35,
+        id: 'start',
+      }),
+    ).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - bm e4 d4; ce 35; id "start";');
+  });
+});
+
+describe('NeoChessBoard#loadEpd', () => {
+  it('loads the position and draws the best moves as arrows', () => {
+    const container = document.createElement('div');
+    document.body.append(container);
+    const board = new NeoChessBoard(container);
+
+    const record = board.loadEpd(
+      '1k1r4/pp1b1R2/3q2pp/4p3/2B5/4Q3/PPP2B2/2K5 b - - bm Qd1+; id "BK.01";',
+      { arrowColor: '#00aa00' },
+    );
+
+    expect(board.getPosition()).toBe(record.fen);
+    expect((Reflect.get(board, 'drawingManager') as DrawingManager).getArrows()).toEqual([
+      expect.objectContaining({ from: 'd6', to: 'd1', color: '#00aa00' }),
+    ]);
+
+    board.destroy();
+    container.remove();
+  });
+});
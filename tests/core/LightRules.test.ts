@@ -1,6 +1,18 @@
 import { LightRules } from '../../src/core/LightRules';
 import { START_FEN } from '../../src/core/utils';
 
+function perft(rules: LightRules, depth: number): number {
+  const moves = rules.getAllMoves();
+  if (depth === 1) return moves.length;
+  let nodes = 0;
+  for (const move of moves) {
+    rules.move(move);
+    nodes += perft(rules, depth - 1);
+    rules.undo();
+  }
+  return nodes;
+}
+
 describe('LightRules', () => {
   let rules: LightRules;
 
@@ -226,4 +238,196 @@ describe('LightRules', () => {
       expect(rules.turn()).toBe('w');
     });
   });
+
+  describe('Legality', () => {
+    it('keeps pinned pieces on the pin line', () => {
+      rules.setFEN('4r1k1/8/8/8/8/8/4B3/4K3 w - - 0 1');
+      expect(rules.movesFrom('e2')).toEqual([]);
+    });
+
+    it('only allows moves that answer a check', () => {
+      rules.setFEN('4k3/8/8/8/7b/8/3P4/2N1K3 w - - 0 1');
+      expect(rules.inCheck()).toBe(true);
+      expect(rules.getAllMoves().map((move) => move.from + move.to)).toEqual([
+        'e1d1',
+        'e1e2',
+        'e1f1',
+      ]);
+      expect(rules.move({ from: 'd2', to: 'd4' })?.reason).toBe('illegal');
+    });
+
+    it('lists every promotion piece', () => {
+      rules.setFEN('8/3P4/8/8/8/8/8/k6K w - - 0 1');
+      expect(rules.movesFrom('d7').map((move) => move.promotion)).toEqual(['q', 'r', 'b', 'n']);
+      rules.move({ from: 'd7', to: 'd8', promotion: 'n' });
+      expect(rules.pieceAt('d8')).toBe('N');
+    });
+  });
+
+  describe('Castling', () => {
+    const CASTLING_FEN = 'r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1';
+
+    it('castles on both sides and updates the rights', () => {
+      rules.setFEN(CASTLING_FEN);
+      expect(rules.movesFrom('e1')).toEqual(
+        expect.arrayContaining([
+          { from: 'e1', to: 'g1' },
+          { from: 'e1', to: 'c1' },
+        ]),
+      );
+
+      rules.move({ from: 'e1', to: 'g1' });
+      expect(rules.pieceAt('f1')).toBe('R');
+      expect(rules.getFEN()).toBe('r3k2r/8/8/8/8/8/8/R4RK1 b kq - 1 1');
+
+      rules.move({ from: 'h8', to: 'h1' });
+      expect(rules.getFEN()).toBe('r3k3/8/8/8/8/8/8/R4RKr w q - 2 2');
+    });
+
+    it('does not castle out of, through or into check', () => {
+      rules.setFEN('r3k2r/8/8/8/8/5r2/8/R3K2R w KQkq - 0 1');
+      expect(rules.movesFrom('e1').map((move) => move.to)).not.toContain('g1');
+      expect(rules.movesFrom('e1').map((move) => move.to)).toContain('c1');
+
+      rules.setFEN('4k3/8/8/8/8/8/8/R3K2r w Q - 0 1');
+      expect(rules.movesFrom('e1').map((move) => move.to)).not.toContain('c1');
+    });
+
+    it('only castles towards a rook on the side of the right', () => {
+      rules.setFEN('4k3/8/8/8/8/8/8/R3K3 w K - 0 1');
+      expect(rules.movesFrom('e1').map((move) => move.to)).not.toContain('c1');
+
+      rules.setFEN('4k2r/8/8/8/8/8/8/4K3 b q - 0 1');
+      expect(rules.movesFrom('e8').map((move) => move.to)).not.toContain('g8');
+    });
+
+    it('castles in Chess960 with the king taking its rook', () => {
+      rules.setFEN('1r2k1r1/1p4p1/8/8/8/8/1P4P1/1R2K1R1 w GBgb - 0 1');
+      expect(rules.movesFrom('e1')).toEqual(
+        expect.arrayContaining([
+          { from: 'e1', to: 'g1' },
+          { from: 'e1', to: 'b1' },
+        ]),
+      );
+
+      rules.move({ from: 'e1', to: 'b1' });
+      expect(rules.getFEN()).toBe('1r2k1r1/1p4p1/8/8/8/8/1P4P1/2KR2R1 b gb - 1 1');
+    });
+  });
+
+  describe('Game end', () => {
+    it('detects checkmate and stalemate', () => {
+      rules.setFEN('rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3');
+      expect(rules.isCheckmate()).toBe(true);
+      expect(rules.getGameResult()).toBe('0-1');
+
+      rules.setFEN('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1');
+      expect(rules.isStalemate()).toBe(true);
+      expect(rules.isCheckmate()).toBe(false);
+      expect(rules.isDraw()).toBe(true);
+    });
+
+    it('detects insufficient material', () => {
+      for (const fen of [
+        '8/8/4k3/8/8/3K4/8/8 w - - 0 1',
+        '8/8/4k3/8/8/3KN3/8/8 w - - 0 1',
+        '8/2b5/4k3/8/8/3KB3/8/8 w - - 0 1',
+      ]) {
+        rules.setFEN(fen);
+        expect(rules.isInsufficientMaterial()).toBe(true);
+      }
+      for (const fen of ['8/3b4/4k3/8/8/3KB3/8/8 w - - 0 1', '8/8/4k3/8/8/3KNN2/8/8 w - - 0 1']) {
+        rules.setFEN(fen);
+        expect(rules.isInsufficientMaterial()).toBe(false);
+      }
+    });
+
+    it('applies the fifty-move rule', () => {
+      rules.setFEN('8/8/4k3/8/8/3K4/4R3/8 w - - 99 80');
+      expect(rules.isDrawByFiftyMoves()).toBe(false);
+      rules.move({ from: 'e2', to: 'e1' });
+      expect(rules.getFEN()).toBe('8/8/4k3/8/8/3K4/8/4R3 b - - 100 80');
+      expect(rules.isDrawByFiftyMoves()).toBe(true);
+      expect(rules.isGameOver()).toBe(true);
+    });
+
+    it('detects threefold repetition, undone with the moves', () => {
+      const shuffle = [
+        { from: 'g1', to: 'f3' },
+        { from: 'g8', to: 'f6' },
+        { from: 'f3', to: 'g1' },
+        { from: 'f6', to: 'g8' },
+      ] as const;
+      for (const move of [...shuffle, ...shuffle]) {
+        expect(rules.isThreefoldRepetition()).toBe(false);
+        rules.move(move);
+      }
+      expect(rules.isThreefoldRepetition()).toBe(true);
+      expect(rules.isDraw()).toBe(true);
+
+      rules.undo();
+      expect(rules.isThreefoldRepetition()).toBe(false);
+    });
+
+    it('generates the moves of a position once for every end of game check', () => {
+      rules.move({ from: 'g1', to: 'f3' });
+      const generateMoves = jest.spyOn(
+        rules as unknown as { generateMoves: (file: number, rank: number) => unknown },
+        'generateMoves',
+      );
+
+      expect(rules.isGameOver()).toBe(false);
+      expect(rules.getGameResult()).toBe('*');
+      expect(rules.isThreefoldRepetition()).toBe(false);
+      expect(rules.getAllMoves()).toHaveLength(20);
+      expect(generateMoves).toHaveBeenCalledTimes(64);
+    });
+
+    it('ignores an en passant square no pawn can use', () => {
+      rules.setFEN('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1');
+      // The first e2-e4 leaves an unusable en passant square in the FEN
+      for (const move of [
+        { from: 'e2', to: 'e4' },
+        { from: 'e8', to: 'd8' },
+        { from: 'e1', to: 'd1' },
+        { from: 'd8', to: 'e8' },
+        { from: 'd1', to: 'e1' },
+        { from: 'e8', to: 'd8' },
+        { from: 'e1', to: 'd1' },
+        { from: 'd8', to: 'e8' },
+        { from: 'd1', to: 'e1' },
+      ] as const) {
+        rules.move(move);
+      }
+      expect(rules.getFEN()).toBe('4k3/8/8/8/4P3/8/8/4K3 b - - 8 5');
+      expect(rules.isThreefoldRepetition()).toBe(true);
+    });
+  });
+
+  describe('Perft', () => {
+    it.each([
+      ['start position', START_FEN, [20, 400, 8902]],
+      [
+        'Kiwipete',
+        'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+        [48, 2039],
+      ],
+      ['position 3', '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1', [14, 191, 2812, 43_238]],
+      [
+        'position 4',
+        'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+        [6, 264, 9467],
+      ],
+      ['position 5', 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8', [44, 1486]],
+      [
+        'Chess960',
+        'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9',
+        [21, 528, 12_189],
+      ],
+    ])('matches the reference node counts from the %s', (_name, fen, counts) => {
+      rules.setFEN(fen);
+      expect(counts.map((_count, index) => perft(rules, index + 1))).toEqual(counts);
+      expect(rules.getFEN()).toBe(fen);
+    });
+  });
 });
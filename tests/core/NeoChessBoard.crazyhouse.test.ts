@@ -0,0 +1,112 @@
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import { CrazyhouseRules } from '../../src/core/CrazyhouseRules';
+import type { BoardEventMap } from '../../src/core/types';
+
+if (globalThis.PointerEvent === undefined) {
+  class PointerEventPolyfill extends MouseEvent {
+    constructor(type: string, init?: Record<string, unknown>) {
+      super(type, init);
+    }
+  }
+  (globalThis as unknown as { PointerEvent: typeof PointerEvent }).PointerEvent =
+    PointerEventPolyfill as unknown as typeof PointerEvent;
+}
+
+const BOARD_SIZE = 400;
+
+const pocketPiece = (root: HTMLElement, color: 'w' | 'b', piece: string) =>
+  root.querySelector<HTMLButtonElement>(
+    `.ncb-pocket[data-color="${color}"] .ncb-pocket__piece[data-piece="${piece}"]`,
+  );
+
+describe('NeoChessBoard Crazyhouse', () => {
+  let root: HTMLDivElement;
+  let board: NeoChessBoard;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.append(root);
+    board = new NeoChessBoard(root, { variant: 'crazyhouse', soundEnabled: false });
+  });
+
+  afterEach(() => {
+    board.destroy();
+    root.remove();
+  });
+
+  const playOpening = () => {
+    for (const move of ['e4', 'd5', 'exd5', 'Qxd5']) {
+      expect(board.submitMove(move)).toBe(true);
+    }
+  };
+
+  it('plays with Crazyhouse rules and shows both pockets beside the board', () => {
+    expect(board.getPosition()).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR[] w KQkq - 0 1');
+    expect(root.querySelectorAll('.ncb-pocket')).toHaveLength(2);
+    expect(root.querySelector<HTMLElement>('.ncb-pocket[data-color="w"]')?.dataset.position).toBe(
+      'bottom',
+    );
+
+    playOpening();
+
+    expect(board.getPockets()).toMatchObject({ w: { p: 1 }, b: { p: 1 } });
+    const pawn = pocketPiece(root, 'w', 'p');
+    expect(pawn?.dataset.count).toBe('1');
+    expect(pawn?.disabled).toBe(false);
+    expect(pocketPiece(root, 'b', 'p')?.disabled).toBe(true);
+  });
+
+  it('drops pieces through the API and SAN, reporting them in the move event', () => {
+    playOpening();
+    const moves: BoardEventMap['move'][] = [];
+    board.on('move', (payload) => moves.push(payload));
+
+    expect(board.dropPiece('n', 'e4')).toBe(false);
+    expect(board.submitMove('P@e4')).toBe(true);
+    expect(moves.at(-1)).toMatchObject({ from: 'e4', to: 'e4', drop: 'p', san: 'P@e4' });
+    expect(board.getPockets()?.w.p).toBe(0);
+
+    expect(board.dropPiece('p', 'e5')).toBe(true);
+    expect(board.getPosition()).toContain('[] w');
+  });
+
+  it('drops a piece dragged from the pocket onto a square', () => {
+    playOpening();
+    const overlay = Reflect.get(board, 'cOverlay') as HTMLCanvasElement;
+    overlay.width = BOARD_SIZE;
+    overlay.height = BOARD_SIZE;
+    overlay.getBoundingClientRect = () => new DOMRect(0, 0, BOARD_SIZE, BOARD_SIZE);
+    Reflect.set(board, 'square', BOARD_SIZE / 8);
+
+    pocketPiece(root, 'w', 'p')?.dispatchEvent(
+      new PointerEvent('pointerdown', { bubbles: true, clientX: 450, clientY: 200 }),
+    );
+    expect(document.querySelector('.ncb-pocket__ghost')).not.toBeNull();
+    // e3 is on the fifth file and the sixth row from the top
+    document.dispatchEvent(
+      new PointerEvent('pointerup', { bubbles: true, clientX: 225, clientY: 275 }),
+    );
+
+    expect(document.querySelector('.ncb-pocket__ghost')).toBeNull();
+    expect(board.getPosition()).toBe(
+      'rnb1kbnr/ppp1pppp/8/3q4/8/4P3/PPPP1PPP/RNBQKBNR[p] b KQkq - 1 3',
+    );
+  });
+
+  it('hides the pockets when the rules adapter has none or they are turned off', () => {
+    board.destroy();
+    board = new NeoChessBoard(root, { soundEnabled: false });
+    expect(root.querySelector('.ncb-pocket')).toBeNull();
+    expect(board.getPockets()).toBeNull();
+    expect(board.dropPiece('p', 'e4')).toBe(false);
+
+    board.destroy();
+    board = new NeoChessBoard(root, {
+      rulesAdapter: new CrazyhouseRules(),
+      showPockets: false,
+      soundEnabled: false,
+    });
+    expect(root.querySelector('.ncb-pocket')).toBeNull();
+    expect(board.getPockets()).not.toBeNull();
+  });
+});
@@ -210,12 +210,15 @@ describe('NeoChessBoard PGN and notation helpers', () => {
       addHighlightFromObject: jest.fn(),
       removeHighlight: jest.fn(),
       clearHighlights: jest.fn(),
+      setAnnotationBadge: jest.fn(),
+      clearAnnotationBadge: jest.fn(),
       clearAll: jest.fn(),
       exportState: jest.fn().mockReturnValue('state'),
       importState: jest.fn(),
       renderStatusHighlight: jest.fn(),
       renderArrows: jest.fn(),
       renderHighlights: jest.fn(),
+      renderAnnotationBadge: jest.fn(),
       renderPremove: jest.fn(),
       renderPromotionPreview: jest.fn(),
       renderSquareNames: jest.fn(),
@@ -587,6 +587,34 @@ describe('NeoChessBoard Core', () => {
 
       coordinateOnlyBoard.destroy();
     });
+
+    it('accepts long algebraic and ICCF numeric input', () => {
+      expect(board.submitMove('e2-e4')).toBe(true);
+      expect(board.submitMove('5755')).toBe(true);
+      expect(board.submitMove('Ng1-f3')).toBe(true);
+
+      expect(board.getMoveHistory()).toEqual(['e4', 'e5', 'Nf3']);
+    });
+
+    it('lists and exports the history in other notations', () => {
+      board.loadPgnWithAnnotations('1. e4 d5 2. exd5 {takes} (2. e5) 2... Qxd5 *');
+
+      expect(board.getMoveHistory({ notation: 'lan' })).toEqual([
+        'e2-e4',
+        'd7-d5',
+        'e4xd5',
+        'Qd8xd5',
+      ]);
+      expect(board.getMoveHistory({ notation: 'iccf' })).toEqual(['5254', '4745', '5445', '4845']);
+      expect(board.getMoveHistory({ notation: 'lan', notationLocale: 'fr' })[3]).toBe('Dd8xd5');
+      expect(board.exportPGN({ includeHeaders: false })).toBe('1. e4 d5 2. exd5 {takes} Qxd5');
+      expect(board.exportPGN({ includeHeaders: false, notation: 'lan' })).toBe(
+        '1. e2-e4 d7-d5 2. e4xd5 {takes} Qd8xd5',
+      );
+      expect(board.exportPGN({ exportFormat: true, notation: 'lan' })).toContain(
+        '1. e2-e4 d7-d5 2. e4xd5 {takes} (2. e5) 2... Qd8xd5 *',
+      );
+    });
   });
 
   describe('PGN export options', () => {
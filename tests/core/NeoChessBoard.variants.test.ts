@@ -0,0 +1,100 @@
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+
+const counter = (root: HTMLElement, color: 'w' | 'b') =>
+  root.querySelector<HTMLElement>(`.ncb-check-counter[data-color="${color}"]`);
+
+describe('NeoChessBoard variants', () => {
+  let root: HTMLDivElement;
+  let board: NeoChessBoard;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.append(root);
+  });
+
+  afterEach(() => {
+    board.destroy();
+    root.remove();
+  });
+
+  it('shows the checks left to give in three-check games', () => {
+    board = new NeoChessBoard(root, { variant: 'threecheck', soundEnabled: false });
+    expect(board.getRemainingChecks()).toEqual({ w: 3, b: 3 });
+    expect(counter(root, 'w')?.dataset.position).toBe('bottom');
+
+    for (const move of ['e4', 'e5', 'Bc4', 'Nc6', 'Bxf7+']) {
+      expect(board.submitMove(move)).toBe(true);
+    }
+
+    expect(board.getPosition()).toContain(' - 2+3 ');
+    expect(counter(root, 'w')?.dataset.remaining).toBe('2');
+    expect(counter(root, 'w')?.textContent).toBe('+2');
+    expect(counter(root, 'b')?.dataset.remaining).toBe('3');
+  });
+
+  it('plays Racing Kings from its own start position and follows its result in PGN', () => {
+    board = new NeoChessBoard(root, {
+      variant: 'racingkings',
+      fen: '8/1k6/8/8/8/8/8/6K1 b - - 0 1',
+      soundEnabled: false,
+    });
+    expect(counter(root, 'w')).toBeNull();
+
+    expect(board.submitMove('Kb8')).toBe(true);
+    expect(board.submitMove('Kg2')).toBe(false);
+
+    const pgn = board.exportPGN();
+    expect(pgn).toContain('[Variant "Racing Kings"]');
+    expect(pgn).toContain('[Result "0-1"]');
+  });
+
+  it('animates Atomic explosions through the capture effect', () => {
+    const renderer = jest.fn();
+    const moves = jest.fn();
+    board = new NeoChessBoard(root, {
+      variant: 'atomic',
+      captureEffect: { renderer },
+      soundEnabled: false,
+    });
+    board.on('move', moves);
+
+    for (const move of ['Nf3', 'a6', 'Ng5', 'a5']) {
+      expect(board.submitMove(move)).toBe(true);
+    }
+    expect(renderer).not.toHaveBeenCalled();
+
+    expect(board.submitMove('Nxf7')).toBe(true);
+    expect(renderer).toHaveBeenCalledTimes(1);
+    expect(renderer.mock.calls[0]?.[0]).toMatchObject({
+      from: 'g5',
+      to: 'f7',
+      effect: 'explosion',
+      exploded: ['f7', 'e8', 'f8', 'g8'],
+    });
+    expect(moves).toHaveBeenLastCalledWith(
+      expect.objectContaining({ san: 'Nxf7#', exploded: ['f7', 'e8', 'f8', 'g8'] }),
+    );
+    expect(board.exportPGN()).toContain('[Variant "Atomic"]');
+  });
+
+  it('enforces compulsory captures in Antichess', () => {
+    board = new NeoChessBoard(root, { variant: 'antichess', soundEnabled: false });
+
+    expect(board.submitMove('e4')).toBe(true);
+    expect(board.submitMove('b5')).toBe(true);
+    expect(board.submitMove('d4')).toBe(false);
+    expect(board.submitMove('Bxb5')).toBe(true);
+    expect(board.exportPGN()).toContain('[Variant "Antichess"]');
+  });
+
+  it('hides the check counter when turned off', () => {
+    board = new NeoChessBoard(root, {
+      variant: 'threecheck',
+      showCheckCounter: false,
+      soundEnabled: false,
+    });
+
+    expect(board.getRemainingChecks()).toEqual({ w: 3, b: 3 });
+    expect(root.querySelector('.ncb-check-counter')).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+
+const STUDY_PGN = `[Event "Variation study"]
+
+1. e4 e5 (1... c5 2. Nf3 (2. c3 d5) 2... d6) 2. Nf3 Nc6 *`;
+
+describe('NeoChessBoard variation navigation', () => {
+  let container: HTMLDivElement;
+  let board: NeoChessBoard;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.append(container);
+    board = new NeoChessBoard(container);
+    expect(board.loadPgnWithAnnotations(STUDY_PGN)).toBe(true);
+  });
+
+  afterEach(() => {
+    board.destroy();
+    container.remove();
+  });
+
+  it('loads the mainline and keeps the side lines for export', () => {
+    expect(board.getMoveHistory()).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+    expect(board.getVariationPath()).toEqual([]);
+    expect(board.exportPgnWithAnnotations().replaceAll(/\s+/g, ' ')).toContain(
+      '1. e4 e5 (1... c5 2. Nf3 (2. c3 d5) 2... d6) 2. Nf3 Nc6',
+    );
+  });
+
+  it('enters a variation at an explicit ply and follows it with undo and redo', () => {
+    expect(board.enterVariation(0, 2)).toBe(true);
+
+    expect(board.getVariationPath()).toEqual([{ ply: 2, index: 0 }]);
+    expect(board.getMoveHistory()).toEqual(['e4', 'c5']);
+
+    expect(board.redoMove(true)).toBe(true);
+    expect(board.redoMove(true)).toBe(true);
+    expect(board.getMoveHistory()).toEqual(['e4', 'c5', 'Nf3', 'd6']);
+    expect(board.redoMove(true)).toBe(false);
+  });
+
+  it('enters a nested variation from the next move and exits back to each parent line', () => {
+    board.undoMove(true);
+    board.undoMove(true);
+    board.undoMove(true);
+    expect(board.enterVariation(0)).toBe(true);
+    expect(board.enterVariation(0)).toBe(true);
+
+    expect(board.getVariationPath()).toEqual([
+      { ply: 2, index: 0 },
+      { ply: 3, index: 0 },
+    ]);
+    expect(board.getMoveHistory()).toEqual(['e4', 'c5', 'c3']);
+
+    expect(board.exitVariation()).toBe(true);
+    expect(board.getMoveHistory()).toEqual(['e4', 'c5']);
+
+    expect(board.exitVariation()).toBe(true);
+    expect(board.getVariationPath()).toEqual([]);
+    expect(board.getMoveHistory()).toEqual(['e4']);
+    expect(board.redoMove(true)).toBe(true);
+    expect(board.getMoveHistory()).toEqual(['e4', 'e5']);
+    expect(board.exitVariation()).toBe(false);
+  });
+
+  it('reads the annotations of the line the moves played follow', () => {
+    expect(
+      board.loadPgnWithAnnotations(
+        '1. e4 {[%clk 0:05:00]} e5 {[%clk 0:05:00]} (1... c5 {[%clk 0:04:00]} 2. Nf3 {[%clk 0:03:00]}) 2. Nf3 {[%clk 0:04:50]} *',
+      ),
+    ).toBe(true);
+    expect(board.enterVariation(0, 2)).toBe(true);
+
+    // Playing the variation's own move keeps following it
+    expect(board.submitMove('Nf3')).toBe(true);
+    expect(board.getVariationPath()).toEqual([{ ply: 2, index: 0 }]);
+    expect(board.getRecordedClockTimes()).toEqual({ w: 180_000, b: 240_000 });
+
+    // Another move starts a line of its own instead of reading the clock of its Nf3
+    expect(board.undoMove(true)).toBe(true);
+    expect(board.getVariationPath()).toEqual([{ ply: 2, index: 0 }]);
+    expect(board.submitMove('Nc3')).toBe(true);
+    expect(board.getVariationPath()).toEqual([
+      { ply: 2, index: 0 },
+      { ply: 3, index: 0 },
+    ]);
+    expect(board.getRecordedClockTimes()?.w).not.toBe(180_000);
+  });
+
+  it('exports the game from inside a variation without changing the tree', () => {
+    const tree = '1. e4 e5 (1... c5 2. Nf3 (2. c3 d5) 2... d6) 2. Nf3 Nc6';
+    expect(board.enterVariation(0, 2)).toBe(true);
+
+    expect(board.exportPGN({ includeHeaders: false })).toBe('1. e4 e5 2. Nf3 Nc6');
+    expect(board.getPgnNotation()?.getSanSequence()).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+    expect(board.exportPgnWithAnnotations().replaceAll(/\s+/g, ' ')).toContain(tree);
+    expect(board.getVariationPath()).toEqual([{ ply: 2, index: 0 }]);
+  });
+
+  it('records the moves played off the tree inside a variation', () => {
+    expect(board.enterVariation(0, 2)).toBe(true);
+    expect(board.submitMove('Nc3')).toBe(true);
+    expect(board.submitMove('Nc6')).toBe(true);
+
+    expect(board.getVariationPath()).toEqual([
+      { ply: 2, index: 0 },
+      { ply: 3, index: 1 },
+    ]);
+    expect(board.exportPgnWithAnnotations().replaceAll(/\s+/g, ' ')).toContain(
+      '1. e4 e5 (1... c5 2. Nf3 (2. c3 d5) (2. Nc3 Nc6) 2... d6) 2. Nf3 Nc6',
+    );
+
+    expect(board.undoMove(true)).toBe(true);
+    expect(board.undoMove(true)).toBe(true);
+    expect(board.submitMove('c3')).toBe(true);
+    expect(board.getVariationPath()).toEqual([
+      { ply: 2, index: 0 },
+      { ply: 3, index: 0 },
+    ]);
+  });
+
+  it('rejects unknown variations', () => {
+    expect(board.enterVariation(1, 2)).toBe(false);
+    expect(board.enterVariation(0)).toBe(false);
+    expect(board.getMoveHistory()).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+  });
+});
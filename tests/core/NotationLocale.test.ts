@@ -0,0 +1,60 @@
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import { localizeMoveText, localizeSan, resolveNotationTable } from '../../src/core/NotationLocale';
+
+describe('NotationLocale', () => {
+  it('localizes piece letters and promotions', () => {
+    expect(localizeSan('Nf3', 'fr')).toBe('Cf3');
+    expect(localizeSan('Nf3', 'de')).toBe('Sf3');
+    expect(localizeSan('Qxd8+', 'nl')).toBe('Dxd8+');
+    expect(localizeSan('exd8=Q#', 'es')).toBe('exd8=D#');
+    expect(localizeSan('Bb5', 'figurine')).toBe('♗b5');
+    expect(localizeSan('O-O', 'fr')).toBe('O-O');
+    expect(localizeSan('e4', 'de')).toBe('e4');
+  });
+
+  it('completes custom tables with English letters', () => {
+    expect(resolveNotationTable({ N: 'Sk' })).toEqual({ K: 'K', Q: 'Q', R: 'R', B: 'B', N: 'Sk' });
+    expect(localizeSan('Nbd7', { N: 'Sk' })).toBe('Skbd7');
+  });
+
+  it('localizes movetext without touching comments', () => {
+    expect(localizeMoveText('1. e4 e5 2. Nf3 {Nc6 is best} (2. Bc4) Nc6 $1 *', 'it')).toBe(
+      '1. e4 e5 2. Cf3 {Nc6 is best} (2. Ac4) Cc6 $1 *',
+    );
+  });
+});
+
+describe('NeoChessBoard localized notation', () => {
+  let container: HTMLDivElement;
+  let board: NeoChessBoard;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.append(container);
+    board = new NeoChessBoard(container);
+    board.loadPgnWithAnnotations('[White "Kasparov"]\n\n1. e4 e5 2. Nf3 Nc6 3. Bb5 {Ruy Lopez} *');
+  });
+
+  afterEach(() => {
+    board.destroy();
+    container.remove();
+  });
+
+  it('localizes getMoveHistory', () => {
+    expect(board.getMoveHistory({ notationLocale: 'de' })).toEqual([
+      'e4',
+      'e5',
+      'Sf3',
+      'Sc6',
+      'Lb5',
+    ]);
+    expect(board.getMoveHistory()).toEqual(['e4', 'e5', 'Nf3', 'Nc6', 'Bb5']);
+  });
+
+  it('localizes the movetext of exportPGN but not the headers', () => {
+    const exported = board.exportPGN({ notationLocale: 'figurine' });
+
+    expect(exported).toContain('[White "Kasparov"]');
+    expect(exported).toContain('2. ♘f3 ♘c6 3. ♗b5 {Ruy Lopez}');
+  });
+});
@@ -0,0 +1,86 @@
+import { OpeningExplorer } from '../../src/core/OpeningExplorer';
+import { START_FEN } from '../../src/core/utils';
+
+const COLLECTION = `[Event "A"]
+[White "Alpha"]
+[Black "Beta"]
+[WhiteElo "2000"]
+[BlackElo "1800"]
+[Result "1-0"]
+
+1. e4 e5 2. Nf3 Nc6 1-0
+
+[Event "B"]
+[WhiteElo "2200"]
+[Result "1/2-1/2"]
+
+1. e4 c5 2. Nf3 1/2-1/2
+
+[Event "C"]
+[Result "0-1"]
+
+1. d4 d5 0-1
+`;
+
+describe('OpeningExplorer', () => {
+  it('counts continuations, results and ratings per position', () => {
+    const explorer = new OpeningExplorer();
+    expect(explorer.addPgn(COLLECTION)).toEqual({ added: 3, issues: [] });
+    expect(explorer.size).toBe(3);
+
+    const start = explorer.getPosition(START_FEN);
+    expect(start).toMatchObject({ games: 3, white: 1, draws: 1, black: 1, averageRating: 2050 });
+    expect(start?.moves.map((move) => [move.san, move.games])).toEqual([
+      ['e4', 2],
+      ['d4', 1],
+    ]);
+
+    const [e4] = start?.moves ?? [];
+    expect(e4).toMatchObject({ uci: 'e2e4', from: 'e2', to: 'e4', white: 1, draws: 1, black: 0 });
+    // Mean of (2000 + 1800) / 2 and 2200; the unrated game does not count
+    expect(e4.averageRating).toBe(2050);
+    expect(explorer.getPosition(e4.fen)?.moves.map((move) => move.san)).toEqual(['e5', 'c5']);
+  });
+
+  it('merges transpositions and ignores unusable en passant squares', () => {
+    const explorer = new OpeningExplorer();
+    explorer.addGame(['Nf3', 'Nf6', 'd4'], { result: '1-0' });
+    explorer.addGame(['d2d4', 'g8f6', 'g1f3'], { result: '0-1' });
+
+    const stats = explorer.getPosition(
+      'rnbqkb1r/pppppppp/5n2/8/3P4/5N2/PPP1PPPP/RNBQKB1R b KQkq d3 0 2',
+    );
+    expect(stats).toMatchObject({ games: 2, white: 1, black: 1 });
+  });
+
+  it('counts a game once in a position it comes back to', () => {
+    const explorer = new OpeningExplorer();
+    explorer.addGame(['Nf3', 'Nf6', 'Ng1', 'Ng8', 'Nf3'], { result: '1-0', whiteElo: 2000 });
+
+    const start = explorer.getPosition(START_FEN);
+    expect(start).toMatchObject({ games: 1, white: 1, averageRating: 2000 });
+    expect(start?.moves.map((move) => [move.san, move.games])).toEqual([['Nf3', 1]]);
+    expect(explorer.getPosition(start?.moves[0]?.fen ?? '')).toMatchObject({ games: 1 });
+  });
+
+  it('stops at maxPlies and reports unreadable games', () => {
+    const explorer = new OpeningExplorer({ maxPlies: 1 });
+    const result = explorer.addPgn(`${COLLECTION}\n[Event "D"]\n\n1. e4 Ke7?? 2. Qxe7 *\n`);
+
+    expect(result.added).toBe(3);
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({ code: 'PGN_IMPORT_FAILED', details: { index: 3 } });
+    const e4 = explorer.getPosition(START_FEN)?.moves[0];
+    expect(explorer.getPosition(e4?.fen ?? '')?.moves).toEqual([]);
+  });
+
+  it('keeps the legal part of broken games in lenient mode', () => {
+    const explorer = new OpeningExplorer({ lenient: true });
+    expect(explorer.addPgn('1. e4 Ke7 2. Qxe7 *').added).toBe(1);
+    expect(explorer.getPosition(START_FEN)?.moves.map((move) => move.san)).toEqual(['e4']);
+
+    explorer.clear();
+    expect(explorer.size).toBe(0);
+    expect(explorer.getPosition(START_FEN)).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { ChessJsRules } from '../../src/core/ChessJsRules';
+import { PerftError } from '../../src/core/errors';
+import { LightRules } from '../../src/core/LightRules';
+import {
+  PERFT_SUITE,
+  benchmarkPerft,
+  formatPerftDivide,
+  perft,
+  perftDivide,
+  runPerftSuite,
+  type PerftAdapter,
+} from '../../src/core/Perft';
+import type { Move, Square } from '../../src/core/types';
+
+/**
+ * LightRules seen through `movesFrom` only, optionally hiding some moves
+ */
+function createAdapter(hidden: readonly string[] = []): PerftAdapter {
+  const rules = new LightRules();
+  return {
+    setFEN: rules.setFEN.bind(rules),
+    getFEN: rules.getFEN.bind(rules),
+    movesFrom: (square: Square): Move[] =>
+      rules.movesFrom(square).filter((move) => !hidden.includes(move.from + move.to)),
+    move: rules.move.bind(rules),
+    undo: rules.undo.bind(rules),
+  };
+}
+
+describe('Perft', () => {
+  it('passes the whole suite with LightRules', () => {
+    const onProgress = jest.fn();
+    const result = runPerftSuite(new LightRules(), { maxDepth: 2, onProgress });
+
+    expect(result.results.filter((test) => !test.passed)).toEqual([]);
+    expect(result).toMatchObject({ passed: PERFT_SUITE.length, total: PERFT_SUITE.length });
+    expect(onProgress).toHaveBeenCalledTimes(PERFT_SUITE.length);
+  });
+
+  it('runs the standard positions on ChessJsRules', () => {
+    const result = runPerftSuite(new ChessJsRules(), { maxDepth: 2, variants: ['standard'] });
+
+    expect(result.total).toBe(7);
+    expect(result.passed).toBe(7);
+  });
+
+  it('divides the node count by root move and restores the position', () => {
+    const adapter = createAdapter();
+    const fen = adapter.getFEN();
+    const divide = perftDivide(adapter, 2);
+
+    expect(divide.nodes).toBe(400);
+    expect(divide.moves).toHaveLength(20);
+    expect(divide.moves).toContainEqual({ move: 'g1f3', nodes: 20 });
+    expect(adapter.getFEN()).toBe(fen);
+
+    const output = formatPerftDivide(divide);
+    expect(output.split('\n').slice(0, 2)).toEqual(['a2a3: 20', 'a2a4: 20']);
+    expect(output.endsWith('\n\nNodes searched: 400')).toBe(true);
+  });
+
+  it('reports the positions a faulty generator gets wrong', () => {
+    // A generator that never plays e2-e4
+    const adapter = createAdapter(['e2e4']);
+    const [start] = runPerftSuite(adapter, { maxDepth: 3, positions: [PERFT_SUITE[0]] }).results;
+
+    expect(start).toMatchObject({ depth: 3, expected: 8902, passed: false });
+    expect(start.nodes).toBe(perft(adapter, 3));
+    expect(perftDivide(adapter, 2).moves.map((entry) => entry.move)).not.toContain('e2e4');
+  });
+
+  it('rejects invalid depths', () => {
+    expect(() => perft(new LightRules(), 0)).toThrow(PerftError);
+    expect(() => perftDivide(new LightRules(), 1.5)).toThrow(
+      expect.objectContaining({ code: 'PERFT_INVALID_DEPTH' }),
+    );
+  });
+
+  it('measures nodes per second for each adapter', () => {
+    let clock = 0;
+    const results = benchmarkPerft(
+      { light: () => new LightRules(), chessjs: () => new ChessJsRules() },
+      { depth: 2, positions: [PERFT_SUITE[0]], now: () => (clock += 100) },
+    );
+
+    expect(results).toEqual([
+      { adapter: 'light', nodes: 400, timeMs: 100, nodesPerSecond: 4000 },
+      { adapter: 'chessjs', nodes: 400, timeMs: 100, nodesPerSecond: 4000 },
+    ]);
+  });
+});
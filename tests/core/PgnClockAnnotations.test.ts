@@ -0,0 +1,126 @@
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import { PgnAnnotationParser } from '../../src/core/PgnAnnotationParser';
+import { PgnNotation } from '../../src/core/PgnNotation';
+
+const TIMED_PGN =
+  '1. e4 {[%clk 0:03:00] [%emt 0:00:01]} e5 {[%clk 0:02:58.5]} 2. Nf3 {Develops [%clk 0:02:55]} Nc6 {[%clk 0:02:50]} *';
+
+describe('PgnAnnotationParser clock commands', () => {
+  it('parses %clk and %emt values into milliseconds', () => {
+    const parsed = PgnAnnotationParser.parseComment('{[%clk 1:02:03.4] [%emt 0:00:07] Sharp}');
+
+    expect(parsed.clock).toBe(3_723_400);
+    expect(parsed.elapsed).toBe(7000);
+    expect(parsed.textComment).toBe('Sharp');
+    expect(parsed.issues).toBeUndefined();
+  });
+
+  it('formats milliseconds back to clock commands', () => {
+    expect(PgnAnnotationParser.formatClockTime(3_723_400)).toBe('1:02:03.4');
+    expect(PgnAnnotationParser.formatClockTime(59_000)).toBe('0:00:59');
+    expect(PgnAnnotationParser.formatClockCommands({ clock: 180_000, elapsed: 1500 })).toBe(
+      '[%clk 0:03:00] [%emt 0:00:01.5]',
+    );
+    expect(PgnAnnotationParser.parseClockTime('4:05')).toBe(245_000);
+  });
+
+  it('reports malformed clock values as parse issues', () => {
+    const parsed = PgnAnnotationParser.parseComment('[%clk soon] text');
+
+    expect(parsed.clock).toBeUndefined();
+    expect(parsed.textComment).toBe('text');
+    expect(parsed.issues?.map((issue) => issue.code)).toEqual(['PGN_PARSE_INVALID_CLOCK']);
+  });
+});
+
+describe('PgnNotation clock annotations', () => {
+  it('stores clock times on each move and round-trips them', () => {
+    const notation = new PgnNotation();
+    notation.loadPgnWithAnnotations(TIMED_PGN);
+
+    expect(notation.getMoveAnnotations(1, true)).toMatchObject({ clock: 180_000, elapsed: 1000 });
+    expect(notation.getMoveAnnotations(1, false)?.clock).toBe(178_500);
+    expect(notation.getMoveAnnotations(2, true)).toMatchObject({
+      clock: 175_000,
+      textComment: 'Develops',
+    });
+
+    const movetext = notation.toPgnWithAnnotations().replaceAll(/\s+/g, ' ');
+    expect(movetext).toContain('1. e4 {[%clk 0:03:00] [%emt 0:00:01]} e5 {[%clk 0:02:58.5]}');
+    expect(movetext).toContain('2. Nf3 {[%clk 0:02:55] Develops}');
+
+    const reloaded = new PgnNotation();
+    reloaded.loadPgnWithAnnotations(notation.toPgnWithAnnotations());
+    expect(reloaded.getMoveAnnotations(2, true)).toEqual(notation.getMoveAnnotations(2, true));
+    expect(reloaded.toPgnWithAnnotations()).toBe(notation.toPgnWithAnnotations());
+  });
+
+  it('sets clock times on mainline moves', () => {
+    const notation = new PgnNotation();
+    notation.loadPgnWithAnnotations('1. e4 e5 *');
+
+    expect(notation.setMoveClock(1, false, { clock: 61_000, elapsed: 2000 })).toBe(true);
+    expect(notation.setMoveClock(2, true, { clock: 1000 })).toBe(false);
+    expect(notation.toPgn(false)).toBe('1. e4 e5 {[%clk 0:01:01] [%emt 0:00:02]}');
+  });
+});
+
+describe('NeoChessBoard clock annotations', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.append(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it('exposes the recorded times for the current ply of a loaded game', () => {
+    const board = new NeoChessBoard(container);
+    board.loadPgnWithAnnotations(TIMED_PGN);
+
+    expect(board.getRecordedClockTimes()).toEqual({ w: 175_000, b: 170_000 });
+
+    board.undoMove(true);
+    expect(board.getRecordedClockTimes()).toEqual({ w: 175_000, b: 178_500 });
+    expect(board.getRecordedClockTimes(1)).toEqual({ w: 180_000 });
+    expect(board.getRecordedClockTimes(0)).toBeNull();
+
+    expect(board.exportPGN({ includeHeaders: false })).toContain('e5 {[%clk 0:02:58.5]}');
+
+    board.destroy();
+  });
+
+  it('records clock times for moves played with a running clock', () => {
+    jest.useFakeTimers();
+    const board = new NeoChessBoard(container, {
+      soundEnabled: false,
+      clock: { initial: 60_000, increment: 1000, active: 'w', paused: true },
+    });
+
+    try {
+      board.startClock();
+      jest.advanceTimersByTime(3000);
+      expect(board.submitMove('e4')).toBe(true);
+      jest.advanceTimersByTime(5000);
+      expect(board.submitMove('e5')).toBe(true);
+
+      const pgn = board.exportPGN({ includeHeaders: false });
+      expect(pgn).toMatch(/^1\. e4 \{\[%clk 0:00:5\d(?:\.\d+)?\] \[%emt 0:00:0\d(?:\.\d+)?\]\} e5/);
+
+      const reloaded = new PgnNotation();
+      reloaded.loadPgnWithAnnotations(pgn);
+      const white = reloaded.getMoveAnnotations(1, true);
+      const black = reloaded.getMoveAnnotations(1, false);
+      expect(white?.clock).toBeCloseTo(58_000, -3);
+      expect(white?.elapsed).toBeCloseTo(3000, -3);
+      expect(black?.clock).toBeCloseTo(56_000, -3);
+      expect(black?.elapsed).toBeCloseTo(5000, -3);
+    } finally {
+      board.destroy();
+      jest.useRealTimers();
+    }
+  });
+});
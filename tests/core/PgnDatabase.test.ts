@@ -0,0 +1,178 @@
+import { PgnDatabase, splitPgnGames } from '../../src/core/PgnDatabase';
+import type { PgnParserWorkerManager } from '../../src/core/PgnParserWorkerManager';
+import type { ParsedPgnResult } from '../../src/workers/PgnParserWorker';
+
+const DATABASE_PGN = String.raw`[Event "Candidates"]
+[White "Carlsen, Magnus"]
+[Black "Caruana, Fabiano"]
+[Date "2018.11.09"]
+[ECO "B33"]
+[Result "1/2-1/2"]
+
+1. e4 c5 2. Nf3 Nc6 {Sveshnikov
+[not a header]} 3. d4 1/2-1/2
+
+[Event "Olympiad"]
+[White "Caruana, Fabiano"]
+[Black "Ding, Liren"]
+[Date "2016.??.??"]
+[ECO "C65"]
+[Result "1-0"]
+
+1. e4 e5 2. Nf3 Nc6 3. Bb5 Nf6 1-0
+
+[Event "Blitz \"Open\""]
+[White "Ding, Liren"]
+[Black "Carlsen, Magnus"]
+[Date "2019.05.02"]
+[ECO "A04"]
+[Result "0-1"]
+
+1. Nf3 c5 ; English-style
+2. c4 Nc6 0-1
+`;
+
+describe('splitPgnGames', () => {
+  it('splits on tag pairs after movetext and ignores brackets inside comments', () => {
+    const games = splitPgnGames(DATABASE_PGN);
+
+    expect(games).toHaveLength(3);
+    expect(games[0]).toContain('[not a header]} 3. d4 1/2-1/2');
+    expect(games[2]?.startsWith('[Event "Blitz')).toBe(true);
+  });
+
+  it('splits headerless games after their termination marker', () => {
+    expect(splitPgnGames('1. e4 e5 1-0\n\n1. d4 d5 *\n1. c4 *')).toEqual([
+      '1. e4 e5 1-0',
+      '1. d4 d5 *',
+      '1. c4 *',
+    ]);
+  });
+});
+
+describe('PgnDatabase', () => {
+  let database: PgnDatabase;
+
+  beforeEach(() => {
+    database = new PgnDatabase(DATABASE_PGN, { useWorker: false });
+  });
+
+  afterEach(() => {
+    database.dispose();
+  });
+
+  it('indexes the tag pairs of every game', () => {
+    expect(database.size).toBe(3);
+    expect(database.getEntry(1)).toMatchObject({
+      index: 1,
+      white: 'Caruana, Fabiano',
+      black: 'Ding, Liren',
+      event: 'Olympiad',
+      eco: 'C65',
+      result: '1-0',
+      date: '2016.??.??',
+    });
+    expect(database.getEntry(2)?.event).toBe('Blitz "Open"');
+    expect(database.getEntry(3)).toBeNull();
+    expect(database.getGamePgn(1)).toBe(
+      [
+        '[Event "Olympiad"]',
+        '[White "Caruana, Fabiano"]',
+        '[Black "Ding, Liren"]',
+        '[Date "2016.??.??"]',
+        '[ECO "C65"]',
+        '[Result "1-0"]',
+        '',
+        '1. e4 e5 2. Nf3 Nc6 3. Bb5 Nf6 1-0',
+      ].join('\n'),
+    );
+  });
+
+  it('filters by player, ECO prefix, result and date range', () => {
+    const indexes = (entries: { index: number }[]) => entries.map((entry) => entry.index);
+
+    expect(indexes(database.filter({ player: 'carlsen' }))).toEqual([0, 2]);
+    expect(indexes(database.filter({ white: 'Ding', result: ['0-1', '1-0'] }))).toEqual([2]);
+    expect(indexes(database.filter({ eco: 'b' }))).toEqual([0]);
+    expect(indexes(database.filter({ dateFrom: '2016', dateTo: '2018.11' }))).toEqual([0, 1]);
+  });
+
+  it('sorts and paginates query results', () => {
+    const byDate = database.query({ sortBy: 'date', sortOrder: 'desc', pageSize: 2 });
+
+    expect(byDate.entries.map((entry) => entry.index)).toEqual([2, 0]);
+    expect(byDate).toMatchObject({ total: 3, page: 1, hasPrevious: false, hasNext: true });
+
+    const secondPage = database.query({ sortBy: 'date', sortOrder: 'desc', pageSize: 2, page: 2 });
+    expect(secondPage.entries.map((entry) => entry.index)).toEqual([1]);
+    expect(secondPage.hasNext).toBe(false);
+
+    expect(database.sort('white').map((entry) => entry.white)).toEqual([
+      'Carlsen, Magnus',
+      'Caruana, Fabiano',
+      'Ding, Liren',
+    ]);
+  });
+
+  it('parses games lazily and caches the notation', () => {
+    const notation = database.getNotation(1);
+
+    expect(notation?.getMovesWithAnnotations().map((move) => [move.white, move.black])).toEqual([
+      ['e4', 'e5'],
+      ['Nf3', 'Nc6'],
+      ['Bb5', 'Nf6'],
+    ]);
+    expect(database.getNotation(1)).toBe(notation);
+    expect(database.getNotation(9)).toBeNull();
+  });
+
+  it('falls back to the main thread when no worker is available', async () => {
+    const parsed = await database.parseGame(2);
+
+    expect(parsed).toMatchObject({ metadata: { White: 'Ding, Liren' }, result: '0-1' });
+    expect(parsed?.moves.map((move) => move.white)).toEqual(['Nf3', 'c4']);
+  });
+
+  it('parses games in batches through the worker manager', async () => {
+    const parsePgnBatch = jest.fn((pgns: string[]) =>
+      Promise.resolve(
+        pgns.map(
+          (pgn): ParsedPgnResult => ({
+            metadata: {},
+            moves: [],
+            result: pgn.slice(-3),
+            parseIssues: [],
+          }),
+        ),
+      ),
+    );
+    const workerManager = {
+      isAvailable: () => true,
+      parsePgnBatch,
+      terminate: jest.fn(),
+    } as unknown as PgnParserWorkerManager;
+    const workerDatabase = new PgnDatabase(DATABASE_PGN, { workerManager });
+
+    const results = await workerDatabase.parseGames(undefined, 2);
+
+    expect(parsePgnBatch).toHaveBeenCalledTimes(2);
+    expect(parsePgnBatch.mock.calls[0]?.[0]).toHaveLength(2);
+    expect(results.map((result) => result.result)).toEqual(['1/2', '1-0', '0-1']);
+
+    workerDatabase.dispose();
+    expect(workerManager.terminate).not.toHaveBeenCalled();
+  });
+
+  it('loads a chosen game into a board', async () => {
+    const board = {
+      loadPgnWithAnnotations: jest.fn(() => true),
+      loadPgnWithAnnotationsAsync: jest.fn(() => Promise.resolve(true)),
+    };
+
+    expect(database.loadGame(board, 0)).toBe(true);
+    expect(board.loadPgnWithAnnotations).toHaveBeenCalledWith(database.getGamePgn(0));
+    await expect(database.loadGameAsync(board, 2)).resolves.toBe(true);
+    expect(board.loadPgnWithAnnotationsAsync).toHaveBeenCalledWith(database.getGamePgn(2));
+    expect(database.loadGame(board, 5)).toBe(false);
+  });
+});
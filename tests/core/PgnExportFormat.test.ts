@@ -0,0 +1,166 @@
+import { ChessJsRules } from '../../src/core/ChessJsRules';
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import {
+  escapePgnTagValue,
+  formatExportTags,
+  validatePgnExportFormat,
+  wrapPgnMoveText,
+} from '../../src/core/PgnExportFormat';
+import { PgnNotation } from '../../src/core/PgnNotation';
+
+const issueCodes = (pgn: string) => validatePgnExportFormat(pgn).map((issue) => issue.code);
+
+describe('PgnExportFormat helpers', () => {
+  it('escapes quotes and backslashes in tag values', () => {
+    expect(escapePgnTagValue(String.raw`The "Immortal" \ Game`)).toBe(
+      String.raw`The \"Immortal\" \\ Game`,
+    );
+  });
+
+  it('orders the Seven Tag Roster first and the remaining tags in ASCII order', () => {
+    expect(
+      formatExportTags(
+        { White: 'Anderssen', ECO: 'C33', Event: 'London', Annotator: 'Steinitz', SetUp: '1' },
+        '1-0',
+      ),
+    ).toEqual([
+      '[Event "London"]',
+      '[Site "?"]',
+      '[Date "????.??.??"]',
+      '[Round "?"]',
+      '[White "Anderssen"]',
+      '[Black "?"]',
+      '[Result "1-0"]',
+      '[Annotator "Steinitz"]',
+      '[ECO "C33"]',
+    ]);
+  });
+
+  it('wraps movetext between tokens', () => {
+    const wrapped = wrapPgnMoveText('1. e4 {a long comment about the opening} e5 2. Nf3 *', 20);
+
+    expect(wrapped.split('\n')).toEqual([
+      '1. e4 {a long',
+      'comment about the',
+      'opening} e5 2. Nf3 *',
+    ]);
+  });
+});
+
+describe('PgnNotation#toExportFormatPgn', () => {
+  it('writes canonical export-format PGN that passes validation', () => {
+    const notation = new PgnNotation();
+    notation.loadPgnWithAnnotations(
+      [
+        '[White "Morphy, Paul"]',
+        '[Black "Duke Karl / Count Isouard"]',
+        String.raw`[Event "Paris \"Opera\" Game"]`,
+        '',
+        '1. e4 e5 2. Nf3 d6 3. d4 Bg4 {This is a weak move already. It gives up the bishop pair} 4. dxe5 Bxf3 5. Qxf3 dxe5 6. Bc4 Nf6 7. Qb3 Qe7 8. Nc3 c6 9. Bg5 b5 10. Nxb5 cxb5 11. Bxb5+ Nbd7 12. O-O-O Rd8 13. Rxd7 Rxd7 14. Rd1 Qe6 15. Bxd7+ Nxd7 16. Qb8+ Nxb8 17. Rd8# 1-0',
+      ].join('\n'),
+    );
+    notation.setResult('1-0');
+
+    const exported = notation.toExportFormatPgn();
+    const [tagSection, moveText] = exported.split('\n\n');
+
+    expect(tagSection?.split('\n').slice(0, 7)).toEqual([
+      String.raw`[Event "Paris \"Opera\" Game"]`,
+      '[Site "Neo Chess Board"]',
+      expect.stringMatching(/^\[Date "/),
+      '[Round "1"]',
+      '[White "Morphy, Paul"]',
+      '[Black "Duke Karl / Count Isouard"]',
+      '[Result "1-0"]',
+    ]);
+    expect(moveText?.split('\n').every((line) => line.length <= 80)).toBe(true);
+    expect(moveText?.trimEnd().endsWith('17. Rd8# 1-0')).toBe(true);
+    expect(exported.endsWith('\n')).toBe(true);
+    expect(validatePgnExportFormat(exported)).toEqual([]);
+  });
+
+  it('adds SetUp and FEN for games started from a custom position', () => {
+    const rules = new ChessJsRules();
+    rules.setFEN('4k3/8/8/8/8/8/4P3/4K3 b - - 0 30');
+    rules.move({ from: 'e8', to: 'd8' });
+    rules.move({ from: 'e2', to: 'e4' });
+    rules.toPgn();
+
+    const exported = rules.getPgnNotation().toExportFormatPgn();
+
+    expect(exported).toContain('[FEN "4k3/8/8/8/8/8/4P3/4K3 b - - 0 30"]\n[SetUp "1"]');
+    expect(exported).toContain('\n\n30... Kd8 31. e4 *\n');
+    expect(validatePgnExportFormat(exported)).toEqual([]);
+  });
+
+  it('is available through NeoChessBoard#exportPGN', () => {
+    const container = document.createElement('div');
+    document.body.append(container);
+    const board = new NeoChessBoard(container);
+    board.loadPgnWithAnnotations('1. e4 e5 2. Nf3 $1 {Develops} *');
+
+    const exported = board.exportPGN({ exportFormat: true });
+
+    expect(exported).toContain('\n\n1. e4 e5 2. Nf3 $1 {Develops} *');
+    expect(validatePgnExportFormat(exported)).toEqual([]);
+
+    board.destroy();
+    container.remove();
+  });
+});
+
+describe('validatePgnExportFormat', () => {
+  const ROSTER = [
+    '[Event "?"]',
+    '[Site "?"]',
+    '[Date "????.??.??"]',
+    '[Round "?"]',
+    '[White "?"]',
+    '[Black "?"]',
+    '[Result "*"]',
+  ];
+
+  it('reports missing and misordered roster tags', () => {
+    const pgn = ['[White "?"]', '[Event "?"]', '[Result "*"]', '', '1. e4 *'].join('\n');
+
+    const issues = validatePgnExportFormat(pgn);
+
+    expect(issues.filter((issue) => issue.code === 'PGN_EXPORT_MISSING_TAG')).toHaveLength(4);
+    expect(issues.find((issue) => issue.code === 'PGN_EXPORT_TAG_ORDER')?.details).toMatchObject({
+      tag: 'Event',
+      line: 2,
+    });
+  });
+
+  it('reports malformed tags, long lines and line comments', () => {
+    const pgn = [
+      ...ROSTER.slice(0, 6),
+      '[Result "*"] [ECO "C20"]',
+      '',
+      `1. e4 {${'x'.repeat(80)}} e5 ; open game`,
+      '*',
+    ].join('\n');
+
+    expect(issueCodes(pgn)).toEqual([
+      'PGN_EXPORT_LINE_TOO_LONG',
+      'PGN_EXPORT_INVALID_TAG',
+      'PGN_EXPORT_MISSING_TAG',
+      'PGN_EXPORT_LINE_COMMENT',
+    ]);
+  });
+
+  it('reports SetUp/FEN, blank line and termination problems', () => {
+    expect(
+      issueCodes([...ROSTER, '[FEN "8/8/8/8/8/8/8/K6k w - - 0 1"]', '', '*'].join('\n')),
+    ).toEqual(['PGN_EXPORT_MISSING_SETUP']);
+    expect(issueCodes([...ROSTER, '1. e4 *'].join('\n'))).toEqual([
+      'PGN_EXPORT_MISSING_BLANK_LINE',
+    ]);
+    expect(issueCodes([...ROSTER, '', '1. e4 e5'].join('\n'))).toEqual([
+      'PGN_EXPORT_MISSING_TERMINATION',
+    ]);
+    expect(issueCodes([...ROSTER, '', '1. e4 1-0'].join('\n'))).toEqual([
+      'PGN_EXPORT_RESULT_MISMATCH',
+    ]);
+  });
+});
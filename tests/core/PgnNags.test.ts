@@ -0,0 +1,101 @@
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import type { DrawingManager } from '../../src/core/DrawingManager';
+import { PgnNotation } from '../../src/core/PgnNotation';
+import { formatNags, getNagSymbol, parseNag, splitSanSuffix } from '../../src/core/PgnNags';
+
+describe('PgnNags helpers', () => {
+  it('parses numeric and symbolic glyphs', () => {
+    expect(parseNag('$1')).toBe(1);
+    expect(parseNag('$255')).toBe(255);
+    expect(parseNag('$0')).toBeNull();
+    expect(parseNag('$256')).toBeNull();
+    expect(parseNag('!?')).toBe(5);
+    expect(parseNag('+=')).toBe(14);
+    expect(parseNag('±')).toBe(16);
+    expect(parseNag('e4')).toBeNull();
+  });
+
+  it('splits move-quality suffixes from SAN', () => {
+    expect(splitSanSuffix('Qxf7??')).toEqual({ san: 'Qxf7', nags: [4] });
+    expect(splitSanSuffix('e4!?')).toEqual({ san: 'e4', nags: [5] });
+    expect(splitSanSuffix('Qh5+')).toEqual({ san: 'Qh5+', nags: [] });
+  });
+
+  it('formats NAGs and resolves display symbols', () => {
+    expect(formatNags([1, 14])).toBe('$1 $14');
+    expect(formatNags()).toBe('');
+    expect(getNagSymbol(3)).toBe('!!');
+    expect(getNagSymbol(250)).toBeUndefined();
+  });
+});
+
+describe('PgnNotation NAG support', () => {
+  it('stores suffix, symbolic and numeric glyphs in move annotations', () => {
+    const notation = new PgnNotation();
+    notation.loadPgnWithAnnotations('1. e4!? e5 $2 2. Nf3 += {Solid} Nc6?? $146 *');
+
+    expect(notation.getMoveAnnotations(1, true)?.nags).toEqual([5]);
+    expect(notation.getMoveAnnotations(1, false)?.nags).toEqual([2]);
+    expect(notation.getMoveAnnotations(2, true)).toMatchObject({
+      nags: [14],
+      textComment: 'Solid',
+    });
+    expect(notation.getMoveAnnotations(2, false)?.nags).toEqual([4, 146]);
+    expect(notation.getMoveSan(2, false)).toBe('Nc6');
+  });
+
+  it('writes glyphs back as numeric NAGs', () => {
+    const notation = new PgnNotation();
+    notation.loadPgnWithAnnotations('1. e4!? e5 (1... c5 $1) 2. Nf3 += {Solid} *');
+
+    const movetext = notation.toPgnWithAnnotations().replaceAll(/\s+/g, ' ');
+    expect(movetext).toContain('1. e4 $5 e5 (1... c5 $1) 2. Nf3 $14 {Solid}');
+
+    const reloaded = new PgnNotation();
+    reloaded.loadPgnWithAnnotations(notation.toPgnWithAnnotations());
+    expect(reloaded.getMovesWithAnnotations()).toEqual(notation.getMovesWithAnnotations());
+  });
+});
+
+describe('NeoChessBoard NAG badges', () => {
+  let container: HTMLDivElement;
+  let board: NeoChessBoard;
+
+  const getBadge = () =>
+    (Reflect.get(board, 'drawingManager') as DrawingManager).getAnnotationBadge();
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.append(container);
+    board = new NeoChessBoard(container);
+  });
+
+  afterEach(() => {
+    board.destroy();
+    container.remove();
+  });
+
+  it('shows the glyph of the current ply on its destination square', () => {
+    expect(board.loadPgnWithAnnotations('1. e4!? e5 2. Nf3 Nc6?? 3. Bc4 Nf6 4. O-O $3 *')).toBe(
+      true,
+    );
+    expect(board.getMoveHistory()).toEqual(['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Nf6', 'O-O']);
+
+    expect(getBadge()).toEqual({ square: 'g1', nag: 3 });
+
+    board.showPgnAnnotationsForPly(4);
+    expect(getBadge()).toEqual({ square: 'c6', nag: 4 });
+
+    board.showPgnAnnotationsForPly(2);
+    expect(getBadge()).toBeNull();
+
+    board.showPgnAnnotationsForPly(1);
+    expect(getBadge()).toEqual({ square: 'e4', nag: 5 });
+  });
+
+  it('keeps NAGs when exporting the game through the rules adapter', () => {
+    board.loadPgnWithAnnotations('1. e4!? e5 2. Nf3 $14 *');
+
+    expect(board.exportPGN({ includeHeaders: false })).toBe('1. e4 $5 e5 2. Nf3 $14');
+  });
+});
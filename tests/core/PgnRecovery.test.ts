@@ -0,0 +1,137 @@
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import { recoverPgn } from '../../src/core/PgnRecovery';
+
+const movetext = (pgn: string) => pgn.split('\n\n').at(-1);
+
+describe('recoverPgn', () => {
+  it('translates localized piece letters, detecting the language from the movetext', () => {
+    const { pgn, issues } = recoverPgn('1. e4 e5 2. Cf3 Cc6 3. Fb5 a6 4. Fa4 Cf6 5. 0-0 Fe7 *');
+
+    expect(pgn).toBe('1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 *');
+    expect(issues.filter((issue) => issue.code === 'PGN_RECOVERY_PIECE_LETTERS')).toHaveLength(6);
+    expect(issues[0]?.details).toMatchObject({
+      ply: 3,
+      original: 'Cf3',
+      replacement: 'Nf3',
+      locale: 'fr',
+    });
+    expect(issues.find((issue) => issue.code === 'PGN_RECOVERY_CASTLING')?.details).toMatchObject({
+      original: '0-0',
+      replacement: 'O-O',
+    });
+  });
+
+  it('reads castling written with typographic dashes', () => {
+    expect(recoverPgn('1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. 0–0 *').pgn).toBe(
+      '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. O-O *',
+    );
+
+    const { pgn, issues } = recoverPgn(
+      '1. d4 d5 2. Nc3 Nc6 3. Bf4 Bf5 4. Qd2 Qd7 5. 0—0—0 0‑0‑0 *',
+    );
+    expect(pgn).toBe('1. d4 d5 2. Nc3 Nc6 3. Bf4 Bf5 4. Qd2 Qd7 5. O-O-O O-O-O *');
+    expect(issues.map((issue) => issue.code)).toEqual([
+      'PGN_RECOVERY_CASTLING',
+      'PGN_RECOVERY_CASTLING',
+    ]);
+  });
+
+  it('honours an explicit locale and translates promotions', () => {
+    const { pgn } = recoverPgn('[FEN "8/P7/8/8/8/8/8/k6K w - - 0 1"]\n\n1. a8D Kb2 *', {
+      locale: 'de',
+    });
+
+    expect(movetext(pgn)).toBe('1. a8=Q Kb2 *');
+  });
+
+  it('replaces figurines, symbolic annotations and en-dash results', () => {
+    const { pgn, issues } = recoverPgn('1. e4 e5 2. ♘f3 ♞c6 3. ♗b5!? a6 1–0');
+
+    expect(pgn).toBe('1. e4 e5 2. Nf3 Nc6 3. Bb5 $5 a6 1-0');
+    expect(issues.map((issue) => issue.code)).toEqual([
+      'PGN_RECOVERY_FIGURINE',
+      'PGN_RECOVERY_FIGURINE',
+      'PGN_RECOVERY_FIGURINE',
+      'PGN_RECOVERY_RESULT',
+    ]);
+  });
+
+  it('straightens smart quotes in the tag section', () => {
+    const { pgn, issues } = recoverPgn('[White “Carlsen”]\n[Result “½–½”]\n\n1. e4 ½–½');
+
+    expect(pgn).toBe('[White "Carlsen"]\n[Result "½–½"]\n\n1. e4 1/2-1/2');
+    expect(issues.filter((issue) => issue.code === 'PGN_RECOVERY_SMART_QUOTES')).toHaveLength(4);
+  });
+
+  it('inserts missing and fixes wrong move numbers, including in variations', () => {
+    const { pgn, issues } = recoverPgn('e4 e5 Nf3 (2. d4 exd4) Nc6 7. Bb5 {pin} a6 12…Ba4 *');
+
+    expect(pgn).toBe('1. e4 e5 2. Nf3 (2. d4 exd4) 2... Nc6 3. Bb5 {pin} 3... a6 4. Ba4 *');
+    expect(
+      issues
+        .filter((issue) => issue.code === 'PGN_RECOVERY_MOVE_NUMBER')
+        .map((issue) => issue.details?.moveNumber),
+    ).toEqual([1, 2, 3, 4]);
+  });
+
+  it('cuts the game at the first illegal move', () => {
+    const { pgn, issues } = recoverPgn(
+      '[Result "1-0"]\n\n1. e4 e5 2. Nf3 Nc6 3. Bb6 a6 4. Ba4 1-0',
+    );
+
+    expect(pgn).toBe('[Result "*"]\n\n1. e4 e5 2. Nf3 Nc6 *');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]?.code).toBe('PGN_RECOVERY_ILLEGAL_MOVE');
+    expect(issues[0]?.details).toMatchObject({ ply: 5, moveNumber: 3, color: 'white', san: 'Bb6' });
+  });
+
+  it('leaves clean PGN untouched', () => {
+    const clean = '[Event "Club"]\n\n1. e4 e5 2. Nf3 $1 {Develops} (2. Bc4 Nf6) 2... Nc6 *';
+
+    expect(recoverPgn(clean)).toEqual({ pgn: clean, issues: [] });
+  });
+});
+
+describe('NeoChessBoard lenient PGN loading', () => {
+  let container: HTMLDivElement;
+  let board: NeoChessBoard;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.append(container);
+    board = new NeoChessBoard(container);
+  });
+
+  afterEach(() => {
+    board.destroy();
+    container.remove();
+  });
+
+  it('repairs the PGN and reports each fix', () => {
+    expect(
+      board.loadPgnWithAnnotations('1. e4 e5 2. Cf3 Cc6 3. Fb5 Cf6 4. 0-0 *', { lenient: true }),
+    ).toBe(true);
+
+    expect(board.getPosition()).toBe(
+      'r1bqkb1r/pppp1ppp/2n2n2/1B2p3/4P3/5N2/PPPP1PPP/RNBQ1RK1 b kq - 5 4',
+    );
+    expect(board.getLastPgnLoadIssues().map((issue) => issue.code)).toEqual([
+      'PGN_RECOVERY_PIECE_LETTERS',
+      'PGN_RECOVERY_PIECE_LETTERS',
+      'PGN_RECOVERY_PIECE_LETTERS',
+      'PGN_RECOVERY_PIECE_LETTERS',
+      'PGN_RECOVERY_CASTLING',
+    ]);
+  });
+
+  it('loads the legal part of a game through the async loader', async () => {
+    await expect(
+      board.loadPgnWithAnnotationsAsync('1. e4 e5 2. Ke3 Nc6 *', { lenient: true }),
+    ).resolves.toBe(true);
+
+    expect(board.getPosition()).toBe(
+      'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
+    );
+    expect(board.getLastPgnLoadIssues()[0]?.code).toBe('PGN_RECOVERY_ILLEGAL_MOVE');
+  });
+});
@@ -24,4 +24,10 @@ describe('sanitizePgnString', () => {
 
     expect(sanitized).toBe('1. d4 d5 { [%eval 0.0] } *');
   });
+
+  it('should rewrite standalone symbolic annotations as numeric NAGs', () => {
+    const sanitized = sanitizePgnString('1. e4 !? e5 += {keep ?! here} 2. Nf3! $1 Nc6 *');
+
+    expect(sanitized).toBe('1. e4 $5 e5 $14 {keep ?! here} 2. Nf3! $1 Nc6 *');
+  });
 });
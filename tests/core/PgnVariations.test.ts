@@ -0,0 +1,163 @@
+import { PgnNotation } from '../../src/core/PgnNotation';
+import { PgnParseError } from '../../src/core/errors';
+import { splitLineAtPly, joinLines, tokenizeMoveText } from '../../src/core/PgnVariations';
+
+const STUDY_PGN = `[Event "Variation study"]
+[Site "?"]
+[Date "2024.01.01"]
+[Round "?"]
+[White "White"]
+[Black "Black"]
+[Result "*"]
+
+1. e4 e5 (1... c5 {Sicilian} 2. Nf3 (2. c3 d5) 2... d6) 2. Nf3 {%cal Gg1f3} Nc6 (2... Nf6 3. Nxe5) 3. Bb5 *`;
+
+describe('PgnNotation variations', () => {
+  let notation: PgnNotation;
+
+  beforeEach(() => {
+    notation = new PgnNotation();
+    notation.loadPgnWithAnnotations(STUDY_PGN);
+  });
+
+  it('keeps the mainline flat and stores side lines on the branching move', () => {
+    const moves = notation.getMovesWithAnnotations();
+
+    expect(moves.map((move) => [move.white, move.black])).toEqual([
+      ['e4', 'e5'],
+      ['Nf3', 'Nc6'],
+      ['Bb5', undefined],
+    ]);
+
+    const sicilian = notation.getVariations(2);
+    expect(sicilian).toHaveLength(1);
+    expect(sicilian[0]?.[0]).toMatchObject({
+      moveNumber: 1,
+      black: 'c5',
+      blackComment: '{Sicilian}',
+    });
+    expect(sicilian[0]?.[1]).toMatchObject({ moveNumber: 2, white: 'Nf3', black: 'd6' });
+    expect(notation.getVariations(3, [{ ply: 2, index: 0 }])[0]).toMatchObject([
+      { moveNumber: 2, white: 'c3', black: 'd5' },
+    ]);
+  });
+
+  it('round-trips the tree through toPgnWithAnnotations', () => {
+    const exported = notation.toPgnWithAnnotations();
+
+    expect(exported.replaceAll(/\s+/g, ' ')).toContain(
+      '1. e4 e5 (1... c5 {Sicilian} 2. Nf3 (2. c3 d5) 2... d6) 2. Nf3 {%cal Gg1f3} Nc6 (2... Nf6 3. Nxe5) 3. Bb5',
+    );
+
+    const reloaded = new PgnNotation();
+    reloaded.loadPgnWithAnnotations(exported);
+    expect(reloaded.getMovesWithAnnotations()).toEqual(notation.getMovesWithAnnotations());
+    expect(reloaded.toPgnWithAnnotations()).toBe(exported);
+  });
+
+  it('resolves the SAN sequence and annotations along a variation path', () => {
+    const path = [{ ply: 2, index: 0 }];
+
+    expect(notation.getSanSequence(path)).toEqual(['e4', 'c5', 'Nf3', 'd6']);
+    expect(notation.getSanSequence(path, 3)).toEqual(['e4', 'c5', 'Nf3']);
+    expect(notation.getSanSequence([{ ply: 2, index: 4 }])).toBeNull();
+    expect(notation.getMoveAnnotations(2, true)?.arrows).toHaveLength(1);
+    expect(notation.getMoveAnnotations(1, false, path)?.textComment).toBe('Sicilian');
+  });
+
+  it('adds and deletes sibling lines', () => {
+    const path = notation.addVariation(3, ['d4', 'exd4']);
+
+    expect(path).toEqual([{ ply: 3, index: 0 }]);
+    expect(notation.getLine(path ?? [])).toMatchObject([
+      { moveNumber: 2, white: 'd4', black: 'exd4' },
+    ]);
+    expect(notation.toPgnWithAnnotations().replaceAll(/\s+/g, ' ')).toContain(
+      '2. Nf3 {%cal Gg1f3} (2. d4 exd4) 2... Nc6',
+    );
+
+    expect(notation.addVariation(40, ['a3'])).toBeNull();
+    expect(notation.deleteVariation(3, 0)).toBe(true);
+    expect(notation.deleteVariation(3, 0)).toBe(false);
+    expect(notation.getVariations(3)).toEqual([]);
+  });
+
+  it('merges moves played along a line into the tree', () => {
+    const sicilian = [{ ply: 2, index: 0 }];
+
+    expect(notation.mergeLine(['e4', 'c5', 'Nf3'], sicilian)).toEqual(sicilian);
+    expect(notation.mergeLine(['e4', 'c5', 'Nf3', 'd6', 'd4+'], sicilian)).toEqual(sicilian);
+    expect(notation.getSanSequence(sicilian)).toEqual(['e4', 'c5', 'Nf3', 'd6', 'd4+']);
+
+    expect(notation.mergeLine(['e4', 'c5', 'Nc3'], sicilian)).toEqual([
+      ...sicilian,
+      { ply: 3, index: 1 },
+    ]);
+    expect(notation.mergeLine(['e4', 'c5', 'c3', 'd5'], sicilian)).toEqual([
+      ...sicilian,
+      { ply: 3, index: 0 },
+    ]);
+    expect(notation.mergeLine(['e4', 'e5', 'Nf3'], sicilian)).toEqual([]);
+    expect(notation.mergeLine(['e4', 'c5'], [{ ply: 2, index: 4 }])).toBeNull();
+    expect(notation.toPgnWithAnnotations().replaceAll(/\s+/g, ' ')).toContain(
+      '(1... c5 {Sicilian} 2. Nf3 (2. c3 d5) (2. Nc3) 2... d6 3. d4+)',
+    );
+  });
+
+  it('promotes a variation and demotes the previous continuation', () => {
+    expect(notation.promoteVariation(2, 0)).toBe(true);
+
+    expect(notation.getSanSequence()).toEqual(['e4', 'c5', 'Nf3', 'd6']);
+    const demoted = notation.getVariations(2);
+    expect(demoted).toHaveLength(1);
+    expect(demoted[0]?.map((move) => [move.white, move.black])).toEqual([
+      [undefined, 'e5'],
+      ['Nf3', 'Nc6'],
+      ['Bb5', undefined],
+    ]);
+    expect(notation.getVariations(3)[0]?.[0]).toMatchObject({ white: 'c3', black: 'd5' });
+    expect(notation.getVariations(4, [{ ply: 2, index: 0 }])).toHaveLength(1);
+    expect(notation.promoteVariation(2, 3)).toBe(false);
+  });
+
+  it('reports unbalanced parentheses as parse issues', () => {
+    const issueCodes = (pgn: string) => {
+      notation.loadPgnWithAnnotations(pgn);
+      return notation.getParseIssues().map((issue) => issue.code);
+    };
+
+    expect(issueCodes('1. e4 (1. d4 d5 2. c4')).toContain('PGN_PARSE_UNTERMINATED_VARIATION');
+    expect(issueCodes('1. e4 e5) 2. Nf3')).toContain('PGN_PARSE_UNEXPECTED_VARIATION');
+    expect(issueCodes('(1. d4) 1. e4')).toContain('PGN_PARSE_UNEXPECTED_VARIATION');
+    expect(notation.getParseIssues()[0]).toBeInstanceOf(PgnParseError);
+  });
+});
+
+describe('PgnVariations helpers', () => {
+  it('splits and joins lines at a black ply', () => {
+    const line = [
+      { moveNumber: 1, white: 'e4', black: 'e5' },
+      { moveNumber: 2, white: 'Nf3', black: 'Nc6' },
+    ];
+
+    const { head, tail } = splitLineAtPly(line, 2);
+
+    expect(head).toEqual([{ moveNumber: 1, white: 'e4' }]);
+    expect(tail).toEqual([{ moveNumber: 1, black: 'e5' }, line[1]]);
+    expect(joinLines(head, tail)).toEqual(line);
+  });
+
+  it('tokenizes comments, brackets, move numbers, NAGs and results', () => {
+    expect(tokenizeMoveText('1. e4 {hi} (1... c5) $1 1-0').map((token) => token.type)).toEqual([
+      'moveNumber',
+      'san',
+      'comment',
+      'open',
+      'moveNumber',
+      'san',
+      'close',
+      'nag',
+      'result',
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import { PolyglotBookError } from '../../src/core/errors';
+import { PolyglotBook, polyglotKey } from '../../src/core/Polyglot';
+import { START_FEN } from '../../src/core/utils';
+import { buildPolyglotBook } from '../fixtures/polyglot';
+
+const CASTLING_FEN = 'r3k2r/pppqbppp/2np1n2/4p3/2B1P1b1/2NP1N2/PPPQBPPP/R3K2R w KQkq - 4 8';
+
+describe('Polyglot', () => {
+  it('computes the Zobrist keys of the Polyglot specification', () => {
+    const positions: Array<[string, string]> = [
+      [START_FEN, '463b96181691fc9c'],
+      ['rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1', '823c9b50fd114196'],
+      ['rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2', '0756b94461c50fb0'],
+      ['rnbqkbnr/ppp1pppp/8/3pP3/8/8/PPPP1PPP/RNBQKBNR b KQkq - 0 2', '662fafb965db29d4'],
+      ['rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3', '22a48b5a8e47ff78'],
+      ['rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPPKPPP/RNBQ1BNR b kq - 0 3', '652a607ca3f242c1'],
+      ['rnbq1bnr/ppp1pkpp/8/3pPp2/8/8/PPPPKPPP/RNBQ1BNR w - - 0 4', '00fdd303c946bdd9'],
+      ['rnbqkbnr/p1pppppp/8/8/PpP4P/8/1P1PPPP1/RNBQKBNR b KQkq c3 0 3', '3c8123ea7b067637'],
+      ['rnbqkbnr/p1pppppp/8/8/P6P/R1p5/1P1PPPP1/1NBQKBNR b Kkq - 0 4', '5c3f9b829b279560'],
+    ];
+
+    for (const [fen, key] of positions) {
+      expect(polyglotKey(fen).toString(16).padStart(16, '0')).toBe(key);
+    }
+  });
+
+  it('looks up weighted moves and decodes castling', () => {
+    const book = new PolyglotBook(
+      buildPolyglotBook([
+        [START_FEN, 'd2d4', 30],
+        [START_FEN, 'e2e4', 60],
+        [START_FEN, 'g1f3', 10],
+        [CASTLING_FEN, 'e1h1', 5],
+        [CASTLING_FEN, 'e1a1', 0],
+      ]),
+    );
+
+    expect(book.size).toBe(5);
+    expect(book.getMoves(START_FEN).map(({ uci, probability }) => [uci, probability])).toEqual([
+      ['e2e4', 0.6],
+      ['d2d4', 0.3],
+      ['g1f3', 0.1],
+    ]);
+    expect(book.getMoves(CASTLING_FEN).map((move) => move.uci)).toEqual(['e1g1', 'e1c1']);
+    expect(book.getMoves('8/8/8/4k3/8/8/8/4K3 w - - 0 1')).toEqual([]);
+
+    expect(book.pickMove(START_FEN, { random: () => 0.7 })?.uci).toBe('d2d4');
+    expect(book.pickMove(START_FEN, { best: true })?.uci).toBe('e2e4');
+    // Moves of weight 0 are never played
+    expect(book.pickMove(CASTLING_FEN, { random: () => 0.99 })?.uci).toBe('e1g1');
+  });
+
+  it('rejects truncated books and failed downloads', async () => {
+    expect(() => new PolyglotBook(new Uint8Array(20))).toThrow(PolyglotBookError);
+
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = jest.fn(() =>
+      Promise.resolve({ ok: false, status: 404 } as Response),
+    ) as typeof fetch;
+    try {
+      await expect(PolyglotBook.load('/missing.bin')).rejects.toMatchObject({
+        code: 'POLYGLOT_LOAD_FAILED',
+        details: { status: 404 },
+      });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
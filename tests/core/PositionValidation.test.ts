@@ -0,0 +1,181 @@
+import { InvalidFENError, PositionValidationError } from '../../src/core/errors';
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import { isLegalPosition, validatePosition } from '../../src/core/PositionValidation';
+import { START_FEN } from '../../src/core/utils';
+
+const codes = (fen: string, chess960 = false) =>
+  validatePosition(fen, { chess960 }).map((issue) => issue.code);
+
+describe('validatePosition', () => {
+  it('accepts legal positions', () => {
+    expect(validatePosition(START_FEN)).toEqual([]);
+    expect(
+      validatePosition('rnbqkbnr/ppp1pppp/8/8/3pP3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 2'),
+    ).toEqual([]);
+    expect(isLegalPosition('4k3/8/8/8/8/8/8/4K3 w - - 0 1')).toBe(true);
+  });
+
+  it('returns the syntax error when the FEN does not parse', () => {
+    const [issue] = validatePosition('8/8/8/8/8/8/8/7X w - - 0 1');
+
+    expect(issue).toBeInstanceOf(InvalidFENError);
+    expect(issue?.code).toBe('INVALID_FEN_INVALID_PIECE');
+    expect(codes('8/8/8 w - - 0 1')).toEqual(['INVALID_FEN_BOARD_SIZE']);
+  });
+
+  it('reports every problem with material and kings', () => {
+    expect(codes('8/8/8/8/8/8/8/4K3 w - - 0 1')).toEqual(['INVALID_FEN_KING_COUNT']);
+    expect(codes('P3k3/8/8/8/8/8/8/4K2p w - - 0 1')).toEqual([
+      'INVALID_FEN_PAWN_ON_BACK_RANK',
+      'INVALID_FEN_PAWN_ON_BACK_RANK',
+    ]);
+    expect(codes('QQQQkQQQ/QQQ5/8/8/8/8/PPPPPPPP/4K3 b - - 0 1')).toEqual([
+      'INVALID_FEN_TOO_MANY_PIECES',
+      'INVALID_FEN_TOO_MANY_PROMOTED',
+    ]);
+    expect(codes('4k3/8/8/8/8/P7/PPPPPPPP/4K3 w - - 0 1')).toEqual(['INVALID_FEN_TOO_MANY_PAWNS']);
+  });
+
+  it('rejects a position where the side not to move is in check', () => {
+    expect(codes('4k3/8/8/8/8/8/8/R3K3 b - - 0 1')).toEqual([]);
+    expect(codes('4k3/8/8/8/8/8/8/4K2R w - - 0 1')).toEqual([]);
+    expect(codes('4k3/8/8/8/8/8/4R3/4K3 w - - 0 1')).toEqual([
+      'INVALID_FEN_INACTIVE_KING_IN_CHECK',
+    ]);
+    expect(codes('8/8/8/8/8/8/3k4/4K3 b - - 0 1')).toEqual(['INVALID_FEN_INACTIVE_KING_IN_CHECK']);
+    expect(codes('4k3/8/8/8/8/8/4r3/4K3 b - - 0 1')).toEqual([
+      'INVALID_FEN_INACTIVE_KING_IN_CHECK',
+    ]);
+  });
+
+  it('checks castling rights against king and rook placement', () => {
+    expect(codes('r3k3/8/8/8/8/8/8/4K2R w Kq - 0 1')).toEqual([]);
+    expect(codes('4k3/8/8/8/8/8/8/4K2R w KQ - 0 1')).toEqual(['INVALID_FEN_CASTLING_RIGHTS']);
+    expect(codes('r3k3/8/8/8/8/8/8/R4K2 w Q - 0 1')).toEqual(['INVALID_FEN_CASTLING_RIGHTS']);
+    expect(codes('4k3/8/8/8/8/8/8/4K2R w KK - 0 1')).toEqual(['INVALID_FEN_CASTLING_RIGHTS']);
+
+    const chess960 = 'rk3r2/8/8/8/8/8/8/RK3R2 w KQkq - 0 1';
+    expect(codes(chess960)).toHaveLength(4);
+    expect(codes(chess960, true)).toEqual([]);
+    expect(codes('rk3r2/8/8/8/8/8/8/RK3R2 w FAfa - 0 1')).toEqual([]);
+    expect(codes('rk3r2/8/8/8/8/8/8/RK3R2 w Cfa - 0 1')).toEqual(['INVALID_FEN_CASTLING_RIGHTS']);
+  });
+
+  it('checks the en passant square against the pawn that just moved', () => {
+    expect(codes('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 2')).toEqual([]);
+    expect(codes('4k3/8/8/3pP3/8/8/8/4K3 w - d3 0 2')).toEqual(['INVALID_FEN_EN_PASSANT']);
+    expect(codes('4k3/8/8/4P3/8/8/8/4K3 w - d6 0 2')).toEqual(['INVALID_FEN_EN_PASSANT']);
+    expect(codes('4k3/3n4/8/3pP3/8/8/8/4K3 w - d6 0 2')).toEqual(['INVALID_FEN_EN_PASSANT']);
+  });
+
+  it('checks the move counters', () => {
+    expect(codes('4k3/8/8/8/8/8/8/4K3 w - - x 0')).toEqual([
+      'INVALID_FEN_MOVE_COUNTER',
+      'INVALID_FEN_MOVE_COUNTER',
+    ]);
+  });
+
+  it('holds variant positions to the rules of their variant', () => {
+    const threeCheck = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 3+3 0 1';
+    expect(validatePosition(threeCheck, { variant: 'threecheck' })).toEqual([]);
+    expect(codes(threeCheck)).toContain('INVALID_FEN_MOVE_COUNTER');
+
+    const crazyhouse = 'rnb1kbnr/ppp2ppp/8/8/3QQ3/8/PPPPPPPP/RNBQKBNR[p] b KQkq - 0 6';
+    expect(validatePosition(crazyhouse, { variant: 'crazyhouse' })).toEqual([]);
+    expect(codes(crazyhouse)).toEqual([
+      'INVALID_FEN_TOO_MANY_PIECES',
+      'INVALID_FEN_TOO_MANY_PROMOTED',
+    ]);
+    expect(
+      validatePosition('4k3/8/8/8/8/8/8/Q~3K3[] w - - 0 1', { variant: 'crazyhouse' }),
+    ).toEqual([]);
+
+    const antichess = '8/8/8/8/8/8/4p3/K1K5 w - - 0 1';
+    expect(validatePosition(antichess, { variant: 'antichess' })).toEqual([]);
+    expect(codes(antichess)).toEqual(['INVALID_FEN_KING_COUNT', 'INVALID_FEN_KING_COUNT']);
+
+    const touchingKings = '8/8/8/8/8/8/3k4/4K3 b - - 0 1';
+    expect(validatePosition(touchingKings, { variant: 'atomic' })).toEqual([]);
+    expect(
+      validatePosition('rk3r2/8/8/8/8/8/8/RK3R2 w KQkq - 0 1', { variant: 'chess960' }),
+    ).toEqual([]);
+  });
+
+  it('describes each issue', () => {
+    const [issue] = validatePosition('4k3/8/8/8/8/8/8/4K2R w KQ - 0 1');
+
+    expect(issue?.message).toBe('Castling right "Q" is impossible: no rook on a1.');
+    expect(issue?.details).toMatchObject({ color: 'w', fieldValue: 'Q' });
+  });
+});
+
+describe('NeoChessBoard strict position validation', () => {
+  const ILLEGAL_FEN = '4k3/8/8/8/8/8/4R3/4K3 w - - 0 1';
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.append(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it('accepts illegal positions unless strict mode is requested', () => {
+    const board = new NeoChessBoard(container);
+
+    board.setFEN(ILLEGAL_FEN, true);
+    expect(board.getPosition()).toBe(ILLEGAL_FEN);
+
+    board.setFEN(START_FEN, true);
+    expect(() => board.setFEN(ILLEGAL_FEN, true, { strict: true })).toThrow(
+      PositionValidationError,
+    );
+    expect(board.getPosition()).toBe(START_FEN);
+    board.destroy();
+  });
+
+  it('rejects illegal positions when the board is strict', () => {
+    const board = new NeoChessBoard(container, { strictPositionValidation: true });
+
+    let error: unknown;
+    try {
+      board.loadPosition('8/8/8/8/8/8/4R3/4K3 w - - 0 1');
+    } catch (error_) {
+      error = error_;
+    }
+
+    expect(error).toBeInstanceOf(PositionValidationError);
+    expect((error as PositionValidationError).code).toBe('INVALID_FEN_KING_COUNT');
+    expect((error as PositionValidationError).issues).toHaveLength(1);
+    expect(board.getPosition()).toBe(START_FEN);
+
+    board.setFEN(ILLEGAL_FEN, true, { strict: false });
+    expect(board.getPosition()).toBe(ILLEGAL_FEN);
+    board.destroy();
+  });
+
+  it('validates the initial position and variant positions when the board is strict', () => {
+    expect(
+      () => new NeoChessBoard(container, { fen: ILLEGAL_FEN, strictPositionValidation: true }),
+    ).toThrow(PositionValidationError);
+
+    const threeCheck = '4k3/8/8/8/8/8/8/R3K3 b - - 1+2 0 1';
+    const board = new NeoChessBoard(container, {
+      variant: 'threecheck',
+      position: threeCheck,
+      strictPositionValidation: true,
+    });
+    expect(board.getRemainingChecks()).toEqual({ w: 1, b: 2 });
+    board.destroy();
+
+    const antichess = new NeoChessBoard(container, {
+      variant: 'antichess',
+      strictPositionValidation: true,
+    });
+    antichess.setFEN('8/8/8/8/8/8/4p3/R7 w - - 0 1', true);
+    expect(antichess.getPosition()).toBe('8/8/8/8/8/8/4p3/R7 w - - 0 1');
+    antichess.destroy();
+  });
+});
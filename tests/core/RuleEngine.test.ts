@@ -1,5 +1,6 @@
 import { ChessJsRules } from '../../src/core/ChessJsRules';
 import type { Move, RulesAdapter, Square } from '../../src/core/types';
+import { CrazyhouseRules } from '../../src/core/CrazyhouseRules';
 import { RuleEngine } from '../../src/core/RuleEngine';
 
 class StubRulesAdapter implements RulesAdapter {
@@ -87,4 +88,59 @@ describe('RuleEngine', () => {
     expect(mockFactory).toHaveBeenCalledWith('4k3/8/8/8/8/8/8/4K3 w - - 0 1');
     expect(mockMove).toHaveBeenCalledWith({ from: 'e2', to: 'e4', promotion: undefined });
   });
+
+  it('converts to and from long algebraic and ICCF numeric notation', () => {
+    const rules = new ChessJsRules(
+      'r1bqkbnr/pppp1ppp/2n5/4p3/3PP3/5N2/PPP2PPP/RNBQKB1R b KQkq - 0 3',
+    );
+    const engine = new RuleEngine(() => rules);
+
+    expect(engine.sanToLongAlgebraic('exd4')).toBe('e5xd4');
+    expect(engine.sanToLongAlgebraic('Nf6')).toBe('Ng8-f6');
+    expect(engine.sanToIccf('Bb4+')).toBe('6824');
+    expect(engine.convertMoveNotation('Nc6xd4', 'lan', 'san')).toBe('Nxd4');
+    expect(engine.convertMoveNotation('4884', 'iccf', 'lan')).toBe('Qd8-h4');
+    expect(engine.convertMoveNotation('5755', 'iccf', 'uci')).toBe('e7e5');
+  });
+
+  it('writes castling and promotions in long algebraic and ICCF notation', () => {
+    const rules = new ChessJsRules('4k3/1P6/8/8/8/8/8/4K2R w K - 0 1');
+    const engine = new RuleEngine(() => rules);
+
+    expect(engine.sanToLongAlgebraic('O-O')).toBe('O-O');
+    expect(engine.sanToIccf('O-O')).toBe('5171');
+    expect(engine.sanToLongAlgebraic('b8=N')).toBe('b7-b8=N');
+    expect(engine.sanToIccf('b8=N')).toBe('27284');
+    expect(engine.convertMoveNotation('27281', 'iccf', 'san')).toBe('b8=Q+');
+    expect(engine.convertMoveNotation('O-O', 'lan', 'iccf')).toBe('5171');
+  });
+
+  it('parses long algebraic and ICCF input', () => {
+    const engine = new RuleEngine(() => new ChessJsRules());
+
+    expect(engine.parseLongAlgebraicNotation('Ng1-f3')).toEqual({
+      from: 'g1',
+      to: 'f3',
+      promotion: undefined,
+    });
+    expect(engine.parseIccfNotation('17183')).toEqual({ from: 'a7', to: 'a8', promotion: 'b' });
+    expect(engine.parseIccfNotation('9152')).toBeNull();
+    expect(engine.parseMoveNotation('e4xd5')).toMatchObject({ from: 'e4', to: 'd5' });
+  });
+
+  it('converts Crazyhouse drops and board moves of a position with pockets', () => {
+    const rules = new CrazyhouseRules(
+      'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R[Nb] w KQkq - 2 3',
+    );
+    const engine = new RuleEngine(() => rules);
+
+    expect(engine.parseDropNotation('@e4')).toEqual({ piece: 'p', to: 'e4' });
+    expect(engine.parseDropNotation('n@F3')).toEqual({ piece: 'n', to: 'f3' });
+    expect(engine.parseDropNotation('e2e4')).toBeNull();
+    expect(engine.sanToUci('N@d5')).toBe('N@d5');
+    expect(engine.uciToSan('B@c4')).toBe('B@c4');
+    expect(engine.sanToLongAlgebraic('N@d5+')).toBe('N@d5+');
+    expect(engine.sanToIccf('N@d5')).toBeNull();
+    expect(engine.sanToUci('Bc4')).toBe('f1c4');
+  });
 });
@@ -0,0 +1,147 @@
+import { ChessJsRules } from '../../src/core/ChessJsRules';
+import {
+  RACING_KINGS_START_FEN,
+  THREE_CHECK_START_FEN,
+  formatThreeCheckFen,
+  parseThreeCheckFen,
+} from '../../src/core/VariantRules';
+
+const play = (rules: ChessJsRules, moves: string[]) => {
+  for (const move of moves) {
+    expect(rules.move(move).ok).toBe(true);
+  }
+};
+
+describe('VariantRules', () => {
+  describe('Three-check', () => {
+    it('reads and writes the check counter of the FEN', () => {
+      expect(parseThreeCheckFen(THREE_CHECK_START_FEN)).toEqual({
+        fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+        remainingChecks: { w: 3, b: 3 },
+      });
+      expect(
+        parseThreeCheckFen('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1 +2+0')
+          .remainingChecks,
+      ).toEqual({ w: 1, b: 3 });
+      expect(formatThreeCheckFen('4k3/8/8/8/8/8/8/4K3 w - - 0 1', { w: 1, b: 2 })).toBe(
+        '4k3/8/8/8/8/8/8/4K3 w - - 1+2 0 1',
+      );
+    });
+
+    it('counts the checks each side gives and wins on the third', () => {
+      const rules = new ChessJsRules({ variant: 'threecheck' });
+      expect(rules.getFEN()).toBe(THREE_CHECK_START_FEN);
+
+      play(rules, ['e4', 'e5', 'Bc4', 'Nc6', 'Bxf7+']);
+      expect(rules.getRemainingChecks()).toEqual({ w: 2, b: 3 });
+      expect(rules.getFEN()).toContain(' - 2+3 0 3');
+
+      play(rules, ['Kxf7', 'Qh5+', 'Ke7', 'Qxe5+']);
+      expect(rules.getVariantOutcome()).toEqual({ result: '1-0', reason: 'threeChecks' });
+      expect(rules.isCheckmate()).toBe(false);
+      expect(rules.isGameOver()).toBe(true);
+      expect(rules.getGameResult()).toBe('1-0');
+      expect(rules.move('Kf7').ok).toBe(false);
+      expect(rules.getAllMoves()).toEqual([]);
+
+      expect(rules.undo()).toBe(true);
+      expect(rules.getRemainingChecks()).toEqual({ w: 1, b: 3 });
+      expect(rules.isGameOver()).toBe(false);
+    });
+
+    it('exports the result and the variant in PGN', () => {
+      const rules = new ChessJsRules({
+        variant: 'threecheck',
+        fen: '4k3/8/8/8/8/8/4Q3/4K3 w - - 1+3 0 1',
+      });
+      play(rules, ['Qe7+']);
+
+      const pgn = rules.toPgn();
+      expect(pgn).toContain('[Variant "Three-check"]');
+      expect(pgn).toContain('[FEN "4k3/8/8/8/8/8/4Q3/4K3 w - - 1+3 0 1"]');
+      expect(pgn).toContain('[Result "1-0"]');
+      expect(pgn).toContain('1. Qe7+ 1-0');
+    });
+  });
+
+  describe('King of the Hill', () => {
+    it('ends the game when a king reaches the centre', () => {
+      const rules = new ChessJsRules({
+        variant: 'kingofthehill',
+        fen: '4k3/8/8/8/8/4K3/8/8 w - - 0 1',
+      });
+      expect(rules.isInsufficientMaterial()).toBe(false);
+      expect(rules.isDraw()).toBe(false);
+
+      play(rules, ['Ke4']);
+      expect(rules.getVariantOutcome()).toEqual({ result: '1-0', reason: 'kingOfTheHill' });
+      expect(rules.isGameOver()).toBe(true);
+      expect(rules.toPgn()).toContain('[Variant "King of the Hill"]');
+      expect(rules.toPgn()).toContain('[Result "1-0"]');
+    });
+
+    it('still ends standard games by mate', () => {
+      const rules = new ChessJsRules({ variant: 'kingofthehill' });
+      play(rules, ['f3', 'e5', 'g4', 'Qh4#']);
+
+      expect(rules.getVariantOutcome()).toBeNull();
+      expect(rules.getGameResult()).toBe('0-1');
+    });
+  });
+
+  describe('Racing Kings', () => {
+    it('starts from the racing position and forbids checks', () => {
+      const rules = new ChessJsRules({ variant: 'racingkings' });
+      expect(rules.getFEN()).toBe(RACING_KINGS_START_FEN);
+
+      rules.setFEN('8/8/8/8/8/8/k7/6RK w - - 0 1');
+      expect(rules.movesFrom('g1').map((move) => move.to)).not.toContain('g2');
+      expect(rules.movesFrom('g1').map((move) => move.to)).not.toContain('a1');
+      expect(rules.isLegalMove('g1', 'a1')).toBe(false);
+      expect(rules.move('Ra1+').ok).toBe(false);
+      expect(rules.move({ from: 'g1', to: 'b1' }).ok).toBe(true);
+    });
+
+    it('lets black answer a white king on the eighth rank with a draw', () => {
+      const rules = new ChessJsRules({
+        variant: 'racingkings',
+        fen: '8/1k4K1/8/8/8/8/8/8 w - - 0 1',
+      });
+      play(rules, ['Kg8']);
+      expect(rules.getVariantOutcome()).toBeNull();
+
+      play(rules, ['Kc6']);
+      expect(rules.getVariantOutcome()).toEqual({ result: '1-0', reason: 'raceFinished' });
+      expect(rules.move('Kc7').ok).toBe(false);
+
+      expect(rules.undo()).toBe(true);
+      play(rules, ['Kb8']);
+      expect(rules.getVariantOutcome()).toEqual({ result: '1/2-1/2', reason: 'raceFinished' });
+      expect(rules.isDraw()).toBe(true);
+    });
+
+    it('wins at once when black reaches the eighth rank', () => {
+      const rules = new ChessJsRules({
+        variant: 'racingkings',
+        fen: '8/1k6/8/8/8/8/8/6K1 b - - 0 1',
+      });
+      play(rules, ['Kb8']);
+
+      expect(rules.getGameResult()).toBe('0-1');
+      expect(rules.toPgn()).toContain('[Variant "Racing Kings"]');
+    });
+
+    it('treats a position whose only moves give check as stalemate', () => {
+      // The king is boxed in by the rooks and both knight moves attack the white king
+      const rules = new ChessJsRules({
+        variant: 'racingkings',
+        fen: '1R5n/8/8/4K3/8/8/7R/k7 b - - 0 1',
+      });
+
+      expect(rules.inCheck()).toBe(false);
+      expect(rules.getAllMoves()).toEqual([]);
+      expect(rules.isStalemate()).toBe(true);
+      expect(rules.getGameResult()).toBe('1/2-1/2');
+    });
+  });
+});
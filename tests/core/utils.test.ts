@@ -117,6 +117,31 @@ describe('Chess Utils', () => {
       }
     });
 
+    it('reads the pocket and promotion marks of Crazyhouse FEN strings', () => {
+      const state = parseFEN('4k3/8/8/8/8/8/8/Q~3K3[Nnp] b - - 0 30');
+
+      expect(state.board[0][0]).toBe('Q');
+      expect(state.board[0][4]).toBe('K');
+      expect(state.pocket).toBe('Nnp');
+      expect(state.turn).toBe('b');
+      expect(parseFEN(START_FEN).pocket).toBeUndefined();
+      expect(() => parseFEN('4k3/8/8/8/8/8/8/4K3[Kx] w - - 0 1')).toThrow(
+        expect.objectContaining({ code: 'INVALID_FEN_INVALID_POCKET' }),
+      );
+    });
+
+    it('reads the check counter of three-check FEN strings', () => {
+      const state = parseFEN('4k3/8/8/8/8/8/8/4K3 w - - 2+1 4 12');
+
+      expect(state.remainingChecks).toEqual({ w: 2, b: 1 });
+      expect(state.halfmove).toBe(4);
+      expect(state.fullmove).toBe(12);
+      expect(parseFEN(START_FEN).remainingChecks).toBeUndefined();
+      expect(() => parseFEN('4k3/8/8/8/8/8/8/4K3 w - - x 4 12')).toThrow(
+        expect.objectContaining({ code: 'INVALID_FEN_FIELD_COUNT' }),
+      );
+    });
+
     it('throws an explicit error for malformed FEN strings', () => {
       expect.assertions(5);
       const attempt = () => parseFEN('invalid fen');
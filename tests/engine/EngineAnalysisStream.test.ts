@@ -0,0 +1,91 @@
+import { EngineAnalysisStream } from '../../src/engine/EngineAnalysisStream';
+import type { EngineAnalysisUpdate, EngineLine } from '../../src/engine/types';
+
+const FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const line = (id: number, depth: number, cp: number, pv: string[] = ['e2e4']): EngineLine => ({
+  id,
+  depth,
+  score: { type: 'cp', value: cp },
+  pv,
+});
+
+describe('EngineAnalysisStream', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('throttles updates, drops repeated lines and delivers the trailing ones', () => {
+    const stream = new EngineAnalysisStream(FEN, { throttleMs: 100, onStop: jest.fn() });
+    const updates: EngineAnalysisUpdate[] = [];
+    stream.subscribe((update) => updates.push(update));
+
+    stream.push(line(1, 1, 20));
+    stream.push(line(1, 1, 20));
+    stream.push(line(2, 1, 5, ['d2d4']));
+    stream.push(line(1, 2, 30));
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ depth: 1, done: false, changed: [line(1, 1, 20)] });
+
+    jest.advanceTimersByTime(100);
+
+    expect(updates).toHaveLength(2);
+    expect(updates[1]?.lines).toEqual([line(1, 2, 30), line(2, 1, 5, ['d2d4'])]);
+    expect(updates[1]?.changed.map((changed) => changed.id)).toEqual([1, 2]);
+    expect(updates[1]?.depth).toBe(2);
+
+    stream.push(line(2, 1, 5, ['d2d4']));
+    jest.advanceTimersByTime(500);
+    expect(updates).toHaveLength(2);
+  });
+
+  it('ends with the best move and resolves the result', async () => {
+    const stream = new EngineAnalysisStream(FEN, { throttleMs: 0, onStop: jest.fn() });
+    const updates: EngineAnalysisUpdate[] = [];
+    const reading = (async () => {
+      for await (const update of stream) {
+        updates.push(update);
+      }
+    })();
+
+    stream.push(line(1, 8, 25));
+    stream.finish('e2e4', 'e7e5');
+    await reading;
+
+    expect(updates.map((update) => update.done)).toEqual([false, true]);
+    expect(updates[1]?.changed).toEqual([]);
+    for await (const update of stream) {
+      expect(update).toBe(updates[1]);
+    }
+    await expect(stream.result).resolves.toEqual({
+      fen: FEN,
+      lines: [line(1, 8, 25)],
+      bestMove: 'e2e4',
+      ponder: 'e7e5',
+    });
+    expect(stream.isDone).toBe(true);
+  });
+
+  it('stops the search when the loop is left and rethrows failures', async () => {
+    const onStop = jest.fn();
+    const stream = new EngineAnalysisStream(FEN, { throttleMs: 0, onStop });
+    const iterator = stream[Symbol.asyncIterator]();
+
+    const next = iterator.next();
+    stream.push(line(1, 3, 10));
+    await expect(next).resolves.toMatchObject({ done: false, value: { depth: 3 } });
+    await iterator.return?.();
+    expect(onStop).toHaveBeenCalledTimes(1);
+
+    const failing = new EngineAnalysisStream(FEN, { throttleMs: 0, onStop });
+    const pending = failing[Symbol.asyncIterator]().next();
+    failing.fail(new Error('Engine timeout'));
+    await expect(pending).rejects.toThrow('Engine timeout');
+    await expect(failing.result).rejects.toThrow('Engine timeout');
+  });
+});
@@ -0,0 +1,177 @@
+import { EnginePoolError } from '../../src/core/errors';
+import { EnginePool, type PoolEngine } from '../../src/engine/EnginePool';
+import type { EngineAnalysisRequest, EngineAnalysisResult } from '../../src/engine/types';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+const AFTER_D4 = 'rnbqkbnr/pppppppp/8/8/3P4/8/PPP1PPPP/RNBQKBNR b KQkq - 0 1';
+
+interface PendingSearch {
+  readonly request: EngineAnalysisRequest;
+  finish(bestMove?: string): void;
+  fail(error: Error): void;
+}
+
+/**
+ * Engines whose searches end when the test finishes them
+ */
+function createFakeEngines() {
+  const searches: PendingSearch[] = [];
+  const engines: Array<jest.Mocked<Required<PoolEngine>>> = [];
+
+  const createEngine = () => {
+    let current: PendingSearch | null = null;
+    const engine = {
+      analyze: jest.fn(
+        (request: EngineAnalysisRequest) =>
+          new Promise<EngineAnalysisResult>((resolve, reject) => {
+            current = {
+              request,
+              finish: (bestMove = 'e2e4') => resolve({ fen: request.fen, lines: [], bestMove }),
+              fail: reject,
+            };
+            searches.push(current);
+          }),
+      ),
+      stop: jest.fn(() => current?.finish('0000')),
+      terminate: jest.fn(),
+    };
+    engines.push(engine);
+    return engine;
+  };
+
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+  return { searches, engines, createEngine, flush };
+}
+
+describe('EnginePool', () => {
+  it('runs at most `size` searches, highest priority first', async () => {
+    const { searches, engines, createEngine, flush } = createFakeEngines();
+    const pool = new EnginePool({ size: 2, createEngine });
+
+    const results = [
+      pool.analyze({ fen: START_FEN, depth: 10 }),
+      pool.analyze({ fen: AFTER_E4, depth: 10 }),
+      pool.analyze({ fen: AFTER_D4, depth: 10 }, { priority: 1 }),
+      pool.analyze({ fen: AFTER_D4, depth: 12 }, { priority: 5 }),
+    ];
+
+    expect(engines).toHaveLength(2);
+    expect(pool.getStats()).toEqual({ engines: 2, running: 2, queued: 2, cached: 0 });
+
+    searches[0]?.finish();
+    await flush();
+    expect(searches[2]?.request).toEqual({ fen: AFTER_D4, depth: 12 });
+
+    searches[1]?.finish();
+    searches[2]?.finish();
+    await flush();
+    searches[3]?.finish();
+
+    await expect(Promise.all(results)).resolves.toHaveLength(4);
+    expect(searches.map((search) => search.request.fen)).toEqual([
+      START_FEN,
+      AFTER_E4,
+      AFTER_D4,
+      AFTER_D4,
+    ]);
+    pool.terminate();
+  });
+
+  it('shares identical requests and caches the results', async () => {
+    const { searches, engines, createEngine } = createFakeEngines();
+    const pool = new EnginePool({ size: 1, createEngine, cacheSize: 1 });
+
+    const first = pool.analyze({ fen: START_FEN, depth: 10, multiPv: 2 });
+    const second = pool.analyze({
+      fen: ` ${START_FEN.replace(' w', '  w')}`,
+      depth: 10,
+      multiPv: 2,
+    });
+    searches[0]?.finish('d2d4');
+
+    await expect(first).resolves.toMatchObject({ bestMove: 'd2d4' });
+    await expect(second).resolves.toBe(await first);
+    await expect(pool.analyze({ fen: START_FEN, depth: 10, multiPv: 2 })).resolves.toBe(
+      await first,
+    );
+    expect(engines[0]?.analyze).toHaveBeenCalledTimes(1);
+
+    const otherLines = pool.analyze({ fen: START_FEN, depth: 10, multiPv: 3 });
+    searches[1]?.finish();
+    await otherLines;
+    expect(pool.getStats().cached).toBe(1);
+
+    const evicted = pool.analyze({ fen: START_FEN, depth: 10, multiPv: 2 });
+    expect(engines[0]?.analyze).toHaveBeenCalledTimes(3);
+    pool.terminate();
+    await expect(evicted).rejects.toMatchObject({ code: 'ENGINE_POOL_TERMINATED' });
+  });
+
+  it('cancels queued and running requests', async () => {
+    const { searches, engines, createEngine, flush } = createFakeEngines();
+    const pool = new EnginePool({ size: 1, createEngine });
+    const running = new AbortController();
+    const queued = new AbortController();
+
+    const first = pool.analyze({ fen: START_FEN, depth: 10 }, { signal: running.signal });
+    const shared = pool.analyze({ fen: START_FEN, depth: 10 });
+    const second = pool.analyze({ fen: AFTER_E4, depth: 10 }, { signal: queued.signal });
+
+    queued.abort();
+    await expect(second).rejects.toMatchObject({ code: 'ENGINE_JOB_CANCELLED' });
+    expect(pool.getStats().queued).toBe(0);
+
+    running.abort();
+    await expect(first).rejects.toBeInstanceOf(EnginePoolError);
+    // Another request still waits for the search
+    expect(engines[0]?.stop).not.toHaveBeenCalled();
+    searches[0]?.finish();
+    await expect(shared).resolves.toMatchObject({ fen: START_FEN });
+
+    const abandoned = new AbortController();
+    const third = pool.analyze({ fen: AFTER_D4, depth: 10 }, { signal: abandoned.signal });
+    abandoned.abort();
+    await expect(third).rejects.toMatchObject({ code: 'ENGINE_JOB_CANCELLED' });
+    expect(engines[0]?.stop).toHaveBeenCalledTimes(1);
+    await flush();
+    expect(pool.getStats()).toMatchObject({ running: 0, cached: 1 });
+    pool.terminate();
+  });
+
+  it('reports engine failures and rejects pending requests on terminate', async () => {
+    const { searches, engines, createEngine } = createFakeEngines();
+    const pool = new EnginePool({ size: 1, createEngine });
+
+    const failing = pool.analyze({ fen: START_FEN, depth: 10 });
+    searches[0]?.fail(new Error('Engine timeout'));
+    await expect(failing).rejects.toThrow('Engine timeout');
+
+    const pending = pool.analyze({ fen: AFTER_E4, depth: 10 });
+    const waiting = pool.analyze({ fen: AFTER_D4, depth: 10 });
+    pool.terminate();
+
+    await expect(pending).rejects.toMatchObject({ code: 'ENGINE_POOL_TERMINATED' });
+    await expect(waiting).rejects.toMatchObject({ code: 'ENGINE_POOL_TERMINATED' });
+    await expect(pool.analyze({ fen: START_FEN })).rejects.toMatchObject({
+      code: 'ENGINE_POOL_TERMINATED',
+    });
+    await expect(
+      new EnginePool({ createEngine }).analyze({ fen: START_FEN, infinite: true }),
+    ).rejects.toMatchObject({ code: 'ENGINE_INVALID_REQUEST' });
+    expect(engines[0]?.terminate).toHaveBeenCalled();
+  });
+
+  it('analyses with Stockfish engines by default', async () => {
+    const pool = new EnginePool({ size: 2 });
+
+    const results = await pool.analyzeAll([
+      { fen: START_FEN, depth: 8 },
+      { fen: AFTER_E4, depth: 8 },
+    ]);
+
+    expect(results.map((result) => result.fen)).toEqual([START_FEN, AFTER_E4]);
+    expect(results.every((result) => result.bestMove)).toBe(true);
+    pool.terminate();
+  });
+});
@@ -0,0 +1,83 @@
+import { parseEpdSuite } from '../../src/core/Epd';
+import { StockfishEngine } from '../../src/engine/StockfishEngine';
+import { runEpdSuite, type EpdSuiteEngine } from '../../src/engine/EpdSuiteRunner';
+
+const SUITE = [
+  '1k1r4/pp1b1R2/3q2pp/4p3/2B5/4Q3/PPP2B2/2K5 b - - bm Qd1+; id "BK.01";',
+  '3r1k2/4npp1/1ppr3p/p6P/P2PPPP1/1NR5/5K2/2R5 w - - bm d5; id "BK.02";',
+  '2q1rr1k/3bbnnp/p2p1pp1/2pPp3/PpP1P1P1/1P2BNNP/2BQ1PRK/7R b - - am f5; id "BK.03";',
+  '4k3/8/8/8/8/8/8/4K3 w - - id "no expectation";',
+].join('\n');
+
+describe('runEpdSuite', () => {
+  it('scores the engine move against bm and am', async () => {
+    const replies = ['d6d1', 'c3c6', 'f6f5'];
+    const analyze = jest.fn<
+      ReturnType<EpdSuiteEngine['analyze']>,
+      Parameters<EpdSuiteEngine['analyze']>
+    >((request) => Promise.resolve({ fen: request.fen, lines: [], bestMove: replies.shift() }));
+    const onProgress = jest.fn();
+
+    const result = await runEpdSuite({ analyze }, SUITE, { depth: 12, onProgress });
+
+    expect(analyze).toHaveBeenCalledTimes(3);
+    expect(analyze.mock.calls[0]?.[0]).toMatchObject({ depth: 12, multiPv: 1 });
+    expect(result.total).toBe(3);
+    expect(result.solved).toBe(1);
+    expect(result.results.map(({ id, engineSan, solved }) => ({ id, engineSan, solved }))).toEqual([
+      { id: 'BK.01', engineSan: 'Qd1+', solved: true },
+      { id: 'BK.02', engineSan: 'Rxc6', solved: false },
+      { id: 'BK.03', engineSan: 'f5', solved: false },
+    ]);
+    expect(onProgress).toHaveBeenLastCalledWith(result.results[2], 2, 3);
+  });
+
+  it('records engine failures without stopping the suite', async () => {
+    const analyze = jest
+      .fn<ReturnType<EpdSuiteEngine['analyze']>, Parameters<EpdSuiteEngine['analyze']>>()
+      .mockRejectedValueOnce(new Error('Engine timeout'))
+      .mockResolvedValue({ fen: '', lines: [], bestMove: 'd4d5' });
+
+    const result = await runEpdSuite({ analyze }, parseEpdSuite(SUITE).records.slice(0, 2));
+
+    expect(result.results[0]).toMatchObject({ solved: false, error: 'Engine timeout' });
+    expect(result.results[1]).toMatchObject({ bestMoves: ['d5'], solved: true });
+  });
+
+  it('fails positions whose expected moves cannot be resolved', async () => {
+    const analyze = jest.fn<
+      ReturnType<EpdSuiteEngine['analyze']>,
+      Parameters<EpdSuiteEngine['analyze']>
+    >((request) => Promise.resolve({ fen: request.fen, lines: [], bestMove: 'e1e2' }));
+
+    const result = await runEpdSuite(
+      { analyze },
+      [
+        '4k3/8/8/8/8/8/8/4K3 w - - bm Kf9; id "typo";',
+        '4k3/8/8/8/8/8/8/4K3 w - - am Kf1 Qh5;',
+      ].join('\n'),
+    );
+
+    expect(analyze).not.toHaveBeenCalled();
+    expect(result.solved).toBe(0);
+    expect(result.results[0]).toMatchObject({
+      bestMoves: [],
+      solved: false,
+      error: 'Cannot resolve the bm moves in this position',
+    });
+    expect(result.results[1]).toMatchObject({
+      avoidMoves: ['Kf1'],
+      error: 'Cannot resolve the am moves in this position',
+    });
+  });
+
+  it('runs against StockfishEngine', async () => {
+    const engine = new StockfishEngine({ throttleMs: 0 });
+
+    const result = await runEpdSuite(engine, SUITE.split('\n').slice(0, 1).join('\n'));
+
+    expect(result.total).toBe(1);
+    expect(result.results[0]?.engineMove).toMatch(/^[a-h][1-8][a-h][1-8]/);
+    engine.terminate();
+  });
+});
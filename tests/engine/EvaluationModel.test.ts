@@ -0,0 +1,63 @@
+import {
+  computeGameAccuracy,
+  moveAccuracy,
+  scoreToCentipawns,
+  scoreToWdl,
+  summarizeEvaluation,
+  winPercent,
+} from '../../src/engine/EvaluationModel';
+import type { EngineScore } from '../../src/engine/types';
+
+const cp = (value: number): EngineScore => ({ type: 'cp', value });
+
+describe('EvaluationModel', () => {
+  it('converts scores to capped centipawns and winning chances', () => {
+    expect(scoreToCentipawns(cp(2500))).toBe(1000);
+    expect(scoreToCentipawns({ type: 'mate', value: -3 })).toBe(-1000);
+    expect(winPercent(cp(0))).toBe(50);
+    expect(winPercent(cp(100))).toBeCloseTo(59.1, 1);
+    expect(winPercent({ type: 'mate', value: 3 })).toBeCloseTo(97.54, 1);
+  });
+
+  it('computes win/draw/loss with the Stockfish model', () => {
+    expect(scoreToWdl(cp(100))).toEqual({ win: 500, draw: 500, loss: 0 });
+    expect(scoreToWdl(cp(0))).toEqual({ win: 4, draw: 992, loss: 4 });
+    expect(scoreToWdl(cp(100), 0).win).toBeGreaterThan(500);
+    expect(scoreToWdl({ type: 'mate', value: -2 })).toEqual({ win: 0, draw: 0, loss: 1000 });
+  });
+
+  it('scores move accuracy from the drop in winning chances', () => {
+    expect(moveAccuracy(50, 50)).toBe(100);
+    expect(moveAccuracy(40, 60)).toBe(100);
+    expect(moveAccuracy(60, 40)).toBeCloseTo(41.02, 1);
+  });
+
+  it('computes accuracy and average centipawn loss per player', () => {
+    const accuracy = computeGameAccuracy([cp(0), cp(0), cp(300), cp(300)]);
+
+    expect(accuracy.white).toEqual({ accuracy: 100, acpl: 0, moves: 2 });
+    expect(accuracy.black.moves).toBe(1);
+    expect(accuracy.black.acpl).toBe(300);
+    expect(accuracy.black.accuracy).toBeCloseTo(32.4, 1);
+  });
+
+  it('orients mate 0 against the side to move', () => {
+    const accuracy = computeGameAccuracy([cp(0), { type: 'mate', value: 0 }], 'b');
+
+    expect(accuracy.black).toEqual({ accuracy: 100, acpl: 0, moves: 1 });
+    expect(accuracy.white.moves).toBe(0);
+  });
+
+  it('summarizes an engine result from White’s point of view', () => {
+    const summary = summarizeEvaluation({
+      fen: '4k3/8/8/8/8/8/4P3/4K3 b - - 0 32',
+      lines: [{ id: 1, depth: 20, score: cp(-100), pv: ['e8e7'] }],
+    });
+
+    expect(summary?.score).toEqual(cp(100));
+    expect(summary?.winPercent).toBeCloseTo(59.1, 1);
+    expect(summary?.wdl.win).toBeGreaterThan(450);
+    expect(summary?.wdl.loss).toBe(0);
+    expect(summarizeEvaluation({ fen: '4k3/8/8/8/8/8/8/4K3 w - - 0 1', lines: [] })).toBeNull();
+  });
+});
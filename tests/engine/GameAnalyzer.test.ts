@@ -0,0 +1,221 @@
+import { EventBus } from '../../src/core/EventBus';
+import { PgnParseError } from '../../src/core/errors';
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import { PgnNotation } from '../../src/core/PgnNotation';
+import type { BoardEventMap } from '../../src/core/types';
+import {
+  GameAnalyzer,
+  classifyMove,
+  writeGameAnalysisToPgn,
+  type GameAnalysisEngine,
+} from '../../src/engine/GameAnalyzer';
+import type { EngineScore, EngineTransport } from '../../src/engine/types';
+import { UciEngine } from '../../src/engine/UciEngine';
+
+const MOVES = ['e4', 'e5', 'Qh5', 'Nc6', 'Bc4', 'Nf6', 'Qxf7#'];
+
+/** Engine replies for the positions before each move, scores from the side to move */
+const REPLIES: Array<{ score: EngineScore; bestMove: string }> = [
+  { score: { type: 'cp', value: 20 }, bestMove: 'e2e4' },
+  { score: { type: 'cp', value: -20 }, bestMove: 'e7e5' },
+  { score: { type: 'cp', value: 20 }, bestMove: 'g1f3' },
+  { score: { type: 'cp', value: 40 }, bestMove: 'b8c6' },
+  { score: { type: 'cp', value: -40 }, bestMove: 'f1c4' },
+  { score: { type: 'cp', value: 30 }, bestMove: 'g7g6' },
+  { score: { type: 'mate', value: 1 }, bestMove: 'h5f7' },
+];
+
+function createEngine() {
+  const replies = [...REPLIES];
+  return {
+    analyze: jest.fn<
+      ReturnType<GameAnalysisEngine['analyze']>,
+      Parameters<GameAnalysisEngine['analyze']>
+    >((request) => {
+      const reply = replies.shift();
+      return Promise.resolve({
+        fen: request.fen,
+        lines: reply ? [{ id: 1, depth: 14, score: reply.score, pv: [reply.bestMove] }] : [],
+        bestMove: reply?.bestMove,
+      });
+    }),
+  };
+}
+
+/**
+ * UCI engine spending its whole movetime on each search, much longer than its stop timeout
+ */
+function createSlowEngine(movetimeMs: number) {
+  let listener: ((message: string) => void) | null = null;
+  const reply = (...messages: string[]) => {
+    for (const message of messages) listener?.(message);
+  };
+  const transport: EngineTransport = {
+    onMessage: (callback) => {
+      listener = callback;
+    },
+    onError: () => {},
+    terminate: () => {
+      listener = null;
+    },
+    postMessage: (message) => {
+      if (message === 'uci') queueMicrotask(() => reply('uciok'));
+      if (message === 'isready') queueMicrotask(() => reply('readyok'));
+      if (message.startsWith('go ')) {
+        setTimeout(
+          () => reply('info depth 12 multipv 1 score cp 15 pv e2e4', 'bestmove e2e4'),
+          movetimeMs,
+        );
+      }
+    },
+  };
+  return new UciEngine({ stopTimeoutMs: 5, transportFactory: () => transport });
+}
+
+describe('classifyMove', () => {
+  it('uses the default and custom thresholds', () => {
+    expect(classifyMove(0)).toBe('best');
+    expect(classifyMove(30)).toBe('excellent');
+    expect(classifyMove(60)).toBe('inaccuracy');
+    expect(classifyMove(150)).toBe('mistake');
+    expect(classifyMove(400)).toBe('blunder');
+    expect(classifyMove(400, {}, true)).toBe('best');
+    expect(classifyMove(60, { inaccuracy: 70 })).toBe('excellent');
+  });
+});
+
+describe('GameAnalyzer', () => {
+  it('evaluates every ply and classifies the moves', async () => {
+    const engine = createEngine();
+    const bus = new EventBus<BoardEventMap>();
+    const progress = jest.fn();
+    const complete = jest.fn();
+    bus.on('analysis:progress', progress);
+    bus.on('analysis:complete', complete);
+
+    const result = await new GameAnalyzer(engine, { depth: 14, bus }).analyzeMoves(MOVES);
+
+    // The final position is checkmate and needs no engine call
+    expect(engine.analyze).toHaveBeenCalledTimes(7);
+    expect(engine.analyze.mock.calls[0]?.[0]).toMatchObject({ depth: 14, multiPv: 1 });
+    expect(
+      result.moves.map(({ san, centipawnLoss, classification }) => [
+        san,
+        centipawnLoss,
+        classification,
+      ]),
+    ).toEqual([
+      ['e4', 0, 'best'],
+      ['e5', 0, 'best'],
+      ['Qh5', 60, 'inaccuracy'],
+      ['Nc6', 0, 'best'],
+      ['Bc4', 0, 'best'],
+      ['Nf6', 1030, 'blunder'],
+      ['Qxf7#', 0, 'best'],
+    ]);
+    expect(result.initialEvaluation).toEqual({ type: 'cp', value: 20 });
+    expect(result.moves[2]).toMatchObject({
+      moveNumber: 2,
+      color: 'w',
+      uci: 'd1h5',
+      bestSan: 'Nf3',
+      evaluation: { type: 'cp', value: -40 },
+    });
+    expect(result.moves[5]?.evaluation).toEqual({ type: 'mate', value: 1 });
+    expect(result.moves[6]?.evaluation).toEqual({ type: 'mate', value: 0 });
+    expect(progress).toHaveBeenCalledTimes(7);
+    expect(progress).toHaveBeenLastCalledWith({ move: result.moves[6], completed: 7, total: 7 });
+    expect(complete).toHaveBeenCalledWith(result);
+  });
+
+  it('analyses the mainline of a PGN and rejects unreadable games', async () => {
+    const analyzer = new GameAnalyzer(createEngine());
+
+    const result = await analyzer.analyzePgn('1. e4 e5 2. Qh5 (2. Nf3) Nc6 *');
+
+    expect(result.moves.map((move) => move.san)).toEqual(['e4', 'e5', 'Qh5', 'Nc6']);
+    await expect(analyzer.analyzePgn('1. e4 e5 2. Ke3 *')).rejects.toBeInstanceOf(PgnParseError);
+    await expect(analyzer.analyzeMoves(['e4', 'e4'])).rejects.toMatchObject({
+      code: 'PGN_IMPORT_FAILED',
+      details: { san: 'e4', ply: 2 },
+    });
+  });
+
+  it('waits for engines using their whole movetime', async () => {
+    const engine = createSlowEngine(40);
+
+    const result = await new GameAnalyzer(engine, { movetimeMs: 40 }).analyzeMoves(['e4', 'e5']);
+
+    expect(result.initialEvaluation).toEqual({ type: 'cp', value: 15 });
+    expect(result.moves.map((move) => move.evaluation)).toEqual([
+      { type: 'cp', value: -15 },
+      { type: 'cp', value: 15 },
+    ]);
+    engine.terminate();
+  });
+
+  it('tries a failed position again before giving up', async () => {
+    const engine = createEngine();
+    engine.analyze.mockRejectedValueOnce(new Error('Engine timeout'));
+
+    const result = await new GameAnalyzer(engine).analyzeMoves(MOVES);
+
+    expect(engine.analyze).toHaveBeenCalledTimes(8);
+    expect(result.moves).toHaveLength(7);
+
+    engine.analyze.mockRejectedValue(new Error('Engine terminated'));
+    await expect(new GameAnalyzer(engine).analyzeMoves(['e4'])).rejects.toThrow(
+      'Engine terminated',
+    );
+  });
+
+  it('writes evaluations and NAGs into a PgnNotation', async () => {
+    const notation = new PgnNotation();
+    notation.loadPgnWithAnnotations('1. e4 e5 2. Qh5 Nc6 3. Bc4 Nf6 {Defends?} 4. Qxf7# 1-0');
+    const result = await new GameAnalyzer(createEngine()).analyzeMoves(MOVES);
+
+    writeGameAnalysisToPgn(notation, result);
+    const pgn = notation.toPgnWithAnnotations();
+
+    expect(pgn).toContain('1. e4 {[%eval 0.2]} e5 {[%eval 0.2]}');
+    expect(pgn).toContain('2. Qh5 $6 {[%eval -0.4]}');
+    expect(pgn).toContain('Nf6 $4 {[%eval #1] Defends?}');
+    expect(pgn).toContain('4. Qxf7#');
+    expect(pgn).not.toContain('#0');
+  });
+});
+
+describe('GameAnalyzer with NeoChessBoard', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.append(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it('analyses the board history and annotates its PGN', async () => {
+    const board = new NeoChessBoard(container);
+    for (const move of ['e2e4', 'e7e5', 'd1h5', 'b8c6', 'f1c4', 'g8f6', 'h5f7']) {
+      board.submitMove(move);
+    }
+    const started = jest.fn();
+    board.on('analysis:start', started);
+
+    expect(board.getPositionHistory()).toHaveLength(8);
+
+    const result = await new GameAnalyzer(createEngine()).analyzeBoard(board);
+
+    expect(started).toHaveBeenCalledWith({
+      initialFen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+      total: 7,
+    });
+    expect(result.moves[5]?.classification).toBe('blunder');
+    expect(board.getPgnNotation()?.toPgnWithAnnotations()).toContain('Nf6 $4 {[%eval #1]}');
+    expect(board.exportPGN({ exportFormat: true })).toContain('Nf6 $4 {[%eval #1]}');
+    board.destroy();
+  });
+});
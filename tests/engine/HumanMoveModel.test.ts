@@ -0,0 +1,91 @@
+import {
+  AI_LEVELS,
+  AI_PERSONALITIES,
+  chooseHumanMove,
+  computeThinkTime,
+  resolveAIElo,
+  resolveAIPlayingLevel,
+} from '../../src/engine/HumanMoveModel';
+import type { EngineAnalysisResult, EngineLine } from '../../src/engine/types';
+
+// White can take the d5 pawn with e4xd5
+const FEN = 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2';
+
+const line = (id: number, move: string, value: number): EngineLine => ({
+  id,
+  depth: 10,
+  score: { type: 'cp', value },
+  pv: [move],
+});
+
+const result: EngineAnalysisResult = {
+  fen: FEN,
+  lines: [line(1, 'b1c3', 40), line(2, 'e4d5', 20), line(3, 'a2a3', -250)],
+  bestMove: 'b1c3',
+};
+
+describe('HumanMoveModel', () => {
+  it('resolves levels and Elo ranges', () => {
+    expect(resolveAIPlayingLevel(0)).toBe(AI_LEVELS[0]);
+    expect(resolveAIPlayingLevel(99)).toBe(AI_LEVELS.at(-1));
+    expect(resolveAIPlayingLevel({ multiPv: 2 })).toEqual({ multiPv: 2 });
+    expect(resolveAIElo([1600, 1200], () => 0.5)).toBe(1400);
+    expect(resolveAIElo(1500)).toBe(1500);
+  });
+
+  it('plays the best line without randomness', () => {
+    expect(chooseHumanMove(result)).toBe('b1c3');
+    expect(chooseHumanMove({ fen: FEN, lines: [], bestMove: 'g1f3' })).toBe('g1f3');
+  });
+
+  it('picks among near-best lines by their loss', () => {
+    const level = { maxLossCp: 100, temperatureCp: 20 };
+    // Weights 1 and e^-1: the second line takes the top 27% of the draws
+    expect(chooseHumanMove(result, { level, random: () => 0.5 })).toBe('b1c3');
+    expect(chooseHumanMove(result, { level, random: () => 0.9 })).toBe('e4d5');
+    // The blunder exceeds the allowed loss
+    expect(chooseHumanMove(result, { level, random: () => 0.999 })).toBe('e4d5');
+  });
+
+  it('applies the personality to the choice', () => {
+    const level = { maxLossCp: 100, temperatureCp: 20 };
+    expect(
+      chooseHumanMove(result, {
+        level,
+        personality: AI_PERSONALITIES.aggressive,
+        random: () => 0.5,
+      }),
+    ).toBe('e4d5');
+
+    const nervous = { level, personality: AI_PERSONALITIES.nervous, random: () => 0.999 };
+    expect(chooseHumanMove(result, { ...nervous, remainingMs: 60_000 })).toBe('e4d5');
+    expect(chooseHumanMove(result, { ...nervous, remainingMs: 5000 })).toBe('a2a3');
+  });
+
+  it('spreads the think time over the clock', () => {
+    // A median draw: the log-normal sample sits slightly below the budget
+    const median = () => 0.25;
+    const withoutClock = computeThinkTime({ moveNumber: 20, random: median });
+    expect(withoutClock).toBeGreaterThan(1000);
+    expect(withoutClock).toBeLessThan(1500);
+
+    const opening = computeThinkTime({ moveNumber: 3, random: median });
+    expect(opening).toBeCloseTo(withoutClock / 2, -1);
+
+    const clock = { remainingMs: 300_000, incrementMs: 2000 };
+    const blitz = computeThinkTime({ moveNumber: 20, clock, random: median });
+    // 300s over 20 moves plus 80% of the increment
+    expect(blitz).toBeGreaterThan(14_000);
+    expect(blitz).toBeLessThan(16_600);
+
+    const scramble = computeThinkTime({
+      moveNumber: 50,
+      clock: { remainingMs: 2000, incrementMs: 0 },
+      random: () => 0.999,
+    });
+    expect(scramble).toBeLessThanOrEqual(500);
+    expect(
+      computeThinkTime({ moveNumber: 20, random: median, personality: AI_PERSONALITIES.solid }),
+    ).toBeGreaterThan(withoutClock);
+  });
+});
@@ -0,0 +1,104 @@
+import path from 'node:path';
+import { createNodeEngine, NodeProcessTransport } from '../../src/node';
+
+/**
+ * Minimal UCI engine run with `node -e`: answers every search with one info line per depth,
+ * each split across two writes as pipes may deliver it, then the best move
+ */
+const FAKE_ENGINE = String.raw`
+const reply = (line) => process.stdout.write(line + '\n');
+let depth = 3;
+require('node:readline').createInterface({ input: process.stdin }).on('line', (line) => {
+  const [command, ...args] = line.trim().split(/\s+/);
+  if (command === 'uci') {
+    reply('id name Fake UCI Engine');
+    reply('id author Neo Chess Board');
+    reply('option name Depth type spin default 3 min 1 max 10');
+    reply('uciok');
+  } else if (command === 'isready') {
+    reply('readyok');
+  } else if (command === 'setoption' && args[1] === 'Depth') {
+    depth = Number(args[3]);
+  } else if (command === 'go') {
+    for (let current = 1; current <= depth; current++) {
+      process.stdout.write('info depth ' + current + ' score cp ' + current * 10 + ' ');
+      reply('pv e2e4 e7e5');
+    }
+    reply('bestmove e2e4 ponder e7e5');
+  } else if (command === 'quit') {
+    process.exit(0);
+  }
+});
+`;
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+describe('NodeProcessTransport', () => {
+  it('runs the analysis code against a local UCI process', async () => {
+    const engine = createNodeEngine(process.execPath, {
+      args: ['-e', FAKE_ENGINE],
+      throttleMs: 0,
+      stopTimeoutMs: 10_000,
+      uciOptions: { Depth: 5 },
+    });
+
+    await engine.init();
+    expect(engine.getInfo()).toMatchObject({ name: 'Fake UCI Engine', author: 'Neo Chess Board' });
+
+    const result = await engine.analyze({ fen: START_FEN, depth: 5 });
+    expect(result.bestMove).toBe('e2e4');
+    expect(result.lines).toEqual([
+      { id: 1, depth: 5, score: { type: 'cp', value: 50 }, pv: ['e2e4', 'e7e5'] },
+    ]);
+    engine.terminate();
+  });
+
+  it('reports a process that cannot be spawned or exits', async () => {
+    const missing = new NodeProcessTransport({ command: path.join(__dirname, 'no-such-engine') });
+    const spawnError = new Promise<unknown>((resolve) => {
+      missing.onError((event) => resolve((event as MessageEvent).data));
+    });
+    await expect(spawnError).resolves.toMatchObject({ code: 'ENOENT' });
+    missing.terminate();
+
+    const crashing = new NodeProcessTransport({ command: process.execPath, args: ['-e', '0'] });
+    const exitError = new Promise<unknown>((resolve) => {
+      crashing.onError((event) => resolve((event as MessageEvent).data));
+    });
+    await expect(exitError).resolves.toMatchObject({
+      message: expect.stringMatching(/exited unexpectedly \(code 0\)/),
+    });
+    crashing.terminate();
+  });
+
+  it('fails to start an engine that cannot be spawned or never answers', async () => {
+    const missing = createNodeEngine(path.join(__dirname, 'no-such-engine'));
+    await expect(missing.init()).rejects.toThrow('Engine failed to start');
+    await expect(missing.analyze({ fen: START_FEN, depth: 5 })).rejects.toThrow(
+      'Engine failed to start',
+    );
+    missing.terminate();
+
+    const silent = createNodeEngine(process.execPath, {
+      args: ['-e', 'process.stdin.resume()'],
+      handshakeTimeoutMs: 200,
+    });
+    await expect(silent.init()).rejects.toMatchObject({
+      cause: { message: 'Engine handshake timeout' },
+    });
+    silent.terminate();
+  });
+
+  it('asks the engine to quit when terminated', async () => {
+    const transport = new NodeProcessTransport({
+      command: process.execPath,
+      args: ['-e', FAKE_ENGINE],
+    });
+    const exited = new Promise((resolve) =>
+      Reflect.get(transport, 'process').once('exit', (code: number) => resolve(code)),
+    );
+
+    transport.terminate();
+
+    await expect(exited).resolves.toBe(0);
+  });
+});
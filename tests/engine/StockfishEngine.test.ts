@@ -68,3 +68,42 @@ describe('StockfishEngine (mock transport)', () => {
     engine.terminate();
   });
 });
+
+describe('StockfishEngine streaming analysis', () => {
+  const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+  it('streams deepening lines of an infinite search until stopped', async () => {
+    const engine = new StockfishEngine({ throttleMs: 0 });
+    const stream = engine.analyzeStream({ fen: START_FEN, infinite: true });
+
+    const depths: number[] = [];
+    for await (const update of stream) {
+      depths.push(update.depth);
+      if (update.depth >= 3) break;
+    }
+
+    const result = await stream.result;
+    expect(depths).toEqual([1, 2, 3]);
+    expect(result.bestMove).toBeTruthy();
+    expect(stream.isDone).toBe(true);
+    engine.terminate();
+  });
+
+  it('restarts when another position is analysed mid-search', async () => {
+    const engine = new StockfishEngine({ throttleMs: 0 });
+    const results: string[] = [];
+    engine.on('result', (result) => results.push(result.fen));
+
+    const first = engine.analyzeStream({ fen: START_FEN, infinite: true });
+    await new Promise((resolve) => first.subscribe(resolve));
+    const second = engine.analyzeStream({ fen: AFTER_E4, depth: 12 });
+
+    await expect(first.result).resolves.toMatchObject({ fen: START_FEN });
+    const final = await second.result;
+    expect(final.fen).toBe(AFTER_E4);
+    expect(final.lines[0]?.depth).toBe(12);
+    expect(results.at(-1)).toBe(AFTER_E4);
+    expect(results.filter((fen) => fen === START_FEN).length).toBeLessThanOrEqual(1);
+    engine.terminate();
+  });
+});
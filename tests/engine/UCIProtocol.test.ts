@@ -2,7 +2,9 @@ import {
   buildGoCommand,
   buildPositionCommand,
   parseBestMove,
+  parseId,
   parseInfo,
+  parseOption,
 } from '../../src/engine/UCIProtocol';
 
 describe('UCIProtocol', () => {
@@ -16,6 +18,7 @@ describe('UCIProtocol', () => {
     expect(buildGoCommand({ depth: 14, movetimeMs: 500, multiPv: 2 })).toBe(
       'go depth 14 movetime 500 multipv 2',
     );
+    expect(buildGoCommand({ depth: 14, multiPv: 3, infinite: true })).toBe('go infinite multipv 3');
   });
 
   it('parses info lines with centipawn scores', () => {
@@ -46,4 +49,35 @@ describe('UCIProtocol', () => {
     const bestMove = parseBestMove('bestmove e2e4 ponder e7e5');
     expect(bestMove).toEqual({ move: 'e2e4', ponder: 'e7e5' });
   });
+
+  it('parses the identity and advertised options', () => {
+    expect(parseId('id name Stockfish 16')).toEqual({ name: 'Stockfish 16' });
+    expect(parseId('id author the Stockfish developers')).toEqual({
+      author: 'the Stockfish developers',
+    });
+    expect(parseOption('option name Skill Level type spin default 20 min 0 max 20')).toEqual({
+      name: 'Skill Level',
+      type: 'spin',
+      default: 20,
+      min: 0,
+      max: 20,
+    });
+    expect(
+      parseOption('option name Style type combo default Normal var Solid var Normal var Risky'),
+    ).toEqual({
+      name: 'Style',
+      type: 'combo',
+      default: 'Normal',
+      vars: ['Solid', 'Normal', 'Risky'],
+    });
+    expect(parseOption('option name NalimovPath type string default <empty>')).toEqual({
+      name: 'NalimovPath',
+      type: 'string',
+      default: '',
+    });
+    expect(parseOption('option name Ponder type check default true')).toMatchObject({
+      default: true,
+    });
+    expect(parseOption('info depth 1 score cp 10')).toBeNull();
+  });
 });
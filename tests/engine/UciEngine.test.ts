@@ -0,0 +1,263 @@
+import { EngineOptionError } from '../../src/core/errors';
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import { EngineAnalysisStream } from '../../src/engine/EngineAnalysisStream';
+import { UciEngine } from '../../src/engine/UciEngine';
+import type { EngineCreateOptions, EngineTransport } from '../../src/engine/types';
+import { createEngineExtension } from '../../src/extensions/createEngineExtension';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const LC0_HANDSHAKE = [
+  'id name Lc0 v0.31.0',
+  'id author The LCZero Authors.',
+  'option name WeightsFile type string default <autodiscover>',
+  'option name Backend type combo default blas var blas var eigen var onnx-cpu',
+  'option name Threads type spin default 2 min 1 max 128',
+  'option name VerboseMoveStats type check default false',
+  'option name Clear Tree type button',
+  'option name UCI_Chess960 type check default false',
+  'uciok',
+];
+
+/**
+ * Replies to each command with the scripted lines, asynchronously like a worker, or after the
+ * given delay for commands the engine takes time to answer
+ */
+class ScriptedTransport implements EngineTransport {
+  readonly sent: string[] = [];
+  private listener: ((message: string) => void) | null = null;
+
+  constructor(
+    private readonly script: Record<string, string[]>,
+    private readonly delaysMs: Partial<Record<string, number>> = {},
+  ) {}
+
+  onMessage(callback: (message: string) => void): void {
+    this.listener = callback;
+  }
+
+  onError(): void {}
+
+  postMessage(message: string): void {
+    this.sent.push(message);
+    const [command = ''] = message.split(' ');
+    const replies = this.script[command] ?? [];
+    const deliver = () => {
+      for (const reply of replies) this.listener?.(reply);
+    };
+    const delayMs = this.delaysMs[command];
+    if (delayMs === undefined) {
+      void Promise.resolve().then(deliver);
+    } else {
+      setTimeout(deliver, delayMs);
+    }
+  }
+
+  terminate(): void {
+    this.listener = null;
+  }
+}
+
+function createLc0(options: EngineCreateOptions = {}, delaysMs: Record<string, number> = {}) {
+  const transport = new ScriptedTransport(
+    {
+      uci: LC0_HANDSHAKE,
+      isready: ['readyok'],
+      go: [
+        'info depth 5 multipv 1 score cp 31 nodes 420 pv d2d4 g8f6',
+        'bestmove d2d4 ponder g8f6',
+      ],
+    },
+    delaysMs,
+  );
+  const engine = new UciEngine({ ...options, transportFactory: () => transport });
+  return { engine, transport };
+}
+
+describe('UciEngine', () => {
+  it('reads the identity and option schema during the handshake', async () => {
+    const { engine } = createLc0();
+    const ready = jest.fn();
+    engine.on('ready', ready);
+
+    await engine.init();
+
+    const info = engine.getInfo();
+    expect(info).toMatchObject({ name: 'Lc0 v0.31.0', author: 'The LCZero Authors.' });
+    expect(info.options).toHaveLength(6);
+    expect(engine.getOption('backend')).toEqual({
+      name: 'Backend',
+      type: 'combo',
+      default: 'blas',
+      vars: ['blas', 'eigen', 'onnx-cpu'],
+    });
+    expect(engine.getOption('WeightsFile')).toMatchObject({ default: '<autodiscover>' });
+    expect(ready.mock.calls[0]?.[0].engine.name).toBe('Lc0 v0.31.0');
+    engine.terminate();
+  });
+
+  it('sends configured options checked against the schema', async () => {
+    const { engine, transport } = createLc0({
+      threads: 500,
+      skillLevel: 5,
+      variant: 'chess960',
+      uciOptions: { Backend: 'eigen' },
+    });
+    engine.setOption('Clear Tree');
+
+    await engine.init();
+
+    expect(transport.sent.filter((message) => message.startsWith('setoption'))).toEqual([
+      'setoption name Threads value 128',
+      'setoption name UCI_Chess960 value true',
+      'setoption name Backend value eigen',
+      'setoption name Clear Tree',
+    ]);
+    expect(() => engine.setOption('Hash', 64)).toThrow(EngineOptionError);
+    expect(() => engine.setOption('Backend', 'cuda')).toThrow(
+      expect.objectContaining({
+        code: 'ENGINE_INVALID_OPTION_VALUE',
+        details: expect.objectContaining({ expected: 'one of blas, eigen, onnx-cpu' }),
+      }),
+    );
+    expect(() => engine.setOption('Threads', 1.5)).toThrow(EngineOptionError);
+    engine.terminate();
+  });
+
+  it('selects the variant of multi-variant engines through UCI_Variant', async () => {
+    const transport = new ScriptedTransport({
+      uci: [
+        'id name Fairy-Stockfish 14',
+        'option name UCI_Chess960 type check default false',
+        'option name UCI_Variant type combo default chess var chess var atomic var antichess',
+        'uciok',
+      ],
+      isready: ['readyok'],
+    });
+    const engine = new UciEngine({ variant: 'atomic', transportFactory: () => transport });
+
+    await engine.init();
+
+    expect(transport.sent.filter((message) => message.startsWith('setoption'))).toEqual([
+      'setoption name UCI_Variant value atomic',
+    ]);
+    engine.terminate();
+
+    // Engines without the option analyse the standard game
+    const { engine: lc0, transport: lc0Transport } = createLc0({ variant: 'antichess' });
+    await lc0.init();
+    expect(lc0Transport.sent.some((message) => message.startsWith('setoption'))).toBe(false);
+    lc0.terminate();
+  });
+
+  it('rejects an invalid configuration when starting', async () => {
+    const { engine } = createLc0({ uciOptions: { VerboseMoveStats: 'yes' } });
+
+    await expect(engine.init()).rejects.toMatchObject({ code: 'ENGINE_INVALID_OPTION_VALUE' });
+    engine.terminate();
+  });
+
+  it('analyses positions with any engine', async () => {
+    const { engine, transport } = createLc0();
+
+    const result = await engine.analyze({ fen: START_FEN, depth: 5 });
+
+    expect(transport.sent).toContain(`position fen ${START_FEN}`);
+    expect(transport.sent).toContain('go depth 5');
+    expect(result).toMatchObject({ bestMove: 'd2d4', ponder: 'g8f6' });
+    expect(result.lines[0]).toMatchObject({ depth: 5, score: { type: 'cp', value: 31 } });
+    engine.terminate();
+  });
+
+  it('lets searches run past the stop timeout until their movetime is spent', async () => {
+    const { engine } = createLc0({ stopTimeoutMs: 20 }, { go: 100 });
+
+    await expect(engine.analyze({ fen: START_FEN, movetimeMs: 100 })).resolves.toMatchObject({
+      bestMove: 'd2d4',
+    });
+    await expect(engine.analyze({ fen: START_FEN, depth: 5 })).resolves.toMatchObject({
+      bestMove: 'd2d4',
+    });
+    engine.terminate();
+  });
+
+  it('times out an engine that does not answer once its search is over', async () => {
+    const { engine } = createLc0({ stopTimeoutMs: 20 }, { go: 1000 });
+
+    await expect(engine.analyze({ fen: START_FEN, movetimeMs: 30 })).rejects.toThrow(
+      'Engine timeout',
+    );
+
+    const stream = engine.analyzeStream({ fen: START_FEN, infinite: true });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    stream.stop();
+    await expect(stream.result).rejects.toThrow('Engine timeout');
+    engine.terminate();
+  });
+});
+
+describe('createEngineExtension with a custom engine', () => {
+  it('analyses the board with the provided engine', async () => {
+    const container = document.createElement('div');
+    document.body.append(container);
+    const { engine } = createLc0();
+    const result = new Promise((resolve) => {
+      const board = new NeoChessBoard(container, {
+        extensions: [createEngineExtension({ createEngine: () => engine, onResult: resolve })],
+      });
+      board.on('engine:result', () => board.destroy());
+    });
+
+    await expect(result).resolves.toMatchObject({ fen: START_FEN, bestMove: 'd2d4' });
+    container.remove();
+  });
+
+  it('starts the default engine in the variant of the board', async () => {
+    const container = document.createElement('div');
+    document.body.append(container);
+    let resolveReady: (engine: UciEngine) => void = () => {};
+    const ready = new Promise<UciEngine>((resolve) => {
+      resolveReady = resolve;
+    });
+    const board = new NeoChessBoard(container, {
+      variant: 'atomic',
+      extensions: [createEngineExtension({ autoStart: false, onReady: resolveReady })],
+    });
+
+    expect(board.getVariant()).toBe('atomic');
+    expect(Reflect.get(await ready, 'options')).toMatchObject({ variant: 'atomic' });
+    board.destroy();
+    container.remove();
+  });
+
+  it('analyses a position again after its search failed', async () => {
+    const container = document.createElement('div');
+    document.body.append(container);
+    const { engine } = createLc0();
+    jest.spyOn(engine, 'analyzeStream').mockImplementationOnce(({ fen }) => {
+      const stream = new EngineAnalysisStream(fen, { throttleMs: 0, onStop: () => {} });
+      stream.fail(new Error('Engine timeout'));
+      return stream;
+    });
+    const onError = jest.fn();
+    const result = new Promise((resolve) => {
+      const board = new NeoChessBoard(container, {
+        extensions: [
+          createEngineExtension({
+            createEngine: () => engine,
+            onResult: resolve,
+            onError: (error) => {
+              onError(error);
+              board.setFEN(START_FEN);
+            },
+          }),
+        ],
+      });
+      board.on('engine:result', () => board.destroy());
+    });
+
+    await expect(result).resolves.toMatchObject({ fen: START_FEN, bestMove: 'd2d4' });
+    expect(onError).toHaveBeenCalledWith(new Error('Engine timeout'));
+    container.remove();
+  });
+});
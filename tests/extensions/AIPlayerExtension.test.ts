@@ -0,0 +1,121 @@
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import { PolyglotBook } from '../../src/core/Polyglot';
+import { START_FEN } from '../../src/core/utils';
+import type { UciEngine } from '../../src/engine/UciEngine';
+import type { EngineAnalysisRequest, EngineAnalysisResult } from '../../src/engine/types';
+import {
+  createAIPlayerExtension,
+  type AIPlayerExtensionConfig,
+} from '../../src/extensions/createAIPlayerExtension';
+import { buildPolyglotBook } from '../fixtures/polyglot';
+
+function createFakeEngine(lines: Array<[string, number]>) {
+  const engine = {
+    init: jest.fn(() => Promise.resolve()),
+    analyze: jest.fn(
+      (request: EngineAnalysisRequest): Promise<EngineAnalysisResult> =>
+        Promise.resolve({
+          fen: request.fen,
+          lines: lines.map(([move, value], index) => ({
+            id: index + 1,
+            depth: request.depth ?? 1,
+            score: { type: 'cp', value },
+            pv: [move],
+          })),
+          bestMove: lines[0]?.[0],
+        }),
+    ),
+    getBestMove: jest.fn(() => Promise.resolve(lines[0]?.[0] ?? null)),
+    terminate: jest.fn(),
+  };
+  return engine;
+}
+
+describe('createAIPlayerExtension', () => {
+  let container: HTMLDivElement;
+  let board: NeoChessBoard;
+
+  const createBoard = (
+    engine: ReturnType<typeof createFakeEngine>,
+    config: AIPlayerExtensionConfig,
+  ) => {
+    const onMoveComplete = jest.fn();
+    board = new NeoChessBoard(container, {
+      extensions: [
+        createAIPlayerExtension({
+          aiColor: 'white',
+          createEngine: () => engine as unknown as UciEngine,
+          onMoveComplete,
+          ...config,
+        }),
+      ],
+    });
+    return onMoveComplete;
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.append(container);
+  });
+
+  afterEach(() => {
+    board.destroy();
+    container.remove();
+  });
+
+  it('plays the best move at once by default', async () => {
+    const engine = createFakeEngine([['e2e4', 30]]);
+    const onMoveComplete = createBoard(engine, {});
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(engine.getBestMove).toHaveBeenCalledWith(expect.any(String), 400);
+    expect(onMoveComplete).toHaveBeenCalledWith('e2e4');
+    expect(board.getTurn()).toBe('b');
+  });
+
+  it('chooses among the candidate lines of its level after thinking', async () => {
+    const engine = createFakeEngine([
+      ['e2e4', 30],
+      ['d2d4', 25],
+    ]);
+    const onMoveComplete = createBoard(engine, {
+      level: 2,
+      thinkTime: { minMs: 30, maxMs: 30 },
+      random: () => 0.99,
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(engine.analyze).toHaveBeenCalledWith(expect.objectContaining({ depth: 2, multiPv: 4 }));
+    expect(onMoveComplete).not.toHaveBeenCalled();
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(onMoveComplete).toHaveBeenCalledWith('d2d4');
+  });
+
+  it('drops its move when the position changes while thinking', async () => {
+    const engine = createFakeEngine([['e2e4', 30]]);
+    const onMoveComplete = createBoard(engine, {
+      personality: 'solid',
+      thinkTime: { minMs: 30, maxMs: 30 },
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(engine.analyze).toHaveBeenCalledTimes(1);
+    board.setFEN('rnbqkbnr/pppppppp/8/8/8/5N2/PPPPPPPP/RNBQKB1R w KQkq - 1 1');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(onMoveComplete).not.toHaveBeenCalled();
+  });
+
+  it('plays book moves before asking the engine', async () => {
+    const engine = createFakeEngine([['e2e4', 30]]);
+    const book = new PolyglotBook(buildPolyglotBook([[START_FEN, 'c2c4', 1]]));
+    const onMoveComplete = createBoard(engine, { book });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onMoveComplete).toHaveBeenCalledWith('c2c4');
+    expect(engine.getBestMove).not.toHaveBeenCalled();
+  });
+});
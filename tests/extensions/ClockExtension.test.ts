@@ -19,6 +19,7 @@ type SetupResult = {
     resetClock: jest.Mock<void, [Partial<ClockConfig> | null | undefined]>;
     setClockTime: jest.Mock<void, [unknown, number]>;
     addClockTime: jest.Mock<void, [unknown, number]>;
+    getRecordedClockTimes: jest.Mock<{ w?: number; b?: number } | null, []>;
   };
   api: ClockExtensionApi;
   handlers: HandlerMap;
@@ -67,6 +68,7 @@ function setupExtension(
     resetClock: jest.fn(),
     setClockTime: jest.fn(),
     addClockTime: jest.fn(),
+    getRecordedClockTimes: jest.fn<{ w?: number; b?: number } | null, []>(() => null),
   };
 
   let api: ClockExtensionApi | null = null;
@@ -248,6 +250,36 @@ describe('clock extension', () => {
     destroy();
   });
 
+  it('shows the times recorded in the PGN while the clock is stopped', () => {
+    const { root, board, emit, destroy } = setupExtension({}, BASE_STATE);
+    const readTimes = () =>
+      ['white', 'black'].map(
+        (side) => root.querySelector(`.neo-clock-${side} .neo-clock-time`)?.textContent,
+      );
+
+    expect(readTimes()).toEqual(['1:00', '1:00']);
+
+    board.getRecordedClockTimes.mockReturnValue({ w: 192_000, b: 185_000 });
+    emit('update', {});
+    expect(readTimes()).toEqual(['3:12', '3:05']);
+
+    emit('clock:change', { ...BASE_STATE, isRunning: true, isPaused: false, active: 'w' });
+    expect(readTimes()).toEqual(['1:00', '1:00']);
+
+    destroy();
+  });
+
+  it('ignores recorded times when showRecordedTimes is disabled', () => {
+    const { root, board, emit, destroy } = setupExtension({ showRecordedTimes: false }, BASE_STATE);
+
+    board.getRecordedClockTimes.mockReturnValue({ w: 192_000 });
+    emit('update', {});
+    const whiteTimeNode = root.querySelector('.neo-clock-white .neo-clock-time') as HTMLElement;
+    expect(whiteTimeNode.textContent).toBe('1:00');
+
+    destroy();
+  });
+
   it('cleans up DOM nodes on destroy', () => {
     const { extension, context, root } = setupExtension();
     expect(root.querySelector('.neo-clock-display')).not.toBeNull();
@@ -0,0 +1,109 @@
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import type { Arrow } from '../../src/core/types';
+import { START_FEN } from '../../src/core/utils';
+import type { EngineAnalysisResult } from '../../src/engine/types';
+import {
+  createEvaluationBarExtension,
+  type EvaluationBarExtensionConfig,
+} from '../../src/extensions/createEvaluationBarExtension';
+
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1';
+
+function getArrows(board: NeoChessBoard): Arrow[] {
+  const drawingManager = Reflect.get(board, 'drawingManager') as { getArrows(): Arrow[] };
+  return drawingManager.getArrows();
+}
+
+describe('createEvaluationBarExtension', () => {
+  let container: HTMLDivElement;
+  let board: NeoChessBoard;
+
+  const createBoard = (config: EvaluationBarExtensionConfig = {}) => {
+    board = new NeoChessBoard(container, { extensions: [createEvaluationBarExtension(config)] });
+    return board;
+  };
+  const bar = () => container.querySelector<HTMLElement>('.neo-eval-bar');
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.append(container);
+  });
+
+  afterEach(() => {
+    board.destroy();
+    container.remove();
+  });
+
+  it('shows the evaluation from White and follows the orientation', () => {
+    createBoard();
+    expect(bar()?.dataset.orientation).toBe('white');
+
+    board.bus.emit('engine:result', {
+      fen: START_FEN,
+      lines: [{ id: 1, depth: 20, score: { type: 'cp', value: -150 }, pv: ['e2e4'] }],
+    });
+
+    const fill = bar()?.querySelector<HTMLElement>('.neo-eval-bar-fill');
+    expect(Number.parseFloat(fill?.style.height ?? '')).toBeLessThan(50);
+    expect(bar()?.textContent).toBe('-1.5');
+    expect(bar()?.dataset.advantage).toBe('b');
+
+    board.setOrientation('black');
+    expect(bar()?.dataset.orientation).toBe('black');
+  });
+
+  it('fills the bar for a forced mate', () => {
+    createBoard({ formatScore: ({ score }) => `${score.type} ${score.value}` });
+    board.setFEN(AFTER_E4, true);
+
+    board.bus.emit('engine:result', {
+      fen: board.getCurrentFEN(),
+      lines: [{ id: 1, depth: 20, score: { type: 'mate', value: 3 }, pv: [] }],
+    });
+
+    expect(bar()?.querySelector<HTMLElement>('.neo-eval-bar-fill')?.style.height).toBe('0%');
+    expect(bar()?.textContent).toBe('mate -3');
+  });
+
+  it('draws the principal variations as numbered arrows', () => {
+    createBoard({ maxPvMoves: 2, lineColors: ['green', 'blue'] });
+    board.addArrow({ from: 'a2', to: 'a4', color: 'red' });
+    const result: EngineAnalysisResult = {
+      fen: START_FEN,
+      lines: [
+        { id: 2, depth: 20, score: { type: 'cp', value: 20 }, pv: ['d2d4', 'd7d5'] },
+        { id: 1, depth: 20, score: { type: 'cp', value: 30 }, pv: ['e2e4', 'e7e5', 'g1f3'] },
+      ],
+    };
+
+    board.bus.emit('engine:result', result);
+
+    expect(getArrows(board).map(({ from, to, color, label }) => [from + to, color, label])).toEqual(
+      [
+        ['a2a4', 'red', undefined],
+        ['d2d4', 'blue', '1'],
+        ['d7d5', 'blue', '2'],
+        ['e2e4', 'green', '1'],
+        ['e7e5', 'green', '2'],
+      ],
+    );
+
+    board.bus.emit('engine:result', { ...result, lines: result.lines.slice(1) });
+    expect(getArrows(board)).toHaveLength(3);
+
+    board.submitMove('e2e4');
+    expect(getArrows(board).filter((arrow) => arrow.label)).toEqual([]);
+  });
+
+  it('ignores results for another position and can hide the bar', () => {
+    createBoard({ showBar: false });
+
+    board.bus.emit('engine:result', {
+      fen: AFTER_E4,
+      lines: [{ id: 1, depth: 20, score: { type: 'cp', value: 10 }, pv: ['e7e5'] }],
+    });
+
+    expect(bar()).toBeNull();
+    expect(getArrows(board)).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import { PolyglotBook, type PolyglotMove } from '../../src/core/Polyglot';
+import type { Arrow } from '../../src/core/types';
+import { START_FEN } from '../../src/core/utils';
+import { createOpeningBookExtension } from '../../src/extensions/createOpeningBookExtension';
+import { buildPolyglotBook } from '../fixtures/polyglot';
+
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+function getArrows(board: NeoChessBoard): Arrow[] {
+  const drawingManager = Reflect.get(board, 'drawingManager') as { getArrows(): Arrow[] };
+  return drawingManager.getArrows();
+}
+
+describe('createOpeningBookExtension', () => {
+  const book = new PolyglotBook(
+    buildPolyglotBook([
+      [START_FEN, 'e2e4', 75],
+      [START_FEN, 'd2d4', 25],
+      [AFTER_E4, 'c7c5', 10],
+    ]),
+  );
+  let container: HTMLDivElement;
+  let board: NeoChessBoard;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.append(container);
+  });
+
+  afterEach(() => {
+    board.destroy();
+    container.remove();
+  });
+
+  it('draws the book moves weighted by frequency and follows the game', () => {
+    const onBookMoves = jest.fn<void, [PolyglotMove[], string]>();
+    board = new NeoChessBoard(container, {
+      extensions: [createOpeningBookExtension({ book, onBookMoves })],
+    });
+
+    const [d4, e4] = getArrows(board);
+    expect([d4.from + d4.to, d4.label, e4.from + e4.to, e4.label]).toEqual([
+      'd2d4',
+      '25',
+      'e2e4',
+      '75',
+    ]);
+    expect(e4.width).toBeGreaterThan(d4.width ?? 0);
+    expect(e4.opacity).toBeGreaterThan(d4.opacity ?? 0);
+
+    board.submitMove('e2e4');
+    expect(getArrows(board).map((arrow) => arrow.from + arrow.to)).toEqual(['c7c5']);
+
+    board.submitMove('c7c5');
+    expect(getArrows(board)).toEqual([]);
+    expect(onBookMoves).toHaveBeenCalledTimes(3);
+    expect(onBookMoves).toHaveBeenLastCalledWith([], expect.any(String));
+  });
+});
@@ -0,0 +1,70 @@
+import { NeoChessBoard } from '../../src/core/NeoChessBoard';
+import { OpeningExplorer, type OpeningPositionStats } from '../../src/core/OpeningExplorer';
+import type { Arrow } from '../../src/core/types';
+import { createOpeningExplorerExtension } from '../../src/extensions/createOpeningExplorerExtension';
+
+function getArrows(board: NeoChessBoard): Arrow[] {
+  const drawingManager = Reflect.get(board, 'drawingManager') as { getArrows(): Arrow[] };
+  return drawingManager.getArrows();
+}
+
+describe('createOpeningExplorerExtension', () => {
+  const explorer = new OpeningExplorer();
+  explorer.addGame(['e4', 'e5'], { result: '1-0', whiteElo: 2100, blackElo: 1900 });
+  explorer.addGame(['e4', 'c5'], { result: '0-1' });
+  explorer.addGame(['d4'], { result: '1/2-1/2' });
+  let container: HTMLDivElement;
+  let board: NeoChessBoard;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.append(container);
+  });
+
+  afterEach(() => {
+    board.destroy();
+    container.remove();
+  });
+
+  it('renders the continuations as a table and arrows and follows the game', () => {
+    const onPositionStats = jest.fn<void, [OpeningPositionStats | null, string]>();
+    board = new NeoChessBoard(container, {
+      extensions: [createOpeningExplorerExtension({ explorer, onPositionStats })],
+    });
+
+    const rows = [...container.querySelectorAll('.neo-opening-explorer tbody tr')].map((row) =>
+      [...row.querySelectorAll('td')].map((cell) => cell.textContent),
+    );
+    expect(rows).toEqual([
+      ['e4', '2', '50%', '0%', '50%', '2000'],
+      ['d4', '1', '0%', '100%', '0%', '-'],
+    ]);
+    const [d4, e4] = getArrows(board);
+    expect([d4.from + d4.to, e4.from + e4.to]).toEqual(['d2d4', 'e2e4']);
+    expect(e4.width).toBeGreaterThan(d4.width ?? 0);
+
+    board.submitMove('e2e4');
+    expect(getArrows(board).map((arrow) => arrow.from + arrow.to)).toEqual(['c7c5', 'e7e5']);
+
+    board.submitMove('a7a6');
+    expect(getArrows(board)).toEqual([]);
+    expect(container.querySelector('.neo-opening-explorer')?.hasAttribute('data-empty')).toBe(true);
+    expect(onPositionStats).toHaveBeenCalledTimes(3);
+    expect(onPositionStats).toHaveBeenLastCalledWith(null, expect.any(String));
+  });
+
+  it('renders into a custom container and removes the table on destroy', () => {
+    const panel = document.createElement('div');
+    board = new NeoChessBoard(container, {
+      extensions: [
+        createOpeningExplorerExtension({ explorer, container: panel, showArrows: false }),
+      ],
+    });
+
+    expect(panel.querySelectorAll('tbody tr')).toHaveLength(2);
+    expect(getArrows(board)).toEqual([]);
+    board.destroy();
+    expect(panel.querySelector('table')).toBeNull();
+    board = new NeoChessBoard(container);
+  });
+});
@@ -0,0 +1,24 @@
+import { polyglotKey } from '../../src/core/Polyglot';
+
+function encodeMove(move: string): number {
+  const file = (index: number) => 'abcdefgh'.indexOf(move[index]);
+  const rank = (index: number) => Number(move[index]) - 1;
+  return file(2) | (rank(3) << 3) | (file(0) << 6) | (rank(1) << 9);
+}
+
+/**
+ * Polyglot book bytes holding `[fen, uciMove, weight]` entries, sorted by key
+ */
+export function buildPolyglotBook(entries: Array<[string, string, number]>): Uint8Array {
+  const sorted = entries
+    .map(([fen, move, weight]) => ({ key: polyglotKey(fen), move: encodeMove(move), weight }))
+    .sort((a, b) => (a.key < b.key ? -1 : Number(a.key > b.key)));
+  const bytes = new Uint8Array(sorted.length * 16);
+  const view = new DataView(bytes.buffer);
+  for (const [index, entry] of sorted.entries()) {
+    view.setBigUint64(index * 16, entry.key);
+    view.setUint16(index * 16 + 8, entry.move);
+    view.setUint16(index * 16 + 10, entry.weight);
+  }
+  return bytes;
+}
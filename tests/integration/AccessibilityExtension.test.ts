@@ -77,4 +77,26 @@ describe('AccessibilityExtension', () => {
 
     board.destroy();
   });
+
+  test('announces and lists moves with the configured notation locale', () => {
+    const board = new NeoChessBoard(mount, {
+      interactive: false,
+      extensions: [createAccessibilityExtension({ notationLocale: 'fr' })],
+    });
+
+    const extensionRoot = mount.querySelector(
+      '[data-accessibility-extension="true"]',
+    ) as HTMLElement;
+    const status = extensionRoot.querySelector('[data-status="true"]') as HTMLElement;
+    const moveList = extensionRoot.querySelector('[data-move-list="true"]') as HTMLOListElement;
+
+    board.submitMove('e2e4');
+    board.submitMove('e7e5');
+    board.submitMove('g1f3');
+
+    expect(moveList.textContent).toContain('2. Cf3');
+    expect(status.textContent).toContain('Move played: Cf3, g1 to f3.');
+
+    board.destroy();
+  });
 });
@@ -10,13 +10,14 @@ export default defineConfig({
       entry: {
         index: path.resolve(__dirname, 'src/index.ts'),
         react: path.resolve(__dirname, 'src/react/index.ts'),
+        node: path.resolve(__dirname, 'src/node.ts'),
       },
       name: 'NeoChessBoard',
       formats: ['es', 'cjs'],
     },
     emptyOutDir: false,
     rollupOptions: {
-      external: ['react', 'react-dom', 'chess.js'],
+      external: ['react', 'react-dom', 'chess.js', /^node:/],
       output: {
         globals: {
           react: 'React',